@@ -10,6 +10,12 @@ CONN_FILE="$HOME/.bullybuddy/connection.json"
 if [[ -z "$BB_TOKEN" && -f "$CONN_FILE" ]]; then
   BB_URL="$(jq -r '.url' "$CONN_FILE")"
   BB_TOKEN="$(jq -r '.token' "$CONN_FILE")"
+  BB_TLS_CERT_FILE="$(jq -r '.cert // empty' "$CONN_FILE")"
+fi
+
+# Built-in TLS with a self-signed certificate: trust exactly that certificate
+if [[ -n "$BB_TLS_CERT_FILE" ]]; then
+  export CURL_CA_BUNDLE="$BB_TLS_CERT_FILE"
 fi
 
 BB_URL="${BB_URL:-http://127.0.0.1:18900}"
@@ -90,6 +96,69 @@ case "$cmd" in
     echo "Killed session: $id"
     ;;
     
+  restart|r)
+    id="$1"
+    if [[ -z "$id" ]]; then
+      echo "Usage: bullybuddy restart <id>"
+      exit 1
+    fi
+    curl -sf -X POST "$BB_URL/api/sessions/$id/restart" -H "$AUTH" > /dev/null
+    echo "Restarted session: $id"
+    ;;
+
+  queue|q)
+    id="$1"
+    shift || true
+    text="$*"
+    if [[ -z "$id" ]]; then
+      echo "Usage: bullybuddy queue <id> [task]"
+      exit 1
+    fi
+    if [[ -n "$text" ]]; then
+      curl -sf -X POST "$BB_URL/api/sessions/$id/tasks" -H "$AUTH" -H "$CT" \
+        -d "$(jq -n --arg t "$text" '{task: $t}')" | jq -r '"Queued task \(.data.id)"'
+    else
+      echo "=== Tasks $id ==="
+      curl -sf "$BB_URL/api/sessions/$id/tasks" -H "$AUTH" | jq -r '.data[] | "\(.id) \(.status) \(.text[0:80])"'
+    fi
+    ;;
+
+  permission|perm|p)
+    id="$1"
+    decision="$2"
+    if [[ -z "$id" ]]; then
+      echo "Usage: bullybuddy permission <id> [allow|always|deny]"
+      exit 1
+    fi
+    case "$decision" in
+      "")
+        curl -sf "$BB_URL/api/sessions/$id" -H "$AUTH" | jq -r '.data.pendingPermission // empty
+          | "\(.tool // "-") \(.command // .filePath // "")\n\(.question)", (.options[] | "  \(.key). \(.label)")'
+        ;;
+      allow|always|deny)
+        [[ "$decision" == "allow" ]] && decision="allow_once"
+        [[ "$decision" == "always" ]] && decision="allow_always"
+        curl -s -X POST "$BB_URL/api/sessions/$id/permission" -H "$AUTH" -H "$CT" \
+          -d "{\"decision\":\"$decision\"}" | jq -r 'if .ok then "Answered: \(.data.option.label // "dismissed")" else "Error: \(.error)" end'
+        ;;
+      *)
+        echo "Usage: bullybuddy permission <id> [allow|always|deny]"
+        exit 1
+        ;;
+    esac
+    ;;
+
+  share)
+    id="$1"
+    ttl="${2:-3600}"
+    if [[ -z "$id" ]]; then
+      echo "Usage: bullybuddy share <id> [ttl-seconds]"
+      exit 1
+    fi
+    curl -s -X POST "$BB_URL/api/sessions/$id/share" -H "$AUTH" -H "$CT" -d "{\"ttl\":$ttl}" \
+      | jq -r --arg url "$BB_URL" 'if .ok then "Read-only until \(.data.expiresAt):\n\($url)/?token=\(.data.token)" else "Error: \(.error)" end'
+    ;;
+
   audit|a)
     limit="${1:-20}"
     echo "=== Audit Log (last $limit) ==="
@@ -106,6 +175,15 @@ case "$cmd" in
     echo "=== Transcript $id ==="
     curl -sf "$BB_URL/api/sessions/$id/transcript?last=$limit" -H "$AUTH" | jq -r '.data[] | "[\(.role)] \(.content)"'
     ;;
+
+  screen)
+    id="$1"
+    if [[ -z "$id" ]]; then
+      echo "Usage: bullybuddy screen <id>"
+      exit 1
+    fi
+    curl -sf "$BB_URL/api/sessions/$id/screen" -H "$AUTH" | jq -r '.data.text' || echo "(session not running)"
+    ;;
     
   url|u)
     echo "Local:  $BB_URL/?token=$BB_TOKEN"
@@ -124,9 +202,14 @@ BullyBuddy Commands:
   send, input, i     - Send input <id> <text>
   output, out, o     - Show output <id> [lines]
   kill, k, stop      - Kill session <id>
+  restart, r         - Restart exited session <id>
+  queue, q           - Queue task <id> <text>, or list tasks <id>
+  permission, p      - Show prompt <id>, or answer <id> allow|always|deny
+  share              - Read-only link to <id> [ttl-seconds]
   url, u             - Show dashboard URL
   audit, a           - Audit log [limit]
   transcript, t      - Transcript <id> [limit]
+  screen             - Terminal screen <id>
   help, h            - This help
 EOF
     ;;
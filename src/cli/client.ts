@@ -1,11 +1,16 @@
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
+import { request as httpsRequest } from 'https';
+import type { ClientOptions } from 'ws';
 import type { ApiResponse } from '../server/types.js';
+import { connectPinned } from '../server/tls.js';
 
 const CONN_FILE = join(homedir(), '.bullybuddy', 'connection.json');
 
-let BASE = `http://${process.env.BB_HOST ?? '127.0.0.1'}:${process.env.BB_PORT ?? '18900'}`;
+// SHA-256 fingerprint of the server's (usually self-signed) TLS certificate
+let FINGERPRINT = process.env.BB_TLS_FINGERPRINT ?? '';
+let BASE = `${FINGERPRINT ? 'https' : 'http'}://${process.env.BB_HOST ?? '127.0.0.1'}:${process.env.BB_PORT ?? '18900'}`;
 let TOKEN = process.env.BB_TOKEN ?? '';
 
 // Auto-discover from connection.json if no env vars set
@@ -14,9 +19,39 @@ if (!TOKEN && existsSync(CONN_FILE)) {
     const conn = JSON.parse(readFileSync(CONN_FILE, 'utf-8'));
     if (conn.url) BASE = conn.url;
     if (conn.token) TOKEN = conn.token;
+    if (conn.fingerprint && !FINGERPRINT) FINGERPRINT = conn.fingerprint;
   } catch { /* ignore */ }
 }
 
+/** HTTPS with a pinned certificate: checked before the request (and token) is sent. */
+function isPinned(): boolean {
+  return !!FINGERPRINT && new URL(BASE).protocol === 'https:';
+}
+
+function pinnedSocket() {
+  const url = new URL(BASE);
+  return connectPinned(url.hostname, Number(url.port || 443), FINGERPRINT);
+}
+
+async function pinnedRequest<T>(path: string, method: string, headers: Record<string, string>, body?: unknown): Promise<ApiResponse<T>> {
+  const socket = await pinnedSocket();
+  return new Promise((resolve, reject) => {
+    const req = httpsRequest(`${BASE}${path}`, { method, headers, createConnection: () => socket }, (res) => {
+      const chunks: Buffer[] = [];
+      res.on('data', (chunk: Buffer) => chunks.push(chunk));
+      res.on('end', () => {
+        try {
+          resolve(JSON.parse(Buffer.concat(chunks).toString()) as ApiResponse<T>);
+        } catch (err) {
+          reject(err);
+        }
+      });
+    });
+    req.on('error', reject);
+    req.end(body ? JSON.stringify(body) : undefined);
+  });
+}
+
 export async function api<T = unknown>(
   path: string,
   method: string = 'GET',
@@ -25,6 +60,7 @@ export async function api<T = unknown>(
   const headers: Record<string, string> = {};
   if (body) headers['Content-Type'] = 'application/json';
   if (TOKEN) headers['Authorization'] = `Bearer ${TOKEN}`;
+  if (isPinned()) return pinnedRequest<T>(path, method, headers, body);
 
   const res = await fetch(`${BASE}${path}`, {
     method,
@@ -34,8 +70,20 @@ export async function api<T = unknown>(
   return (await res.json()) as ApiResponse<T>;
 }
 
+export function baseUrl(): string {
+  return BASE;
+}
+
 export function wsUrl(): string {
   const url = new URL(BASE);
   const tokenParam = TOKEN ? `?token=${TOKEN}` : '';
-  return `ws://${url.host}/ws${tokenParam}`;
+  const proto = url.protocol === 'https:' ? 'wss:' : 'ws:';
+  return `${proto}//${url.host}/ws${tokenParam}`;
+}
+
+/** Options for a WebSocket to wsUrl(), pinning the TLS certificate when there is one. */
+export async function wsOptions(): Promise<ClientOptions> {
+  if (!isPinned()) return {};
+  const socket = await pinnedSocket();
+  return { createConnection: () => socket };
 }
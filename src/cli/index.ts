@@ -2,8 +2,13 @@ import { Command } from 'commander';
 import { readFileSync, existsSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
-import { api, wsUrl } from './client.js';
-import type { SessionInfo, GroupInfo } from '../server/types.js';
+import { api, baseUrl, wsUrl, wsOptions } from './client.js';
+import { generateSelfSigned, TLS_DIR } from '../server/tls.js';
+import { PatternPacks, PATTERNS_DIR } from '../server/pattern-packs.js';
+import { parseCapture, replayCapture } from '../server/detect-replay.js';
+import { DEFAULT_THRESHOLDS } from '../server/thresholds.js';
+import { DEFAULT_COLS, DEFAULT_ROWS } from '../server/terminal-screen.js';
+import type { SessionInfo, SessionTask, PoolTask, GroupPoolConfig, ApiGroupPoolRequest, GroupInfo, PermissionDecision, PermissionOption, ApiToken, ApiCreatedToken, ApiShareLink, ApiMuteRequest, SessionMute, ApiRotatedToken, WebhookSubscription, ApiWebhookRequest, WebhookDelivery, WebhookDeadLetter, WebhookFormat, PatternPackInfo, ScreenSnapshot } from '../server/types.js';
 
 const CONN_FILE = join(homedir(), '.bullybuddy', 'connection.json');
 
@@ -19,9 +24,10 @@ program
 program
   .command('server')
   .description('Start the BullyBuddy server')
-  .option('--tunnel', 'Start Cloudflare tunnel for remote access')
+  .option('--tunnel [provider]', 'Start a tunnel for remote access: cloudflared (default), ngrok, ssh or custom')
   .action(async (opts) => {
     if (opts.tunnel) process.env.BB_TUNNEL = 'true';
+    if (typeof opts.tunnel === 'string') process.env.BB_TUNNEL_PROVIDER = opts.tunnel;
     await import('../server/index.js');
   });
 
@@ -35,6 +41,10 @@ program
   .option('-c, --cwd <dir>', 'Working directory', process.cwd())
   .option('--cols <n>', 'Terminal columns', '120')
   .option('--rows <n>', 'Terminal rows', '40')
+  .option('--restart <mode>', 'Auto-restart policy: never, on-failure or always')
+  .option('--max-retries <n>', 'Automatic restarts allowed (with --restart)')
+  .option('--restart-backoff <ms>', 'Delay before the first automatic restart, doubling after (with --restart)')
+  .option('--patterns <pack>', 'Pattern pack to detect state with: name or name@version (see `bullybuddy patterns`)')
   .argument('[args...]', 'Extra arguments to pass to claude')
   .action(async (args: string[], opts) => {
     const res = await api<SessionInfo>('/api/sessions', 'POST', {
@@ -44,6 +54,14 @@ program
       args,
       cols: parseInt(opts.cols, 10),
       rows: parseInt(opts.rows, 10),
+      restartPolicy: opts.restart
+        ? {
+          mode: opts.restart,
+          maxRetries: opts.maxRetries !== undefined ? parseInt(opts.maxRetries, 10) : undefined,
+          backoffMs: opts.restartBackoff !== undefined ? parseInt(opts.restartBackoff, 10) : undefined,
+        }
+        : undefined,
+      patterns: opts.patterns,
     });
     if (!res.ok) {
       console.error(`Error: ${res.error}`);
@@ -108,6 +126,73 @@ program
     console.log(`Sent to ${id}.`);
   });
 
+// ── screen ───────────────────────────────────────────────────────────────────
+
+program
+  .command('screen')
+  .description("Show what a session's terminal currently displays")
+  .argument('<id>', 'Session ID')
+  .option('--json', 'Output as JSON (with size and cursor)')
+  .action(async (id: string, opts) => {
+    const res = await api<ScreenSnapshot>(`/api/sessions/${id}/screen`);
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    if (opts.json) {
+      console.log(JSON.stringify(res.data, null, 2));
+      return;
+    }
+    console.log(res.data!.text.replace(/\n+$/, ''));
+  });
+
+// ── permission ───────────────────────────────────────────────────────────────
+
+const DECISIONS: Record<string, PermissionDecision> = {
+  allow: 'allow_once',
+  always: 'allow_always',
+  deny: 'deny',
+};
+
+program
+  .command('permission')
+  .description('Show a session\'s pending permission prompt, or answer it')
+  .argument('<id>', 'Session ID')
+  .argument('[decision]', 'allow | always | deny')
+  .action(async (id: string, decision?: string) => {
+    if (decision === undefined) {
+      const res = await api<SessionInfo>(`/api/sessions/${id}`);
+      if (!res.ok) {
+        console.error(`Error: ${res.error}`);
+        process.exit(1);
+      }
+      const pending = res.data!.pendingPermission;
+      if (!pending) {
+        console.log('No pending permission prompt.');
+        return;
+      }
+      if (pending.tool) console.log(pending.tool);
+      if (pending.command) console.log(`  ${pending.command}`);
+      if (pending.filePath) console.log(`  File: ${pending.filePath}`);
+      console.log(pending.question);
+      for (const o of pending.options) console.log(`  ${o.key}. ${o.label}`);
+      return;
+    }
+    if (!DECISIONS[decision]) {
+      console.error('Error: decision must be allow, always or deny');
+      process.exit(1);
+    }
+    const res = await api<{ option: PermissionOption | null }>(`/api/sessions/${id}/permission`, 'POST', {
+      decision: DECISIONS[decision],
+    });
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    const option = res.data!.option;
+    console.log(option ? `Answered ${id}: ${option.label}` : `Dismissed the prompt in ${id}.`);
+  });
+
 // ── kill ─────────────────────────────────────────────────────────────────────
 
 program
@@ -123,6 +208,261 @@ program
     console.log(`Killed ${id}.`);
   });
 
+// ── restart ──────────────────────────────────────────────────────────────────
+
+program
+  .command('restart')
+  .description('Restart an exited session, resuming its conversation (claude --resume)')
+  .argument('<id>', 'Session ID')
+  .action(async (id: string) => {
+    const res = await api<SessionInfo>(`/api/sessions/${id}/restart`, 'POST');
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    const s = res.data!;
+    console.log(`Restarted session ${s.id} (${s.name}) in group "${s.group}"`);
+    console.log(`  PID: ${s.pid}  CWD: ${s.cwd}`);
+  });
+
+// ── share ────────────────────────────────────────────────────────────────────
+
+/** "90", "90s", "30m", "2h" or "7d" in seconds; NaN if invalid */
+function parseTtl(raw: string): number {
+  const m = /^(\d+)([smhd]?)$/.exec(raw.trim());
+  if (!m) return NaN;
+  return Number(m[1]) * { '': 1, s: 1, m: 60, h: 3600, d: 86400 }[m[2] as '' | 's' | 'm' | 'h' | 'd'];
+}
+
+program
+  .command('share')
+  .description('Create a read-only, expiring link to watch one session')
+  .argument('<id>', 'Session ID')
+  .option('--ttl <duration>', 'How long the link works, e.g. 30m, 2h, 7d (max)', '1h')
+  .action(async (id: string, opts) => {
+    const ttl = parseTtl(opts.ttl);
+    if (!ttl) {
+      console.error('Error: --ttl must be a duration like 90s, 30m, 2h or 1d');
+      process.exit(1);
+    }
+    const res = await api<ApiShareLink>(`/api/sessions/${id}/share`, 'POST', { ttl });
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    const link = res.data!;
+    console.log(`Read-only link to ${link.sessionId}, valid until ${new Date(link.expiresAt).toLocaleString()}:`);
+    console.log(`  ${baseUrl()}/?token=${link.token}`);
+    try {
+      const conn = JSON.parse(readFileSync(CONN_FILE, 'utf-8'));
+      if (conn.tunnel) console.log(`  ${conn.tunnel}/?token=${link.token}`);
+    } catch { /* no tunnel */ }
+  });
+
+// ── mute ─────────────────────────────────────────────────────────────────────
+
+program
+  .command('mute')
+  .description('Stop webhook and browser notifications for a session')
+  .argument('<id>', 'Session ID')
+  .option('--for <duration>', 'Unmute automatically after e.g. 30m, 2h, 1d (default: until unmuted)')
+  .option('-e, --events <list>', 'Comma-separated event names to mute; * is a wildcard (default: all)')
+  .action(async (id: string, opts) => {
+    const body: ApiMuteRequest = {};
+    if (opts.for) {
+      body.for = parseTtl(opts.for);
+      if (!body.for) {
+        console.error('Error: --for must be a duration like 90s, 30m, 2h or 1d');
+        process.exit(1);
+      }
+    }
+    if (opts.events) body.events = String(opts.events).split(',').map((x) => x.trim()).filter(Boolean);
+    const res = await api<{ muted: boolean; mute: SessionMute }>(`/api/sessions/${id}/mute`, 'POST', body);
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    const { until, events } = res.data!.mute;
+    const what = events ? `${events.join(', ')} for ${id}` : id;
+    console.log(`Muted ${what}${until ? ` until ${new Date(until).toLocaleString()}` : ''}`);
+  });
+
+program
+  .command('unmute')
+  .description('Resume notifications for a session')
+  .argument('<id>', 'Session ID')
+  .action(async (id: string) => {
+    const res = await api(`/api/sessions/${id}/unmute`, 'POST');
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    console.log(`Unmuted ${id}`);
+  });
+
+// ── tasks ────────────────────────────────────────────────────────────────────
+
+const tasks = program
+  .command('tasks')
+  .description('Manage a session\'s task queue (sent one at a time as Claude goes idle)');
+
+tasks
+  .command('add')
+  .description('Queue a task')
+  .argument('<id>', 'Session ID')
+  .argument('<text>', 'Task prompt')
+  .action(async (id: string, text: string) => {
+    const res = await api<SessionTask>(`/api/sessions/${id}/tasks`, 'POST', { task: text });
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    console.log(`Queued task ${res.data!.id} on ${id}.`);
+  });
+
+tasks
+  .command('list')
+  .alias('ls')
+  .description('List queued, running and finished tasks')
+  .argument('<id>', 'Session ID')
+  .option('--json', 'Output as JSON')
+  .action(async (id: string, opts) => {
+    const res = await api<SessionTask[]>(`/api/sessions/${id}/tasks`);
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    const list = res.data!;
+    if (opts.json) {
+      console.log(JSON.stringify(list, null, 2));
+      return;
+    }
+    if (list.length === 0) {
+      console.log('No tasks.');
+      return;
+    }
+    for (const t of list) {
+      console.log(`${t.id.padEnd(10)}${t.status.padEnd(13)}${t.text}`);
+    }
+  });
+
+tasks
+  .command('move')
+  .description('Move queued tasks to the front of the queue, in the given order')
+  .argument('<id>', 'Session ID')
+  .argument('<taskIds...>', 'Task IDs')
+  .action(async (id: string, taskIds: string[]) => {
+    const res = await api(`/api/sessions/${id}/tasks/reorder`, 'POST', { order: taskIds });
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    console.log(`Reordered tasks on ${id}.`);
+  });
+
+tasks
+  .command('cancel')
+  .description('Cancel a queued task')
+  .argument('<id>', 'Session ID')
+  .argument('<taskId>', 'Task ID')
+  .action(async (id: string, taskId: string) => {
+    const res = await api(`/api/sessions/${id}/tasks/${taskId}`, 'DELETE');
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    console.log(`Cancelled task ${taskId}.`);
+  });
+
+// ── pool ─────────────────────────────────────────────────────────────────────
+
+const pool = program
+  .command('pool')
+  .description('Manage a group\'s work pool (tasks go to whichever session in the group is idle)');
+
+pool
+  .command('add')
+  .description('Submit a task to the group\'s pool')
+  .argument('<group>', 'Group name')
+  .argument('<text>', 'Task prompt')
+  .action(async (group: string, text: string) => {
+    const res = await api<PoolTask>(`/api/groups/${encodeURIComponent(group)}/tasks`, 'POST', { task: text });
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    const t = res.data!;
+    console.log(t.sessionId ? `Task ${t.id} started on ${t.sessionId}.` : `Queued task ${t.id} in "${group}".`);
+  });
+
+pool
+  .command('list')
+  .alias('ls')
+  .description('List the group\'s pool tasks')
+  .argument('<group>', 'Group name')
+  .option('--json', 'Output as JSON')
+  .action(async (group: string, opts) => {
+    const res = await api<PoolTask[]>(`/api/groups/${encodeURIComponent(group)}/tasks`);
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    const list = res.data!;
+    if (opts.json) {
+      console.log(JSON.stringify(list, null, 2));
+      return;
+    }
+    if (list.length === 0) {
+      console.log('No tasks.');
+      return;
+    }
+    for (const t of list) {
+      console.log(`${t.id.padEnd(10)}${t.status.padEnd(13)}${(t.sessionId ?? '-').padEnd(10)}${t.text}`);
+    }
+  });
+
+pool
+  .command('cancel')
+  .description('Cancel a queued pool task')
+  .argument('<group>', 'Group name')
+  .argument('<taskId>', 'Task ID')
+  .action(async (group: string, taskId: string) => {
+    const res = await api(`/api/groups/${encodeURIComponent(group)}/tasks/${taskId}`, 'DELETE');
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    console.log(`Cancelled task ${taskId}.`);
+  });
+
+pool
+  .command('config')
+  .description('Show or set the group\'s concurrency limit and auto-spawn cap')
+  .argument('<group>', 'Group name')
+  .option('--concurrency <n>', 'Pool tasks running at once ("none" for no limit)')
+  .option('--auto-spawn <max>', 'Spawn sessions while the pool backs up, up to <max> running ("off" to disable)')
+  .option('-c, --cwd <dir>', 'Working directory for auto-spawned sessions', process.cwd())
+  .action(async (group: string, opts) => {
+    const path = `/api/groups/${encodeURIComponent(group)}/pool`;
+    const body: ApiGroupPoolRequest = {};
+    if (opts.concurrency !== undefined) {
+      body.concurrency = opts.concurrency === 'none' ? null : parseInt(opts.concurrency, 10);
+    }
+    if (opts.autoSpawn !== undefined) {
+      body.autoSpawn = opts.autoSpawn === 'off' ? null : { maxSessions: parseInt(opts.autoSpawn, 10), cwd: opts.cwd };
+    }
+    const res = Object.keys(body).length
+      ? await api<GroupPoolConfig>(path, 'POST', body)
+      : await api<GroupPoolConfig>(path);
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    const c = res.data!;
+    console.log(`Concurrency: ${c.concurrency ?? 'no limit'}`);
+    console.log(`Auto-spawn:  ${c.autoSpawn ? `up to ${c.autoSpawn.maxSessions} sessions in ${c.autoSpawn.cwd}` : 'off'}`);
+  });
+
 // ── attach ───────────────────────────────────────────────────────────────────
 
 program
@@ -138,7 +478,7 @@ program
     }
 
     const { WebSocket } = await import('ws');
-    const ws = new WebSocket(wsUrl());
+    const ws = new WebSocket(wsUrl(), await wsOptions());
 
     ws.on('open', () => {
       ws.send(JSON.stringify({ type: 'subscribe', sessionId: id }));
@@ -236,6 +576,363 @@ program
     }
   });
 
+// ── patterns ─────────────────────────────────────────────────────────────────
+
+program
+  .command('patterns')
+  .description('List the pattern packs the server detects session state with')
+  .option('--json', 'Output as JSON')
+  .action(async (opts) => {
+    const res = await api<PatternPackInfo[]>('/api/patterns');
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    if (opts.json) {
+      console.log(JSON.stringify(res.data, null, 2));
+      return;
+    }
+    for (const p of res.data!) {
+      console.log(`${p.id.padEnd(24)}${(p.description ?? '').padEnd(32)}${p.source}`);
+    }
+  });
+
+program
+  .command('detect')
+  .description('Run the state detector over a recorded terminal capture and print the state timeline')
+  .requiredOption('--replay <capture>', 'asciicast file (asciinema rec) or raw terminal output')
+  .option('-p, --patterns <pack>', 'Pattern pack: name or name@version (default: claude-code)')
+  .option('--patterns-dir <dir>', 'Directory to load pattern packs from', PATTERNS_DIR)
+  .option('--idle-timeout <ms>', 'Silence after which working counts as idle', String(DEFAULT_THRESHOLDS.idleTimeoutMs))
+  .option('--cols <n>', 'Terminal columns, for captures that don\'t record them', String(DEFAULT_COLS))
+  .option('--rows <n>', 'Terminal rows, for captures that don\'t record them', String(DEFAULT_ROWS))
+  .option('--json', 'Output as JSON')
+  .action(async (opts) => {
+    try {
+      const packs = new PatternPacks(opts.patternsDir);
+      await packs.load();
+      const pack = packs.resolve(opts.patterns);
+      const capture = parseCapture(readFileSync(opts.replay, 'utf-8'));
+      const timeline = replayCapture(capture, pack, {
+        idleTimeoutMs: parseInt(opts.idleTimeout, 10),
+        cols: parseInt(opts.cols, 10),
+        rows: parseInt(opts.rows, 10),
+      });
+      if (opts.json) {
+        console.log(JSON.stringify({ patterns: pack.id, format: capture.format, timeline }, null, 2));
+        return;
+      }
+      console.log(`${opts.replay}: ${capture.chunks.length} chunks (${capture.format}), pattern pack ${pack.id}`);
+      // Raw captures have no timing to show
+      const timed = capture.format === 'asciicast';
+      for (const e of timeline) {
+        const time = timed ? `${(e.at / 1000).toFixed(3)}s`.padStart(11) + '  ' : '';
+        console.log(`${time}${`@${e.offset}`.padStart(10)}  ${e.prev} → ${e.state}`);
+      }
+    } catch (err) {
+      console.error(`Error: ${err instanceof Error ? err.message : err}`);
+      process.exit(1);
+    }
+  });
+
+// ── token ────────────────────────────────────────────────────────────────────
+
+const token = program
+  .command('token')
+  .description('Manage the master token and named API tokens (scopes: read, input, spawn, kill, admin)');
+
+token
+  .command('create')
+  .description('Create a named token; its secret is shown only once')
+  .argument('<name>', 'Token name (recorded as the actor in the audit log)')
+  .requiredOption('-s, --scopes <list>', 'Comma-separated scopes, e.g. read,input')
+  .option('-g, --groups <list>', 'Comma-separated groups the token is limited to (default: all)')
+  .action(async (name: string, opts) => {
+    const split = (v: string) => v.split(',').map((x) => x.trim()).filter(Boolean);
+    const res = await api<ApiCreatedToken>('/api/tokens', 'POST', {
+      name,
+      scopes: split(opts.scopes),
+      groups: opts.groups ? split(opts.groups) : null,
+    });
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    const t = res.data!;
+    console.log(`Created token ${t.id} (${t.name}): ${t.scopes.join(', ')}${t.groups ? ` in ${t.groups.join(', ')}` : ''}`);
+    console.log(`  ${t.token}`);
+    console.log('Store it now — it cannot be shown again.');
+  });
+
+token
+  .command('list')
+  .alias('ls')
+  .description('List named tokens')
+  .option('--json', 'Output as JSON')
+  .action(async (opts) => {
+    const res = await api<ApiToken[]>('/api/tokens');
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    const list = res.data!;
+    if (opts.json) {
+      console.log(JSON.stringify(list, null, 2));
+      return;
+    }
+    if (list.length === 0) {
+      console.log('No tokens.');
+      return;
+    }
+    for (const t of list) {
+      console.log(`${t.id.padEnd(10)}${t.name.padEnd(20)}${t.scopes.join(',').padEnd(24)}${t.groups?.join(',') ?? '(all groups)'}`);
+    }
+  });
+
+token
+  .command('revoke')
+  .description('Revoke a token')
+  .argument('<token>', 'Token ID or name')
+  .action(async (idOrName: string) => {
+    const res = await api<ApiToken>(`/api/tokens/${encodeURIComponent(idOrName)}`, 'DELETE');
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    console.log(`Revoked token ${res.data!.id} (${res.data!.name}).`);
+  });
+
+token
+  .command('rotate')
+  .description('Replace the master token; the old one keeps working for a grace period')
+  .option('--grace <seconds>', 'How long the old token keeps working', '300')
+  .action(async (opts) => {
+    const grace = Number(opts.grace);
+    if (!Number.isFinite(grace) || grace < 0) {
+      console.error('Error: --grace must be a number of seconds');
+      process.exit(1);
+    }
+    const res = await api<ApiRotatedToken>('/api/admin/rotate-token', 'POST', { grace });
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    const { token: newToken, previousExpiresAt } = res.data!;
+    console.log(`New master token: ${newToken}`);
+    console.log(`  Dashboard: ${baseUrl()}/?token=${newToken}`);
+    console.log(`The old token stops working at ${new Date(previousExpiresAt).toLocaleString()}.`);
+  });
+
+// ── webhook ──────────────────────────────────────────────────────────────────
+
+const webhook = program
+  .command('webhook')
+  .description('Send session events to URLs (events: state:<state>, state:long_idle, session:created|restarted|exited, task:started|done|interrupted, audit:<action>)');
+
+function webhookRequest(opts: { events?: string; groups?: string; format?: string; template?: string; secret?: string }): ApiWebhookRequest {
+  const split = (v: string) => v.split(',').map((x) => x.trim()).filter(Boolean);
+  const body: ApiWebhookRequest = {};
+  if (opts.secret) body.secret = opts.secret;
+  if (opts.format) body.format = opts.format as WebhookFormat;
+  if (opts.events) body.events = split(opts.events);
+  if (opts.groups) body.groups = opts.groups === 'all' ? null : split(opts.groups);
+  if (opts.template) {
+    try {
+      body.template = opts.template === 'none' ? null : JSON.parse(readFileSync(opts.template, 'utf-8'));
+    } catch (err) {
+      console.error(`Error: could not read template: ${err instanceof Error ? err.message : err}`);
+      process.exit(1);
+    }
+  }
+  return body;
+}
+
+function printWebhook(w: WebhookSubscription): void {
+  console.log(`${w.id.padEnd(10)}${w.url}`);
+  const body = w.template !== null ? '  (templated)' : w.format !== 'json' ? `  (${w.format})` : '';
+  console.log(`${''.padEnd(10)}events: ${w.events.join(', ')}  groups: ${w.groups?.join(', ') ?? '(all)'}${body}`);
+}
+
+webhook
+  .command('add')
+  .description('Add a webhook')
+  .argument('<url>', 'URL to POST events to')
+  .option('-e, --events <list>', 'Comma-separated event names; * is a wildcard (default: permission_needed, error, long_idle, exited)')
+  .option('-g, --groups <list>', 'Comma-separated groups to send events from (default: all)')
+  .option('-f, --format <format>', 'json (default), or slack / discord for a chat webhook URL')
+  .option('-t, --template <file>', 'JSON file with {{path}} placeholders for the request body')
+  .option('--secret <secret>', 'Signing secret (default: generated)')
+  .action(async (url: string, opts) => {
+    const res = await api<WebhookSubscription>('/api/webhooks', 'POST', { url, ...webhookRequest(opts) });
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    console.log('Added webhook:');
+    printWebhook(res.data!);
+    console.log(`Signing secret: ${res.data!.secret}`);
+  });
+
+webhook
+  .command('update')
+  .description('Change a webhook')
+  .argument('<id>', 'Webhook ID')
+  .option('-u, --url <url>', 'New URL')
+  .option('-e, --events <list>', 'Comma-separated event names')
+  .option('-g, --groups <list>', 'Comma-separated groups, or "all"')
+  .option('-f, --format <format>', 'json, slack or discord')
+  .option('-t, --template <file>', 'JSON template file, or "none" to send the plain payload')
+  .option('--secret <secret>', 'New signing secret')
+  .action(async (id: string, opts) => {
+    const res = await api<WebhookSubscription>(`/api/webhooks/${encodeURIComponent(id)}`, 'POST', {
+      ...(opts.url && { url: opts.url }),
+      ...webhookRequest(opts),
+    });
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    printWebhook(res.data!);
+  });
+
+webhook
+  .command('list')
+  .alias('ls')
+  .description('List webhooks')
+  .option('--json', 'Output as JSON')
+  .action(async (opts) => {
+    const res = await api<WebhookSubscription[]>('/api/webhooks');
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    const list = res.data!;
+    if (opts.json) {
+      console.log(JSON.stringify(list, null, 2));
+      return;
+    }
+    if (list.length === 0) {
+      console.log('No webhooks.');
+      return;
+    }
+    for (const w of list) printWebhook(w);
+  });
+
+webhook
+  .command('remove')
+  .alias('rm')
+  .description('Remove a webhook')
+  .argument('<id>', 'Webhook ID')
+  .action(async (id: string) => {
+    const res = await api<WebhookSubscription>(`/api/webhooks/${encodeURIComponent(id)}`, 'DELETE');
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    console.log(`Removed webhook ${res.data!.id} (${res.data!.url}).`);
+  });
+
+webhook
+  .command('deliveries')
+  .description('Show recent deliveries: status code, latency and attempts')
+  .option('-w, --webhook <id>', 'Only this webhook')
+  .option('-s, --status <status>', 'pending, retrying, delivered or failed')
+  .option('-n, --limit <n>', 'Number of deliveries', '20')
+  .option('--json', 'Output as JSON')
+  .action(async (opts) => {
+    const params = new URLSearchParams({ limit: opts.limit });
+    if (opts.webhook) params.set('webhook', opts.webhook);
+    if (opts.status) params.set('status', opts.status);
+    const res = await api<WebhookDelivery[]>(`/api/webhooks/deliveries?${params}`);
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    const list = res.data!;
+    if (opts.json) {
+      console.log(JSON.stringify(list, null, 2));
+      return;
+    }
+    if (list.length === 0) {
+      console.log('No deliveries.');
+      return;
+    }
+    for (const d of list) {
+      const last = d.attempts[d.attempts.length - 1];
+      const result = last ? `${last.statusCode ?? last.error} in ${last.latencyMs}ms` : '';
+      console.log(`${d.id}  ${d.webhookId.padEnd(10)}${d.event.padEnd(28)}${d.status.padEnd(11)}${String(d.attempts.length).padStart(2)}x  ${result}`);
+    }
+  });
+
+webhook
+  .command('dlq')
+  .description('Show deliveries that ran out of retries')
+  .option('--json', 'Output as JSON')
+  .action(async (opts) => {
+    const res = await api<WebhookDeadLetter[]>('/api/webhooks/dead-letters');
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    const list = res.data!;
+    if (opts.json) {
+      console.log(JSON.stringify(list, null, 2));
+      return;
+    }
+    if (list.length === 0) {
+      console.log('Dead-letter queue is empty.');
+      return;
+    }
+    for (const d of list) {
+      const last = d.attempts[d.attempts.length - 1];
+      console.log(`${d.id}  ${d.webhookId.padEnd(10)}${d.event.padEnd(28)}${d.createdAt}  ${last?.error ?? ''}`);
+    }
+  });
+
+webhook
+  .command('retry')
+  .description('Send a dead letter again')
+  .argument('<id>', 'Dead letter (delivery) ID')
+  .action(async (id: string) => {
+    const res = await api<WebhookDelivery>(`/api/webhooks/dead-letters/${encodeURIComponent(id)}/retry`, 'POST');
+    if (!res.ok) {
+      console.error(`Error: ${res.error}`);
+      process.exit(1);
+    }
+    console.log(`Redelivering as ${res.data!.id} (${res.data!.event} → ${res.data!.webhookId}).`);
+  });
+
+// ── tls ──────────────────────────────────────────────────────────────────────
+
+const tls = program
+  .command('tls')
+  .description('Serve HTTPS/WSS directly (BB_TLS_CERT / BB_TLS_KEY)');
+
+tls
+  .command('generate')
+  .description('Create a self-signed certificate and key (needs openssl)')
+  .option('-d, --dir <dir>', 'Where to write cert.pem and key.pem', TLS_DIR)
+  .option('-H, --host <name...>', 'Extra host names or IPs to cover (localhost and 127.0.0.1 always are)')
+  .option('--days <n>', 'Validity in days', '825')
+  .action(async (opts) => {
+    try {
+      const { certFile, keyFile, fingerprint } = await generateSelfSigned({
+        dir: opts.dir,
+        hosts: opts.host,
+        days: parseInt(opts.days, 10),
+      });
+      console.log(`Certificate: ${certFile}`);
+      console.log(`Key:         ${keyFile}`);
+      console.log(`SHA-256:     ${fingerprint}`);
+      console.log('\nStart the server with:');
+      console.log(`  BB_TLS_CERT=${certFile} BB_TLS_KEY=${keyFile} bullybuddy server`);
+      console.log('The CLI pins this fingerprint automatically (from connection.json); browsers will ask you to accept it once.');
+    } catch (err) {
+      console.error(`Error: ${err instanceof Error ? err.message : err}`);
+      process.exit(1);
+    }
+  });
+
 // ── open ─────────────────────────────────────────────────────────────────────
 
 program
@@ -275,6 +972,9 @@ program
       if (conn.tunnel) {
         console.log(`Tunnel: ${conn.tunnel}/?token=${conn.token}`);
       }
+      if (conn.fingerprint) {
+        console.log(`TLS:    ${conn.fingerprint}`);
+      }
     } catch {
       console.error('Could not read connection file.');
       process.exit(1);
@@ -498,6 +498,11 @@ export class LobsterScene {
         const s = this.sessions.find((s) => s.id === msg.sessionId);
         if (s) s.status = 'exited';
       }),
+      this.ws.on('session:restarted', (msg) => {
+        const idx = this.sessions.findIndex((s) => s.id === msg.session.id);
+        if (idx >= 0) this.sessions[idx] = msg.session;
+        this.syncLobsters();
+      }),
       this.ws.on('output', (msg) => {
         const s = this.sessions.find((s) => s.id === msg.sessionId);
         if (s) s.lastActivityAt = new Date().toISOString();
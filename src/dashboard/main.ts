@@ -3,16 +3,20 @@ import { WsClient } from './ws-client.js';
 import { Sidebar, loadGroups, saveGroups } from './sidebar.js';
 import { SessionPanel } from './session-panel.js';
 import { LobsterScene } from './lobster-scene.js';
+import { Notifier, NOTIFY_STATES } from './notifications.js';
 
 // ── Auth token (from URL query parameter, persisted in sessionStorage) ──────
 
 const urlParams = new URLSearchParams(location.search);
 const TOKEN = urlParams.get('token') ?? sessionStorage.getItem('bb:token') ?? '';
+// Set by push notifications that open a new dashboard tab
+const INITIAL_SESSION = urlParams.get('session');
 if (TOKEN) {
   sessionStorage.setItem('bb:token', TOKEN);
   // Clean token from URL bar to avoid leaking in bookmarks/history
-  if (urlParams.has('token')) {
+  if (urlParams.has('token') || urlParams.has('session')) {
     urlParams.delete('token');
+    urlParams.delete('session');
     const clean = urlParams.toString();
     const newUrl = location.pathname + (clean ? `?${clean}` : '') + location.hash;
     history.replaceState(null, '', newUrl);
@@ -25,6 +29,8 @@ function authedFetch(url: string, init?: RequestInit): Promise<Response> {
   return fetch(url, { ...init, headers });
 }
 
+const notifier = new Notifier(authedFetch);
+
 // ── WebSocket ────────────────────────────────────────────────────────────────
 
 const wsProto = location.protocol === 'https:' ? 'wss:' : 'ws:';
@@ -50,6 +56,7 @@ const drawerActions = document.getElementById('drawer-actions')!;
 const dashboard = document.getElementById('dashboard')!;
 const dashLobster = document.getElementById('dash-lobster')!;
 const dashStats = document.getElementById('dash-stats')!;
+const dashTunnel = document.getElementById('dash-tunnel') as HTMLAnchorElement;
 const dashTermBack = document.getElementById('dash-terminal-back')!;
 const dashTermTitle = document.getElementById('dash-terminal-title')!;
 const dashTermActions = document.getElementById('dash-terminal-actions')!;
@@ -192,13 +199,102 @@ function renderDrawerActions(sessionId: string, status: string): void {
       sidebar.removeSession(sessionId);
       closeDrawer();
     });
-    drawerActions.append(killBtn);
+    drawerActions.append(...permissionControls(sessionId, 'hud-btn btn-permission'), killBtn);
+  } else {
+    const badge = document.createElement('span');
+    badge.className = 'exit-badge';
+    badge.textContent = 'exited';
+    drawerActions.append(badge, restartButton(sessionId, 'hud-btn btn-restart'));
   }
 }
 
+/** Restart button for an exited session; 'session:restarted' updates the UI. */
+function restartButton(sessionId: string, className: string): HTMLButtonElement {
+  const btn = document.createElement('button');
+  btn.className = className;
+  btn.textContent = 'Restart';
+  btn.addEventListener('click', async () => {
+    btn.disabled = true;
+    const res = await authedFetch(`/api/sessions/${sessionId}/restart`, { method: 'POST' });
+    if (!res.ok) btn.disabled = false;
+  });
+  return btn;
+}
+
+/** Share button: creates a one-hour read-only link to the session and copies it. */
+function shareButton(sessionId: string, className: string): HTMLButtonElement {
+  const btn = document.createElement('button');
+  btn.className = className;
+  btn.textContent = 'Share';
+  btn.title = 'Copy a read-only link to this session (valid for 1 hour)';
+  btn.addEventListener('click', async () => {
+    btn.disabled = true;
+    try {
+      const res = await authedFetch(`/api/sessions/${sessionId}/share`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ttl: 3600 }),
+      });
+      const json = await res.json();
+      if (!json.ok) return;
+      const link = `${location.origin}/?token=${encodeURIComponent(json.data.token)}`;
+      try {
+        await navigator.clipboard.writeText(link);
+        btn.textContent = 'Link copied';
+        setTimeout(() => { btn.textContent = 'Share'; }, 2000);
+      } catch {
+        // Clipboard needs a secure context; let the user copy it by hand
+        window.prompt('Read-only link (valid for 1 hour):', link);
+      }
+    } finally {
+      btn.disabled = false;
+    }
+  });
+  return btn;
+}
+
+const PERMISSION_BUTTONS: [decision: string, label: string][] = [
+  ['allow_once', 'Allow'],
+  ['allow_always', 'Always'],
+  ['deny', 'Deny'],
+];
+
+/** Summary and answer buttons for a session's pending permission prompt, if any. */
+function permissionControls(sessionId: string, className: string): HTMLElement[] {
+  const pending = latestSessions.find((s: any) => s.id === sessionId)?.pendingPermission;
+  if (!pending) return [];
+
+  const summary = document.createElement('span');
+  summary.className = 'permission-summary';
+  summary.textContent = pending.command ?? pending.filePath ?? pending.tool ?? pending.question;
+  summary.title = pending.question;
+
+  const buttons = PERMISSION_BUTTONS
+    // Deny can always fall back to Esc
+    .filter(([decision]) => decision === 'deny' || pending.options.some((o: any) => o.decision === decision))
+    .map(([decision, label]) => {
+      const btn = document.createElement('button');
+      btn.className = `${className} permission-${decision}`;
+      btn.textContent = label;
+      btn.addEventListener('click', async () => {
+        btn.disabled = true;
+        const res = await authedFetch(`/api/sessions/${sessionId}/permission`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ decision }),
+        });
+        if (!res.ok) btn.disabled = false;
+      });
+      return btn;
+    });
+  return [summary, ...buttons];
+}
+
 // ── Dashboard: sidebar interactions ──────────────────────────────────────────
 
-sidebar.setOnSelect(async (id) => {
+sidebar.setOnSelect((id) => openDashSession(id));
+
+async function openDashSession(id: string): Promise<void> {
   sidebar.setActive(id);
   dashTermTitle.textContent = sessionDisplayName(id);
 
@@ -214,6 +310,10 @@ sidebar.setOnSelect(async (id) => {
   renderDashActions(id, json.data?.status ?? 'running');
 
   dashboard.classList.add('show-terminal');
+}
+
+sidebar.setOnMute(async (id, muted) => {
+  await authedFetch(`/api/sessions/${id}/${muted ? 'mute' : 'unmute'}`, { method: 'POST' });
 });
 
 sidebar.setOnSpawn(async (group) => {
@@ -256,7 +356,9 @@ function renderDashActions(sessionId: string, status: string): void {
       dashTermTitle.textContent = 'Select a session';
       dashTermActions.replaceChildren();
     });
-    dashTermActions.append(killBtn);
+    dashTermActions.append(...permissionControls(sessionId, 'btn btn-permission'), shareButton(sessionId, 'btn'), killBtn);
+  } else {
+    dashTermActions.append(shareButton(sessionId, 'btn'), restartButton(sessionId, 'btn'));
   }
 }
 
@@ -307,11 +409,22 @@ ws.on('session:exited', (msg) => {
   if (cached) { cached.status = 'exited'; cached.pid = null; }
   sidebar.markExited(msg.sessionId);
   if (drawerPanel.activeSessionId === msg.sessionId) {
-    drawerActions.replaceChildren();
-    const badge = document.createElement('span');
-    badge.className = 'exit-badge';
-    badge.textContent = 'exited';
-    drawerActions.append(badge);
+    renderDrawerActions(msg.sessionId, 'exited');
+  }
+  if (dashPanel.activeSessionId === msg.sessionId) {
+    renderDashActions(msg.sessionId, 'exited');
+  }
+});
+
+ws.on('session:restarted', (msg) => {
+  const idx = latestSessions.findIndex((s: any) => s.id === msg.session.id);
+  if (idx >= 0) latestSessions[idx] = msg.session;
+  sidebar.addSession(msg.session);
+  if (drawerPanel.activeSessionId === msg.session.id) {
+    renderDrawerActions(msg.session.id, 'running');
+  }
+  if (dashPanel.activeSessionId === msg.session.id) {
+    renderDashActions(msg.session.id, 'running');
   }
 });
 
@@ -319,6 +432,44 @@ ws.on('session:stateChanged', (msg) => {
   const cached = latestSessions.find((s: any) => s.id === msg.sessionId);
   if (cached) cached.detailedState = msg.detailedState;
   sidebar.updateDetailedState(msg.sessionId, msg.detailedState);
+  notifier.notify(msg.sessionId, sessionDisplayName(msg.sessionId), msg.detailedState, cached?.task ?? undefined, cached?.mute);
+});
+
+ws.on('session:muted', (msg) => {
+  const cached = latestSessions.find((s: any) => s.id === msg.sessionId);
+  if (cached) cached.mute = msg.mute;
+  sidebar.updateMute(msg.sessionId, msg.mute);
+});
+
+ws.on('session:alert', (msg) => {
+  sidebar.addAlert(msg.sessionId, msg.alert);
+});
+
+ws.on('session:permission', (msg) => {
+  const cached = latestSessions.find((s: any) => s.id === msg.sessionId);
+  if (!cached) return;
+  cached.pendingPermission = msg.pendingPermission;
+  if (cached.status !== 'running') return;
+  if (drawerPanel.activeSessionId === msg.sessionId) renderDrawerActions(msg.sessionId, 'running');
+  if (dashPanel.activeSessionId === msg.sessionId) renderDashActions(msg.sessionId, 'running');
+});
+
+ws.on('session:tasks', (msg) => {
+  const cached = latestSessions.find((s: any) => s.id === msg.sessionId);
+  if (!cached) return;
+  cached.tasks = msg.tasks;
+  const running = msg.tasks.find((t: any) => t.status === 'running');
+  if (running) { cached.task = running.text; cached.taskStartedAt = running.startedAt; }
+});
+
+ws.on('tunnel', (msg) => {
+  const { provider, state, url, lastError } = msg.tunnel;
+  dashTunnel.hidden = state === 'stopped';
+  dashTunnel.className = `tunnel-${state}`;
+  dashTunnel.textContent = url ? `\u{1F310} ${new URL(url).host}` : `tunnel ${state}`;
+  dashTunnel.title = url ? `${provider} tunnel: ${url}` : `${provider} tunnel ${state}${lastError ? `: ${lastError}` : ''}`;
+  if (url) dashTunnel.href = url;
+  else dashTunnel.removeAttribute('href');
 });
 
 // ── Settings: default cwd ────────────────────────────────────────────────────
@@ -416,6 +567,7 @@ let currentBrowsePath = '';
 function openSettings(): void {
   settingsCwdInput.value = getDefaultCwd() ?? '';
   renderGroupsList();
+  renderNotificationSettings();
   settingsModal.classList.remove('modal-hidden');
   fileBrowser.classList.add('browser-hidden');
 }
@@ -497,6 +649,57 @@ browserSelect.addEventListener('click', () => {
   fileBrowser.classList.add('browser-hidden');
 });
 
+// ── Settings: notifications ─────────────────────────────────────────────────
+
+const settingsNotifyToggle = document.getElementById('settings-notify-toggle') as HTMLButtonElement;
+const settingsNotifyStatus = document.getElementById('settings-notify-status')!;
+const settingsNotifyStates = document.getElementById('settings-notify-states')!;
+
+function renderNotificationSettings(): void {
+  const { enabled, states } = notifier.settings;
+  const on = enabled && notifier.permission === 'granted';
+  settingsNotifyToggle.textContent = on ? 'Disable' : 'Enable';
+  settingsNotifyToggle.disabled = notifier.permission === 'unsupported' || (!on && notifier.permission === 'denied');
+  if (notifier.permission === 'unsupported') settingsNotifyStatus.textContent = 'Not supported by this browser';
+  else if (!on && notifier.permission === 'denied') settingsNotifyStatus.textContent = 'Blocked in the browser\'s site settings';
+  else if (!on) settingsNotifyStatus.textContent = 'Off';
+  else if (notifier.pushActive) settingsNotifyStatus.textContent = 'On — also while the dashboard is closed';
+  else settingsNotifyStatus.textContent = 'On — while this tab is open in the background';
+
+  settingsNotifyStates.replaceChildren();
+  for (const [state, label] of NOTIFY_STATES) {
+    const row = document.createElement('label');
+    row.className = 'settings-notify-state';
+    const box = document.createElement('input');
+    box.type = 'checkbox';
+    box.checked = states.includes(state);
+    box.disabled = !on;
+    box.addEventListener('change', async () => {
+      const selected = NOTIFY_STATES.map(([s]) => s).filter((s) => s === state ? box.checked : notifier.settings.states.includes(s));
+      await notifier.setStates(selected);
+    });
+    row.append(box, label);
+    settingsNotifyStates.append(row);
+  }
+}
+
+settingsNotifyToggle.addEventListener('click', async () => {
+  settingsNotifyToggle.disabled = true;
+  if (notifier.settings.enabled && notifier.permission === 'granted') await notifier.disable();
+  else await notifier.enable();
+  renderNotificationSettings();
+});
+
+notifier.onOpen = (sessionId) => {
+  if (world.classList.contains('view-hidden')) void openDashSession(sessionId);
+  else void openDrawer(sessionId);
+};
+
+// Push notification clicks when a dashboard tab is already open
+navigator.serviceWorker?.addEventListener('message', (e) => {
+  if (e.data?.type === 'open-session') notifier.onOpen(e.data.sessionId);
+});
+
 // ── Hint management ─────────────────────────────────────────────────────────
 
 function updateHint(sessionCount: number): void {
@@ -510,8 +713,11 @@ function updateHint(sessionCount: number): void {
 // ── Init ─────────────────────────────────────────────────────────────────────
 
 ws.connect();
+void notifier.init();
 
 // Route: /lobster shows 3D world, everything else shows dashboard
 if (location.pathname === '/lobster') {
   showWorld();
 }
+
+if (INITIAL_SESSION) void openDashSession(INITIAL_SESSION);
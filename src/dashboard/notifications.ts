@@ -0,0 +1,192 @@
+// Browser notifications for session state changes.
+//
+// While the dashboard is open in a background tab, the page shows them itself
+// (Web Notifications API). On a secure origin — HTTPS or a tunnel — it also
+// subscribes to Web Push through a service worker (public/sw.js), so the
+// server keeps notifying while the dashboard is closed; the page then leaves
+// notifying to the service worker. Sessions muted on the server
+// (SessionInfo.mute) are skipped either way.
+
+/** Detailed states a notification can be enabled for, in display order */
+export const NOTIFY_STATES: [state: string, label: string][] = [
+  ['permission_needed', 'Needs permission'],
+  ['error', 'Error'],
+  ['idle', 'Idle'],
+  ['compacting', 'Compacting'],
+  ['working', 'Working'],
+];
+
+const STATE_TEXT: Record<string, string> = {
+  permission_needed: 'needs permission',
+  error: 'hit an error',
+  idle: 'is idle',
+  compacting: 'is compacting',
+  working: 'is working',
+  starting: 'is starting',
+};
+
+export interface SessionMute {
+  until: string | null;
+  events: string[] | null;
+}
+
+/** Whether `mute` is set and not past its `until`. */
+export function muteActive(mute: SessionMute | null | undefined, now = Date.now()): mute is SessionMute {
+  return !!mute && (mute.until === null || new Date(mute.until).getTime() > now);
+}
+
+function globMatch(pattern: string, value: string): boolean {
+  const source = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(value);
+}
+
+/** Whether `mute` covers `event` (e.g. "state:idle"), as the server decides it for webhooks and push. */
+export function isMuted(mute: SessionMute | null | undefined, event: string): boolean {
+  if (!muteActive(mute)) return false;
+  return mute.events === null || mute.events.some((p) => globMatch(p, event));
+}
+
+export interface NotificationSettings {
+  enabled: boolean;
+  states: string[];
+}
+
+const SETTINGS_KEY = 'bullybuddy:notifications';
+const PUSH_ID_KEY = 'bullybuddy:pushSubscription';
+// Where earlier versions kept the dashboard URL, token included, for the service worker
+const LEGACY_SW_CACHE = 'bullybuddy';
+
+export function loadNotificationSettings(): NotificationSettings {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (raw) return { enabled: false, states: ['permission_needed', 'error'], ...JSON.parse(raw) };
+  } catch { /* ignore */ }
+  return { enabled: false, states: ['permission_needed', 'error'] };
+}
+
+function saveNotificationSettings(settings: NotificationSettings): void {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+}
+
+function base64UrlToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+function sameKey(a: ArrayBuffer | null, b: Uint8Array): boolean {
+  if (!a || a.byteLength !== b.length) return false;
+  const bytes = new Uint8Array(a);
+  return bytes.every((v, i) => v === b[i]);
+}
+
+type Fetch = (url: string, init?: RequestInit) => Promise<Response>;
+
+export class Notifier {
+  settings = loadNotificationSettings();
+  /** Whether the server pushes to this browser (the service worker shows notifications) */
+  pushActive = false;
+  /** Called with the session id when a notification is clicked */
+  onOpen: (sessionId: string) => void = () => {};
+
+  constructor(private fetch: Fetch) {}
+
+  get supported(): boolean {
+    return 'Notification' in window;
+  }
+
+  get pushSupported(): boolean {
+    return isSecureContext && 'serviceWorker' in navigator && 'PushManager' in window;
+  }
+
+  get permission(): NotificationPermission | 'unsupported' {
+    return this.supported ? Notification.permission : 'unsupported';
+  }
+
+  /** Re-register the push subscription of an earlier visit (its endpoint or our token may have changed). */
+  async init(): Promise<void> {
+    if (this.settings.enabled && this.permission === 'granted') await this.syncPush();
+  }
+
+  /** Ask for permission and turn notifications on. Resolves whether they are on. */
+  async enable(): Promise<boolean> {
+    if (!this.supported) return false;
+    const permission = await Notification.requestPermission();
+    this.settings.enabled = permission === 'granted';
+    saveNotificationSettings(this.settings);
+    if (this.settings.enabled) await this.syncPush();
+    return this.settings.enabled;
+  }
+
+  async disable(): Promise<void> {
+    this.settings.enabled = false;
+    saveNotificationSettings(this.settings);
+    await this.unsubscribePush();
+  }
+
+  async setStates(states: string[]): Promise<void> {
+    this.settings.states = states;
+    saveNotificationSettings(this.settings);
+    if (this.pushActive) await this.syncPush();
+  }
+
+  /** A session's detailed state changed. */
+  notify(sessionId: string, name: string, state: string, detail?: string, mute?: SessionMute | null): void {
+    if (!this.settings.enabled || this.permission !== 'granted') return;
+    if (!this.settings.states.includes(state) || isMuted(mute, `state:${state}`)) return;
+    // Nothing to tell someone looking at the dashboard; push covers the rest
+    if (!document.hidden || this.pushActive) return;
+    const n = new Notification(`${name} ${STATE_TEXT[state] ?? state}`, { body: detail, tag: `bb:${sessionId}` });
+    n.onclick = () => {
+      window.focus();
+      this.onOpen(sessionId);
+      n.close();
+    };
+  }
+
+  private async syncPush(): Promise<void> {
+    if (!this.pushSupported) return;
+    try {
+      const reg = await navigator.serviceWorker.register('/sw.js');
+      await navigator.serviceWorker.ready;
+      const keyRes = await (await this.fetch('/api/push/key')).json();
+      if (!keyRes.ok) throw new Error(keyRes.error);
+      const key = base64UrlToBytes(keyRes.data.publicKey);
+
+      // A subscription made with another server's key can't be reused
+      let sub = await reg.pushManager.getSubscription();
+      if (sub && !sameKey(sub.options.applicationServerKey, key)) {
+        await sub.unsubscribe();
+        sub = null;
+      }
+      sub ??= await reg.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: key });
+
+      const res = await (await this.fetch('/api/push/subscriptions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ ...sub.toJSON(), states: this.settings.states }),
+      })).json();
+      if (!res.ok) throw new Error(res.error);
+      localStorage.setItem(PUSH_ID_KEY, res.data.id);
+      await caches.delete(LEGACY_SW_CACHE);
+      this.pushActive = true;
+    } catch (err) {
+      // Notifications still work while this tab is open
+      console.warn('[bb] push subscription failed:', err);
+      this.pushActive = false;
+    }
+  }
+
+  private async unsubscribePush(): Promise<void> {
+    this.pushActive = false;
+    const id = localStorage.getItem(PUSH_ID_KEY);
+    localStorage.removeItem(PUSH_ID_KEY);
+    if (!this.pushSupported) return;
+    try {
+      if (id) await this.fetch(`/api/push/subscriptions/${encodeURIComponent(id)}`, { method: 'DELETE' });
+      const reg = await navigator.serviceWorker.getRegistration('/sw.js');
+      await (await reg?.pushManager.getSubscription())?.unsubscribe();
+      await caches.delete(LEGACY_SW_CACHE);
+    } catch { /* ignore — the server drops subscriptions the push service rejects */ }
+  }
+}
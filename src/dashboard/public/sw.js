@@ -0,0 +1,42 @@
+// BullyBuddy service worker: shows Web Push notifications for session state
+// changes (see src/server/web-push.ts) and opens the session when one is
+// clicked. Registered by the dashboard (notifications.ts) on secure origins.
+
+self.addEventListener('push', (event) => {
+  let msg;
+  try {
+    msg = event.data.json();
+  } catch {
+    return;
+  }
+  event.waitUntil((async () => {
+    // The dashboard is on screen; it already shows the change
+    const windows = await self.clients.matchAll({ type: 'window' });
+    if (windows.some((c) => c.visibilityState === 'visible')) return;
+    await self.registration.showNotification(msg.title, {
+      body: msg.body,
+      tag: `bb:${msg.sessionId}`,
+      data: { sessionId: msg.sessionId },
+      timestamp: Date.parse(msg.timestamp),
+    });
+  })());
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const sessionId = event.notification.data?.sessionId;
+  event.waitUntil((async () => {
+    const windows = await self.clients.matchAll({ type: 'window' });
+    if (windows.length > 0) {
+      const client = windows[0];
+      await client.focus();
+      if (sessionId) client.postMessage({ type: 'open-session', sessionId });
+      return;
+    }
+    // No dashboard left open: open one. It carries no token — tokens are kept
+    // out of storage that outlives the tab — so the server asks for one first
+    const url = new URL('/', self.location.origin);
+    if (sessionId) url.searchParams.set('session', sessionId);
+    await self.clients.openWindow(url.href);
+  })());
+});
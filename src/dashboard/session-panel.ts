@@ -28,6 +28,9 @@ export class SessionPanel {
   private unsubOutput: (() => void) | null = null;
   private unsubScrollback: (() => void) | null = null;
   private unsubExit: (() => void) | null = null;
+  private unsubRestart: (() => void) | null = null;
+  // Scrollback offset just past the last output written to the terminal; -1 until known
+  private lastOffset = -1;
   private termDisposables: { dispose(): void }[] = [];
   private resizeObserver: ResizeObserver;
   // Write batching — coalesce rapid WS output into fewer terminal.write() calls
@@ -103,6 +106,7 @@ export class SessionPanel {
   attach(sessionId: string): void {
     this.detach();
     this.currentId = sessionId;
+    this.lastOffset = -1;
 
     const mobile = isMobile();
     this.terminal = new Terminal({
@@ -147,16 +151,33 @@ export class SessionPanel {
     // Write it (pushes garbled old-size data into scroll history),
     // then immediately clear the visible screen. The TUI app's
     // SIGWINCH redraw will paint a clean screen at the new size.
+    //
+    // On resubscribe we ask for output since lastOffset. If the server could
+    // serve it from exactly there, it's a gap-free continuation — append it
+    // as-is. Otherwise (first attach, or the gap was evicted) start over.
     this.unsubScrollback = this.ws.on('scrollback', (msg) => {
-      if (msg.sessionId === sessionId && msg.data) {
-        this.terminal?.write(msg.data);
-        this.terminal?.write('\x1b[2J\x1b[H');
+      if (msg.sessionId !== sessionId) return;
+      if (this.lastOffset >= 0 && msg.from === this.lastOffset) {
+        if (msg.data) this.scheduleWrite(msg.data);
+      } else {
+        if (this.lastOffset >= 0) {
+          this.writeBuffer = '';
+          this.terminal?.reset();
+        }
+        if (msg.data) {
+          this.terminal?.write(msg.data);
+          this.terminal?.write('\x1b[2J\x1b[H');
+        }
       }
+      if (typeof msg.offset === 'number') this.lastOffset = msg.offset;
     });
 
     this.unsubOutput = this.ws.on('output', (msg) => {
       if (msg.sessionId === sessionId) {
+        // Skip output already delivered (e.g. replayed in a resumed scrollback)
+        if (typeof msg.offset === 'number' && msg.offset <= this.lastOffset) return;
         this.scheduleWrite(msg.data);
+        if (typeof msg.offset === 'number') this.lastOffset = msg.offset;
       }
     });
 
@@ -166,6 +187,14 @@ export class SessionPanel {
       }
     });
 
+    // A restarted session keeps its id and offsets — output just continues here
+    this.unsubRestart = this.ws.on('session:restarted', (msg) => {
+      if (msg.session.id === sessionId && this.terminal) {
+        this.terminal.write('\x1b[90m[Session restarted]\x1b[0m\r\n');
+        this.ws.send({ type: 'resize', sessionId, cols: this.terminal.cols, rows: this.terminal.rows });
+      }
+    });
+
     // Forward keyboard input
     this.termDisposables.push(
       this.terminal.onData((data) => {
@@ -196,6 +225,7 @@ export class SessionPanel {
     this.unsubOutput?.();
     this.unsubScrollback?.();
     this.unsubExit?.();
+    this.unsubRestart?.();
     for (const d of this.termDisposables) d.dispose();
     this.termDisposables.length = 0;
     this.resizeObserver.disconnect();
@@ -209,7 +239,8 @@ export class SessionPanel {
   resubscribe(): void {
     if (!this.currentId || !this.terminal) return;
     const { cols, rows } = this.terminal;
-    this.ws.send({ type: 'subscribe', sessionId: this.currentId, cols, rows });
+    const sinceOffset = this.lastOffset >= 0 ? this.lastOffset : undefined;
+    this.ws.send({ type: 'subscribe', sessionId: this.currentId, cols, rows, sinceOffset });
   }
 
   fit(): void {
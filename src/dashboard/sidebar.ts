@@ -1,3 +1,5 @@
+import { muteActive, type SessionMute } from './notifications.js';
+
 interface SessionInfo {
   id: string;
   name: string;
@@ -6,11 +8,40 @@ interface SessionInfo {
   detailedState?: string;
   cwd: string;
   pid: number | null;
+  mute?: SessionMute | null;
+}
+
+/** A session crossed one of its group's thresholds (server: SessionAlert) */
+export interface SessionAlert {
+  kind: 'long_idle' | 'stuck' | 'permission_timeout' | 'compactions';
+  threshold: number;
+  value: number;
+}
+
+// State an alert is about; it clears when the session leaves it
+const ALERT_STATES: Record<string, string> = {
+  long_idle: 'idle',
+  stuck: 'working',
+  permission_timeout: 'permission_needed',
+};
+
+function minutes(ms: number): string {
+  return ms < 60_000 ? `${Math.round(ms / 1000)}s` : `${Math.round(ms / 60_000)} min`;
+}
+
+function alertText(alert: SessionAlert): string {
+  switch (alert.kind) {
+    case 'long_idle': return `Idle for ${minutes(alert.value)} after working`;
+    case 'stuck': return `Looks stuck: working for ${minutes(alert.value)} with no new output`;
+    case 'permission_timeout': return `Permission prompt unanswered for ${minutes(alert.value)}`;
+    case 'compactions': return `Compacted ${alert.value} times (limit ${alert.threshold})`;
+  }
 }
 
 type SelectHandler = (sessionId: string) => void;
 type SpawnHandler = (group: string) => void;
 type KillHandler = (sessionId: string) => void;
+type MuteHandler = (sessionId: string, muted: boolean) => void;
 
 function el<K extends keyof HTMLElementTagNameMap>(
   tag: K,
@@ -61,10 +92,12 @@ export class Sidebar {
   private container: HTMLElement;
   private sessions: SessionInfo[] = [];
   private activeId: string | null = null;
+  private alerts = new Map<string, SessionAlert>();
   private collapsedGroups = new Set<string>();
   private onSelect: SelectHandler = () => {};
   private onSpawn: SpawnHandler = () => {};
   private onKill: KillHandler = () => {};
+  private onMute: MuteHandler = () => {};
 
   constructor(container: HTMLElement) {
     this.container = container;
@@ -73,6 +106,7 @@ export class Sidebar {
   setOnSelect(fn: SelectHandler): void { this.onSelect = fn; }
   setOnSpawn(fn: SpawnHandler): void { this.onSpawn = fn; }
   setOnKill(fn: KillHandler): void { this.onKill = fn; }
+  setOnMute(fn: MuteHandler): void { this.onMute = fn; }
 
   setActive(id: string | null): void {
     this.activeId = id;
@@ -93,20 +127,34 @@ export class Sidebar {
 
   removeSession(id: string): void {
     this.sessions = this.sessions.filter((s) => s.id !== id);
+    this.alerts.delete(id);
     if (this.activeId === id) this.activeId = null;
     this.render();
   }
 
   markExited(id: string): void {
     const s = this.sessions.find((s) => s.id === id);
+    this.alerts.delete(id);
     if (s) { s.status = 'exited'; s.pid = null; this.render(); }
   }
 
   updateDetailedState(id: string, detailedState: string): void {
     const s = this.sessions.find((s) => s.id === id);
+    const alert = this.alerts.get(id);
+    if (alert && ALERT_STATES[alert.kind] && ALERT_STATES[alert.kind] !== detailedState) this.alerts.delete(id);
     if (s) { s.detailedState = detailedState; this.render(); }
   }
 
+  addAlert(id: string, alert: SessionAlert): void {
+    this.alerts.set(id, alert);
+    this.render();
+  }
+
+  updateMute(id: string, mute: SessionMute | null): void {
+    const s = this.sessions.find((s) => s.id === id);
+    if (s) { s.mute = mute; this.render(); }
+  }
+
   // Full DOM re-render: intentional for simplicity — session list is small enough that
   // diffing overhead isn't warranted.
   private render(): void {
@@ -181,9 +229,11 @@ export class Sidebar {
           },
             el('div', { className: `session-status state-${stateClass}` }),
             el('span', { className: 'session-name' }, s.name),
+            ...this.alertBadge(s.id),
             s.detailedState && s.status === 'running'
               ? el('span', { className: `session-state session-state-${stateClass}` }, stateLabel(stateClass))
               : el('span', { className: 'session-id' }, s.id),
+            this.muteButton(s),
           );
 
           // Exited sessions are not interactive (no terminal to attach to)
@@ -204,4 +254,28 @@ export class Sidebar {
       this.container.append(groupEl);
     }
   }
+
+  private alertBadge(id: string): HTMLElement[] {
+    const alert = this.alerts.get(id);
+    if (!alert) return [];
+    const text = alertText(alert);
+    return [el('span', { className: `session-alert session-alert-${alert.kind}`, title: text, 'aria-label': text }, '\u26A0')];
+  }
+
+  /** Bell that mutes or unmutes the session's notifications (webhooks and browser). */
+  private muteButton(s: SessionInfo): HTMLButtonElement {
+    const muted = muteActive(s.mute);
+    let title = 'Mute notifications';
+    if (muted) {
+      const what = s.mute!.events ? ` (${s.mute!.events.join(', ')})` : '';
+      const until = s.mute!.until ? ` until ${new Date(s.mute!.until).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : '';
+      title = `Muted${what}${until} — click to unmute`;
+    }
+    const btn = el('button', { className: `session-mute${muted ? ' muted' : ''}`, title, 'aria-label': title }, muted ? '\u{1F515}' : '\u{1F514}');
+    btn.addEventListener('click', (e) => {
+      e.stopPropagation();
+      this.onMute(s.id, !muted);
+    });
+    return btn;
+  }
 }
@@ -2,20 +2,23 @@ import type { IncomingMessage, ServerResponse } from 'http';
 import { readFileSync, existsSync, readdirSync, statSync, realpathSync } from 'fs';
 import { resolve, join, dirname } from 'path';
 import { homedir } from 'os';
-import { timingSafeEqual } from 'crypto';
-import type { ISessionManager, ApiSpawnRequest, ApiSetTaskRequest, ApiInputRequest, ApiResizeRequest, ApiResponse, GroupInfo, DetailedState } from './types.js';
-import { muteSession, unmuteSession } from './webhook.js';
+import type { ISessionManager, AuthPrincipal, TokenScope, ApiSpawnRequest, ApiSetTaskRequest, ApiEnqueueTaskRequest, ApiReorderTasksRequest, ApiGroupTaskRequest, ApiGroupPoolRequest, ApiPermissionRequest, ApiCreateTokenRequest, ApiRotateTokenRequest, ApiShareRequest, ApiMuteRequest, ApiWebhookRequest, ApiPushSubscriptionRequest, WebhookDeliveryStatus, PermissionDecision, ApiInputRequest, ApiResizeRequest, ApiResponse, GroupInfo, DetailedState } from './types.js';
+import { parseMute, WebhookManager } from './webhook.js';
 import { auditLog, getAuditEntries } from './audit-log.js';
+import { GroupPool } from './group-pool.js';
+import { permissionKeys } from './permission-prompt.js';
+import { AuthManager, can, masterId } from './auth.js';
+import type { TunnelManager } from './tunnel.js';
+import { WebPushManager } from './web-push.js';
+import { PatternPacks } from './pattern-packs.js';
+
+const PERMISSION_DECISIONS: PermissionDecision[] = ['allow_once', 'allow_always', 'deny'];
+const DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'retrying', 'delivered', 'failed'];
 
 const DASHBOARD_DIR = resolve(import.meta.dirname ?? '.', '../../dist-dashboard');
 const HOME_DIR = homedir();
 const BROWSE_ENABLED = process.env.BB_ENABLE_BROWSE?.toLowerCase() === 'true';
 
-function safeTokenCompare(a: string, b: string): boolean {
-  if (a.length !== b.length) return false;
-  return timingSafeEqual(Buffer.from(a), Buffer.from(b));
-}
-
 function json(res: ServerResponse, status: number, body: ApiResponse): void {
   res.writeHead(status, { 'Content-Type': 'application/json' });
   res.end(JSON.stringify(body));
@@ -48,6 +51,25 @@ async function parseJson<T>(req: IncomingMessage): Promise<T> {
   return JSON.parse(body) as T;
 }
 
+/** parseJson for routes whose body is optional: {} without one. */
+async function parseOptionalJson<T>(req: IncomingMessage): Promise<Partial<T>> {
+  const body = await readBody(req);
+  if (body.trim() === '') return {};
+  const ct = req.headers['content-type'] ?? '';
+  if (!ct.includes('application/json')) {
+    throw Object.assign(new Error('Content-Type must be application/json'), { statusCode: 415 });
+  }
+  return JSON.parse(body) as Partial<T>;
+}
+
+/** Parse an optional byte-offset query param: undefined if absent, null if invalid. */
+function parseOffset(raw: string | null): number | undefined | null {
+  if (raw === null || raw === '') return undefined;
+  if (!/^\d+$/.test(raw)) return null;
+  const n = Number(raw);
+  return Number.isSafeInteger(n) ? n : null;
+}
+
 function clientIp(req: IncomingMessage): string {
   return req.socket.remoteAddress ?? 'unknown';
 }
@@ -117,6 +139,70 @@ function serveDashboard(req: IncomingMessage, res: ServerResponse): boolean {
   return true;
 }
 
+// Scope each route needs (see auth.ts). Session routes are also checked
+// against the token's groups; /api routes not listed here need admin.
+const ROUTE_SCOPES: [method: string, pattern: string, scope: TokenScope][] = [
+  ['GET', '/health', 'read'],
+  ['GET', '/api/sessions', 'read'],
+  ['POST', '/api/sessions', 'spawn'],
+  ['GET', '/api/sessions/:id', 'read'],
+  ['DELETE', '/api/sessions/:id', 'kill'],
+  ['POST', '/api/sessions/:id/input', 'input'],
+  ['POST', '/api/sessions/:id/permission', 'input'],
+  ['POST', '/api/sessions/:id/resize', 'input'],
+  ['POST', '/api/sessions/:id/restart', 'spawn'],
+  ['POST', '/api/sessions/:id/share', 'read'],
+  ['POST', '/api/sessions/:id/mute', 'input'],
+  ['POST', '/api/sessions/:id/unmute', 'input'],
+  ['POST', '/api/sessions/:id/task', 'input'],
+  ['GET', '/api/sessions/:id/tasks', 'read'],
+  ['POST', '/api/sessions/:id/tasks', 'input'],
+  ['POST', '/api/sessions/:id/tasks/reorder', 'input'],
+  ['DELETE', '/api/sessions/:id/tasks/:taskId', 'input'],
+  ['GET', '/api/sessions/:id/transcript', 'read'],
+  ['GET', '/api/sessions/:id/scrollback', 'read'],
+  ['GET', '/api/sessions/:id/screen', 'read'],
+  ['GET', '/api/browse', 'spawn'],
+  ['GET', '/api/groups', 'read'],
+  ['GET', '/api/groups/:name/tasks', 'read'],
+  ['POST', '/api/groups/:name/tasks', 'input'],
+  ['DELETE', '/api/groups/:name/tasks/:taskId', 'input'],
+  ['GET', '/api/groups/:name/pool', 'read'],
+  ['POST', '/api/groups/:name/pool', 'spawn'],
+  ['GET', '/api/summary', 'read'],
+  ['GET', '/api/patterns', 'read'],
+  ['GET', '/api/push/key', 'read'],
+  ['POST', '/api/push/subscriptions', 'read'],
+  ['DELETE', '/api/push/subscriptions/:id', 'read'],
+];
+
+// All a share link can do over REST: read its session's info, transcript and screen
+const SHARE_ROUTES = new Set(['/api/sessions/:id', '/api/sessions/:id/transcript', '/api/sessions/:id/screen']);
+
+/** decodeURIComponent, or null for a malformed escape like `%E0%A4%A` */
+function decodeParam(value: string): string | null {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return null;
+  }
+}
+
+/** A route's decoded `:name` group, or null after answering 400 for a malformed one */
+function groupParam(res: ServerResponse, params: Record<string, string>): string | null {
+  const group = decodeParam(params.name);
+  if (group === null) json(res, 400, { ok: false, error: 'Malformed group name in URL' });
+  return group;
+}
+
+function routeScope(url: string, method: string): { scope: TokenScope; params: Record<string, string>; pattern: string | null } {
+  for (const [m, pattern, scope] of ROUTE_SCOPES) {
+    const params = matchRoute(url, method, pattern, m);
+    if (params) return { scope, params, pattern };
+  }
+  return { scope: 'admin', params: {}, pattern: null };
+}
+
 // M3: Simple in-memory rate limiter for spawn
 const spawnTimestamps = new Map<string, number[]>();
 const SPAWN_RATE_LIMIT = 10;
@@ -149,13 +235,13 @@ setInterval(() => {
 function isAllowedOrigin(origin: string): boolean {
   try {
     const u = new URL(origin);
-    return (u.hostname === 'localhost' || u.hostname === '127.0.0.1') && u.protocol === 'http:';
+    return (u.hostname === 'localhost' || u.hostname === '127.0.0.1') && (u.protocol === 'http:' || u.protocol === 'https:');
   } catch {
     return false;
   }
 }
 
-export function createApiHandler(sessions: ISessionManager, authToken: string) {
+export function createApiHandler(sessions: ISessionManager, auth: AuthManager, pool = new GroupPool(sessions), tunnel?: TunnelManager, webhooks = new WebhookManager(), push = new WebPushManager(), patterns = new PatternPacks()) {
   return async function handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
     const url = (req.url ?? '/').split('?')[0];
     const method = req.method ?? 'GET';
@@ -177,16 +263,30 @@ export function createApiHandler(sessions: ISessionManager, authToken: string) {
     }
 
     // C3: Auth check — require for /api/*, /health, AND dashboard
-    if (url.startsWith('/api/') || url === '/health') {
-      const tokenFromQuery = query.get('token');
-      const authHeader = req.headers.authorization;
-      const tokenFromHeader = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
-      const token = tokenFromQuery ?? tokenFromHeader;
+    const authHeader = req.headers.authorization;
+    const tokenFromHeader = authHeader?.startsWith('Bearer ') ? authHeader.slice(7) : null;
+    const presented = query.get('token') ?? tokenFromHeader;
+    const principal: AuthPrincipal | null = auth.authenticate(presented);
+    const actor = principal?.name;
+    /** Whether the caller may see sessions of `group` */
+    const canRead = (group: string) => !!principal && can(principal, 'read', group);
 
-      if (!token || !safeTokenCompare(token, authToken)) {
+    if (url.startsWith('/api/') || url === '/health') {
+      if (!principal) {
         json(res, 401, { ok: false, error: 'Unauthorized — invalid or missing token' });
         return;
       }
+      const { scope, params, pattern } = routeScope(url, method);
+      const name = params.name === undefined ? undefined : groupParam(res, params);
+      if (name === null) return;
+      const group = params.id ? sessions.getInfo(params.id)?.group : name;
+      const shareAllowed = principal.sessionId === null || (pattern !== null && SHARE_ROUTES.has(pattern));
+      if (!shareAllowed || !can(principal, scope, group, params.id)) {
+        const where = group === undefined ? '' : ` in group "${group}"`;
+        auditLog({ action: 'auth:denied', sessionId: params.id, source: 'rest', actor, ip, summary: `${method} ${url}`, result: 'error', error: `Missing ${scope} scope${where}` });
+        json(res, 403, { ok: false, error: `Forbidden — token lacks ${scope} access${where}` });
+        return;
+      }
     }
 
     try {
@@ -197,6 +297,7 @@ export function createApiHandler(sessions: ISessionManager, authToken: string) {
           data: {
             uptime: process.uptime(),
             sessions: sessions.count(),
+            tunnel: tunnel?.getStatus() ?? null,
           },
         });
         return;
@@ -205,20 +306,26 @@ export function createApiHandler(sessions: ISessionManager, authToken: string) {
       // ── List sessions ──
       if (url === '/api/sessions' && method === 'GET') {
         const group = query.get('group') ?? undefined;
-        json(res, 200, { ok: true, data: sessions.list(group) });
+        json(res, 200, { ok: true, data: sessions.list(group).filter((s) => canRead(s.group)) });
         return;
       }
 
       // ── Spawn session ──
       if (url === '/api/sessions' && method === 'POST') {
         if (!checkSpawnRateLimit(ip)) {
-          auditLog({ action: 'session:spawn', source: 'rest', actor: ip, result: 'error', error: 'Rate limited' });
+          auditLog({ action: 'session:spawn', source: 'rest', actor, ip, result: 'error', error: 'Rate limited' });
           json(res, 429, { ok: false, error: 'Too many spawn requests — max 10 per 60 seconds' });
           return;
         }
         const body = await parseJson<ApiSpawnRequest>(req);
-        const info = sessions.spawn(body);
-        auditLog({ action: 'session:spawn', sessionId: info.id, source: 'rest', actor: ip, summary: info.name, result: 'ok' });
+        const spawnGroup = String(body.group ?? 'default');
+        if (!can(principal!, 'spawn', spawnGroup)) {
+          auditLog({ action: 'auth:denied', source: 'rest', actor, ip, summary: `${method} ${url}`, result: 'error', error: `Missing spawn scope in group "${spawnGroup}"` });
+          json(res, 403, { ok: false, error: `Forbidden — token lacks spawn access in group "${spawnGroup}"` });
+          return;
+        }
+        const info = await sessions.spawn(body);
+        auditLog({ action: 'session:spawn', sessionId: info.id, source: 'rest', actor, ip, summary: info.name, result: 'ok' });
         json(res, 201, { ok: true, data: info });
         return;
       }
@@ -239,27 +346,60 @@ export function createApiHandler(sessions: ISessionManager, authToken: string) {
       params = matchRoute(url, method, '/api/sessions/:id/input', 'POST');
       if (params) {
         const body = await parseJson<ApiInputRequest>(req);
-        const ok = sessions.write(params.id, body.data);
+        const ok = await sessions.write(params.id, body.data);
         if (!ok) {
-          auditLog({ action: 'session:input', sessionId: params.id, source: 'rest', actor: ip, result: 'error', error: 'Not found or not running' });
+          auditLog({ action: 'session:input', sessionId: params.id, source: 'rest', actor, ip, result: 'error', error: 'Not found or not running' });
           json(res, 404, { ok: false, error: 'Session not found or not running' });
           return;
         }
-        auditLog({ action: 'session:input', sessionId: params.id, source: 'rest', actor: ip, summary: `${body.data.length} bytes`, result: 'ok' });
+        auditLog({ action: 'session:input', sessionId: params.id, source: 'rest', actor, ip, summary: `${body.data.length} bytes`, result: 'ok' });
         json(res, 200, { ok: true });
         return;
       }
 
+      // ── Answer a permission prompt ──
+      params = matchRoute(url, method, '/api/sessions/:id/permission', 'POST');
+      if (params) {
+        const body = await parseJson<ApiPermissionRequest>(req);
+        if (!PERMISSION_DECISIONS.includes(body.decision)) {
+          json(res, 400, { ok: false, error: `decision must be one of: ${PERMISSION_DECISIONS.join(', ')}` });
+          return;
+        }
+        const info = sessions.getInfo(params.id);
+        if (!info) {
+          json(res, 404, { ok: false, error: 'Session not found' });
+          return;
+        }
+        const pending = info.status === 'running' && info.detailedState === 'permission_needed' ? info.pendingPermission : null;
+        if (!pending) {
+          json(res, 409, { ok: false, error: 'Session is not waiting for permission' });
+          return;
+        }
+        const keys = permissionKeys(pending, body.decision);
+        if (!keys) {
+          json(res, 409, { ok: false, error: `Prompt has no ${body.decision} option` });
+          return;
+        }
+        if (!(await sessions.write(params.id, keys))) {
+          json(res, 404, { ok: false, error: 'Session not found or not running' });
+          return;
+        }
+        const option = pending.options.find((o) => o.key === keys) ?? null;
+        auditLog({ action: 'session:permission', sessionId: params.id, source: 'rest', actor, ip, summary: `${body.decision}: ${pending.command ?? pending.filePath ?? pending.tool ?? pending.question}`.slice(0, 120), result: 'ok' });
+        json(res, 200, { ok: true, data: { decision: body.decision, option } });
+        return;
+      }
+
       // ── Resize ──
       params = matchRoute(url, method, '/api/sessions/:id/resize', 'POST');
       if (params) {
         const body = await parseJson<ApiResizeRequest>(req);
-        const ok = sessions.resize(params.id, body.cols, body.rows);
+        const ok = await sessions.resize(params.id, body.cols, body.rows);
         if (!ok) {
           json(res, 404, { ok: false, error: 'Session not found or not running' });
           return;
         }
-        auditLog({ action: 'session:resize', sessionId: params.id, source: 'rest', actor: ip, summary: `${body.cols}x${body.rows}`, result: 'ok' });
+        auditLog({ action: 'session:resize', sessionId: params.id, source: 'rest', actor, ip, summary: `${body.cols}x${body.rows}`, result: 'ok' });
         json(res, 200, { ok: true });
         return;
       }
@@ -267,39 +407,99 @@ export function createApiHandler(sessions: ISessionManager, authToken: string) {
       // ── Kill session ──
       params = matchRoute(url, method, '/api/sessions/:id', 'DELETE');
       if (params) {
-        const ok = sessions.kill(params.id);
+        const ok = await sessions.kill(params.id);
         if (!ok) {
           json(res, 404, { ok: false, error: 'Session not found' });
           return;
         }
-        auditLog({ action: 'session:kill', sessionId: params.id, source: 'rest', actor: ip, result: 'ok' });
+        auditLog({ action: 'session:kill', sessionId: params.id, source: 'rest', actor, ip, result: 'ok' });
         json(res, 200, { ok: true });
         return;
       }
 
-      // ── Mute/unmute webhook notifications ──
-      params = matchRoute(url, method, '/api/sessions/:id/mute', 'POST');
+      // ── Restart an exited session (same id, claude --resume <conversationId>) ──
+      params = matchRoute(url, method, '/api/sessions/:id/restart', 'POST');
       if (params) {
         const info = sessions.getInfo(params.id);
         if (!info) {
           json(res, 404, { ok: false, error: 'Session not found' });
           return;
         }
-        muteSession(params.id);
-        auditLog({ action: 'session:mute', sessionId: params.id, source: 'rest', actor: ip, result: 'ok' });
-        json(res, 200, { ok: true, data: { muted: true } });
+        if (info.status === 'running') {
+          json(res, 409, { ok: false, error: 'Session is still running' });
+          return;
+        }
+        let restarted;
+        try {
+          restarted = await sessions.restart(params.id);
+        } catch (err) {
+          // An automatic restart may have won the race; otherwise the cwd or launch failed
+          const message = (err as Error).message;
+          json(res, /still running/.test(message) ? 409 : 400, { ok: false, error: message });
+          return;
+        }
+        if (!restarted) {
+          json(res, 404, { ok: false, error: 'Session not found' });
+          return;
+        }
+        auditLog({ action: 'session:restart', sessionId: params.id, source: 'rest', actor, ip, summary: restarted.name, result: 'ok' });
+        json(res, 200, { ok: true, data: restarted });
         return;
       }
 
-      params = matchRoute(url, method, '/api/sessions/:id/unmute', 'POST');
+      // ── Share link ──
+      params = matchRoute(url, method, '/api/sessions/:id/share', 'POST');
       if (params) {
+        const body = await parseJson<ApiShareRequest>(req);
+        if (body.ttl !== undefined && typeof body.ttl !== 'number') {
+          json(res, 400, { ok: false, error: 'ttl must be a number of seconds' });
+          return;
+        }
         const info = sessions.getInfo(params.id);
         if (!info) {
           json(res, 404, { ok: false, error: 'Session not found' });
           return;
         }
-        unmuteSession(params.id);
-        auditLog({ action: 'session:unmute', sessionId: params.id, source: 'rest', actor: ip, result: 'ok' });
+        let link;
+        try {
+          link = auth.share(params.id, body.ttl === undefined ? undefined : body.ttl * 1000, principal!.tokenId);
+        } catch (err) {
+          json(res, 400, { ok: false, error: (err as Error).message });
+          return;
+        }
+        auditLog({ action: 'session:share', sessionId: params.id, source: 'rest', actor, ip, summary: `until ${link.expiresAt}`, result: 'ok' });
+        json(res, 201, { ok: true, data: link });
+        return;
+      }
+
+      // ── Mute/unmute notifications (webhooks and browser push) ──
+      params = matchRoute(url, method, '/api/sessions/:id/mute', 'POST');
+      if (params) {
+        const body = await parseOptionalJson<ApiMuteRequest>(req);
+        let mute;
+        try {
+          mute = parseMute(body);
+        } catch (err) {
+          json(res, 400, { ok: false, error: (err as Error).message });
+          return;
+        }
+        if (!sessions.setMute(params.id, mute)) {
+          json(res, 404, { ok: false, error: 'Session not found' });
+          return;
+        }
+        const summary = [mute.events && mute.events.join(','), mute.until && `until ${mute.until}`].filter(Boolean).join(' ');
+        auditLog({ action: 'session:mute', sessionId: params.id, source: 'rest', actor, ip, summary: summary || undefined, result: 'ok' });
+        json(res, 200, { ok: true, data: { muted: true, mute } });
+        return;
+      }
+
+      params = matchRoute(url, method, '/api/sessions/:id/unmute', 'POST');
+      if (params) {
+        if (!sessions.setMute(params.id, null)) {
+          json(res, 404, { ok: false, error: 'Session not found' });
+          return;
+        }
+        auditLog({ action: 'session:unmute', sessionId: params.id, source: 'rest', actor, ip, result: 'ok' });
         json(res, 200, { ok: true, data: { muted: false } });
         return;
       }
@@ -313,11 +513,88 @@ export function createApiHandler(sessions: ISessionManager, authToken: string) {
           json(res, 404, { ok: false, error: 'Session not found' });
           return;
         }
-        auditLog({ action: 'session:setTask', sessionId: params.id, source: 'rest', actor: ip, summary: body.task.slice(0, 80), result: 'ok' });
+        auditLog({ action: 'session:setTask', sessionId: params.id, source: 'rest', actor, ip, summary: body.task.slice(0, 80), result: 'ok' });
         json(res, 200, { ok: true });
         return;
       }
 
+      // ── Task queue ──
+      params = matchRoute(url, method, '/api/sessions/:id/tasks', 'GET');
+      if (params) {
+        const tasks = sessions.listTasks(params.id);
+        if (!tasks) {
+          json(res, 404, { ok: false, error: 'Session not found' });
+          return;
+        }
+        json(res, 200, { ok: true, data: tasks });
+        return;
+      }
+
+      params = matchRoute(url, method, '/api/sessions/:id/tasks', 'POST');
+      if (params) {
+        const body = await parseJson<ApiEnqueueTaskRequest>(req);
+        const text = typeof body.task === 'string' ? body.task.trim() : '';
+        if (!text) {
+          json(res, 400, { ok: false, error: 'task must be a non-empty string' });
+          return;
+        }
+        let task;
+        try {
+          task = sessions.enqueueTask(params.id, text);
+        } catch (err) {
+          json(res, 429, { ok: false, error: (err as Error).message }); // queue full
+          return;
+        }
+        if (!task) {
+          json(res, 404, { ok: false, error: 'Session not found' });
+          return;
+        }
+        auditLog({ action: 'session:queueTask', sessionId: params.id, source: 'rest', actor, ip, summary: text.slice(0, 80), result: 'ok' });
+        json(res, 201, { ok: true, data: task });
+        return;
+      }
+
+      params = matchRoute(url, method, '/api/sessions/:id/tasks/reorder', 'POST');
+      if (params) {
+        const body = await parseJson<ApiReorderTasksRequest>(req);
+        if (!Array.isArray(body.order) || !body.order.every((t) => typeof t === 'string')) {
+          json(res, 400, { ok: false, error: 'order must be an array of task ids' });
+          return;
+        }
+        let tasks;
+        try {
+          tasks = sessions.reorderTasks(params.id, body.order);
+        } catch (err) {
+          json(res, 400, { ok: false, error: (err as Error).message });
+          return;
+        }
+        if (!tasks) {
+          json(res, 404, { ok: false, error: 'Session not found' });
+          return;
+        }
+        auditLog({ action: 'session:reorderTasks', sessionId: params.id, source: 'rest', actor, ip, summary: body.order.join(','), result: 'ok' });
+        json(res, 200, { ok: true, data: tasks });
+        return;
+      }
+
+      params = matchRoute(url, method, '/api/sessions/:id/tasks/:taskId', 'DELETE');
+      if (params) {
+        let task;
+        try {
+          task = sessions.cancelTask(params.id, params.taskId);
+        } catch (err) {
+          json(res, 409, { ok: false, error: (err as Error).message });
+          return;
+        }
+        if (!task) {
+          json(res, 404, { ok: false, error: 'Session or task not found' });
+          return;
+        }
+        auditLog({ action: 'session:cancelTask', sessionId: params.id, source: 'rest', actor, ip, summary: task.text.slice(0, 80), result: 'ok' });
+        json(res, 200, { ok: true, data: task });
+        return;
+      }
+
       // ── Transcript ──
       params = matchRoute(url, method, '/api/sessions/:id/transcript', 'GET');
       if (params) {
@@ -328,6 +605,40 @@ export function createApiHandler(sessions: ISessionManager, authToken: string) {
         return;
       }
 
+      // ── Scrollback by byte offset (resume after reconnect) ──
+      params = matchRoute(url, method, '/api/sessions/:id/scrollback', 'GET');
+      if (params) {
+        const from = parseOffset(query.get('from'));
+        const to = parseOffset(query.get('to'));
+        if (from === null || to === null) {
+          json(res, 400, { ok: false, error: 'from and to must be non-negative integers' });
+          return;
+        }
+        const slice = sessions.readScrollback(params.id, from, to);
+        if (!slice) {
+          json(res, 404, { ok: false, error: 'Session not found' });
+          return;
+        }
+        json(res, 200, { ok: true, data: slice });
+        return;
+      }
+
+      // ── Visible terminal screen ──
+      params = matchRoute(url, method, '/api/sessions/:id/screen', 'GET');
+      if (params) {
+        if (!sessions.getInfo(params.id)) {
+          json(res, 404, { ok: false, error: 'Session not found' });
+          return;
+        }
+        const screen = sessions.getScreen(params.id);
+        if (!screen) {
+          json(res, 409, { ok: false, error: 'Session is not running' });
+          return;
+        }
+        json(res, 200, { ok: true, data: screen });
+        return;
+      }
+
       // ── Audit log ──
       if (url === '/api/audit' && method === 'GET') {
         const limit = query.get('limit') ? parseInt(query.get('limit')!, 10) : undefined;
@@ -375,7 +686,7 @@ export function createApiHandler(sessions: ISessionManager, authToken: string) {
           // Clamp parent to home directory boundary
           const parent = dirname(realPath);
           const safeParent = (parent === HOME_DIR || parent.startsWith(HOME_DIR + '/')) ? parent : HOME_DIR;
-          auditLog({ action: 'browse', source: 'rest', actor: ip, summary: realPath, result: 'ok' });
+          auditLog({ action: 'browse', source: 'rest', actor, ip, summary: realPath, result: 'ok' });
           json(res, 200, { ok: true, data: { path: realPath, parent: safeParent, dirs } });
         } catch {
           json(res, 403, { ok: false, error: 'Cannot read directory' });
@@ -388,15 +699,245 @@ export function createApiHandler(sessions: ISessionManager, authToken: string) {
         const groups = sessions.groups();
         const result: GroupInfo[] = [];
         for (const [name, s] of groups) {
-          result.push({ name, sessionCount: s.length, sessions: s });
+          if (canRead(name)) result.push({ name, sessionCount: s.length, sessions: s });
         }
         json(res, 200, { ok: true, data: result });
         return;
       }
 
+      // ── Group work pool ──
+      params = matchRoute(url, method, '/api/groups/:name/tasks', 'GET');
+      if (params) {
+        const group = groupParam(res, params);
+        if (group === null) return;
+        json(res, 200, { ok: true, data: pool.list(group) });
+        return;
+      }
+
+      params = matchRoute(url, method, '/api/groups/:name/tasks', 'POST');
+      if (params) {
+        const group = groupParam(res, params);
+        if (group === null) return;
+        const body = await parseJson<ApiGroupTaskRequest>(req);
+        const text = typeof body.task === 'string' ? body.task.trim() : '';
+        if (!text) {
+          json(res, 400, { ok: false, error: 'task must be a non-empty string' });
+          return;
+        }
+        let task;
+        try {
+          task = pool.submit(group, text);
+        } catch (err) {
+          json(res, 429, { ok: false, error: (err as Error).message }); // pool full
+          return;
+        }
+        auditLog({ action: 'group:queueTask', source: 'rest', actor, ip, summary: `${group}: ${text.slice(0, 80)}`, result: 'ok' });
+        json(res, 201, { ok: true, data: task });
+        return;
+      }
+
+      params = matchRoute(url, method, '/api/groups/:name/tasks/:taskId', 'DELETE');
+      if (params) {
+        const group = groupParam(res, params);
+        if (group === null) return;
+        let task;
+        try {
+          task = pool.cancel(group, params.taskId);
+        } catch (err) {
+          json(res, 409, { ok: false, error: (err as Error).message });
+          return;
+        }
+        if (!task) {
+          json(res, 404, { ok: false, error: 'Task not found' });
+          return;
+        }
+        auditLog({ action: 'group:cancelTask', source: 'rest', actor, ip, summary: `${group}: ${task.text.slice(0, 80)}`, result: 'ok' });
+        json(res, 200, { ok: true, data: task });
+        return;
+      }
+
+      params = matchRoute(url, method, '/api/groups/:name/pool', 'GET');
+      if (params) {
+        const group = groupParam(res, params);
+        if (group === null) return;
+        json(res, 200, { ok: true, data: pool.getConfig(group) });
+        return;
+      }
+
+      params = matchRoute(url, method, '/api/groups/:name/pool', 'POST');
+      if (params) {
+        const group = groupParam(res, params);
+        if (group === null) return;
+        const body = await parseJson<ApiGroupPoolRequest>(req);
+        let config;
+        try {
+          config = pool.configure(group, body);
+        } catch (err) {
+          json(res, 400, { ok: false, error: (err as Error).message });
+          return;
+        }
+        auditLog({ action: 'group:configurePool', source: 'rest', actor, ip, summary: `${group}: ${JSON.stringify(config)}`.slice(0, 200), result: 'ok' });
+        json(res, 200, { ok: true, data: config });
+        return;
+      }
+
+      // ── API tokens (admin) ──
+      if (url === '/api/tokens' && method === 'GET') {
+        json(res, 200, { ok: true, data: auth.list() });
+        return;
+      }
+
+      if (url === '/api/tokens' && method === 'POST') {
+        const body = await parseJson<ApiCreateTokenRequest>(req);
+        let created;
+        try {
+          created = auth.create(body);
+        } catch (err) {
+          json(res, 400, { ok: false, error: (err as Error).message });
+          return;
+        }
+        auditLog({ action: 'token:create', source: 'rest', actor, ip, summary: `${created.name} (${created.scopes.join(',')})`, result: 'ok' });
+        json(res, 201, { ok: true, data: created });
+        return;
+      }
+
+      params = matchRoute(url, method, '/api/tokens/:id', 'DELETE');
+      if (params) {
+        const revoked = auth.revoke(decodeURIComponent(params.id));
+        if (!revoked) {
+          json(res, 404, { ok: false, error: 'Token not found' });
+          return;
+        }
+        auditLog({ action: 'token:revoke', source: 'rest', actor, ip, summary: revoked.name, result: 'ok' });
+        json(res, 200, { ok: true, data: revoked });
+        return;
+      }
+
+      // ── Webhooks (admin) ──
+      if (url === '/api/webhooks' && method === 'GET') {
+        json(res, 200, { ok: true, data: webhooks.list() });
+        return;
+      }
+
+      if (url === '/api/webhooks' && method === 'POST') {
+        const body = await parseJson<ApiWebhookRequest>(req);
+        let created;
+        try {
+          created = webhooks.create(body);
+        } catch (err) {
+          json(res, 400, { ok: false, error: (err as Error).message });
+          return;
+        }
+        auditLog({ action: 'webhook:create', source: 'rest', actor, ip, summary: `${created.id} → ${new URL(created.url).host} (${created.events.join(',')})`, result: 'ok' });
+        json(res, 201, { ok: true, data: created });
+        return;
+      }
+
+      if (url === '/api/webhooks/deliveries' && method === 'GET') {
+        const status = query.get('status') ?? undefined;
+        if (status !== undefined && !DELIVERY_STATUSES.includes(status as WebhookDeliveryStatus)) {
+          json(res, 400, { ok: false, error: `status must be one of: ${DELIVERY_STATUSES.join(', ')}` });
+          return;
+        }
+        const limit = query.get('limit') ? parseInt(query.get('limit')!, 10) : undefined;
+        const webhookId = query.get('webhook') ?? undefined;
+        json(res, 200, { ok: true, data: webhooks.deliveries.list({ webhookId, status: status as WebhookDeliveryStatus | undefined, limit }) });
+        return;
+      }
+
+      if (url === '/api/webhooks/dead-letters' && method === 'GET') {
+        json(res, 200, { ok: true, data: webhooks.deliveries.listDeadLetters() });
+        return;
+      }
+
+      params = matchRoute(url, method, '/api/webhooks/dead-letters/:id/retry', 'POST');
+      if (params) {
+        let delivery;
+        try {
+          delivery = webhooks.redeliver(params.id);
+        } catch (err) {
+          json(res, 409, { ok: false, error: (err as Error).message });
+          return;
+        }
+        if (!delivery) {
+          json(res, 404, { ok: false, error: 'Dead letter not found' });
+          return;
+        }
+        auditLog({ action: 'webhook:redeliver', source: 'rest', actor, ip, summary: `${params.id} → ${delivery.webhookId} (${delivery.event})`, result: 'ok' });
+        json(res, 200, { ok: true, data: delivery });
+        return;
+      }
+
+      params = matchRoute(url, method, '/api/webhooks/:id', 'GET');
+      if (params) {
+        const webhook = webhooks.get(params.id);
+        if (!webhook) {
+          json(res, 404, { ok: false, error: 'Webhook not found' });
+          return;
+        }
+        json(res, 200, { ok: true, data: webhook });
+        return;
+      }
+
+      params = matchRoute(url, method, '/api/webhooks/:id', 'POST');
+      if (params) {
+        const body = await parseJson<ApiWebhookRequest>(req);
+        let updated;
+        try {
+          updated = webhooks.update(params.id, body);
+        } catch (err) {
+          json(res, 400, { ok: false, error: (err as Error).message });
+          return;
+        }
+        if (!updated) {
+          json(res, 404, { ok: false, error: 'Webhook not found' });
+          return;
+        }
+        auditLog({ action: 'webhook:update', source: 'rest', actor, ip, summary: `${updated.id} → ${new URL(updated.url).host} (${updated.events.join(',')})`, result: 'ok' });
+        json(res, 200, { ok: true, data: updated });
+        return;
+      }
+
+      params = matchRoute(url, method, '/api/webhooks/:id', 'DELETE');
+      if (params) {
+        let removed;
+        try {
+          removed = webhooks.remove(params.id);
+        } catch (err) {
+          json(res, 400, { ok: false, error: (err as Error).message });
+          return;
+        }
+        if (!removed) {
+          json(res, 404, { ok: false, error: 'Webhook not found' });
+          return;
+        }
+        auditLog({ action: 'webhook:delete', source: 'rest', actor, ip, summary: removed.id, result: 'ok' });
+        json(res, 200, { ok: true, data: removed });
+        return;
+      }
+
+      // ── Rotate the master token ──
+      if (url === '/api/admin/rotate-token' && method === 'POST') {
+        const body = await parseJson<ApiRotateTokenRequest>(req);
+        if (body.grace !== undefined && typeof body.grace !== 'number') {
+          json(res, 400, { ok: false, error: 'grace must be a number of seconds' });
+          return;
+        }
+        let rotated;
+        try {
+          rotated = auth.rotate(body.grace === undefined ? undefined : body.grace * 1000);
+        } catch (err) {
+          json(res, 400, { ok: false, error: (err as Error).message });
+          return;
+        }
+        auditLog({ action: 'token:rotate', source: 'rest', actor, ip, summary: `previous valid until ${rotated.previousExpiresAt}`, result: 'ok' });
+        json(res, 200, { ok: true, data: rotated });
+        return;
+      }
+
       // ── Summary ──
       if (url === '/api/summary' && method === 'GET') {
-        const all = sessions.list();
+        const all = sessions.list().filter((s) => canRead(s.group));
         const stateCounts: Record<string, number> = {};
         const needsAttention: string[] = [];
         let running = 0;
@@ -414,6 +955,7 @@ export function createApiHandler(sessions: ISessionManager, authToken: string) {
         const groupMap = sessions.groups();
         const groupSummaries: { name: string; running: number; states: Record<string, number> }[] = [];
         for (const [name, groupSessions] of groupMap) {
+          if (!canRead(name)) continue;
           const gs: Record<string, number> = {};
           let gr = 0;
           for (const s of groupSessions) {
@@ -437,13 +979,56 @@ export function createApiHandler(sessions: ISessionManager, authToken: string) {
         return;
       }
 
+      // ── Pattern packs (for spawn's `patterns`) ──
+      if (url === '/api/patterns' && method === 'GET') {
+        json(res, 200, { ok: true, data: patterns.list() });
+        return;
+      }
+
+      // ── Web Push subscriptions (dashboard notifications) ──
+      if (url === '/api/push/key' && method === 'GET') {
+        json(res, 200, { ok: true, data: { publicKey: push.publicKey } });
+        return;
+      }
+
+      if (url === '/api/push/subscriptions' && method === 'POST') {
+        const body = await parseJson<ApiPushSubscriptionRequest>(req);
+        let sub;
+        try {
+          sub = push.subscribe(body, principal!, principal!.tokenId === null ? masterId(presented!) : null);
+        } catch (err) {
+          json(res, 400, { ok: false, error: (err as Error).message });
+          return;
+        }
+        auditLog({ action: 'push:subscribe', source: 'rest', actor, ip, summary: `${sub.id} → ${new URL(sub.endpoint).host} (${sub.states.join(',')})`, result: 'ok' });
+        json(res, 201, { ok: true, data: { id: sub.id, states: sub.states, createdAt: sub.createdAt } });
+        return;
+      }
+
+      params = matchRoute(url, method, '/api/push/subscriptions/:id', 'DELETE');
+      if (params) {
+        // Only the token that subscribed, or an admin, may remove a subscription
+        const sub = push.get(params.id);
+        if (!sub) {
+          json(res, 404, { ok: false, error: 'Push subscription not found' });
+          return;
+        }
+        if (!can(principal!, 'admin') && sub.tokenId !== principal!.tokenId) {
+          json(res, 403, { ok: false, error: 'Forbidden — push subscription belongs to another token' });
+          return;
+        }
+        const removed = push.remove(sub.id)!;
+        auditLog({ action: 'push:unsubscribe', source: 'rest', actor, ip, summary: removed.id, result: 'ok' });
+        json(res, 200, { ok: true, data: { id: removed.id } });
+        return;
+      }
+
       // ── Dashboard fallback ──
       if (method === 'GET' && !url.startsWith('/api/')) {
         // C3: Require token for dashboard HTML, but allow static assets (CSS/JS/images)
         const isAsset = url.startsWith('/assets/') || /\.(css|js|svg|png|ico|woff2?)$/i.test(url);
         if (!isAsset) {
-          const tokenFromQuery = query.get('token');
-          if (!tokenFromQuery || !safeTokenCompare(tokenFromQuery, authToken)) {
+          if (!query.get('token') || !principal) {
             json(res, 401, { ok: false, error: 'Unauthorized — pass ?token= to access dashboard' });
             return;
           }
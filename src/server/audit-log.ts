@@ -1,3 +1,4 @@
+import { EventEmitter } from 'events';
 import { appendFileSync } from 'fs';
 import type { AuditEntry, AuditQueryOptions } from './types.js';
 
@@ -6,6 +7,9 @@ const LOG_FILE = process.env.BB_AUDIT_LOG_FILE ?? '';
 
 const entries: AuditEntry[] = [];
 
+/** Emits 'entry' with each AuditEntry as it is logged */
+export const auditEvents = new EventEmitter();
+
 export function auditLog(entry: Omit<AuditEntry, 'timestamp'>): void {
   const full: AuditEntry = { timestamp: new Date().toISOString(), ...entry };
   entries.push(full);
@@ -19,6 +23,7 @@ export function auditLog(entry: Omit<AuditEntry, 'timestamp'>): void {
       // Silently ignore file write failures
     }
   }
+  auditEvents.emit('entry', full);
 }
 
 export function getAuditEntries(opts: AuditQueryOptions = {}): AuditEntry[] {
@@ -0,0 +1,230 @@
+// Auth: the master token plus named API tokens with scopes.
+//
+// The master token (BB_TOKEN, or generated on first start and kept in the
+// token store) can do everything. Rotating it swaps in a new one live; the
+// previous one keeps working for a grace period, and 'change' is emitted when
+// it stops so open connections can be re-checked.
+// Named tokens are created through the API (`bullybuddy token create`) with
+// a set of scopes and, optionally, the groups whose sessions they may touch:
+//
+//   read   list and watch sessions: output, transcripts, tasks, summary
+//   input  type into sessions, answer permission prompts, manage task queues
+//   spawn  spawn and restart sessions, configure group pools
+//   kill   kill sessions
+//   admin  everything in every group, plus the audit log and token management
+//
+// Scopes don't imply each other (except admin): a token that types into
+// sessions usually wants `read` too. Only a SHA-256 hash of each token is
+// stored, so its secret is shown once, at creation.
+//
+// Share links carry a third kind of token: `bbs_<payload>.<signature>`, an
+// HMAC (keyed by the master token) over one session id, an expiry and the id
+// of the named token that issued it. It reads that one session and nothing
+// else, and needs no server-side state — it stops working when it expires,
+// when its issuing token is revoked, or when the master token changes.
+
+import { EventEmitter } from 'events';
+import { createHash, createHmac, randomBytes, timingSafeEqual } from 'crypto';
+import type { ApiCreatedToken, ApiRotatedToken, ApiShareLink, ApiToken, AuthPrincipal, StoredToken, TokenScope, TokenStore } from './types.js';
+import { MemoryTokenStore } from './token-store.js';
+
+export const TOKEN_SCOPES: readonly TokenScope[] = ['read', 'input', 'spawn', 'kill', 'admin'];
+const MAX_TOKENS = 100;
+const NAME_RE = /^[\w.-]{1,64}$/;
+
+const SHARE_PREFIX = 'bbs_';
+export const DEFAULT_SHARE_TTL_MS = 60 * 60_000;
+export const MAX_SHARE_TTL_MS = 7 * 24 * 60 * 60_000;
+export const DEFAULT_ROTATE_GRACE_MS = 5 * 60_000;
+export const MAX_ROTATE_GRACE_MS = 24 * 60 * 60_000;
+
+const MASTER: AuthPrincipal = { name: 'master', tokenId: null, scopes: ['admin'], groups: null, sessionId: null };
+
+export function safeTokenCompare(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  return timingSafeEqual(Buffer.from(a), Buffer.from(b));
+}
+
+function hashToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+/** A stable id for a master token, for records that must not outlive it. Not secret. */
+export function masterId(token: string): string {
+  return hashToken(`master:${token}`).slice(0, 16);
+}
+
+function publicToken({ hash: _hash, ...token }: StoredToken): ApiToken {
+  return token;
+}
+
+/**
+ * Whether `principal` may use `scope` — on sessions of `group` when given.
+ * Admin covers every scope and group. A share principal only ever matches
+ * its own `sessionId`.
+ */
+export function can(principal: AuthPrincipal, scope: TokenScope, group?: string, sessionId?: string): boolean {
+  if (principal.scopes.includes('admin')) return true;
+  if (!principal.scopes.includes(scope)) return false;
+  if (principal.sessionId !== null && sessionId !== principal.sessionId) return false;
+  return group === undefined || principal.groups === null || principal.groups.includes(group);
+}
+
+/** A fresh random master token. */
+export function generateMasterToken(): string {
+  return randomBytes(16).toString('hex');
+}
+
+export class AuthManager extends EventEmitter {
+  private tokens: StoredToken[];
+  /** The master token before the last rotation, while its grace period lasts */
+  private previous: { token: string; expiresAt: number; timer: ReturnType<typeof setTimeout> } | null = null;
+
+  constructor(private masterToken: string, private store: TokenStore = new MemoryTokenStore()) {
+    super();
+    this.tokens = store.load();
+  }
+
+  /** The current master token. */
+  get master(): string {
+    return this.masterToken;
+  }
+
+  /**
+   * Replace the master token. The previous one keeps working for `graceMs`.
+   * Emits 'rotated' with the new token, and 'change' now and when the grace
+   * period ends.
+   */
+  rotate(graceMs = DEFAULT_ROTATE_GRACE_MS): ApiRotatedToken {
+    if (!Number.isFinite(graceMs) || graceMs < 0 || graceMs > MAX_ROTATE_GRACE_MS) {
+      throw new Error(`grace must be between 0 and ${MAX_ROTATE_GRACE_MS / 1000} seconds`);
+    }
+    if (this.previous) clearTimeout(this.previous.timer);
+    this.previous = null;
+    const expiresAt = Date.now() + graceMs;
+    if (graceMs > 0) {
+      const timer = setTimeout(() => {
+        this.previous = null;
+        this.emit('change');
+      }, graceMs);
+      timer.unref();
+      this.previous = { token: this.masterToken, expiresAt, timer };
+    }
+    this.masterToken = generateMasterToken();
+    this.store.saveMaster(this.masterToken);
+    this.emit('rotated', this.masterToken);
+    // Whatever was in its grace period before this rotation has just ended
+    this.emit('change');
+    return { token: this.masterToken, previousExpiresAt: new Date(expiresAt).toISOString() };
+  }
+
+  /** masterId() of each master token that works now: the current one and one in its grace period. */
+  masterIds(): string[] {
+    const ids = [masterId(this.masterToken)];
+    if (this.previous && this.previous.expiresAt > Date.now()) ids.push(masterId(this.previous.token));
+    return ids;
+  }
+
+  /** The principal a presented token belongs to, or null if it is unknown. */
+  authenticate(token: string | null | undefined): AuthPrincipal | null {
+    if (!token) return null;
+    if (safeTokenCompare(token, this.masterToken)) return MASTER;
+    if (this.previous && this.previous.expiresAt > Date.now() && safeTokenCompare(token, this.previous.token)) {
+      return MASTER;
+    }
+    if (token.startsWith(SHARE_PREFIX)) return this.verifyShare(token);
+    const hash = hashToken(token);
+    const t = this.tokens.find((t) => safeTokenCompare(t.hash, hash));
+    return t ? { name: t.name, tokenId: t.id, scopes: t.scopes, groups: t.groups, sessionId: null } : null;
+  }
+
+  /**
+   * A signed, read-only link token for one session, valid for `ttlMs` and
+   * while the named token `issuer` exists (null: issued with the master token).
+   */
+  share(sessionId: string, ttlMs = DEFAULT_SHARE_TTL_MS, issuer: string | null = null): ApiShareLink {
+    if (!Number.isFinite(ttlMs) || ttlMs <= 0 || ttlMs > MAX_SHARE_TTL_MS) {
+      throw new Error(`ttl must be between 1 second and ${MAX_SHARE_TTL_MS / 1000} seconds`);
+    }
+    const expiresAt = Date.now() + ttlMs;
+    const payload = Buffer.from(JSON.stringify({ s: sessionId, e: expiresAt, t: issuer })).toString('base64url');
+    return {
+      token: `${SHARE_PREFIX}${payload}.${this.sign(payload)}`,
+      sessionId,
+      expiresAt: new Date(expiresAt).toISOString(),
+    };
+  }
+
+  private sign(payload: string, key = this.masterToken): string {
+    return createHmac('sha256', key).update(`share:${payload}`).digest('base64url');
+  }
+
+  private verifyShare(token: string): AuthPrincipal | null {
+    const [payload, sig] = token.slice(SHARE_PREFIX.length).split('.');
+    if (!payload || !sig) return null;
+    // Links signed before a rotation last as long as the previous master token
+    const keys = [this.masterToken];
+    if (this.previous && this.previous.expiresAt > Date.now()) keys.push(this.previous.token);
+    if (!keys.some((key) => safeTokenCompare(sig, this.sign(payload, key)))) return null;
+    try {
+      const { s, e, t } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+      if (typeof s !== 'string' || typeof e !== 'number' || e <= Date.now()) return null;
+      // Links die with the token that issued them
+      if (t != null && !this.tokens.some((token) => token.id === t)) return null;
+      return { name: `share:${s}`, tokenId: null, scopes: ['read'], groups: null, sessionId: s, expiresAt: e };
+    } catch {
+      return null;
+    }
+  }
+
+  list(): ApiToken[] {
+    return this.tokens.map(publicToken);
+  }
+
+  /** Create a named token. Throws on invalid input or a duplicate name. */
+  create(raw: unknown): ApiCreatedToken {
+    if (!raw || typeof raw !== 'object') throw new Error('Token request must be an object');
+    const r = raw as Record<string, unknown>;
+    if (typeof r.name !== 'string' || !NAME_RE.test(r.name) || r.name === MASTER.name) {
+      throw new Error('name must be 1-64 letters, digits, "_", "-" or "." (and not "master")');
+    }
+    const name = r.name;
+    if (this.tokens.some((t) => t.name === name)) throw new Error(`A token named "${name}" already exists`);
+    if (!Array.isArray(r.scopes) || r.scopes.length === 0 || !r.scopes.every((s) => TOKEN_SCOPES.includes(s))) {
+      throw new Error(`scopes must be a non-empty list of: ${TOKEN_SCOPES.join(', ')}`);
+    }
+    const scopes = [...new Set(r.scopes as TokenScope[])];
+    let groups: string[] | null = null;
+    if (r.groups !== undefined && r.groups !== null) {
+      if (!Array.isArray(r.groups) || r.groups.length === 0 || !r.groups.every((g) => typeof g === 'string' && g)) {
+        throw new Error('groups must be a non-empty list of group names, or null for all groups');
+      }
+      if (scopes.includes('admin')) throw new Error('admin tokens cannot be limited to groups');
+      groups = [...new Set(r.groups as string[])];
+    }
+    if (this.tokens.length >= MAX_TOKENS) throw new Error(`Too many tokens (max ${MAX_TOKENS})`);
+
+    const secret = `bb_${randomBytes(24).toString('base64url')}`;
+    const stored: StoredToken = {
+      id: randomBytes(4).toString('hex'),
+      name,
+      scopes,
+      groups,
+      createdAt: new Date().toISOString(),
+      hash: hashToken(secret),
+    };
+    this.tokens.push(stored);
+    this.store.save(this.tokens);
+    return { ...publicToken(stored), token: secret };
+  }
+
+  /** Revoke a token by id or name. Undefined if there is no such token. */
+  revoke(idOrName: string): ApiToken | undefined {
+    const idx = this.tokens.findIndex((t) => t.id === idOrName || t.name === idOrName);
+    if (idx === -1) return undefined;
+    const [removed] = this.tokens.splice(idx, 1);
+    this.store.save(this.tokens);
+    this.emit('change');
+    return publicToken(removed);
+  }
+}
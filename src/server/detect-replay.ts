@@ -0,0 +1,150 @@
+// Detector replay: runs a recorded terminal capture through StateDetector and
+// returns the state timeline, to check a pattern pack against real output
+// (`bullybuddy detect --replay`).
+//
+// A capture is either an asciicast file (`asciinema rec`, v2 or v3), whose
+// event times drive a virtual clock so idle timeouts happen as they did, or
+// raw terminal output — a `script` log or a tmux session's pipe file
+// (~/.bullybuddy/pipes/<id>.pipe) — fed a line at a time with no time
+// passing. Either way the capture ends with `idleTimeoutMs` of silence.
+// The detector's screen takes the recorded terminal size, if there is one.
+
+import { StateDetector, type Clock } from './state-detector.js';
+import { DEFAULT_THRESHOLDS } from './thresholds.js';
+import type { CompiledPatternPack } from './pattern-packs.js';
+import type { DetailedState } from './types.js';
+import { DEFAULT_COLS, DEFAULT_ROWS } from './terminal-screen.js';
+
+export interface CaptureChunk {
+  /** ms since the recording started; null in raw captures */
+  time: number | null;
+  data: string;
+}
+
+export interface Capture {
+  format: 'asciicast' | 'raw';
+  /** Terminal size from the asciicast header; null if it has none */
+  cols: number | null;
+  rows: number | null;
+  chunks: CaptureChunk[];
+}
+
+export interface ReplayOptions {
+  idleTimeoutMs?: number;
+  /** Terminal size, when the capture doesn't have one (default 120×40) */
+  cols?: number;
+  rows?: number;
+}
+
+export interface TimelineEntry {
+  /** ms since the capture started (always 0 in raw captures, until the closing silence) */
+  at: number;
+  /** Bytes of output read when the state changed */
+  offset: number;
+  state: DetailedState;
+  prev: DetailedState;
+}
+
+const REPLAY_ID = 'replay';
+
+/** Split a capture file into output chunks. Throws on a malformed asciicast. */
+export function parseCapture(content: string): Capture {
+  const lines = content.split('\n');
+  let header: unknown;
+  try {
+    header = JSON.parse(lines[0]);
+  } catch { /* not asciicast */ }
+  const version = header && typeof header === 'object' && !Array.isArray(header)
+    ? (header as Record<string, unknown>).version
+    : undefined;
+  if (version === undefined) {
+    const chunks = content.split(/(?<=\n)/).filter(Boolean).map((data) => ({ time: null, data }));
+    return { format: 'raw', cols: null, rows: null, chunks };
+  }
+  if (version !== 2 && version !== 3) throw new Error(`Unsupported asciicast version: ${version}`);
+  // v2 has width and height, v3 term.cols and term.rows
+  const h = header as { width?: unknown; height?: unknown; term?: { cols?: unknown; rows?: unknown } };
+  const size = (value: unknown) => (typeof value === 'number' && Number.isInteger(value) && value > 0 ? value : null);
+  const cols = size(version === 2 ? h.width : h.term?.cols);
+  const rows = size(version === 2 ? h.height : h.term?.rows);
+
+  // v2 event times are since the start, v3 ones since the previous event
+  const chunks: CaptureChunk[] = [];
+  let time = 0;
+  for (let i = 1; i < lines.length; i++) {
+    const line = lines[i].trim();
+    if (!line || line.startsWith('#')) continue;
+    let event: unknown;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${i + 1}: not a JSON event`);
+    }
+    if (!Array.isArray(event) || typeof event[0] !== 'number' || typeof event[1] !== 'string') {
+      throw new Error(`Line ${i + 1}: expected [time, code, data]`);
+    }
+    time = version === 2 ? event[0] * 1000 : time + event[0] * 1000;
+    if (event[1] === 'o' && typeof event[2] === 'string') chunks.push({ time, data: event[2] });
+  }
+  return { format: 'asciicast', cols, rows, chunks };
+}
+
+/** A clock that only moves when told to, running the timers that come due on the way. */
+class VirtualClock implements Clock {
+  private time = 0;
+  private nextId = 1;
+  private timers = new Map<number, { at: number; fn: () => void }>();
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(fn: () => void, ms: number): unknown {
+    const id = this.nextId++;
+    this.timers.set(id, { at: this.time + ms, fn });
+    return id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers.delete(handle as number);
+  }
+
+  advanceTo(time: number): void {
+    for (;;) {
+      let due: [number, { at: number; fn: () => void }] | undefined;
+      for (const entry of this.timers) {
+        if (entry[1].at <= time && (!due || entry[1].at < due[1].at)) due = entry;
+      }
+      if (!due) break;
+      this.timers.delete(due[0]);
+      this.time = Math.max(this.time, due[1].at);
+      due[1].fn();
+    }
+    this.time = Math.max(this.time, time);
+  }
+}
+
+/** Feed `capture` to a detector reading it with `pack`, and collect its state changes. */
+export function replayCapture(capture: Capture, pack: CompiledPatternPack, options: ReplayOptions = {}): TimelineEntry[] {
+  const idleTimeoutMs = options.idleTimeoutMs ?? DEFAULT_THRESHOLDS.idleTimeoutMs;
+  const size = {
+    cols: capture.cols ?? options.cols ?? DEFAULT_COLS,
+    rows: capture.rows ?? options.rows ?? DEFAULT_ROWS,
+  };
+  const clock = new VirtualClock();
+  const timeline: TimelineEntry[] = [];
+  let offset = 0;
+  const detector = new StateDetector(
+    (_id, state, prev) => timeline.push({ at: clock.now(), offset, state, prev }),
+    undefined,
+    { idleTimeout: () => idleTimeoutMs, patterns: () => pack, size: () => size, clock },
+  );
+  for (const chunk of capture.chunks) {
+    if (chunk.time !== null) clock.advanceTo(chunk.time);
+    offset += Buffer.byteLength(chunk.data);
+    detector.feed(REPLAY_ID, chunk.data);
+  }
+  clock.advanceTo(clock.now() + idleTimeoutMs);
+  detector.remove(REPLAY_ID);
+  return timeline;
+}
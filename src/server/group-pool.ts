@@ -0,0 +1,286 @@
+// Group work pool: tasks submitted to a group go to whichever of its sessions
+// is free.
+//
+// A session is free when it is running, idle, and has nothing queued or
+// running in its own task queue. The pool hands it the oldest pool task
+// through that queue (see task-queue.ts) and mirrors the session task's status
+// back. If a session dies mid-task, the task returns to the front of the pool,
+// up to MAX_ATTEMPTS times.
+//
+// Per group, `concurrency` caps how many pool tasks run at once, and
+// `autoSpawn` adds sessions to the group, in its configured `cwd`, while
+// queued tasks outnumber sessions that are idle or still starting, up to
+// `maxSessions` running.
+//
+// Pools live in memory: queued pool tasks do not survive a server restart.
+
+import { EventEmitter } from 'events';
+import { randomBytes } from 'crypto';
+import type { ISessionManager, SessionInfo, SessionTask, PoolTask, GroupPoolConfig, DetailedState } from './types.js';
+import { isFinished, pruneFinished, MAX_QUEUED_TASKS } from './task-queue.js';
+import { MAX_SESSIONS } from './shared.js';
+import { auditLog } from './audit-log.js';
+
+export const MAX_ATTEMPTS = 3;
+/** Pause auto-spawning in a group this long after a failed spawn */
+const AUTO_SPAWN_RETRY_MS = 30_000;
+
+interface Pool {
+  config: GroupPoolConfig;
+  tasks: PoolTask[];
+  /** Auto-spawns whose session hasn't appeared yet */
+  spawning: number;
+  spawnRetryAt: number;
+}
+
+function isLimit(n: unknown): n is number {
+  return typeof n === 'number' && Number.isInteger(n) && n >= 1 && n <= MAX_SESSIONS;
+}
+
+/**
+ * Validate a pool config update and merge it over `current`.
+ * Omitted fields keep their value; null clears them. Throws on invalid input.
+ */
+export function normalizePoolConfig(raw: unknown, current: GroupPoolConfig): GroupPoolConfig {
+  if (!raw || typeof raw !== 'object') throw new Error('Pool config must be an object');
+  const p = raw as Record<string, unknown>;
+  const config = { ...current };
+  if (p.concurrency !== undefined) {
+    if (p.concurrency !== null && !isLimit(p.concurrency)) {
+      throw new Error(`concurrency must be null or an integer between 1 and ${MAX_SESSIONS}`);
+    }
+    config.concurrency = p.concurrency;
+  }
+  if (p.autoSpawn !== undefined) {
+    if (p.autoSpawn === null) {
+      config.autoSpawn = null;
+    } else {
+      const a = p.autoSpawn as Record<string, unknown>;
+      if (typeof a !== 'object' || !isLimit(a.maxSessions)) {
+        throw new Error(`autoSpawn.maxSessions must be an integer between 1 and ${MAX_SESSIONS}`);
+      }
+      if (typeof a.cwd !== 'string' || !a.cwd) throw new Error('autoSpawn.cwd is required');
+      if (a.args !== undefined && !(Array.isArray(a.args) && a.args.every((x) => typeof x === 'string'))) {
+        throw new Error('autoSpawn.args must be an array of strings');
+      }
+      if (a.skipPermissions !== undefined && typeof a.skipPermissions !== 'boolean') {
+        throw new Error('autoSpawn.skipPermissions must be a boolean');
+      }
+      config.autoSpawn = {
+        maxSessions: a.maxSessions,
+        cwd: a.cwd,
+        args: a.args as string[] | undefined,
+        skipPermissions: a.skipPermissions as boolean | undefined,
+      };
+    }
+  }
+  return config;
+}
+
+/**
+ * Work pools for all groups of one session manager. Emits 'tasks'
+ * (group, tasks) whenever a group's pool changes.
+ */
+export class GroupPool extends EventEmitter {
+  private pools = new Map<string, Pool>();
+  private pumping = false;
+
+  constructor(private sessions: ISessionManager) {
+    super();
+    // A new session in the group settles a pending auto-spawn (it is now listed as starting)
+    sessions.on('created', (info: SessionInfo) => {
+      const pool = this.pools.get(info.group);
+      if (pool && pool.spawning > 0) pool.spawning--;
+    });
+    sessions.on('stateChange', (id: string, state: DetailedState) => {
+      if (state === 'idle') this.pumpSession(id);
+    });
+    sessions.on('tasks', (id: string, tasks: SessionTask[]) => {
+      this.sync(id, tasks);
+      this.pumpSession(id);
+    });
+    sessions.on('exit', (id: string) => {
+      // A killed session is gone without a final 'tasks' event
+      if (!sessions.getInfo(id)) this.sync(id, []);
+    });
+  }
+
+  /** Add a task to the group's pool; it starts right away if a session is free. */
+  submit(group: string, text: string): PoolTask {
+    const pool = this.pool(group);
+    if (pool.tasks.filter((t) => t.status === 'queued').length >= MAX_QUEUED_TASKS) {
+      throw new Error(`Task pool is full (max ${MAX_QUEUED_TASKS})`);
+    }
+    const task: PoolTask = {
+      id: randomBytes(4).toString('hex'),
+      text,
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+      group,
+      sessionId: null,
+      sessionTaskId: null,
+      attempts: 0,
+    };
+    pool.tasks.push(task);
+    pool.spawnRetryAt = 0;
+    this.pump(group);
+    this.changed(group);
+    return task;
+  }
+
+  list(group: string): PoolTask[] {
+    return this.pools.get(group)?.tasks ?? [];
+  }
+
+  /** Cancel a queued pool task. Undefined if unknown; throws if it already started. */
+  cancel(group: string, taskId: string): PoolTask | undefined {
+    const pool = this.pools.get(group);
+    const task = pool?.tasks.find((t) => t.id === taskId);
+    if (!pool || !task) return undefined;
+    if (task.status !== 'queued') throw new Error(`Task is already ${task.status}`);
+    task.status = 'cancelled';
+    task.finishedAt = new Date().toISOString();
+    pruneFinished(pool.tasks);
+    this.changed(group);
+    return task;
+  }
+
+  getConfig(group: string): GroupPoolConfig {
+    return this.pools.get(group)?.config ?? { concurrency: null, autoSpawn: null };
+  }
+
+  /** Update the group's concurrency and auto-spawn settings (see normalizePoolConfig). */
+  configure(group: string, raw: unknown): GroupPoolConfig {
+    const pool = this.pool(group);
+    pool.config = normalizePoolConfig(raw, pool.config);
+    pool.spawnRetryAt = 0;
+    this.pump(group);
+    return pool.config;
+  }
+
+  private pool(group: string): Pool {
+    let pool = this.pools.get(group);
+    if (!pool) {
+      pool = { config: { concurrency: null, autoSpawn: null }, tasks: [], spawning: 0, spawnRetryAt: 0 };
+      this.pools.set(group, pool);
+    }
+    return pool;
+  }
+
+  private changed(group: string): void {
+    this.emit('tasks', group, this.list(group));
+  }
+
+  /** Mirror a session's task statuses onto the pool tasks it is running. */
+  private sync(sessionId: string, sessionTasks: SessionTask[]): void {
+    for (const [group, pool] of this.pools) {
+      let dirty = false;
+      // Copy: requeue moves tasks around
+      for (const task of [...pool.tasks]) {
+        if (task.status !== 'running' || task.sessionId !== sessionId) continue;
+        const st = sessionTasks.find((t) => t.id === task.sessionTaskId);
+        if (st && !isFinished(st)) continue;
+        dirty = true;
+        if (st?.status === 'done') {
+          task.status = 'done';
+          task.finishedAt = st.finishedAt;
+        } else if (task.attempts < MAX_ATTEMPTS) {
+          this.requeue(pool, task);
+        } else {
+          task.status = 'interrupted';
+          task.finishedAt = new Date().toISOString();
+        }
+      }
+      if (dirty) {
+        pruneFinished(pool.tasks);
+        this.pump(group);
+        this.changed(group);
+      }
+    }
+  }
+
+  /** Put an interrupted task back at the front of the queue. */
+  private requeue(pool: Pool, task: PoolTask): void {
+    task.status = 'queued';
+    task.sessionId = null;
+    task.sessionTaskId = null;
+    task.startedAt = null;
+    pool.tasks.splice(pool.tasks.indexOf(task), 1);
+    const firstQueued = pool.tasks.findIndex((t) => t.status === 'queued');
+    pool.tasks.splice(firstQueued === -1 ? pool.tasks.length : firstQueued, 0, task);
+  }
+
+  private pumpSession(id: string): void {
+    const info = this.sessions.getInfo(id);
+    if (info && this.pools.has(info.group)) this.pump(info.group);
+  }
+
+  private isFree(info: SessionInfo): boolean {
+    return info.status === 'running' && info.detailedState === 'idle'
+      && !(info.tasks ?? []).some((t) => !isFinished(t));
+  }
+
+  /** Hand queued tasks to free sessions, then auto-spawn if the pool is still backed up. */
+  private pump(group: string): void {
+    const pool = this.pools.get(group);
+    // Assigning a task re-enters via the session's 'tasks' event; the outer loop covers it
+    if (!pool || this.pumping) return;
+    this.pumping = true;
+    let assigned = false;
+    try {
+      const members = this.sessions.list(group);
+      for (const info of members.filter((s) => this.isFree(s))) {
+        const running = pool.tasks.filter((t) => t.status === 'running').length;
+        if (pool.config.concurrency !== null && running >= pool.config.concurrency) break;
+        const next = pool.tasks.find((t) => t.status === 'queued');
+        if (!next) break;
+        const st = this.sessions.enqueueTask(info.id, next.text);
+        if (!st) continue;
+        next.status = 'running';
+        next.sessionId = info.id;
+        next.sessionTaskId = st.id;
+        next.startedAt = st.startedAt ?? new Date().toISOString();
+        next.attempts++;
+        assigned = true;
+      }
+      this.autoSpawn(group, pool, members);
+    } finally {
+      this.pumping = false;
+    }
+    if (assigned) this.changed(group);
+  }
+
+  private autoSpawn(group: string, pool: Pool, members: SessionInfo[]): void {
+    const auto = pool.config.autoSpawn;
+    if (!auto || Date.now() < pool.spawnRetryAt) return;
+    const running = members.filter((s) => s.status === 'running');
+    // Sessions that will take a task soon without help
+    const coming = running.filter((s) => s.detailedState === 'starting').length + pool.spawning;
+    const queued = pool.tasks.filter((t) => t.status === 'queued').length;
+    let wanted = Math.min(queued - coming, auto.maxSessions - running.length - pool.spawning);
+    if (pool.config.concurrency !== null) {
+      const active = pool.tasks.filter((t) => t.status === 'running').length;
+      wanted = Math.min(wanted, pool.config.concurrency - active - coming);
+    }
+
+    for (let i = 0; i < wanted; i++) {
+      pool.spawning++;
+      this.sessions.spawn({
+        group,
+        cwd: auto.cwd,
+        args: auto.args,
+        skipPermissions: auto.skipPermissions,
+      }).then((info) => {
+        auditLog({ action: 'group:autoSpawn', sessionId: info.id, source: 'system', summary: group, result: 'ok' });
+      }).catch((err) => {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[bb] auto-spawn in group ${group} failed: ${message}`);
+        auditLog({ action: 'group:autoSpawn', source: 'system', summary: group, result: 'error', error: message });
+        pool.spawnRetryAt = Date.now() + AUTO_SPAWN_RETRY_MS;
+        pool.spawning = Math.max(0, pool.spawning - 1);
+      });
+    }
+  }
+}
@@ -1,15 +1,26 @@
 import { createServer } from 'http';
-import { randomBytes } from 'crypto';
+import { createServer as createHttpsServer } from 'https';
 import { mkdirSync, writeFileSync, unlinkSync } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
-import { spawn, type ChildProcess } from 'child_process';
 import { SessionManager } from './session-manager.js';
 import { TmuxSessionManager, isTmuxAvailable } from './tmux-session-manager.js';
+import { FileSessionStore } from './session-store.js';
 import { WsBridge } from './ws-bridge.js';
 import { createApiHandler } from './api.js';
-import { setupWebhook } from './webhook.js';
-import type { ISessionManager } from './types.js';
+import { expireMutes, setupWebhook, WebhookManager } from './webhook.js';
+import { FileWebhookStore } from './webhook-store.js';
+import { setupWebPush, WebPushManager } from './web-push.js';
+import { FilePushStore } from './push-store.js';
+import { GroupPool } from './group-pool.js';
+import { PermissionPolicy } from './permission-policy.js';
+import { Thresholds } from './thresholds.js';
+import { PatternPacks } from './pattern-packs.js';
+import { AuthManager, generateMasterToken } from './auth.js';
+import { FileTokenStore } from './token-store.js';
+import { loadTls, type TlsConfig } from './tls.js';
+import { TunnelManager, createProvider } from './tunnel.js';
+import type { ISessionManager, TunnelStatus } from './types.js';
 
 const PORT = parseInt(process.env.BB_PORT ?? '18900', 10);
 const HOST = process.env.BB_HOST ?? '127.0.0.1';
@@ -17,41 +28,81 @@ const HOST = process.env.BB_HOST ?? '127.0.0.1';
 const BB_DIR = join(homedir(), '.bullybuddy');
 const CONN_FILE = join(BB_DIR, 'connection.json');
 
-const AUTH_TOKEN = process.env.BB_TOKEN || randomBytes(16).toString('hex');
+// BB_TOKEN wins; otherwise keep the token from the last run so dashboard
+// bookmarks and connection.json readers survive restarts
+const tokenStore = new FileTokenStore();
+const AUTH_TOKEN = process.env.BB_TOKEN || tokenStore.loadMaster() || generateMasterToken();
+if (!process.env.BB_TOKEN) tokenStore.saveMaster(AUTH_TOKEN);
 
 if (AUTH_TOKEN.length < 8) {
   console.error('[bb] ERROR: auth token must be at least 8 characters. Aborting.');
   process.exit(1);
 }
 
+let tls: TlsConfig | null;
+try {
+  tls = loadTls();
+} catch (err) {
+  console.error(`[bb] ERROR: TLS: ${err instanceof Error ? err.message : err}. Aborting.`);
+  process.exit(1);
+}
+const SCHEME = tls ? 'https' : 'http';
+
 // Select backend: BB_BACKEND=tmux|pty (default: tmux if available)
 const backendPref = (process.env.BB_BACKEND ?? 'auto').toLowerCase();
+// Both backends share one on-disk store so session history survives restarts
+const store = new FileSessionStore();
+const thresholds = new Thresholds();
+thresholds.load(); // load now to report the file at startup
+const patterns = new PatternPacks();
+const loadedPatterns = await patterns.load();
+if (loadedPatterns.length) console.log(`[bb] pattern packs: ${loadedPatterns.map((p) => `${p.id} (${p.source})`).join(', ')}`);
 let sessions: ISessionManager;
 
 if (backendPref === 'pty') {
-  sessions = new SessionManager();
+  sessions = new SessionManager(store, thresholds, patterns);
   console.log('[bb] backend: node-pty');
 } else if (backendPref === 'tmux') {
   if (!isTmuxAvailable()) {
     console.error('[bb] ERROR: BB_BACKEND=tmux but tmux is not installed. Install with: brew install tmux');
     process.exit(1);
   }
-  sessions = new TmuxSessionManager();
+  sessions = new TmuxSessionManager(store, undefined, thresholds, patterns);
   console.log('[bb] backend: tmux');
 } else {
   // auto — prefer tmux
   if (isTmuxAvailable()) {
-    sessions = new TmuxSessionManager();
+    sessions = new TmuxSessionManager(store, undefined, thresholds, patterns);
     console.log('[bb] backend: tmux (auto-detected)');
   } else {
-    sessions = new SessionManager();
+    sessions = new SessionManager(store, thresholds, patterns);
     console.log('[bb] backend: node-pty (tmux not found — sessions will not survive server restart)');
   }
 }
 
-setupWebhook(sessions);
-const server = createServer(createApiHandler(sessions, AUTH_TOKEN));
-const wsBridge = new WsBridge(server, sessions, AUTH_TOKEN);
+// Tunnel: BB_TUNNEL=true (or `bullybuddy server --tunnel [provider]`)
+let tunnel: TunnelManager | undefined;
+if (process.env.BB_TUNNEL === 'true') {
+  try {
+    const provider = createProvider(process.env.BB_TUNNEL_PROVIDER || 'cloudflared');
+    tunnel = new TunnelManager(provider, `${SCHEME}://127.0.0.1:${PORT}`);
+  } catch (err) {
+    console.error(`[bb] ERROR: tunnel: ${err instanceof Error ? err.message : err}. Aborting.`);
+    process.exit(1);
+  }
+}
+
+const webhooks = new WebhookManager(new FileWebhookStore());
+setupWebhook(sessions, webhooks);
+expireMutes(sessions);
+new PermissionPolicy(sessions).load(); // load now to report the rules at startup
+const pool = new GroupPool(sessions);
+const auth = new AuthManager(AUTH_TOKEN, tokenStore);
+const push = new WebPushManager(new FilePushStore());
+setupWebPush(sessions, push, auth);
+const handler = createApiHandler(sessions, auth, pool, tunnel, webhooks, push, patterns);
+const server = tls ? createHttpsServer({ cert: tls.cert, key: tls.key }, handler) : createServer(handler);
+const wsBridge = new WsBridge(server, sessions, auth, pool, tunnel);
 
 const masked = AUTH_TOKEN.slice(0, 4) + '...' + AUTH_TOKEN.slice(-4);
 
@@ -59,23 +110,36 @@ const masked = AUTH_TOKEN.slice(0, 4) + '...' + AUTH_TOKEN.slice(-4);
 const connHost = HOST === '0.0.0.0' ? '127.0.0.1' : HOST;
 try { mkdirSync(BB_DIR, { recursive: true, mode: 0o700 }); } catch { /* ignore */ }
 
-let tunnelProcess: ChildProcess | null = null;
+let tunnelUrl: string | null = null;
 
-function writeConnFile(extra?: Record<string, string>) {
+function writeConnFile() {
   try {
-    const data: Record<string, string> = { url: `http://${connHost}:${PORT}`, token: AUTH_TOKEN };
-    if (extra) Object.assign(data, extra);
+    const data: Record<string, string> = { url: `${SCHEME}://${connHost}:${PORT}`, token: auth.master };
+    // Clients pin the certificate rather than trusting a CA (it's usually self-signed)
+    if (tls) Object.assign(data, { fingerprint: tls.fingerprint, cert: tls.certFile });
+    if (tunnelUrl) data.tunnel = tunnelUrl;
     writeFileSync(CONN_FILE, JSON.stringify(data), { mode: 0o600 });
   } catch {
     console.error('[bb] warning: could not write connection file');
   }
 }
 
+auth.on('rotated', (token: string) => {
+  writeConnFile();
+  console.log(`[bb] token rotated: ${token.slice(0, 4)}...${token.slice(-4)}`);
+  if (process.env.BB_TOKEN) console.log('[bb] note: BB_TOKEN is set and will replace the rotated token on restart');
+});
+
 server.listen(PORT, HOST, async () => {
   writeConnFile();
-  console.log(`[bb] server listening on http://${HOST}:${PORT}`);
+  console.log(`[bb] server listening on ${SCHEME}://${HOST}:${PORT}`);
   console.log(`[bb] token:     ${masked}`);
-  console.log(`[bb] dashboard: http://${HOST}:${PORT}/?token=${AUTH_TOKEN}`);
+  console.log(`[bb] dashboard: ${SCHEME}://${HOST}:${PORT}/?token=${AUTH_TOKEN}`);
+  if (tls) {
+    console.log(`[bb] tls:       ${tls.fingerprint}`);
+  } else if (HOST !== '127.0.0.1' && HOST !== 'localhost') {
+    console.warn('[bb] warning: serving plain HTTP beyond localhost — tokens travel in cleartext; set BB_TLS_CERT/BB_TLS_KEY');
+  }
 
   // Recover existing tmux sessions from a previous server instance
   if (sessions instanceof TmuxSessionManager) {
@@ -85,64 +149,55 @@ server.listen(PORT, HOST, async () => {
     }
   }
 
-  // Start Cloudflare tunnel if requested
-  if (process.env.BB_TUNNEL === 'true') {
-    tunnelProcess = spawn('cloudflared', ['tunnel', '--url', `http://127.0.0.1:${PORT}`], {
-      stdio: ['ignore', 'pipe', 'pipe'],
-    });
-
-    let tunnelFound = false;
-    const onData = (chunk: Buffer) => {
-      const text = chunk.toString();
-      const match = text.match(/https:\/\/[a-z0-9-]+\.trycloudflare\.com/);
-      if (match && !tunnelFound) {
-        tunnelFound = true;
-        console.log(`[bb] tunnel:    ${match[0]}`);
-        console.log(`[bb] remote:    ${match[0]}/?token=${AUTH_TOKEN}`);
-        writeConnFile({ tunnel: match[0] });
+  if (tunnel) {
+    tunnel.on('status', ({ provider, state, url, lastError }: TunnelStatus) => {
+      if (state === 'down' && !shuttingDown) console.log(`[bb] tunnel down (${provider}): ${lastError}`);
+      if (url === tunnelUrl) return;
+      tunnelUrl = url;
+      writeConnFile();
+      if (url) {
+        console.log(`[bb] tunnel:    ${url}`);
+        console.log(`[bb] remote:    ${url}/?token=${auth.master}`);
       }
-    };
-    tunnelProcess.stdout!.on('data', onData);
-    tunnelProcess.stderr!.on('data', onData);
-    tunnelProcess.on('error', () => {
-      console.error('[bb] warning: cloudflared not found — install with: brew install cloudflared');
-    });
-    tunnelProcess.on('exit', (code) => {
-      if (!shuttingDown) console.log(`[bb] cloudflared exited (code: ${code})`);
     });
+    tunnel.start();
   }
 });
 
 // Graceful shutdown (guard against duplicate signals)
 let shuttingDown = false;
-function shutdown() {
+async function shutdown() {
   if (shuttingDown) return;
   shuttingDown = true;
   console.log('\n[bb] shutting down...');
-  if (tunnelProcess) tunnelProcess.kill();
+  tunnel?.stop();
   try { unlinkSync(CONN_FILE); } catch { /* ignore */ }
-  sessions.killAll();
-  wsBridge.close();
   const forceTimer = setTimeout(() => {
     console.log('[bb] force exit (timeout)');
     process.exit(1);
   }, 3000);
   forceTimer.unref();
+  try {
+    await sessions.shutdown();
+  } catch (err) {
+    console.error('[bb] session shutdown failed:', err);
+  }
+  wsBridge.close();
   server.close(() => {
     clearTimeout(forceTimer);
     process.exit(0);
   });
 }
 
-process.on('SIGINT', shutdown);
-process.on('SIGTERM', shutdown);
+process.on('SIGINT', () => void shutdown());
+process.on('SIGTERM', () => void shutdown());
 
 // Crash handlers — log and attempt graceful shutdown instead of silent death
 process.on('uncaughtException', (err) => {
   console.error('[bb] FATAL uncaughtException:', err);
-  shutdown();
+  void shutdown();
 });
 process.on('unhandledRejection', (reason) => {
   console.error('[bb] FATAL unhandledRejection:', reason);
-  shutdown();
+  void shutdown();
 });
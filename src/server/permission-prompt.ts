@@ -0,0 +1,138 @@
+// Permission prompt parsing: what a session in `permission_needed` is asking.
+//
+// Claude Code draws permission prompts as a titled block ("Bash command",
+// "Edit file", ...) with the command or diff, a question ("Do you want to
+// proceed?", "Do you want to make this edit to foo.ts?") and numbered options:
+//
+//   │ Bash command                                   │
+//   │   npm test                                     │
+//   │ Do you want to proceed?                        │
+//   │ ❯ 1. Yes                                       │
+//   │   2. Yes, and don't ask again for npm commands │
+//   │   3. No, and tell Claude what to do differently│
+//
+// We parse the last such prompt in the detector's plain-text window. Pressing
+// an option's number selects it, which is how decisions are sent back.
+//
+// A Bash prompt's body is the command, possibly over several lines, and
+// usually a one-line description of it. Nothing on screen tells a last
+// command line from a description, so the split is only trusted when the
+// `⏺ Bash(...)` line above the box shows exactly the command. Otherwise every
+// body line goes into `command`, and its line breaks keep command rules in
+// permission-policy.ts from matching it.
+//
+// A file prompt's question names only the file's basename ("make this edit
+// to hosts?"); its full path comes from the body line showing it. Without
+// one, `filePath` stays null so path rules can't match a file elsewhere.
+
+import type { PendingPermission, PermissionDecision, PermissionOption } from './types.js';
+
+// Lines of context kept above the question when no box border is found
+const MAX_PROMPT_LINES = 20;
+
+const QUESTION = /(Do you want to [^?\n]*\?|Yes\s*\/\s*No|press Enter to confirm|Enter to confirm)/gi;
+const OPTION = /^(?:[❯›>]\s*)?(\d)\.\s+(.+)$/;
+const FILE_QUESTION = /Do you want to (?:make this edit to|create|overwrite|write to|read|delete) (.+?)\?/i;
+// "Read(src/foo.ts)" under a file tool's title
+const TOOL_CALL = /^\w+\((.+)\)$/;
+const BORDER = /^[╭╰─━┌└]|^[─━]{3,}$/;
+// "⏺ Bash(npm test)" printed above a Bash prompt
+const BASH_CALL = /^\W*Bash\((.+)\)\s*$/;
+
+/** Map an option label to the decision it stands for. */
+function classify(label: string): PermissionDecision | null {
+  if (/^No\b/i.test(label)) return 'deny';
+  if (/^Yes\b/i.test(label)) {
+    return /don'?t ask again|always|allow all|this session/i.test(label) ? 'allow_always' : 'allow_once';
+  }
+  return null;
+}
+
+/** Strip box-drawing borders and padding from a prompt line. */
+function cleanLine(line: string): string {
+  return line.replace(/^\s*│/, '').replace(/│\s*$/, '').trim();
+}
+
+/**
+ * Extract the most recent permission prompt from plain (ANSI-stripped)
+ * terminal text. Returns null when no prompt question is found.
+ */
+export function parsePermissionPrompt(text: string): PendingPermission | null {
+  let question: RegExpExecArray | null = null;
+  for (const m of text.matchAll(QUESTION)) question = m as RegExpExecArray;
+  if (!question) return null;
+
+  const before = text.slice(0, question.index).split(/\r?\n|\r/);
+  before.pop(); // the question's own line
+  const after = text.slice(question.index + question[0].length).split(/\r?\n|\r/).map(cleanLine);
+
+  // The prompt body: lines above the question, back to the box's top border
+  const body: string[] = [];
+  let top = before.length - 1;
+  for (; top >= 0 && body.length < MAX_PROMPT_LINES; top--) {
+    const line = cleanLine(before[top]);
+    if (BORDER.test(line)) break;
+    body.unshift(line);
+  }
+  const content = body.filter(Boolean);
+  // The last non-blank line above the box
+  let call: string | null = null;
+  for (let i = top - 1; i >= 0 && call === null; i--) {
+    const line = before[i].trim();
+    if (line) call = BASH_CALL.exec(line)?.[1].trim() ?? '';
+  }
+
+  const options: PermissionOption[] = [];
+  for (const line of after) {
+    const m = OPTION.exec(line);
+    if (m) {
+      options.push({ key: m[1], label: m[2].trim(), decision: classify(m[2].trim()) });
+    } else if (options.length && line) {
+      break; // options are contiguous; stop at the box's end or the next text
+    }
+  }
+
+  const tool = content[0] ?? null;
+  const isBash = !!tool && /bash|command/i.test(tool);
+  const callMatch = !isBash && content[1] ? TOOL_CALL.exec(content[1]) : null;
+  const fileMatch = FILE_QUESTION.exec(question[0]);
+
+  return {
+    tool,
+    command: isBash ? bashCommand(content.slice(1), call) : null,
+    filePath: callMatch ? callMatch[1].trim() : fileMatch ? questionPath(content[1], fileMatch[1].trim()) : null,
+    question: question[0].trim(),
+    options,
+  };
+}
+
+/**
+ * The full path of the file `name` (from the question): the body `line` if it
+ * shows a path ending in that name, or `name` itself if it is already a path.
+ */
+function questionPath(line: string | undefined, name: string): string | null {
+  if (line && (line === name || line.endsWith(`/${name}`))) return line;
+  return name.includes('/') ? name : null;
+}
+
+/**
+ * The command in a Bash prompt's body `lines`: all of them, unless the last
+ * can be told apart as the description because `call` (the command shown
+ * above the box) matches the lines before it.
+ */
+function bashCommand(lines: string[], call: string | null): string | null {
+  if (lines.length <= 1) return lines[0] ?? null;
+  const command = lines.slice(0, -1).join('\n');
+  return call === command ? command : lines.join('\n');
+}
+
+/**
+ * Keystrokes answering `pending` with `decision`: the number of the matching
+ * option. Deny falls back to Esc when no "No" option is listed. Null when
+ * the prompt offers no such choice.
+ */
+export function permissionKeys(pending: PendingPermission, decision: PermissionDecision): string | null {
+  const option = pending.options.find((o) => o.decision === decision);
+  if (option) return option.key;
+  return decision === 'deny' ? '\x1b' : null;
+}
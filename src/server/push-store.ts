@@ -0,0 +1,76 @@
+// Push store: persists browser push subscriptions and the server's VAPID
+// key pair across server restarts (browsers bind a subscription to the
+// public key, so a new key pair would silently break every subscription).
+//
+// FilePushStore keeps them in ~/.bullybuddy/push-subscriptions.json and
+// ~/.bullybuddy/vapid.json (both mode 0600).
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+import type { PushStore, PushSubscriptionRecord, VapidKeys } from './types.js';
+
+export const PUSH_SUBSCRIPTIONS_FILE = join(homedir(), '.bullybuddy', 'push-subscriptions.json');
+export const VAPID_KEYS_FILE = join(homedir(), '.bullybuddy', 'vapid.json');
+
+export class FilePushStore implements PushStore {
+  constructor(private file: string = PUSH_SUBSCRIPTIONS_FILE, private keysFile: string = VAPID_KEYS_FILE) {
+    try { mkdirSync(dirname(file), { recursive: true, mode: 0o700 }); } catch { /* ignore */ }
+  }
+
+  load(): PushSubscriptionRecord[] {
+    try {
+      const subs = JSON.parse(readFileSync(this.file, 'utf-8'));
+      return Array.isArray(subs) ? subs.filter((s) => s && typeof s.endpoint === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  save(subscriptions: PushSubscriptionRecord[]): void {
+    try {
+      writeFileSync(this.file, JSON.stringify(subscriptions, null, 2), { mode: 0o600 });
+    } catch (err) {
+      console.warn(`[bb] could not save push subscriptions: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  loadKeys(): VapidKeys | null {
+    try {
+      const keys = JSON.parse(readFileSync(this.keysFile, 'utf-8'));
+      return typeof keys?.publicKey === 'string' && typeof keys?.privateKey === 'string' ? keys : null;
+    } catch {
+      return null;
+    }
+  }
+
+  saveKeys(keys: VapidKeys): void {
+    try {
+      writeFileSync(this.keysFile, JSON.stringify(keys), { mode: 0o600 });
+    } catch (err) {
+      console.warn(`[bb] could not save VAPID keys: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+}
+
+/** Non-persistent store — for tests. */
+export class MemoryPushStore implements PushStore {
+  private raw = '[]';
+  private keys: VapidKeys | null = null;
+
+  load(): PushSubscriptionRecord[] {
+    return JSON.parse(this.raw) as PushSubscriptionRecord[];
+  }
+
+  save(subscriptions: PushSubscriptionRecord[]): void {
+    this.raw = JSON.stringify(subscriptions);
+  }
+
+  loadKeys(): VapidKeys | null {
+    return this.keys;
+  }
+
+  saveKeys(keys: VapidKeys): void {
+    this.keys = keys;
+  }
+}
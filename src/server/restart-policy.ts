@@ -0,0 +1,104 @@
+// Restart policy: respawn sessions that exit on their own.
+//
+// A session spawned with a restartPolicy is restarted in place (same id,
+// resuming its own conversation) after it exits — on any exit (`always`) or only a failed
+// one (`on-failure`: non-zero exit status). Kills via BullyBuddy (exit code -1)
+// never trigger a restart, and neither does an unknown status (null) under
+// `on-failure`, since that is usually a session killed from outside. Restarts
+// back off exponentially and stop after `maxRetries` automatic restarts.
+
+import type { RestartMode, RestartPolicy, SessionInfo } from './types.js';
+import { auditLog } from './audit-log.js';
+
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_BACKOFF_MS = 1000;
+const MAX_RETRIES_LIMIT = 100;
+const MAX_BACKOFF_MS = 5 * 60_000;
+
+const MODES: readonly RestartMode[] = ['never', 'on-failure', 'always'];
+
+/**
+ * Validate a restart policy from a spawn request and fill in defaults.
+ * Returns null for no policy; throws on invalid input.
+ */
+export function normalizeRestartPolicy(raw: unknown): RestartPolicy | null {
+  if (raw === undefined || raw === null) return null;
+  if (typeof raw !== 'object') throw new Error('restartPolicy must be an object');
+  const p = raw as Record<string, unknown>;
+  if (!MODES.includes(p.mode as RestartMode)) {
+    throw new Error(`Invalid restartPolicy.mode: ${String(p.mode)} (expected ${MODES.join(', ')})`);
+  }
+  const maxRetries = p.maxRetries ?? DEFAULT_MAX_RETRIES;
+  if (typeof maxRetries !== 'number' || !Number.isInteger(maxRetries) || maxRetries < 0 || maxRetries > MAX_RETRIES_LIMIT) {
+    throw new Error(`restartPolicy.maxRetries must be an integer between 0 and ${MAX_RETRIES_LIMIT}`);
+  }
+  const backoffMs = p.backoffMs ?? DEFAULT_BACKOFF_MS;
+  if (typeof backoffMs !== 'number' || !Number.isFinite(backoffMs) || backoffMs < 0 || backoffMs > MAX_BACKOFF_MS) {
+    throw new Error(`restartPolicy.backoffMs must be between 0 and ${MAX_BACKOFF_MS}`);
+  }
+  return { mode: p.mode as RestartMode, maxRetries, backoffMs: Math.round(backoffMs) };
+}
+
+/** Whether a session that exited with `exitCode` after `restarts` automatic restarts should go again. */
+export function shouldRestart(policy: RestartPolicy, exitCode: number | null, restarts: number): boolean {
+  if (restarts >= policy.maxRetries || exitCode === -1) return false;
+  if (policy.mode === 'always') return true;
+  if (policy.mode === 'on-failure') return exitCode !== null && exitCode !== 0;
+  return false;
+}
+
+/** Delay before the next automatic restart: backoffMs, doubling per restart so far. */
+export function restartDelay(policy: RestartPolicy, restarts: number): number {
+  return Math.min(policy.backoffMs * 2 ** restarts, MAX_BACKOFF_MS);
+}
+
+/**
+ * Schedules automatic restarts for one session manager. The manager reports
+ * exits via onExit and supplies the restart itself (which bumps restartCount).
+ */
+export class AutoRestarter {
+  private timers = new Map<string, ReturnType<typeof setTimeout>>();
+
+  constructor(private restart: (id: string) => Promise<SessionInfo | undefined>) {}
+
+  onExit(info: SessionInfo, exitCode: number | null): void {
+    const policy = info.restartPolicy;
+    const restarts = info.restartCount ?? 0;
+    if (!policy || !shouldRestart(policy, exitCode, restarts)) return;
+
+    const id = info.id;
+    this.cancel(id);
+    const timer = setTimeout(() => {
+      this.timers.delete(id);
+      this.restart(id).then((restarted) => {
+        if (!restarted) return;
+        auditLog({
+          action: 'session:autoRestart',
+          sessionId: id,
+          source: 'system',
+          summary: `exit ${exitCode}, restart ${restarted.restartCount}/${policy.maxRetries}`,
+          result: 'ok',
+        });
+      }).catch((err) => {
+        const message = err instanceof Error ? err.message : String(err);
+        console.warn(`[bb] auto-restart of ${id} failed: ${message}`);
+        auditLog({ action: 'session:autoRestart', sessionId: id, source: 'system', result: 'error', error: message });
+      });
+    }, restartDelay(policy, restarts));
+    this.timers.set(id, timer);
+  }
+
+  /** Drop a pending restart (session killed or restarted by hand). */
+  cancel(id: string): void {
+    const timer = this.timers.get(id);
+    if (timer) {
+      clearTimeout(timer);
+      this.timers.delete(id);
+    }
+  }
+
+  cancelAll(): void {
+    for (const timer of this.timers.values()) clearTimeout(timer);
+    this.timers.clear();
+  }
+}
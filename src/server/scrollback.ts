@@ -0,0 +1,265 @@
+// Scrollback buffer: per-session terminal output addressed by byte offsets.
+//
+// Every byte a session has ever written gets a monotonically increasing offset,
+// so a client that reconnects can ask for "everything since offset N" and resume
+// exactly where it left off. Recent output is kept in an in-memory ring of chunks
+// (bounded by maxBytes); older output can be served from an on-disk spool file
+// whose byte positions match the offsets one-to-one.
+//
+// Spools come in two flavours:
+//   - owned:    the buffer appends every chunk to the file itself (node-pty
+//               backend with BB_SCROLLBACK_DIR set)
+//   - external: something else writes the file and the buffer only reads it
+//               (tmux backend — the pipe-pane output file is already a spool)
+
+import { appendFileSync, closeSync, mkdirSync, openSync, readSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { MAX_SCROLLBACK_BYTES } from './shared.js';
+
+export const SCROLLBACK_DIR = process.env.BB_SCROLLBACK_DIR ?? '';
+
+// Upper bound for a single read, so one request can't pull a multi-GB spool into memory
+export const MAX_SCROLLBACK_READ_BYTES = MAX_SCROLLBACK_BYTES;
+
+// Compact the chunk array once this many evicted slots have piled up at the front
+const COMPACT_THRESHOLD = 1024;
+
+export interface ScrollbackSlice {
+  data: string;
+  from: number;  // offset of the first byte in data
+  to: number;    // offset just past the last byte in data
+  start: number; // earliest offset still available
+  end: number;   // offset just past the newest byte
+}
+
+/** Decoded bytes and the offsets they span */
+type Chars = Pick<ScrollbackSlice, 'data' | 'from' | 'to'>;
+
+export interface ScrollbackOptions {
+  maxBytes?: number;
+  spoolPath?: string | null;
+  /** true if the buffer appends to the spool itself; false if another process writes it */
+  ownsSpool?: boolean;
+  /** Offset of the next appended byte (e.g. the size of an existing spool) */
+  initialOffset?: number;
+}
+
+/** Spool path for a node-pty session, or null when spooling is disabled. */
+export function spoolPathFor(sessionId: string): string | null {
+  return SCROLLBACK_DIR ? join(SCROLLBACK_DIR, `${sessionId}.log`) : null;
+}
+
+export class ScrollbackBuffer {
+  private chunks: string[] = [];
+  private chunkOffsets: number[] = [];
+  private head = 0; // index of the oldest live chunk
+  private memBytes = 0;
+  private endOffset: number;
+  private maxBytes: number;
+  private spoolPath: string | null;
+  private ownsSpool: boolean;
+
+  constructor(opts: ScrollbackOptions = {}) {
+    this.maxBytes = opts.maxBytes ?? MAX_SCROLLBACK_BYTES;
+    this.spoolPath = opts.spoolPath ?? null;
+    this.ownsSpool = opts.ownsSpool ?? false;
+    this.endOffset = opts.initialOffset ?? 0;
+  }
+
+  /** Append output and return the offset just past it. */
+  append(data: string): number {
+    const bytes = Buffer.byteLength(data);
+    this.chunks.push(data);
+    this.chunkOffsets.push(this.endOffset);
+    this.endOffset += bytes;
+    this.memBytes += bytes;
+
+    if (this.spoolPath && this.ownsSpool) {
+      try {
+        appendFileSync(this.spoolPath, data, { mode: 0o600 });
+      } catch {
+        // Disk full / dir removed — keep serving from memory
+        this.spoolPath = null;
+      }
+    }
+
+    // Evict from the front, always keeping the newest chunk
+    while (this.memBytes > this.maxBytes && this.chunks.length - this.head > 1) {
+      this.memBytes -= Buffer.byteLength(this.chunks[this.head]);
+      this.chunks[this.head] = '';
+      this.head++;
+    }
+    if (this.head >= COMPACT_THRESHOLD && this.head * 2 >= this.chunks.length) {
+      this.chunks.splice(0, this.head);
+      this.chunkOffsets.splice(0, this.head);
+      this.head = 0;
+    }
+    return this.endOffset;
+  }
+
+  /** Offset of the oldest byte held in memory. */
+  get memoryStart(): number {
+    return this.head < this.chunks.length ? this.chunkOffsets[this.head] : this.endOffset;
+  }
+
+  /** Earliest offset that can still be read (spool or memory). */
+  get start(): number {
+    return this.spoolPath ? 0 : this.memoryStart;
+  }
+
+  get end(): number {
+    return this.endOffset;
+  }
+
+  /** Live in-memory chunks, oldest first. */
+  toArray(): string[] {
+    return this.chunks.slice(this.head);
+  }
+
+  /**
+   * Read the byte range [from, to). `from` defaults to the start of the in-memory
+   * window, `to` to the current end. Out-of-range values are clamped and a read
+   * is capped at MAX_SCROLLBACK_READ_BYTES; callers can compare the returned
+   * `from` with what they asked for to detect a gap, and `to` with `end` to see
+   * whether there is more to read.
+   */
+  read(from?: number, to?: number): ScrollbackSlice {
+    const start = this.start;
+    const end = this.endOffset;
+    let lo = Math.max(from ?? this.memoryStart, start);
+    lo = Math.min(lo, end);
+    let hi = Math.min(to ?? end, end, lo + MAX_SCROLLBACK_READ_BYTES);
+    hi = Math.max(hi, lo);
+
+    const slice = lo < this.memoryStart ? this.readSpool(lo, hi) : this.readMemory(lo, hi);
+    return { ...slice, start, end };
+  }
+
+  /** Read [from, to) from memory, narrowed so it neither starts nor ends inside a UTF-8 character. */
+  private readMemory(from: number, to: number): Chars {
+    if (from >= to) return { data: '', from, to };
+    // Binary search for the chunk containing `from`
+    let lo = this.head;
+    let hi = this.chunks.length - 1;
+    while (lo < hi) {
+      const mid = (lo + hi + 1) >> 1;
+      if (this.chunkOffsets[mid] <= from) lo = mid;
+      else hi = mid - 1;
+    }
+    const parts: string[] = [];
+    let i = lo;
+    while (i < this.chunks.length && this.chunkOffsets[i] < to) {
+      parts.push(this.chunks[i]);
+      i++;
+    }
+    const base = this.chunkOffsets[lo];
+    const joined = parts.join('');
+    // Fast path: range aligns with chunk boundaries
+    if (base === from && this.chunkOffsets[lo] + Buffer.byteLength(joined) === to) return { data: joined, from, to };
+    return wholeChars(Buffer.from(joined).subarray(from - base, to - base), from);
+  }
+
+  /** Read [from, to) from the spool, narrowed so it neither starts nor ends inside a UTF-8 character. */
+  private readSpool(from: number, to: number): Chars {
+    if (!this.spoolPath || from >= to) return { data: '', from, to };
+    let fd: number | null = null;
+    try {
+      fd = openSync(this.spoolPath, 'r');
+      const buf = Buffer.alloc(to - from);
+      const n = readSync(fd, buf, 0, buf.length, from);
+      return wholeChars(buf.subarray(0, n), from);
+    } catch {
+      return { data: '', from, to };
+    } finally {
+      if (fd !== null) try { closeSync(fd); } catch { /* ignore */ }
+    }
+  }
+
+  /** Stop reading from the spool (e.g. before its file is deleted). */
+  detachSpool(): void {
+    this.spoolPath = null;
+  }
+
+  /** Detach and delete an owned spool file. */
+  dispose(): void {
+    if (this.spoolPath && this.ownsSpool) {
+      try { unlinkSync(this.spoolPath); } catch { /* ignore */ }
+    }
+    this.spoolPath = null;
+  }
+
+  /**
+   * Open an owned spool for a new session, truncating any stale file.
+   * Returns a memory-only buffer if the spool can't be created.
+   */
+  static withSpool(spoolPath: string | null): ScrollbackBuffer {
+    if (!spoolPath) return new ScrollbackBuffer();
+    try {
+      mkdirSync(dirname(spoolPath), { recursive: true, mode: 0o700 });
+      writeFileSync(spoolPath, '', { mode: 0o600 });
+    } catch {
+      return new ScrollbackBuffer();
+    }
+    return new ScrollbackBuffer({ spoolPath, ownsSpool: true });
+  }
+
+  /**
+   * Reopen an existing spool (e.g. after a server restart). The tail of the file
+   * is loaded back into memory and offsets continue from where it ends. An
+   * incomplete UTF-8 sequence at the very end is left out, so `end` can be a few
+   * bytes short of the file size — callers tailing the file should resume from
+   * `end`, not from the size.
+   */
+  static fromSpool(spoolPath: string | null, ownsSpool: boolean, maxBytes = MAX_SCROLLBACK_BYTES): ScrollbackBuffer {
+    if (!spoolPath) return new ScrollbackBuffer({ maxBytes });
+    let fd: number | null = null;
+    try {
+      const size = statSync(spoolPath).size;
+      let from = Math.max(0, size - maxBytes);
+      const buf = Buffer.alloc(size - from);
+      fd = openSync(spoolPath, 'r');
+      const n = readSync(fd, buf, 0, buf.length, from);
+      let tail = buf.subarray(0, n);
+      // Don't start or end in the middle of a multi-byte character
+      const skip = continuationPrefix(tail);
+      from += skip;
+      tail = tail.subarray(skip, incompleteTailStart(tail.subarray(skip)) + skip);
+
+      const sb = new ScrollbackBuffer({ maxBytes, initialOffset: from });
+      if (tail.length > 0) sb.append(tail.toString('utf-8'));
+      sb.spoolPath = spoolPath;
+      sb.ownsSpool = ownsSpool;
+      return sb;
+    } catch {
+      return new ScrollbackBuffer({ maxBytes });
+    } finally {
+      if (fd !== null) try { closeSync(fd); } catch { /* ignore */ }
+    }
+  }
+}
+
+/** Decode `buf`, read from offset `from`, leaving out a character cut at either end. */
+function wholeChars(buf: Buffer, from: number): Chars {
+  const skip = continuationPrefix(buf);
+  const bytes = buf.subarray(skip);
+  const len = incompleteTailStart(bytes);
+  return { data: bytes.subarray(0, len).toString('utf-8'), from: from + skip, to: from + skip + len };
+}
+
+/** Number of leading UTF-8 continuation bytes (the rest of a character that began earlier). */
+function continuationPrefix(buf: Buffer): number {
+  let skip = 0;
+  while (skip < buf.length && skip < 3 && (buf[skip] & 0xc0) === 0x80) skip++;
+  return skip;
+}
+
+/** Index where a trailing incomplete UTF-8 sequence begins (buf.length if none). */
+function incompleteTailStart(buf: Buffer): number {
+  for (let i = buf.length - 1; i >= 0 && i >= buf.length - 4; i--) {
+    const b = buf[i];
+    if ((b & 0xc0) === 0x80) continue; // continuation byte — keep looking for the lead
+    const need = b >= 0xf0 ? 4 : b >= 0xe0 ? 3 : b >= 0xc0 ? 2 : 1;
+    return buf.length - i < need ? i : buf.length;
+  }
+  return buf.length;
+}
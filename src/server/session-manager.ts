@@ -2,11 +2,19 @@ import * as pty from 'node-pty';
 import { randomBytes } from 'crypto';
 import { existsSync, statSync } from 'fs';
 import { EventEmitter } from 'events';
-import type { ISessionManager, SessionInfo, DetailedState, SpawnOptions, TranscriptEntry } from './types.js';
+import type { ISessionManager, SessionInfo, SessionMute, SessionTask, SpawnOptions, TranscriptEntry, SessionStore, ScreenSnapshot } from './types.js';
 import { StateDetector } from './state-detector.js';
+import { SessionWatchdog, ALERT_EVENTS } from './session-watchdog.js';
+import { Thresholds } from './thresholds.js';
+import { PatternPacks } from './pattern-packs.js';
+import { TerminalScreen, DEFAULT_COLS, DEFAULT_ROWS } from './terminal-screen.js';
+import { MemorySessionStore } from './session-store.js';
+import { ScrollbackBuffer, spoolPathFor, type ScrollbackSlice } from './scrollback.js';
 import { stripAnsi } from './utils.js';
-import { appendTranscriptEntry } from './transcript.js';
-import { SENSITIVE_ENV_KEYS, MAX_SCROLLBACK_BYTES, MAX_SESSIONS, MAX_TRANSCRIPT, DEFAULT_SKIP_PERMISSIONS, isAllowedArg, sanitizeColsRows } from './shared.js';
+import { appendTranscriptEntry, loadTranscript } from './transcript.js';
+import { AutoRestarter, normalizeRestartPolicy } from './restart-policy.js';
+import { TaskQueue, interruptRunningTask } from './task-queue.js';
+import { SENSITIVE_ENV_KEYS, MAX_SESSIONS, MAX_TRANSCRIPT, DEFAULT_SKIP_PERMISSIONS, expiredHistory, isAllowedArg, resumeArgs, sanitizeColsRows, withConversationId } from './shared.js';
 
 function makeChildEnv(): Record<string, string> {
   const env = { ...process.env } as Record<string, string>;
@@ -16,30 +24,39 @@ function makeChildEnv(): Record<string, string> {
 
 interface ManagedSession {
   info: SessionInfo;
-  pty: pty.IPty;
-  scrollback: string[];
-  scrollbackBytes: number;
+  pty: pty.IPty | null; // null for exited sessions restored from the store
+  scrollback: ScrollbackBuffer;
   transcript: TranscriptEntry[];
-  assistantOutputStart: number; // index into scrollback where current assistant output began
+  assistantOutputOffset: number; // scrollback offset where current assistant output began
   disposables: { dispose(): void }[];
 }
 
 export class SessionManager extends EventEmitter implements ISessionManager {
   private sessions = new Map<string, ManagedSession>();
   private stateDetector: StateDetector;
-
-  constructor() {
+  private watchdog: SessionWatchdog;
+  private restarter = new AutoRestarter((id) => this.autoRestart(id));
+  private tasks = new TaskQueue((id, data) => this.write(id, data), (info) => this.tasksChanged(info));
+
+  constructor(
+    private store: SessionStore = new MemorySessionStore(),
+    thresholds = new Thresholds(),
+    private patterns = new PatternPacks(),
+  ) {
     super();
     this.stateDetector = new StateDetector((sessionId, state, prev) => {
       const s = this.sessions.get(sessionId);
       if (s) {
         s.info.detailedState = state;
+        const pending = this.stateDetector.getPendingPermission(sessionId);
+        const permissionChanged = pending !== (s.info.pendingPermission ?? null);
+        s.info.pendingPermission = pending;
         if (state === 'compacting') {
           s.info.compactionCount++;
         }
         // Capture assistant response on working→idle transition
         if (state === 'idle' && prev === 'working') {
-          const output = s.scrollback.slice(s.assistantOutputStart).join('');
+          const output = s.scrollback.read(s.assistantOutputOffset).data;
           const content = stripAnsi(output).trim();
           if (content) {
             const entry: TranscriptEntry = {
@@ -56,11 +73,72 @@ export class SessionManager extends EventEmitter implements ISessionManager {
         }
         // Mark start of next assistant output when entering working state
         if (state === 'working') {
-          s.assistantOutputStart = s.scrollback.length;
+          s.assistantOutputOffset = s.scrollback.end;
         }
+        this.persist(s);
         this.emit('stateChange', sessionId, state, prev);
+        if (permissionChanged) this.emit('permission', sessionId, pending);
+        this.tasks.onStateChange(s.info, state, prev);
+        this.watchdog.onStateChange(s.info, state);
       }
+    }, (sessionId, pending) => {
+      const s = this.sessions.get(sessionId);
+      if (!s) return;
+      s.info.pendingPermission = pending;
+      this.persist(s);
+      this.emit('permission', sessionId, pending);
+    }, {
+      idleTimeout: (sessionId) => thresholds.forGroup(this.sessions.get(sessionId)?.info.group ?? '').idleTimeoutMs,
+      patterns: (sessionId) => this.patterns.forSession(this.sessions.get(sessionId)?.info.patterns),
+      size: (sessionId) => {
+        const info = this.sessions.get(sessionId)?.info;
+        return { cols: info?.cols ?? DEFAULT_COLS, rows: info?.rows ?? DEFAULT_ROWS };
+      },
     });
+    this.watchdog = new SessionWatchdog(thresholds, (alert) => this.emit(ALERT_EVENTS[alert.kind], alert.sessionId, alert));
+
+    this.restoreHistory();
+  }
+
+  /** Load sessions from a previous server run. Their PTYs died with that server. */
+  private restoreHistory(): void {
+    for (const info of this.store.load()) {
+      if (this.sessions.has(info.id)) continue;
+      if (info.status === 'running') {
+        info.status = 'exited';
+        info.exitCode = null;
+        info.pid = null;
+        info.pendingPermission = null;
+        interruptRunningTask(info);
+        this.store.save(info);
+      }
+      const scrollback = ScrollbackBuffer.fromSpool(spoolPathFor(info.id), true);
+      this.sessions.set(info.id, {
+        info,
+        pty: null,
+        scrollback,
+        transcript: loadTranscript(info.id, MAX_TRANSCRIPT),
+        assistantOutputOffset: scrollback.end,
+        disposables: [],
+      });
+    }
+    this.pruneHistory();
+  }
+
+  /** Forget the exited sessions past MAX_EXITED_SESSIONS, longest idle first. */
+  private pruneHistory(): void {
+    for (const id of expiredHistory(Array.from(this.sessions.values(), (s) => s.info))) void this.kill(id);
+  }
+
+  private runningCount(): number {
+    let n = 0;
+    for (const s of this.sessions.values()) if (s.info.status === 'running') n++;
+    return n;
+  }
+
+  private persist(s: ManagedSession): void {
+    this.syncMetrics(s);
+    this.store.save(s.info);
   }
 
   private genId(): string {
@@ -79,8 +157,8 @@ export class SessionManager extends EventEmitter implements ISessionManager {
     return this.nameCounter === 1 ? 'Claude' : `Claude ${this.nameCounter}`;
   }
 
-  spawn(opts: SpawnOptions = {}): SessionInfo {
-    if (this.sessions.size >= MAX_SESSIONS) {
+  async spawn(opts: SpawnOptions = {}): Promise<SessionInfo> {
+    if (this.runningCount() >= MAX_SESSIONS) {
       throw new Error(`Session limit reached (max ${MAX_SESSIONS})`);
     }
 
@@ -114,14 +192,12 @@ export class SessionManager extends EventEmitter implements ISessionManager {
       if (idx !== -1) args.splice(idx, 1);
     }
 
-    const shell = 'claude';
-    const ptyProcess = pty.spawn(shell, args, {
-      name: 'xterm-256color',
-      cols,
-      rows,
-      cwd,
-      env: makeChildEnv(),
-    });
+    // Pin claude's conversation id so a restart resumes this session's own conversation
+    const { args: claudeArgs, conversationId } = withConversationId(args);
+
+    const restartPolicy = normalizeRestartPolicy(opts.restartPolicy);
+    const patterns = typeof opts.patterns === 'string' && opts.patterns ? opts.patterns : null;
+    if (patterns) this.patterns.resolve(patterns); // throws for a pack that isn't loaded
 
     const now = new Date().toISOString();
     const task = typeof opts.task === 'string' && opts.task.trim() ? opts.task.trim() : null;
@@ -133,7 +209,7 @@ export class SessionManager extends EventEmitter implements ISessionManager {
       status: 'running',
       detailedState: 'starting',
       exitCode: null,
-      pid: ptyProcess.pid,
+      pid: null,
       createdAt: now,
       cols,
       rows,
@@ -144,65 +220,119 @@ export class SessionManager extends EventEmitter implements ISessionManager {
       totalWorkingMs: 0,
       totalIdleMs: 0,
       totalPermissionWaitMs: 0,
+      args: claudeArgs,
+      restartPolicy,
+      restartCount: 0,
+      tasks: [],
+      patterns,
+      conversationId,
     };
 
     const managed: ManagedSession = {
       info,
-      pty: ptyProcess,
-      scrollback: [],
-      scrollbackBytes: 0,
+      pty: null,
+      scrollback: ScrollbackBuffer.withSpool(spoolPathFor(id)),
       transcript: [],
-      assistantOutputStart: 0,
+      assistantOutputOffset: 0,
       disposables: [],
     };
 
+    try {
+      this.launch(managed);
+    } catch (err) {
+      managed.scrollback.dispose();
+      throw err;
+    }
     this.sessions.set(id, managed);
+    this.persist(managed);
+    this.emit('created', info);
+
+    // The task is the first queued task, sent once Claude reaches the idle prompt
+    if (task) this.tasks.enqueue(info, task);
+
+    return info;
+  }
+
+  async restart(id: string): Promise<SessionInfo | undefined> {
+    const s = this.sessions.get(id);
+    if (!s) return undefined;
+    this.restarter.cancel(id);
+    if (s.info.status === 'running') throw new Error('Session is still running');
+    if (!existsSync(s.info.cwd) || !statSync(s.info.cwd).isDirectory()) {
+      throw new Error(`Invalid working directory: ${s.info.cwd}`);
+    }
+
+    s.info.args = resumeArgs(s.info.args ?? [], s.info.conversationId ?? null);
+    this.launch(s);
+    s.info.status = 'running';
+    s.info.detailedState = 'starting';
+    s.info.exitCode = null;
+    s.info.lastActivityAt = new Date().toISOString();
+    s.assistantOutputOffset = s.scrollback.end;
+    // Keep accumulating metrics on top of the previous run's
+    this.stateDetector.restore(id, 'starting', {
+      totalWorkingMs: s.info.totalWorkingMs,
+      totalIdleMs: s.info.totalIdleMs,
+      totalPermissionWaitMs: s.info.totalPermissionWaitMs,
+    });
+    this.persist(s);
+    this.emit('restarted', s.info);
+    return s.info;
+  }
+
+  /** Restart triggered by the session's restartPolicy. */
+  private async autoRestart(id: string): Promise<SessionInfo | undefined> {
+    const s = this.sessions.get(id);
+    if (!s || s.info.status === 'running') return undefined;
+    s.info.restartCount = (s.info.restartCount ?? 0) + 1;
+    return this.restart(id);
+  }
+
+  /** Start claude in a PTY for the session and wire its output and exit. */
+  private launch(managed: ManagedSession): void {
+    const { id, cols, rows, cwd } = managed.info;
+    const ptyProcess = pty.spawn('claude', managed.info.args ?? [], {
+      name: 'xterm-256color',
+      cols,
+      rows,
+      cwd,
+      env: makeChildEnv(),
+    });
+    managed.pty = ptyProcess;
+    managed.info.pid = ptyProcess.pid;
 
     managed.disposables.push(
       ptyProcess.onData((data: string) => {
-        managed.scrollback.push(data);
-        managed.scrollbackBytes += Buffer.byteLength(data);
+        const offset = managed.scrollback.append(data);
         managed.info.lastActivityAt = new Date().toISOString();
-        // Evict from front when total exceeds MAX_SCROLLBACK_BYTES
-        while (managed.scrollbackBytes > MAX_SCROLLBACK_BYTES && managed.scrollback.length > 1) {
-          const removed = managed.scrollback.shift()!;
-          managed.scrollbackBytes -= Buffer.byteLength(removed);
-          // Adjust assistantOutputStart when entries are evicted
-          if (managed.assistantOutputStart > 0) managed.assistantOutputStart--;
-        }
         this.stateDetector.feed(id, data);
-        this.emit('output', id, data);
+        this.watchdog.onOutput(managed.info, data);
+        this.emit('output', id, data, offset);
       }),
     );
 
     managed.disposables.push(
-      ptyProcess.onExit(({ exitCode }: { exitCode: number }) => {
+      ptyProcess.onExit(({ exitCode: code, signal }: { exitCode: number; signal?: number }) => {
+        // Report death by signal n as 128+n, like the shell (and the tmux backend)
+        const exitCode = signal ? 128 + signal : code;
+        // Capture final metrics before the detector forgets the session
+        this.syncMetrics(managed);
         managed.info.status = 'exited';
         managed.info.exitCode = exitCode;
         managed.info.pid = null;
-        // Clean up all disposables (including task auto-send listener) on natural exit
+        managed.info.pendingPermission = null;
+        // Clean up all disposables on natural exit
         for (const d of managed.disposables) d.dispose();
         managed.disposables.length = 0;
         this.stateDetector.remove(id);
+        this.watchdog.remove(id);
+        this.store.save(managed.info);
         this.emit('exit', id, exitCode);
+        this.tasks.onExit(managed.info);
+        this.restarter.onExit(managed.info, exitCode);
+        this.pruneHistory();
       }),
     );
-
-    this.emit('created', info);
-
-    // Auto-send task as first input once Claude reaches idle prompt
-    if (task) {
-      const handler = (sid: string, state: DetailedState) => {
-        if (sid === id && state === 'idle') {
-          this.write(id, task + '\r');
-          this.removeListener('stateChange', handler);
-        }
-      };
-      this.on('stateChange', handler);
-      managed.disposables.push({ dispose: () => this.removeListener('stateChange', handler) });
-    }
-
-    return info;
   }
 
   setTask(id: string, task: string): boolean {
@@ -210,9 +340,49 @@ export class SessionManager extends EventEmitter implements ISessionManager {
     if (!s) return false;
     s.info.task = task;
     s.info.taskStartedAt = new Date().toISOString();
+    this.persist(s);
     return true;
   }
 
+  setMute(id: string, mute: SessionMute | null): boolean {
+    const s = this.sessions.get(id);
+    if (!s) return false;
+    s.info.mute = mute;
+    this.persist(s);
+    this.emit('mute', id, mute);
+    return true;
+  }
+
+  enqueueTask(id: string, text: string): SessionTask | undefined {
+    const s = this.sessions.get(id);
+    return s ? this.tasks.enqueue(s.info, text) : undefined;
+  }
+
+  listTasks(id: string): SessionTask[] | undefined {
+    const s = this.sessions.get(id);
+    return s ? s.info.tasks ?? [] : undefined;
+  }
+
+  reorderTasks(id: string, order: string[]): SessionTask[] | undefined {
+    const s = this.sessions.get(id);
+    if (!s) return undefined;
+    this.tasks.reorder(s.info, order);
+    return s.info.tasks ?? [];
+  }
+
+  cancelTask(id: string, taskId: string): SessionTask | undefined {
+    const s = this.sessions.get(id);
+    return s ? this.tasks.cancel(s.info, taskId) : undefined;
+  }
+
+  /** Persist and announce a session's task queue (ignored once the session is gone). */
+  private tasksChanged(info: SessionInfo): void {
+    const s = this.sessions.get(info.id);
+    if (s?.info !== info) return;
+    this.persist(s);
+    this.emit('tasks', info.id, info.tasks ?? []);
+  }
+
   private get(id: string): ManagedSession | undefined {
     return this.sessions.get(id);
   }
@@ -225,6 +395,8 @@ export class SessionManager extends EventEmitter implements ISessionManager {
   }
 
   private syncMetrics(s: ManagedSession): void {
+    // Exited sessions keep the final metrics captured at exit
+    if (s.info.status !== 'running') return;
     const m = this.stateDetector.getMetrics(s.info.id);
     s.info.totalWorkingMs = m.totalWorkingMs;
     s.info.totalIdleMs = m.totalIdleMs;
@@ -232,8 +404,17 @@ export class SessionManager extends EventEmitter implements ISessionManager {
   }
 
   getScrollback(id: string): string[] {
-    const sb = this.sessions.get(id)?.scrollback;
-    return sb ? [...sb] : [];
+    return this.sessions.get(id)?.scrollback.toArray() ?? [];
+  }
+
+  readScrollback(id: string, from?: number, to?: number): ScrollbackSlice | undefined {
+    return this.sessions.get(id)?.scrollback.read(from, to);
+  }
+
+  getScreen(id: string): ScreenSnapshot | undefined {
+    const s = this.sessions.get(id);
+    if (!s || s.info.status !== 'running') return undefined;
+    return this.stateDetector.getScreen(id) ?? new TerminalScreen(s.info.cols, s.info.rows).snapshot();
   }
 
   getTranscript(id: string): TranscriptEntry[] {
@@ -258,9 +439,9 @@ export class SessionManager extends EventEmitter implements ISessionManager {
     return map;
   }
 
-  write(id: string, data: string): boolean {
+  async write(id: string, data: string): Promise<boolean> {
     const s = this.sessions.get(id);
-    if (!s || s.info.status !== 'running') return false;
+    if (!s?.pty || s.info.status !== 'running') return false;
     s.pty.write(data);
     // Record user input in transcript
     const content = data.replace(/\r$/, '');
@@ -276,30 +457,36 @@ export class SessionManager extends EventEmitter implements ISessionManager {
       }
       appendTranscriptEntry(id, entry);
       // Mark where assistant output will start (after current scrollback)
-      s.assistantOutputStart = s.scrollback.length;
+      s.assistantOutputOffset = s.scrollback.end;
     }
     return true;
   }
 
-  resize(id: string, cols: number, rows: number): boolean {
+  async resize(id: string, cols: number, rows: number): Promise<boolean> {
     const s = this.sessions.get(id);
-    if (!s || s.info.status !== 'running') return false;
+    if (!s?.pty || s.info.status !== 'running') return false;
     const safeCols = sanitizeColsRows(cols, s.info.cols);
     const safeRows = sanitizeColsRows(rows, s.info.rows);
     s.pty.resize(safeCols, safeRows);
     s.info.cols = safeCols;
     s.info.rows = safeRows;
+    this.stateDetector.resize(id, safeCols, safeRows);
+    this.persist(s);
     return true;
   }
 
-  kill(id: string): boolean {
+  async kill(id: string): Promise<boolean> {
     const s = this.sessions.get(id);
     if (!s) return false;
+    this.restarter.cancel(id);
 
     // If already exited naturally, just remove from map
     if (s.info.status === 'exited') {
       this.stateDetector.remove(id);
+      this.watchdog.remove(id);
+      s.scrollback.dispose();
       this.sessions.delete(id);
+      this.store.remove(id);
       return true;
     }
 
@@ -308,16 +495,36 @@ export class SessionManager extends EventEmitter implements ISessionManager {
       for (const d of s.disposables) d.dispose();
       s.disposables.length = 0;
     }
-    s.pty.kill();
+    s.pty?.kill();
     this.stateDetector.remove(id);
+    this.watchdog.remove(id);
+    s.scrollback.dispose();
     this.sessions.delete(id);
+    this.store.remove(id);
     this.emit('exit', id, -1); // -1 indicates killed (not natural exit)
     return true;
   }
 
-  killAll(): void {
-    for (const [id] of this.sessions) {
-      this.kill(id);
+  async killAll(): Promise<void> {
+    this.restarter.cancelAll();
+    await Promise.all([...this.sessions.keys()].map((id) => this.kill(id)));
+  }
+
+  async shutdown(): Promise<void> {
+    this.restarter.cancelAll();
+    for (const s of this.sessions.values()) {
+      if (s.info.status !== 'running') continue;
+      for (const d of s.disposables) d.dispose();
+      s.disposables.length = 0;
+      s.pty?.kill();
+      this.syncMetrics(s);
+      s.info.status = 'exited';
+      s.info.exitCode = -1;
+      s.info.pid = null;
+      s.info.pendingPermission = null;
+      this.stateDetector.remove(s.info.id);
+      this.watchdog.remove(s.info.id);
+      this.store.save(s.info);
     }
   }
 
@@ -0,0 +1,69 @@
+// Session store: persists SessionInfo so session history survives server restarts.
+//
+// Both session managers write through the store on every SessionInfo mutation
+// (spawn, state change, task, resize, exit) and remove the entry on kill.
+// FileSessionStore keeps one JSON file per session under ~/.bullybuddy/sessions/,
+// the same layout the tmux backend has always used for recovery metadata.
+
+import { mkdirSync, readdirSync, readFileSync, writeFileSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import type { SessionInfo, SessionStore } from './types.js';
+
+export const SESSION_META_DIR = join(homedir(), '.bullybuddy', 'sessions');
+
+export class FileSessionStore implements SessionStore {
+  constructor(private dir: string = SESSION_META_DIR) {
+    try { mkdirSync(dir, { recursive: true, mode: 0o700 }); } catch { /* ignore */ }
+  }
+
+  private path(id: string): string {
+    return join(this.dir, `${id}.json`);
+  }
+
+  load(): SessionInfo[] {
+    let files: string[];
+    try {
+      files = readdirSync(this.dir).filter((f) => f.endsWith('.json'));
+    } catch {
+      return [];
+    }
+    const result: SessionInfo[] = [];
+    for (const file of files) {
+      try {
+        const info = JSON.parse(readFileSync(join(this.dir, file), 'utf-8')) as SessionInfo;
+        if (info && typeof info.id === 'string') result.push(info);
+      } catch {
+        // Skip corrupt entries — a half-written file must not block startup
+      }
+    }
+    return result;
+  }
+
+  save(info: SessionInfo): void {
+    try {
+      writeFileSync(this.path(info.id), JSON.stringify(info), { mode: 0o600 });
+    } catch { /* ignore */ }
+  }
+
+  remove(id: string): void {
+    try { unlinkSync(this.path(id)); } catch { /* ignore */ }
+  }
+}
+
+/** Non-persistent store — the default for the node-pty backend and for tests. */
+export class MemorySessionStore implements SessionStore {
+  private entries = new Map<string, string>();
+
+  load(): SessionInfo[] {
+    return Array.from(this.entries.values()).map((raw) => JSON.parse(raw) as SessionInfo);
+  }
+
+  save(info: SessionInfo): void {
+    this.entries.set(info.id, JSON.stringify(info));
+  }
+
+  remove(id: string): void {
+    this.entries.delete(id);
+  }
+}
@@ -0,0 +1,154 @@
+// Session watchdog: alerts derived from a session's detected state.
+//
+//   long_idle            idle for longIdleMs after working
+//   stuck                working for stuckWorkingMs with no new output: only
+//                        the spinner and its counters redrawing
+//   permission_timeout   a permission prompt unanswered for permissionPendingMs
+//   compactions          compacted more than maxCompactions times
+//
+// Thresholds are per group (see thresholds.ts). An alert fires once per
+// episode — stuck again only after new output, the others after the session
+// leaves the state and comes back, compactions once per session. The session
+// managers emit each kind as its own event (ALERT_EVENTS), and every alert is
+// audited as `session:alert` with source 'system'.
+
+import type { DetailedState, SessionAlert, SessionAlertKind, SessionInfo } from './types.js';
+import type { Thresholds } from './thresholds.js';
+import { stripAnsi } from './utils.js';
+import { formatDuration } from './webhook-formatters.js';
+import { auditLog } from './audit-log.js';
+
+/** Session manager event per alert kind, emitted with (sessionId, alert) */
+export const ALERT_EVENTS: Record<SessionAlertKind, string> = {
+  long_idle: 'longIdle',
+  stuck: 'stuck',
+  permission_timeout: 'permissionTimeout',
+  compactions: 'compactionLimit',
+};
+
+// Output lines remembered per session, to tell new output from redraws
+const MAX_SEEN_LINES = 200;
+
+interface Watch {
+  state: DetailedState;
+  timer: ReturnType<typeof setTimeout> | null;
+  /** Worked since it was last idle */
+  worked: boolean;
+  /** While working: when output last added a line not seen recently */
+  progressAt: number;
+  seen: Set<string>;
+  compactionsAlerted: boolean;
+}
+
+/** A line of output without what a redraw changes: spinner glyphs, counters, spacing. */
+function normalizeLine(line: string): string {
+  return line.replace(/\d+(?:[.,]\d+)?[kKmhs]?|[·✢✳✶✻✽*⏺•…↑↓]|\s+/g, '');
+}
+
+function describe(alert: SessionAlert): string {
+  switch (alert.kind) {
+    case 'long_idle': return `idle for ${formatDuration(alert.value)} after working`;
+    case 'stuck': return `working for ${formatDuration(alert.value)} with no new output`;
+    case 'permission_timeout': return `permission prompt unanswered for ${formatDuration(alert.value)}`;
+    case 'compactions': return `compacted ${alert.value} times (limit ${alert.threshold})`;
+  }
+}
+
+/**
+ * Watches the sessions of one session manager against their group's
+ * thresholds. The manager reports state changes and output, and removes
+ * sessions when they exit.
+ */
+export class SessionWatchdog {
+  private watches = new Map<string, Watch>();
+
+  constructor(private thresholds: Thresholds, private onAlert: (alert: SessionAlert) => void) {}
+
+  onStateChange(info: SessionInfo, state: DetailedState): void {
+    const w = this.watch(info.id);
+    this.clearTimer(w);
+    const t = this.thresholds.forGroup(info.group);
+    const worked = w.worked;
+    w.state = state;
+
+    if (state === 'working') {
+      w.worked = true;
+      w.progressAt = Date.now();
+      if (t.stuckWorkingMs !== null) this.scheduleStuck(info.id, w, t.stuckWorkingMs);
+    } else if (state === 'idle') {
+      w.worked = false;
+      if (worked && t.longIdleMs !== null) this.schedule(info.id, w, 'long_idle', t.longIdleMs);
+    } else if (state === 'permission_needed') {
+      if (t.permissionPendingMs !== null) this.schedule(info.id, w, 'permission_timeout', t.permissionPendingMs);
+    } else if (state === 'compacting') {
+      if (t.maxCompactions !== null && info.compactionCount > t.maxCompactions && !w.compactionsAlerted) {
+        w.compactionsAlerted = true;
+        this.fire(info.id, 'compactions', t.maxCompactions, info.compactionCount);
+      }
+    }
+  }
+
+  onOutput(info: SessionInfo, data: string): void {
+    const w = this.watches.get(info.id);
+    if (!w || w.state !== 'working') return;
+    let progress = false;
+    for (const line of stripAnsi(data).split(/[\r\n]+/)) {
+      const key = normalizeLine(line);
+      if (!key || w.seen.has(key)) continue;
+      progress = true;
+      w.seen.add(key);
+      if (w.seen.size > MAX_SEEN_LINES) w.seen.delete(w.seen.values().next().value!);
+    }
+    if (!progress) return;
+    w.progressAt = Date.now();
+    // Stuck already fired: watch for the next stall
+    if (!w.timer) {
+      const stuckMs = this.thresholds.forGroup(info.group).stuckWorkingMs;
+      if (stuckMs !== null) this.scheduleStuck(info.id, w, stuckMs);
+    }
+  }
+
+  remove(id: string): void {
+    const w = this.watches.get(id);
+    if (w) this.clearTimer(w);
+    this.watches.delete(id);
+  }
+
+  private watch(id: string): Watch {
+    let w = this.watches.get(id);
+    if (!w) {
+      w = { state: 'starting', timer: null, worked: false, progressAt: Date.now(), seen: new Set(), compactionsAlerted: false };
+      this.watches.set(id, w);
+    }
+    return w;
+  }
+
+  private clearTimer(w: Watch): void {
+    if (w.timer) clearTimeout(w.timer);
+    w.timer = null;
+  }
+
+  /** Fire `kind` after `ms` unless the state changes first. */
+  private schedule(id: string, w: Watch, kind: SessionAlertKind, ms: number): void {
+    w.timer = setTimeout(() => {
+      w.timer = null;
+      this.fire(id, kind, ms, ms);
+    }, ms);
+  }
+
+  /** Fire stuck once `ms` pass without progress, checking again whenever there was some. */
+  private scheduleStuck(id: string, w: Watch, ms: number): void {
+    w.timer = setTimeout(() => {
+      w.timer = null;
+      const quiet = Date.now() - w.progressAt;
+      if (quiet >= ms) this.fire(id, 'stuck', ms, quiet);
+      else this.scheduleStuck(id, w, ms);
+    }, Math.max(0, ms - (Date.now() - w.progressAt)));
+  }
+
+  private fire(sessionId: string, kind: SessionAlertKind, threshold: number, value: number): void {
+    const alert: SessionAlert = { kind, sessionId, threshold, value, timestamp: new Date().toISOString() };
+    auditLog({ action: 'session:alert', sessionId, source: 'system', summary: `${kind}: ${describe(alert)}`, result: 'ok' });
+    this.onAlert(alert);
+  }
+}
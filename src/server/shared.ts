@@ -1,10 +1,16 @@
 // Shared constants and utilities for both session managers (node-pty and tmux).
 
+import { randomUUID } from 'crypto';
+import type { SessionInfo } from './types.js';
+
 // Env vars to strip from child processes
 export const SENSITIVE_ENV_KEYS = ['BB_TOKEN', 'BB_HOST', 'BB_PORT'];
 
 export const MAX_SCROLLBACK_BYTES = 2 * 1024 * 1024; // 2MB
+// Running sessions; exited ones don't count
 export const MAX_SESSIONS = 100;
+// Exited sessions kept as history; past this many, those idle longest are forgotten
+export const MAX_EXITED_SESSIONS = parseInt(process.env.BB_MAX_EXITED_SESSIONS ?? '100', 10);
 export const MAX_TRANSCRIPT = parseInt(process.env.BB_TRANSCRIPT_SIZE ?? '500', 10);
 
 // Whether to auto-add --dangerously-skip-permissions (default: false — opt-in only)
@@ -39,6 +45,67 @@ export function isAllowedArg(arg: string): boolean {
   return false;
 }
 
+const RESUME_FLAGS = new Set(['--continue', '-c', '--resume', '-r']);
+const SESSION_ID_FLAG = '--session-id';
+
+function flagOf(arg: string): string {
+  return arg.includes('=') ? arg.slice(0, arg.indexOf('=')) : arg;
+}
+
+/** The value of `flag` in `args` (`--flag value` or `--flag=value`), or null if absent or bare. */
+function flagValue(args: string[], flags: string[]): string | null {
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (!flags.includes(flagOf(arg))) continue;
+    if (arg.includes('=')) return arg.slice(arg.indexOf('=') + 1) || null;
+    if (i + 1 < args.length && !args[i + 1].startsWith('-')) return args[i + 1];
+  }
+  return null;
+}
+
+/**
+ * Args for spawning claude with a conversation id we know, so a restart can
+ * resume exactly that conversation: an explicit --session-id or --resume <id>
+ * is kept as is; otherwise a fresh --session-id is added, unless the session
+ * already resumes a conversation we can't name (--continue or a bare --resume).
+ */
+export function withConversationId(args: string[]): { args: string[]; conversationId: string | null } {
+  const explicit = flagValue(args, [SESSION_ID_FLAG]) ?? flagValue(args, ['--resume', '-r']);
+  if (explicit) return { args, conversationId: explicit };
+  if (args.some((a) => RESUME_FLAGS.has(flagOf(a)))) return { args, conversationId: null };
+  const conversationId = randomUUID();
+  return { args: [SESSION_ID_FLAG, conversationId, ...args], conversationId };
+}
+
+/**
+ * Args for respawning a session so claude picks up its previous conversation:
+ * any earlier --continue/--resume/--session-id (and its id) is replaced by
+ * `--resume <conversationId>`, or by --continue — the latest conversation in
+ * the same cwd — when the session's conversation id isn't known.
+ */
+export function resumeArgs(args: string[], conversationId: string | null = null): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    const flag = flagOf(arg);
+    if (!RESUME_FLAGS.has(flag) && flag !== SESSION_ID_FLAG) {
+      out.push(arg);
+      continue;
+    }
+    // --resume takes an optional session id as its next arg; --session-id a required one
+    if ((arg === '--resume' || arg === '-r' || arg === SESSION_ID_FLAG) && i + 1 < args.length && !args[i + 1].startsWith('-')) i++;
+  }
+  return conversationId ? ['--resume', conversationId, ...out] : ['--continue', ...out];
+}
+
+/** Ids of the exited sessions in `infos` beyond the `keep` most recently active, oldest first. */
+export function expiredHistory(infos: Iterable<SessionInfo>, keep = MAX_EXITED_SESSIONS): string[] {
+  const exited = [...infos]
+    .filter((info) => info.status === 'exited')
+    .sort((a, b) => a.lastActivityAt.localeCompare(b.lastActivityAt));
+  return exited.slice(0, Math.max(0, exited.length - keep)).map((info) => info.id);
+}
+
 export function sanitizeColsRows(value: number | undefined, fallback: number): number {
   if (value === undefined || !Number.isFinite(value)) return fallback;
   return Math.max(1, Math.min(500, Math.round(value)));
@@ -1,27 +1,28 @@
 // State detector: analyzes raw PTY output to determine Claude Code's actual state.
 //
-// Claude Code emits ANSI-decorated output. We strip control sequences and match
-// against known patterns in a sliding window of recent text. The detector is
-// fed incremental chunks and maintains per-session state.
+// Claude Code emits ANSI-decorated output and redraws its UI in place. Each
+// session's output is played onto a headless terminal screen
+// (terminal-screen.ts), and known patterns are matched against the bottom of
+// what it shows. The detector is fed incremental chunks and maintains
+// per-session state; output that leaves the screen as it was (cursor moves,
+// redraws of the same frame) changes nothing.
 //
-// Strategy: all patterns are tested against the window, and the one whose match
-// appears LATEST (closest to the end) wins. This ensures that the most recent
-// output determines the state, even if older patterns are still in the window.
+// Strategy: all patterns are tested against the screen, and the one whose match
+// appears LATEST (closest to the bottom) wins. This ensures that the most recent
+// output determines the state, even if older patterns are still on screen.
+// The patterns come from a pattern pack (pattern-packs.ts), chosen per session.
 
 export type { DetailedState } from './types.js';
-import type { DetailedState } from './types.js';
-import { stripAnsi } from './utils.js';
+import type { DetailedState, DetectedState, PendingPermission, ScreenSnapshot } from './types.js';
+import { parsePermissionPrompt } from './permission-prompt.js';
+import { DEFAULT_THRESHOLDS } from './thresholds.js';
+import { CLAUDE_CODE_PATTERNS, compilePatternPack, type CompiledPatternPack } from './pattern-packs.js';
+import { TerminalScreen, DEFAULT_COLS, DEFAULT_ROWS } from './terminal-screen.js';
 
-// How much recent output to keep per session (bytes of plain text)
+// How much of the screen, from its last non-blank line up, patterns are matched against
 const WINDOW_SIZE = 2048;
-
-// After this many ms of no output, if we're in 'working' we transition to 'idle'
-const IDLE_TIMEOUT_MS = 30_000;
-
-// Pre-filter: only run expensive regex matching if the window's tail contains
-// characters likely to appear in state-indicating output. This avoids burning
-// CPU on large code dumps that Claude emits while editing files.
-const TRIGGER_CHARS = /[❯✻·]|[Ee]rror|think|work|channel|read|writ|edit|run|search|compact|proceed|accept|[Aa]llow|[Dd]eny|confirm|trust|safety|[Bb]ypass|ENOENT|EACCES|APIError|Overloaded|rate.limit|Authentication/;
+// The pack's trigger is tested against this much of the bottom of the screen
+const TRIGGER_TAIL = 512;
 
 export interface StateMetrics {
   totalWorkingMs: number;
@@ -30,188 +31,184 @@ export interface StateMetrics {
 }
 
 interface SessionState {
+  screen: TerminalScreen;
+  /** The bottom of the screen as last matched */
   window: string;
   state: DetailedState;
   lastOutputAt: number;
-  idleTimer: ReturnType<typeof setTimeout> | null;
+  idleTimer: unknown;
   stateEnteredAt: number;
   metrics: StateMetrics;
+  /** Parsed prompt while in permission_needed, else null */
+  permission: PendingPermission | null;
+  pack: CompiledPatternPack;
 }
 
 type StateChangeCallback = (sessionId: string, state: DetailedState, prev: DetailedState) => void;
+type PermissionCallback = (sessionId: string, pending: PendingPermission | null) => void;
+/** After this many ms of no output, a session in 'working' transitions to 'idle' */
+type IdleTimeout = (sessionId: string) => number;
+
+/** Time source of a detector; replays (detect-replay.ts) run it on a virtual clock */
+export interface Clock {
+  now(): number;
+  setTimeout(fn: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
 
-// ── Pattern definitions ─────────────────────────────────────────────────────
-// Each pattern returns the index of its last match in the window, or -1.
-
-interface Pattern {
-  state: DetailedState;
-  lastIndex: (window: string) => number;
+const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimeout: (fn, ms) => setTimeout(fn, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+export interface StateDetectorOptions {
+  idleTimeout?: IdleTimeout;
+  /** The pack a session's output is read with, asked once per session (default: the built-in pack) */
+  patterns?: (sessionId: string) => CompiledPatternPack;
+  /** Terminal size a session's screen starts at; resize() changes it */
+  size?: (sessionId: string) => { cols: number; rows: number };
+  clock?: Clock;
 }
 
+const builtinPack = compilePatternPack(CLAUDE_CODE_PATTERNS);
+
+// ── Pattern matching ────────────────────────────────────────────────────────
+
+/** Index of the last match of a global regex in the window, or -1. */
 function lastMatchIndex(window: string, regex: RegExp): number {
   let last = -1;
   let m: RegExpExecArray | null;
-  // Clone regex with global flag for iterating
-  const g = new RegExp(regex.source, regex.flags.includes('g') ? regex.flags : regex.flags + 'g');
-  while ((m = g.exec(window)) !== null) {
+  regex.lastIndex = 0;
+  while ((m = regex.exec(window)) !== null) {
     last = m.index;
     // Avoid infinite loop on zero-length matches
-    if (m.index === g.lastIndex) g.lastIndex++;
+    if (m.index === regex.lastIndex) regex.lastIndex++;
   }
   return last;
 }
 
-function maxIndex(window: string, regexes: RegExp[]): number {
-  let best = -1;
-  for (const r of regexes) {
-    const idx = lastMatchIndex(window, r);
-    if (idx > best) best = idx;
+/**
+ * The state whose pattern matches latest in `window`, or null if none does.
+ * Ties go to the state listed first in the pack (DETECTED_STATES order).
+ */
+export function detectState(window: string, pack: CompiledPatternPack): DetectedState | null {
+  let bestState: DetectedState | null = null;
+  let bestIndex = -1;
+  for (const { state, regexes } of pack.patterns) {
+    for (const r of regexes) {
+      const idx = lastMatchIndex(window, r);
+      if (idx > bestIndex) {
+        bestIndex = idx;
+        bestState = state;
+      }
+    }
   }
-  return best;
+  return bestState;
 }
 
-const PATTERNS: Pattern[] = [
-  // IDLE — bare prompt at end of output
-  {
-    state: 'idle',
-    lastIndex: (w) => lastMatchIndex(w, /\u276f\s*$/),
-  },
-
-  // WORKING — spinners and active processing
-  {
-    state: 'working',
-    lastIndex: (w) => maxIndex(w, [
-      /\u273b\s/i,                    // spinner prefix
-      /thinking\.\.\./i,
-      /working\.\.\./i,
-      /channeling\.\.\./i,
-      /reading\s+\S+\.\S+/i,
-      /writing\s+\S+\.\S+/i,
-      /editing\s+\S+\.\S+/i,
-      /running\s+\S+/i,
-      /searching\s+\S+/i,
-    ]),
-  },
-
-  // COMPACTING
-  {
-    state: 'compacting',
-    lastIndex: (w) => maxIndex(w, [
-      /compacting conversation/i,
-      /\u00b7 compacting/i,
-    ]),
-  },
-
-  // PERMISSION_NEEDED — permission prompts
-  {
-    state: 'permission_needed',
-    lastIndex: (w) => maxIndex(w, [
-      /do you want to proceed\??/i,
-      /\u23f5\u23f5\s*accept/i,       // accept edits prompt
-      /allow\s+(once|always)/i,
-      /\(Y\)es\b/i,
-      /Yes\s*\/\s*No/i,
-      /\bDeny\b.*\bAllow\b/i,
-      /press Enter to confirm/i,
-      /trust this folder/i,           // trust folder prompt
-      /Enter to confirm/i,            // selection confirm prompt
-      /Yes, I trust/i,                // trust folder option
-      /Quick safety check/i,          // precedes trust folder prompt
-      /Bypass Permissions mode/i,     // dangerous permissions mode prompt
-      /Yes, I accept/i,               // bypass permissions acceptance option
-    ]),
-  },
-
-  // ERROR — Claude Code's own error banners (narrow patterns to avoid
-  // false positives from code output Claude is displaying/editing)
-  {
-    state: 'error',
-    lastIndex: (w) => maxIndex(w, [
-      /^Error:/m,                     // Error at start of line (Claude Code banner)
-      /\bAPIError\b/,                 // Anthropic API error
-      /\bOverloaded\b/i,             // API overloaded
-      /rate limit/i,                  // Rate limiting
-      /ENOENT|EACCES|EPERM|ECONNREFUSED/,  // Node.js system errors
-      /(?:spawn|exec)\s+\S+\s+ENOENT/,     // Command not found
-      /Authentication failed/i,
-      /invalid.*api.key/i,
-    ]),
-  },
-];
-
 export class StateDetector {
   private states = new Map<string, SessionState>();
   private onChange: StateChangeCallback;
-
-  constructor(onChange: StateChangeCallback) {
+  private onPermission?: PermissionCallback;
+  private idleTimeout: IdleTimeout;
+  private patterns: (sessionId: string) => CompiledPatternPack;
+  private size: (sessionId: string) => { cols: number; rows: number };
+  private clock: Clock;
+
+  /**
+   * `onPermission` fires when the parsed permission prompt changes while the
+   * state stays the same (e.g. the prompt finished rendering). On a state
+   * change, read it with getPendingPermission() from `onChange` instead.
+   */
+  constructor(
+    onChange: StateChangeCallback,
+    onPermission?: PermissionCallback,
+    options: StateDetectorOptions = {},
+  ) {
     this.onChange = onChange;
+    this.onPermission = onPermission;
+    this.idleTimeout = options.idleTimeout ?? (() => DEFAULT_THRESHOLDS.idleTimeoutMs);
+    this.patterns = options.patterns ?? (() => builtinPack);
+    this.size = options.size ?? (() => ({ cols: DEFAULT_COLS, rows: DEFAULT_ROWS }));
+    this.clock = options.clock ?? systemClock;
+  }
+
+  /**
+   * Seed a session's state and accumulated metrics (e.g. from persisted metadata
+   * after a server restart) without firing onChange. Timing restarts from now.
+   */
+  restore(sessionId: string, state: DetailedState, metrics: StateMetrics): void {
+    this.remove(sessionId);
+    this.states.set(sessionId, this.newState(sessionId, state, { ...metrics }));
+  }
+
+  private newState(sessionId: string, state: DetailedState, metrics: StateMetrics): SessionState {
+    const now = this.clock.now();
+    const { cols, rows } = this.size(sessionId);
+    return {
+      screen: new TerminalScreen(cols, rows),
+      window: '', state, lastOutputAt: now, idleTimer: null,
+      stateEnteredAt: now,
+      metrics,
+      permission: null,
+      pack: this.patterns(sessionId),
+    };
   }
 
   feed(sessionId: string, rawData: string): void {
     let ss = this.states.get(sessionId);
     if (!ss) {
-      const now = Date.now();
-      ss = {
-        window: '', state: 'starting', lastOutputAt: now, idleTimer: null,
-        stateEnteredAt: now,
-        metrics: { totalWorkingMs: 0, totalIdleMs: 0, totalPermissionWaitMs: 0 },
-      };
+      ss = this.newState(sessionId, 'starting', { totalWorkingMs: 0, totalIdleMs: 0, totalPermissionWaitMs: 0 });
       this.states.set(sessionId, ss);
     }
 
-    const plain = stripAnsi(rawData);
-    ss.window = (ss.window + plain).slice(-WINDOW_SIZE);
-    ss.lastOutputAt = Date.now();
+    ss.lastOutputAt = this.clock.now();
+    ss.screen.write(rawData);
+    const window = ss.screen.text().slice(-WINDOW_SIZE);
+    // Nothing new on screen: not a sign of work, and nothing to match
+    if (window === ss.window) return;
+    ss.window = window;
 
-    // Clear any pending idle timer — we just got output
+    // Clear any pending idle timer — the screen changed
     if (ss.idleTimer) {
-      clearTimeout(ss.idleTimer);
+      this.clock.clearTimeout(ss.idleTimer);
       ss.idleTimer = null;
     }
 
     // Find the pattern with the latest match position (most recent output wins)
     const prev = ss.state;
 
-    // Pre-filter: only run full regex scan if the window tail contains trigger chars.
-    // Check last 512 chars (where new content was just appended).
-    const tail = ss.window.slice(-512);
-    const hasTrigger = TRIGGER_CHARS.test(tail);
-
-    let bestState: DetailedState | null = null;
-    let bestIndex = -1;
-
-    if (hasTrigger) {
-      for (const p of PATTERNS) {
-        const idx = p.lastIndex(ss.window);
-        if (idx > bestIndex) {
-          bestIndex = idx;
-          bestState = p.state;
-        }
-      }
-    }
+    // Pre-filter: only run full regex scan if the bottom of the screen matches the pack's trigger
+    // (where new content usually appears).
+    const hasTrigger = !ss.pack.trigger || ss.pack.trigger.test(ss.window.slice(-TRIGGER_TAIL));
+    const bestState = hasTrigger ? detectState(ss.window, ss.pack) : null;
 
     if (bestState !== null) {
       ss.state = bestState;
     } else if (ss.state === 'starting') {
       // Stay in starting until we see a recognizable pattern
-    } else if (!hasTrigger) {
-      // No trigger chars and not starting — likely working (code output)
-      if (ss.state !== 'working') {
-        ss.state = 'working';
-      }
     } else {
-      // Had triggers but no pattern matched — likely working
+      // The screen changed but shows nothing recognizable — likely working (code output)
       ss.state = 'working';
     }
 
+    // Parsed before onChange so listeners see the prompt with the state.
+    // Kept as the same object while unchanged, so callers can compare by reference.
+    const permission = ss.state === 'permission_needed' ? parsePermissionPrompt(ss.window) : null;
+    const permissionChanged = JSON.stringify(permission) !== JSON.stringify(ss.permission);
+    if (permissionChanged) ss.permission = permission;
+
     if (ss.state !== prev) {
       this.accumulateTime(ss, prev);
       this.onChange(sessionId, ss.state, prev);
+    } else if (permissionChanged) {
+      this.onPermission?.(sessionId, ss.permission);
     }
 
     // Set idle timeout: if we're in 'working', transition to 'idle' after silence
     if (ss.state === 'working') {
-      ss.idleTimer = setTimeout(() => {
+      ss.idleTimer = this.clock.setTimeout(() => {
         ss!.idleTimer = null;
         if (ss!.state === 'working') {
           const p = ss!.state;
@@ -219,12 +216,12 @@ export class StateDetector {
           ss!.state = 'idle';
           this.onChange(sessionId, 'idle', p);
         }
-      }, IDLE_TIMEOUT_MS);
+      }, this.idleTimeout(sessionId));
     }
   }
 
   private accumulateTime(ss: SessionState, prevState: DetailedState): void {
-    const now = Date.now();
+    const now = this.clock.now();
     const elapsed = now - ss.stateEnteredAt;
     ss.stateEnteredAt = now;
     if (prevState === 'working') ss.metrics.totalWorkingMs += elapsed;
@@ -236,11 +233,28 @@ export class StateDetector {
     return this.states.get(sessionId)?.state ?? 'starting';
   }
 
+  /** Keep a session's screen at its terminal's size. */
+  resize(sessionId: string, cols: number, rows: number): void {
+    const ss = this.states.get(sessionId);
+    if (!ss) return;
+    ss.screen.resize(cols, rows);
+    ss.window = ss.screen.text().slice(-WINDOW_SIZE);
+  }
+
+  /** What a session's terminal shows; null before its first output. */
+  getScreen(sessionId: string): ScreenSnapshot | null {
+    return this.states.get(sessionId)?.screen.snapshot() ?? null;
+  }
+
+  getPendingPermission(sessionId: string): PendingPermission | null {
+    return this.states.get(sessionId)?.permission ?? null;
+  }
+
   getMetrics(sessionId: string): StateMetrics {
     const ss = this.states.get(sessionId);
     if (!ss) return { totalWorkingMs: 0, totalIdleMs: 0, totalPermissionWaitMs: 0 };
     // Include time in current state up to now
-    const now = Date.now();
+    const now = this.clock.now();
     const elapsed = now - ss.stateEnteredAt;
     const m = { ...ss.metrics };
     if (ss.state === 'working') m.totalWorkingMs += elapsed;
@@ -251,7 +265,7 @@ export class StateDetector {
 
   remove(sessionId: string): void {
     const ss = this.states.get(sessionId);
-    if (ss?.idleTimer) clearTimeout(ss.idleTimer);
+    if (ss?.idleTimer) this.clock.clearTimeout(ss.idleTimer);
     this.states.delete(sessionId);
   }
 }
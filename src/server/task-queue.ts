@@ -0,0 +1,149 @@
+// Task queue: a FIFO of prompts per session, fed to claude one at a time.
+//
+// The next queued task is written to the session when it goes idle with no
+// task running, e.g. once claude first reaches its prompt. The running task
+// is done on the next `working → idle` transition. If the session exits
+// mid-task, that task is marked interrupted. Queued tasks wait for a restart.
+//
+// Tasks live on SessionInfo.tasks, so they are persisted with the session.
+// The label fields (task / taskStartedAt) follow the task that is running.
+
+import { randomBytes } from 'crypto';
+import type { DetailedState, SessionInfo, SessionTask } from './types.js';
+
+export const MAX_QUEUED_TASKS = 100;
+/** Finished (done, cancelled, interrupted) tasks kept per session */
+export const MAX_FINISHED_TASKS = 50;
+
+export function isFinished(task: SessionTask): boolean {
+  return task.status !== 'queued' && task.status !== 'running';
+}
+
+function finish(task: SessionTask, status: SessionTask['status']): void {
+  task.status = status;
+  task.finishedAt = new Date().toISOString();
+}
+
+/** Drop the oldest finished tasks beyond MAX_FINISHED_TASKS. */
+export function pruneFinished(tasks: SessionTask[]): void {
+  let excess = tasks.filter(isFinished).length - MAX_FINISHED_TASKS;
+  for (let i = 0; i < tasks.length && excess > 0; ) {
+    if (isFinished(tasks[i])) {
+      tasks.splice(i, 1);
+      excess--;
+    } else {
+      i++;
+    }
+  }
+}
+
+/** Mark the session's running task interrupted. Returns whether there was one. */
+export function interruptRunningTask(info: SessionInfo): boolean {
+  const running = info.tasks?.find((t) => t.status === 'running');
+  if (!running) return false;
+  finish(running, 'interrupted');
+  pruneFinished(info.tasks!);
+  return true;
+}
+
+/**
+ * Dispatches queued tasks for one session manager. The manager reports state
+ * changes and exits. It also supplies the write, and `changed` to persist the
+ * session and announce its tasks.
+ */
+export class TaskQueue {
+  constructor(
+    private write: (id: string, data: string) => Promise<boolean>,
+    private changed: (info: SessionInfo) => void,
+  ) {}
+
+  /** Append a task; it is sent right away if the session is idle and free. */
+  enqueue(info: SessionInfo, text: string): SessionTask {
+    const tasks = (info.tasks ??= []);
+    if (tasks.filter((t) => t.status === 'queued').length >= MAX_QUEUED_TASKS) {
+      throw new Error(`Task queue is full (max ${MAX_QUEUED_TASKS})`);
+    }
+    const task: SessionTask = {
+      id: randomBytes(4).toString('hex'),
+      text,
+      status: 'queued',
+      createdAt: new Date().toISOString(),
+      startedAt: null,
+      finishedAt: null,
+    };
+    tasks.push(task);
+    if (info.status === 'running' && info.detailedState === 'idle') this.dispatch(info);
+    this.changed(info);
+    return task;
+  }
+
+  /**
+   * Move queued tasks to the front in the given order; queued tasks not listed
+   * keep their relative order behind them. Throws on ids that aren't queued.
+   */
+  reorder(info: SessionInfo, order: string[]): void {
+    const tasks = info.tasks ?? [];
+    const queued = tasks.filter((t) => t.status === 'queued');
+    const front: SessionTask[] = [];
+    for (const taskId of order) {
+      const task = queued.find((t) => t.id === taskId);
+      if (!task) throw new Error(`Not a queued task: ${taskId}`);
+      if (!front.includes(task)) front.push(task);
+    }
+    const reordered = [...front, ...queued.filter((t) => !front.includes(t))];
+    // Refill the queued slots in the new order; other tasks stay where they are
+    let next = 0;
+    info.tasks = tasks.map((t) => (t.status === 'queued' ? reordered[next++] : t));
+    this.changed(info);
+  }
+
+  /** Cancel a queued task. Undefined if unknown; throws if it already started. */
+  cancel(info: SessionInfo, taskId: string): SessionTask | undefined {
+    const task = info.tasks?.find((t) => t.id === taskId);
+    if (!task) return undefined;
+    if (task.status !== 'queued') throw new Error(`Task is already ${task.status}`);
+    finish(task, 'cancelled');
+    pruneFinished(info.tasks!);
+    this.changed(info);
+    return task;
+  }
+
+  onStateChange(info: SessionInfo, state: DetailedState, prev: DetailedState): void {
+    if (state !== 'idle' || !info.tasks?.length) return;
+    let dirty = false;
+    if (prev === 'working') {
+      const running = info.tasks.find((t) => t.status === 'running');
+      if (running) {
+        finish(running, 'done');
+        pruneFinished(info.tasks);
+        dirty = true;
+      }
+    }
+    if (this.dispatch(info)) dirty = true;
+    if (dirty) this.changed(info);
+  }
+
+  onExit(info: SessionInfo): void {
+    if (interruptRunningTask(info)) this.changed(info);
+  }
+
+  /** Start the next queued task unless one is running. Returns whether it did. */
+  private dispatch(info: SessionInfo): boolean {
+    const tasks = info.tasks ?? [];
+    if (tasks.some((t) => t.status === 'running')) return false;
+    const next = tasks.find((t) => t.status === 'queued');
+    if (!next) return false;
+
+    next.status = 'running';
+    next.startedAt = new Date().toISOString();
+    info.task = next.text;
+    info.taskStartedAt = next.startedAt;
+
+    void this.write(info.id, next.text + '\r').then((ok) => {
+      if (ok || next.status !== 'running') return;
+      finish(next, 'interrupted');
+      this.changed(info);
+    });
+    return true;
+  }
+}
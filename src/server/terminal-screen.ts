@@ -0,0 +1,443 @@
+// Terminal screen: a headless emulator keeping what a session's terminal shows.
+//
+// It applies the parts of the VT100/xterm protocol a TUI uses to draw —
+// printing with autowrap, cursor movement, erasing, inserting and deleting
+// characters and lines, scroll regions, the alternate screen, cursor save and
+// restore — and skips the rest (colors, titles, modes it doesn't track). The
+// state detector matches patterns against the rendered lines instead of the
+// raw stream, so redraws and erased spinner frames no longer linger, and
+// GET /api/sessions/:id/screen returns them.
+//
+// LF also returns the carriage: the tty's onlcr does that for real output,
+// and tmux pane captures use bare LF.
+
+import type { ScreenSnapshot } from './types.js';
+
+/** Screen size when the terminal's is unknown: spawn's defaults */
+export const DEFAULT_COLS = 120;
+export const DEFAULT_ROWS = 40;
+
+const TAB_WIDTH = 8;
+
+/** Cells a code point takes: 0 for combining marks, 2 for wide (CJK, emoji). */
+export function charWidth(cp: number): number {
+  if ((cp >= 0x300 && cp <= 0x36f) || (cp >= 0x200b && cp <= 0x200f) || (cp >= 0xfe00 && cp <= 0xfe0f)) return 0;
+  if ((cp >= 0x1100 && cp <= 0x115f) || (cp >= 0x2e80 && cp <= 0xa4cf && cp !== 0x303f)
+    || (cp >= 0xac00 && cp <= 0xd7a3) || (cp >= 0xf900 && cp <= 0xfaff) || (cp >= 0xfe30 && cp <= 0xfe4f)
+    || (cp >= 0xff00 && cp <= 0xff60) || (cp >= 0xffe0 && cp <= 0xffe6)
+    || (cp >= 0x1f300 && cp <= 0x1f64f) || (cp >= 0x1f900 && cp <= 0x1f9ff) || (cp >= 0x20000 && cp <= 0x3fffd)) return 2;
+  return 1;
+}
+
+type ParserState = 'ground' | 'esc' | 'csi' | 'osc' | 'oscEsc' | 'string' | 'stringEsc' | 'charset';
+
+interface Cursor {
+  x: number;
+  y: number;
+}
+
+/**
+ * One terminal's screen. Each cell holds a character (with any combining
+ * marks); the cell after a wide character holds ''.
+ */
+export class TerminalScreen {
+  private lines: string[][];
+  private x = 0;
+  private y = 0;
+  /** Printed into the last column: the next character wraps first */
+  private pendingWrap = false;
+  private saved: Cursor = { x: 0, y: 0 };
+  private scrollTop = 0;
+  private scrollBottom: number;
+  private cursorVisible = true;
+  private autowrap = true;
+  /** The main screen's lines while the alternate screen is up */
+  private mainLines: string[][] | null = null;
+
+  // Escape sequences can be split across writes
+  private state: ParserState = 'ground';
+  private params = '';
+
+  constructor(private cols: number, private rows: number) {
+    this.lines = Array.from({ length: rows }, () => this.blankLine());
+    this.scrollBottom = rows - 1;
+  }
+
+  write(data: string): void {
+    for (const ch of data) {
+      const cp = ch.codePointAt(0)!;
+      switch (this.state) {
+        case 'ground':
+          if (cp >= 0x20 && cp !== 0x7f) this.print(ch, cp);
+          else this.control(cp);
+          break;
+        case 'esc':
+          this.escape(ch);
+          break;
+        case 'csi':
+          if (cp >= 0x40 && cp <= 0x7e) {
+            this.state = 'ground';
+            this.csi(ch, this.params);
+          } else if (cp < 0x20) {
+            this.control(cp); // C0 controls act inside CSI too
+          } else {
+            this.params += ch;
+          }
+          break;
+        case 'osc':
+          if (cp === 0x07) this.state = 'ground';
+          else if (cp === 0x1b) this.state = 'oscEsc';
+          break;
+        case 'string':
+          if (cp === 0x1b) this.state = 'stringEsc';
+          break;
+        case 'oscEsc':
+        case 'stringEsc':
+          // ESC \ ends the string; anything else starts a new sequence
+          this.state = 'ground';
+          if (ch !== '\\') this.escape(ch);
+          break;
+        case 'charset':
+          this.state = 'ground';
+          break;
+      }
+    }
+  }
+
+  resize(cols: number, rows: number): void {
+    if (cols === this.cols && rows === this.rows) return;
+    for (const lines of this.mainLines ? [this.lines, this.mainLines] : [this.lines]) {
+      // Drop lines from the top while the cursor would end up below the screen, then from the bottom
+      while (lines.length > rows) {
+        if (lines === this.lines && this.y >= rows) {
+          lines.shift();
+          this.y--;
+        } else {
+          lines.pop();
+        }
+      }
+      while (lines.length < rows) lines.push(new Array(this.cols).fill(' '));
+      for (let i = 0; i < lines.length; i++) {
+        const line = lines[i];
+        if (cols < this.cols) {
+          line.length = cols;
+          if (line[cols - 1] !== '' && charWidth(line[cols - 1].codePointAt(0) ?? 0x20) === 2) line[cols - 1] = ' ';
+        } else {
+          while (line.length < cols) line.push(' ');
+        }
+      }
+    }
+    this.cols = cols;
+    this.rows = rows;
+    this.scrollTop = 0;
+    this.scrollBottom = rows - 1;
+    this.x = Math.min(this.x, cols - 1);
+    this.y = Math.min(this.y, rows - 1);
+    this.pendingWrap = false;
+  }
+
+  /** The visible lines, without trailing spaces. */
+  lineTexts(): string[] {
+    return this.lines.map((line) => line.join('').trimEnd());
+  }
+
+  /** The visible screen down to its last non-blank line. */
+  text(): string {
+    const lines = this.lineTexts();
+    while (lines.length && !lines[lines.length - 1]) lines.pop();
+    return lines.join('\n');
+  }
+
+  snapshot(): ScreenSnapshot {
+    return {
+      cols: this.cols,
+      rows: this.rows,
+      cursor: { row: this.y, col: this.x, visible: this.cursorVisible },
+      alternate: this.mainLines !== null,
+      text: this.lineTexts().join('\n'),
+    };
+  }
+
+  private blankLine(): string[] {
+    return new Array(this.cols).fill(' ');
+  }
+
+  private print(ch: string, cp: number): void {
+    const width = charWidth(cp);
+    if (width === 0) {
+      // Combining mark: joins the character before the cursor
+      const x = this.pendingWrap ? this.x : this.x - 1;
+      const line = this.lines[this.y];
+      const at = line[x] === '' ? x - 1 : x;
+      if (at >= 0) line[at] += ch;
+      return;
+    }
+    if (this.pendingWrap || (width === 2 && this.x === this.cols - 1)) {
+      if (this.autowrap) {
+        if (!this.pendingWrap) this.lines[this.y][this.x] = ' ';
+        this.x = 0;
+        this.lineFeed();
+      } else if (width === 2) {
+        return; // no room
+      }
+      this.pendingWrap = false;
+    }
+    const line = this.lines[this.y];
+    // Overwriting half of a wide character blanks the other half
+    if (line[this.x] === '' && this.x > 0) line[this.x - 1] = ' ';
+    const end = this.x + width;
+    if (end < this.cols && line[end] === '') line[end] = ' ';
+    line[this.x] = ch;
+    if (width === 2) line[this.x + 1] = '';
+
+    if (end >= this.cols) {
+      this.x = this.cols - 1;
+      this.pendingWrap = this.autowrap;
+    } else {
+      this.x = end;
+    }
+  }
+
+  private control(cp: number): void {
+    switch (cp) {
+      case 0x08: // BS
+        this.moveTo(this.x - 1, this.y);
+        break;
+      case 0x09: // HT
+        this.moveTo(Math.min(this.cols - 1, (Math.floor(this.x / TAB_WIDTH) + 1) * TAB_WIDTH), this.y);
+        break;
+      case 0x0a: // LF, VT, FF
+      case 0x0b:
+      case 0x0c:
+        this.x = 0;
+        this.pendingWrap = false;
+        this.lineFeed();
+        break;
+      case 0x0d: // CR
+        this.moveTo(0, this.y);
+        break;
+      case 0x1b:
+        this.state = 'esc';
+        break;
+      case 0x18: // CAN, SUB abort a sequence
+      case 0x1a:
+        this.state = 'ground';
+        break;
+    }
+  }
+
+  private escape(ch: string): void {
+    this.state = 'ground';
+    switch (ch) {
+      case '[':
+        this.state = 'csi';
+        this.params = '';
+        break;
+      case ']':
+        this.state = 'osc';
+        break;
+      case 'P': case 'X': case '^': case '_': // DCS, SOS, PM, APC
+        this.state = 'string';
+        break;
+      case '(': case ')': case '*': case '+':
+        this.state = 'charset';
+        break;
+      case '7':
+        this.saved = { x: this.x, y: this.y };
+        break;
+      case '8':
+        this.moveTo(this.saved.x, this.saved.y);
+        break;
+      case 'D': // IND
+        this.pendingWrap = false;
+        this.lineFeed();
+        break;
+      case 'E': // NEL
+        this.x = 0;
+        this.pendingWrap = false;
+        this.lineFeed();
+        break;
+      case 'M': // RI
+        this.pendingWrap = false;
+        if (this.y === this.scrollTop) this.scrollDown(1);
+        else if (this.y > 0) this.y--;
+        break;
+      case 'c': // RIS
+        this.reset();
+        break;
+    }
+  }
+
+  private csi(final: string, raw: string): void {
+    const prefix = /^[?>=<]/.test(raw) ? raw[0] : '';
+    // Intermediates (e.g. the space of DECSCUSR) make a different command, none of which we track
+    if (/[\x20-\x2f]/.test(raw)) return;
+    const params = (prefix ? raw.slice(1) : raw).split(';').map((p) => parseInt(p.split(':')[0], 10));
+    const n = (i = 0, def = 1) => (Number.isNaN(params[i]) || params[i] === undefined || params[i] === 0 ? def : params[i]);
+
+    if (prefix === '?') {
+      if (final === 'h' || final === 'l') for (const mode of params) this.privateMode(mode, final === 'h');
+      return;
+    }
+    if (prefix) return;
+
+    switch (final) {
+      case 'A': this.moveTo(this.x, Math.max(this.y >= this.scrollTop ? this.scrollTop : 0, this.y - n())); break;
+      case 'B': this.moveTo(this.x, Math.min(this.y <= this.scrollBottom ? this.scrollBottom : this.rows - 1, this.y + n())); break;
+      case 'C': case 'a': this.moveTo(this.x + n(), this.y); break;
+      case 'D': this.moveTo(this.x - n(), this.y); break;
+      case 'E': this.moveTo(0, this.y + n()); break;
+      case 'F': this.moveTo(0, this.y - n()); break;
+      case 'G': case '`': this.moveTo(n() - 1, this.y); break;
+      case 'H': case 'f': this.moveTo(n(1) - 1, n(0) - 1); break;
+      case 'd': this.moveTo(this.x, n() - 1); break;
+      case 'e': this.moveTo(this.x, this.y + n()); break;
+      case 'J': this.eraseDisplay(n(0, 0)); break;
+      case 'K': this.eraseLine(n(0, 0)); break;
+      case '@': this.insertChars(n()); break;
+      case 'P': this.deleteChars(n()); break;
+      case 'X': this.erase(this.y, this.x, Math.min(this.cols, this.x + n())); break;
+      case 'L': this.insertLines(n()); break;
+      case 'M': this.deleteLines(n()); break;
+      case 'S': this.scrollUp(n()); break;
+      case 'T': this.scrollDown(n()); break;
+      case 'r': {
+        const top = n(0) - 1;
+        const bottom = Math.min(this.rows, n(1, this.rows)) - 1;
+        if (top < bottom) {
+          this.scrollTop = top;
+          this.scrollBottom = bottom;
+          this.moveTo(0, 0);
+        }
+        break;
+      }
+      case 's': this.saved = { x: this.x, y: this.y }; break;
+      case 'u': this.moveTo(this.saved.x, this.saved.y); break;
+    }
+  }
+
+  private privateMode(mode: number, on: boolean): void {
+    switch (mode) {
+      case 7:
+        this.autowrap = on;
+        break;
+      case 25:
+        this.cursorVisible = on;
+        break;
+      case 47:
+      case 1047:
+      case 1049:
+        if (on === (this.mainLines !== null)) return;
+        if (on) {
+          if (mode === 1049) this.saved = { x: this.x, y: this.y };
+          this.mainLines = this.lines;
+          this.lines = Array.from({ length: this.rows }, () => this.blankLine());
+        } else {
+          this.lines = this.mainLines!;
+          this.mainLines = null;
+          if (mode === 1049) this.moveTo(this.saved.x, this.saved.y);
+        }
+        break;
+    }
+  }
+
+  private moveTo(x: number, y: number): void {
+    this.x = Math.max(0, Math.min(this.cols - 1, x));
+    this.y = Math.max(0, Math.min(this.rows - 1, y));
+    this.pendingWrap = false;
+  }
+
+  private lineFeed(): void {
+    if (this.y === this.scrollBottom) this.scrollUp(1);
+    else if (this.y < this.rows - 1) this.y++;
+  }
+
+  private scrollUp(count: number): void {
+    const n = Math.min(count, this.scrollBottom - this.scrollTop + 1);
+    this.lines.splice(this.scrollTop, n);
+    this.lines.splice(this.scrollBottom - n + 1, 0, ...Array.from({ length: n }, () => this.blankLine()));
+  }
+
+  private scrollDown(count: number): void {
+    const n = Math.min(count, this.scrollBottom - this.scrollTop + 1);
+    this.lines.splice(this.scrollBottom - n + 1, n);
+    this.lines.splice(this.scrollTop, 0, ...Array.from({ length: n }, () => this.blankLine()));
+  }
+
+  private insertLines(count: number): void {
+    if (this.y < this.scrollTop || this.y > this.scrollBottom) return;
+    const n = Math.min(count, this.scrollBottom - this.y + 1);
+    this.lines.splice(this.scrollBottom - n + 1, n);
+    this.lines.splice(this.y, 0, ...Array.from({ length: n }, () => this.blankLine()));
+    this.x = 0;
+    this.pendingWrap = false;
+  }
+
+  private deleteLines(count: number): void {
+    if (this.y < this.scrollTop || this.y > this.scrollBottom) return;
+    const n = Math.min(count, this.scrollBottom - this.y + 1);
+    this.lines.splice(this.y, n);
+    this.lines.splice(this.scrollBottom - n + 1, 0, ...Array.from({ length: n }, () => this.blankLine()));
+    this.x = 0;
+    this.pendingWrap = false;
+  }
+
+  private insertChars(count: number): void {
+    const line = this.lines[this.y];
+    const n = Math.min(count, this.cols - this.x);
+    line.splice(this.x, 0, ...new Array(n).fill(' '));
+    line.length = this.cols;
+    this.pendingWrap = false;
+  }
+
+  private deleteChars(count: number): void {
+    const line = this.lines[this.y];
+    const n = Math.min(count, this.cols - this.x);
+    line.splice(this.x, n);
+    while (line.length < this.cols) line.push(' ');
+    this.pendingWrap = false;
+  }
+
+  /** Blank columns [from, to) of a row. */
+  private erase(y: number, from: number, to: number): void {
+    const line = this.lines[y];
+    if (from >= to) return;
+    for (let x = from; x < to; x++) line[x] = ' ';
+    // Don't leave half a wide character behind
+    if (from > 0 && charWidth(line[from - 1].codePointAt(0) ?? 0x20) === 2) line[from - 1] = ' ';
+    if (to < this.cols && line[to] === '') line[to] = ' ';
+  }
+
+  private eraseLine(mode: number): void {
+    if (mode === 0) this.erase(this.y, this.x, this.cols);
+    else if (mode === 1) this.erase(this.y, 0, this.x + 1);
+    else this.erase(this.y, 0, this.cols);
+    this.pendingWrap = false;
+  }
+
+  private eraseDisplay(mode: number): void {
+    if (mode === 0) {
+      this.erase(this.y, this.x, this.cols);
+      for (let y = this.y + 1; y < this.rows; y++) this.erase(y, 0, this.cols);
+    } else if (mode === 1) {
+      for (let y = 0; y < this.y; y++) this.erase(y, 0, this.cols);
+      this.erase(this.y, 0, this.x + 1);
+    } else {
+      for (let y = 0; y < this.rows; y++) this.erase(y, 0, this.cols);
+    }
+    this.pendingWrap = false;
+  }
+
+  private reset(): void {
+    this.lines = Array.from({ length: this.rows }, () => this.blankLine());
+    this.mainLines = null;
+    this.x = 0;
+    this.y = 0;
+    this.pendingWrap = false;
+    this.saved = { x: 0, y: 0 };
+    this.scrollTop = 0;
+    this.scrollBottom = this.rows - 1;
+    this.cursorVisible = true;
+    this.autowrap = true;
+  }
+}
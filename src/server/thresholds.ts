@@ -0,0 +1,114 @@
+// Thresholds: per-group timings for state and stuck-session detection.
+//
+// They live in a JSON file (BB_THRESHOLDS, default ~/.bullybuddy/thresholds.json)
+// that is re-read whenever it changes:
+//
+//   {
+//     "stuckWorkingMs": 300000,
+//     "groups": {
+//       "ci": { "idleTimeoutMs": 60000, "permissionPendingMs": 120000, "maxCompactions": null }
+//     }
+//   }
+//
+// Top-level fields apply to every group and a group's entry overrides some of
+// them. Missing fields keep DEFAULT_THRESHOLDS; null turns a check off. The
+// session managers apply them through SessionWatchdog (session-watchdog.ts).
+
+import { readFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import type { SessionThresholds, ThresholdsConfig } from './types.js';
+
+export const THRESHOLDS_FILE = process.env.BB_THRESHOLDS
+  || join(homedir(), '.bullybuddy', 'thresholds.json');
+
+export const DEFAULT_THRESHOLDS: SessionThresholds = {
+  idleTimeoutMs: 30_000,
+  longIdleMs: 60_000,
+  stuckWorkingMs: 10 * 60_000,
+  permissionPendingMs: 10 * 60_000,
+  maxCompactions: 5,
+};
+
+const MIN_MS = 1000;
+const MAX_MS = 7 * 24 * 60 * 60_000;
+const MAX_COMPACTIONS = 1000;
+// The state detector asks on every chunk of output; look at the file at most this often
+const CHECK_INTERVAL_MS = 1000;
+
+const FIELDS = Object.keys(DEFAULT_THRESHOLDS) as (keyof SessionThresholds)[];
+
+/** `prefix` names where the fields are in the file, for errors: '' or 'groups.<name>.' */
+function normalizeFields(raw: unknown, prefix: string): Partial<SessionThresholds> {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error(`${prefix ? prefix.slice(0, -1) : 'Thresholds'} must be an object`);
+  }
+  const r = raw as Record<string, unknown>;
+  const fields: Record<string, number | null> = {};
+  for (const key of FIELDS) {
+    const value = r[key];
+    if (value === undefined) continue;
+    const nullable = key !== 'idleTimeoutMs';
+    const [min, max] = key === 'maxCompactions' ? [0, MAX_COMPACTIONS] : [MIN_MS, MAX_MS];
+    if (!(value === null && nullable)
+      && (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max)) {
+      throw new Error(`${prefix}${key} must be ${nullable ? 'null or ' : ''}an integer between ${min} and ${max}`);
+    }
+    fields[key] = value as number | null;
+  }
+  return fields as Partial<SessionThresholds>;
+}
+
+/** Validate a parsed thresholds file and fill in defaults. Throws on invalid input. */
+export function normalizeThresholds(raw: unknown): ThresholdsConfig {
+  const top = normalizeFields(raw, '');
+  const rawGroups = (raw as Record<string, unknown>).groups ?? {};
+  if (typeof rawGroups !== 'object' || Array.isArray(rawGroups)) throw new Error('groups must be an object');
+  const groups: ThresholdsConfig['groups'] = {};
+  for (const [group, fields] of Object.entries(rawGroups as Record<string, unknown>)) {
+    groups[group] = normalizeFields(fields, `groups.${group}.`);
+  }
+  return { ...DEFAULT_THRESHOLDS, ...top, groups };
+}
+
+/** The thresholds file of one server, re-read when it changes. Defaults if it is missing or invalid. */
+export class Thresholds {
+  private cache: { version: string; config: ThresholdsConfig } | null = null;
+  private checkedAt = 0;
+
+  constructor(private file = THRESHOLDS_FILE) {}
+
+  load(): ThresholdsConfig {
+    const now = Date.now();
+    if (this.cache && now - this.checkedAt < CHECK_INTERVAL_MS) return this.cache.config;
+    this.checkedAt = now;
+
+    let version: string;
+    try {
+      const st = statSync(this.file);
+      version = `${st.mtimeMs}:${st.size}`;
+    } catch {
+      version = 'missing';
+    }
+    if (this.cache?.version === version) return this.cache.config;
+
+    let config: ThresholdsConfig = { ...DEFAULT_THRESHOLDS, groups: {} };
+    if (version !== 'missing') {
+      try {
+        config = normalizeThresholds(JSON.parse(readFileSync(this.file, 'utf-8')));
+        const groups = Object.keys(config.groups).length;
+        console.log(`[bb] thresholds from ${this.file}${groups ? ` (${groups} group override${groups === 1 ? '' : 's'})` : ''}`);
+      } catch (err) {
+        console.warn(`[bb] ignoring thresholds ${this.file}: ${err instanceof Error ? err.message : err}`);
+      }
+    }
+    this.cache = { version, config };
+    return config;
+  }
+
+  /** The thresholds sessions in `group` run with. */
+  forGroup(group: string): SessionThresholds {
+    const { groups, ...defaults } = this.load();
+    return { ...defaults, ...groups[group] };
+  }
+}
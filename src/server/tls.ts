@@ -0,0 +1,101 @@
+// TLS: serve HTTPS/WSS directly from a certificate and key.
+//
+// BB_TLS_CERT and BB_TLS_KEY point at PEM files. `bullybuddy tls generate`
+// writes a self-signed pair (via openssl) to ~/.bullybuddy/tls. Self-signed
+// certificates aren't trusted by any CA, so local clients pin the
+// certificate's SHA-256 fingerprint instead; the server publishes it in
+// connection.json.
+
+import { X509Certificate } from 'crypto';
+import { execFile } from 'child_process';
+import { mkdirSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { homedir } from 'os';
+import { connect, type TLSSocket } from 'tls';
+
+export const TLS_DIR = join(homedir(), '.bullybuddy', 'tls');
+
+export interface TlsConfig {
+  cert: string;
+  key: string;
+  certFile: string;
+  /** SHA-256 fingerprint, colon-separated hex as openssl prints it */
+  fingerprint: string;
+}
+
+/** SHA-256 fingerprint of a PEM certificate. */
+export function certFingerprint(pem: string): string {
+  return new X509Certificate(pem).fingerprint256;
+}
+
+function sameFingerprint(a: string, b: string): boolean {
+  const normalize = (f: string) => f.replace(/:/g, '').toUpperCase();
+  return normalize(a) === normalize(b);
+}
+
+/**
+ * The certificate and key named by BB_TLS_CERT / BB_TLS_KEY, or null when
+ * neither is set. Throws when only one is set or the files can't be used.
+ */
+export function loadTls(env: NodeJS.ProcessEnv = process.env): TlsConfig | null {
+  const certFile = env.BB_TLS_CERT;
+  const keyFile = env.BB_TLS_KEY;
+  if (!certFile && !keyFile) return null;
+  if (!certFile || !keyFile) throw new Error('BB_TLS_CERT and BB_TLS_KEY must be set together');
+  const cert = readFileSync(certFile, 'utf-8');
+  const key = readFileSync(keyFile, 'utf-8');
+  return { cert, key, certFile, fingerprint: certFingerprint(cert) };
+}
+
+export interface GenerateOptions {
+  dir?: string;
+  /** Extra host names or IP addresses the certificate is valid for */
+  hosts?: string[];
+  days?: number;
+}
+
+/**
+ * Write a self-signed certificate (cert.pem) and key (key.pem) to `dir`,
+ * valid for localhost, 127.0.0.1 and `hosts`. Needs openssl on PATH.
+ */
+export async function generateSelfSigned(opts: GenerateOptions = {}): Promise<{ certFile: string; keyFile: string; fingerprint: string }> {
+  const dir = opts.dir ?? TLS_DIR;
+  const days = opts.days ?? 825;
+  const hosts = [...new Set(['localhost', '127.0.0.1', ...(opts.hosts ?? [])])];
+  const san = hosts.map((h) => (/^[\d.]+$|:/.test(h) ? `IP:${h}` : `DNS:${h}`)).join(',');
+  mkdirSync(dir, { recursive: true, mode: 0o700 });
+  const certFile = join(dir, 'cert.pem');
+  const keyFile = join(dir, 'key.pem');
+
+  await new Promise<void>((resolve, reject) => {
+    execFile('openssl', [
+      'req', '-x509', '-newkey', 'ec', '-pkeyopt', 'ec_paramgen_curve:prime256v1', '-nodes',
+      '-keyout', keyFile, '-out', certFile, '-days', String(days),
+      '-subj', '/CN=bullybuddy', '-addext', `subjectAltName=${san}`,
+    ], { timeout: 30_000 }, (err, _stdout, stderr) => {
+      if (!err) return resolve();
+      const code = (err as NodeJS.ErrnoException).code;
+      reject(new Error(code === 'ENOENT' ? 'openssl not found — install it to generate certificates' : stderr.trim() || err.message));
+    });
+  });
+  return { certFile, keyFile, fingerprint: certFingerprint(readFileSync(certFile, 'utf-8')) };
+}
+
+/**
+ * Open a TLS connection and check the server certificate against a pinned
+ * fingerprint before resolving, so nothing (least of all a token) is sent to
+ * a server presenting any other certificate.
+ */
+export function connectPinned(host: string, port: number, fingerprint: string): Promise<TLSSocket> {
+  return new Promise((resolve, reject) => {
+    // The CA check is replaced by the pin, which is stricter for a self-signed cert
+    const socket = connect({ host, port, servername: /^[\d.]+$|:/.test(host) ? undefined : host, rejectUnauthorized: false });
+    socket.once('secureConnect', () => {
+      const actual = socket.getPeerCertificate().fingerprint256;
+      if (actual && sameFingerprint(actual, fingerprint)) return resolve(socket);
+      socket.destroy();
+      reject(new Error(`TLS certificate fingerprint mismatch: expected ${fingerprint}, got ${actual ?? 'none'}`));
+    });
+    socket.once('error', reject);
+  });
+}
@@ -0,0 +1,79 @@
+// Tmux driver: runs tmux commands asynchronously through a serialized queue.
+//
+// execFileSync blocked the event loop for up to its 5s timeout on every call, so
+// a slow tmux server froze HTTP, WebSocket and state detection. Commands now run
+// one at a time via execFile (tmux itself serializes commands against the server,
+// and ordering keeps sequences like load-buffer → paste-buffer intact), each with
+// its own timeout. Failures reject with a TmuxCommandError whose `kind` tells a
+// timeout from a non-zero exit or a missing tmux binary.
+
+import { execFile } from 'child_process';
+
+export const DEFAULT_TMUX_TIMEOUT_MS = 5000;
+
+export type TmuxErrorKind = 'timeout' | 'exit' | 'not_found' | 'spawn';
+
+export class TmuxCommandError extends Error {
+  constructor(
+    message: string,
+    readonly kind: TmuxErrorKind,
+    readonly args: string[],
+    /** tmux exit status for kind 'exit' (1 = e.g. no server / no such session) */
+    readonly exitCode: number | null,
+    readonly stderr: string,
+  ) {
+    super(message);
+    this.name = 'TmuxCommandError';
+  }
+}
+
+export interface TmuxRunOptions {
+  timeoutMs?: number;
+}
+
+export class TmuxDriver {
+  private tail: Promise<unknown> = Promise.resolve();
+  private queued = 0;
+
+  constructor(
+    private bin = 'tmux',
+    private defaultTimeoutMs = DEFAULT_TMUX_TIMEOUT_MS,
+  ) {}
+
+  /** Queue a tmux command; resolves with trimmed stdout. */
+  run(args: string[], opts: TmuxRunOptions = {}): Promise<string> {
+    this.queued++;
+    const result = this.tail.then(() => this.exec(args, opts.timeoutMs ?? this.defaultTimeoutMs));
+    // Keep the queue moving whether this command succeeds or fails
+    this.tail = result.catch(() => undefined).finally(() => { this.queued--; });
+    return result;
+  }
+
+  /** Commands waiting or running. */
+  get pending(): number {
+    return this.queued;
+  }
+
+  private exec(args: string[], timeoutMs: number): Promise<string> {
+    return new Promise((resolve, reject) => {
+      execFile(this.bin, args, { encoding: 'utf-8', timeout: timeoutMs }, (err, stdout, stderr) => {
+        if (!err) {
+          resolve(stdout.trim());
+          return;
+        }
+        const e = err as NodeJS.ErrnoException & { killed?: boolean; code?: number | string };
+        const cmd = `tmux ${args[0] ?? ''}`.trim();
+        if (e.killed) {
+          reject(new TmuxCommandError(`${cmd} timed out after ${timeoutMs}ms`, 'timeout', args, null, stderr));
+        } else if (e.code === 'ENOENT') {
+          reject(new TmuxCommandError(`${this.bin} not found`, 'not_found', args, null, stderr));
+        } else if (typeof e.code === 'number') {
+          const detail = stderr.trim() || `exit code ${e.code}`;
+          reject(new TmuxCommandError(`${cmd} failed: ${detail}`, 'exit', args, e.code, stderr));
+        } else {
+          reject(new TmuxCommandError(`${cmd} failed: ${e.message}`, 'spawn', args, null, stderr));
+        }
+      });
+    });
+  }
+}
@@ -1,21 +1,50 @@
 import { execFileSync } from 'child_process';
 import { randomBytes } from 'crypto';
-import { existsSync, statSync, mkdirSync, writeFileSync, readFileSync, unlinkSync, openSync, closeSync, readSync } from 'fs';
+import { existsSync, statSync, mkdirSync, readFileSync, writeFileSync, unlinkSync, openSync, closeSync, readSync, watch, type FSWatcher } from 'fs';
 import { join } from 'path';
 import { homedir } from 'os';
 import { EventEmitter } from 'events';
-import type { ISessionManager, SessionInfo, DetailedState, SpawnOptions, TranscriptEntry } from './types.js';
+import { StringDecoder } from 'string_decoder';
+import type { ISessionManager, SessionInfo, SessionMute, SessionTask, SpawnOptions, TranscriptEntry, SessionStore, ScreenSnapshot } from './types.js';
 import { StateDetector } from './state-detector.js';
+import { SessionWatchdog, ALERT_EVENTS } from './session-watchdog.js';
+import { Thresholds } from './thresholds.js';
+import { PatternPacks } from './pattern-packs.js';
+import { TerminalScreen, DEFAULT_COLS, DEFAULT_ROWS } from './terminal-screen.js';
+import { FileSessionStore } from './session-store.js';
+import { TmuxDriver, TmuxCommandError } from './tmux-driver.js';
+import { ScrollbackBuffer, type ScrollbackSlice } from './scrollback.js';
 import { stripAnsi } from './utils.js';
-import { appendTranscriptEntry } from './transcript.js';
-import { SENSITIVE_ENV_KEYS, MAX_SCROLLBACK_BYTES, MAX_SESSIONS, MAX_TRANSCRIPT, DEFAULT_SKIP_PERMISSIONS, isAllowedArg, sanitizeColsRows } from './shared.js';
+import { appendTranscriptEntry, loadTranscript } from './transcript.js';
+import { AutoRestarter, normalizeRestartPolicy } from './restart-policy.js';
+import { TaskQueue, interruptRunningTask } from './task-queue.js';
+import { SENSITIVE_ENV_KEYS, MAX_SESSIONS, MAX_TRANSCRIPT, DEFAULT_SKIP_PERMISSIONS, expiredHistory, isAllowedArg, resumeArgs, sanitizeColsRows, withConversationId } from './shared.js';
 
 const SESSION_PREFIX = 'bb-';
 const PIPE_DIR = join(homedir(), '.bullybuddy', 'pipes');
-const SESSION_META_DIR = join(homedir(), '.bullybuddy', 'sessions');
 
-function tmuxExec(args: string[]): string {
-  return execFileSync('tmux', args, { encoding: 'utf-8', timeout: 5000 }).trim();
+function shQuote(s: string): string {
+  return `'${s.replace(/'/g, "'\\''")}'`;
+}
+
+// ── Exit status ─────────────────────────────────────────────────────────────
+// claude runs under `sh -c '<claude ...>; echo $? > <id>.exit'`, so when the
+// tmux session disappears the status file tells a natural exit (0), a failure
+// or crash (non-zero; 128+n for signal n, as in the shell) apart from a session
+// killed from outside, which leaves no file (exitCode null).
+
+function exitStatusPath(id: string): string {
+  return join(PIPE_DIR, `${id}.exit`);
+}
+
+/** Read a session's exit status file; null if missing, empty or unreadable. */
+function readExitStatus(id: string): number | null {
+  try {
+    const n = parseInt(readFileSync(exitStatusPath(id), 'utf-8').trim(), 10);
+    return Number.isInteger(n) ? n : null;
+  } catch {
+    return null; // no status written
+  }
 }
 
 /** Build env-unsetting args for tmux new-session (strips sensitive vars) */
@@ -27,37 +56,63 @@ function makeEnvArgs(): string[] {
   return setEnv;
 }
 
-// ── Exit monitoring ─────────────────────────────────────────────────────────
-// tmux doesn't push exit events. We poll `tmux list-sessions` to detect exits.
-const EXIT_POLL_MS = 2000;
+// ── Output & exit monitoring ────────────────────────────────────────────────
+// One fs.watch on PIPE_DIR drives everything: a change to <id>.pipe means new
+// output, a complete <id>.exit means claude exited. The timers below are only a
+// safety net for missed events (and for sessions killed outside BullyBuddy,
+// which never write a status file), one for all sessions. Without fs.watch we
+// fall back to polling, spaced out as sessions are added so the pipe checks
+// stay at MAX_PIPE_CHECKS_PER_SEC however many sessions are running.
+const PIPE_POLL_MS = 50;           // pipe polling when fs.watch is unavailable, at most this often
+const MAX_PIPE_CHECKS_PER_SEC = 200;
+const PIPE_FALLBACK_POLL_MS = 1000; // pipe re-check while fs.watch is active
+const EXIT_POLL_MS = 2000;          // `tmux list-sessions` when fs.watch is unavailable
+const EXIT_FALLBACK_POLL_MS = 10_000;
 
 interface ManagedSession {
   info: SessionInfo;
-  scrollback: string[];
-  scrollbackBytes: number;
+  scrollback: ScrollbackBuffer; // the pipe file doubles as its spool
   transcript: TranscriptEntry[];
-  assistantOutputStart: number;
-  pipeCleanup: (() => void) | null;
+  assistantOutputOffset: number;
+  /** Reads new output from the pipe file; null while the session isn't running */
+  readPipe: (() => void) | null;
   pipePath: string;
 }
 
 export class TmuxSessionManager extends EventEmitter implements ISessionManager {
   private sessions = new Map<string, ManagedSession>();
   private stateDetector: StateDetector;
+  private watchdog: SessionWatchdog;
   private exitPollTimer: ReturnType<typeof setInterval> | null = null;
+  private pipePollTimer: ReturnType<typeof setTimeout> | null = null;
+  private pipeWatcher: FSWatcher | null = null;
   private nameCounter = 0;
-
-  constructor() {
+  /** Ids of sessions whose spawn is still waiting on tmux (count toward MAX_SESSIONS) */
+  private reserved = new Set<string>();
+  private inputSeq = 0;
+  private polling = false;
+  private restarter = new AutoRestarter((id) => this.autoRestart(id));
+  private tasks = new TaskQueue((id, data) => this.write(id, data), (info) => this.tasksChanged(info));
+
+  constructor(
+    private store: SessionStore = new FileSessionStore(),
+    private tmux: TmuxDriver = new TmuxDriver(),
+    thresholds = new Thresholds(),
+    private patterns = new PatternPacks(),
+  ) {
     super();
     this.stateDetector = new StateDetector((sessionId, state, prev) => {
       const s = this.sessions.get(sessionId);
       if (s) {
         s.info.detailedState = state;
+        const pending = this.stateDetector.getPendingPermission(sessionId);
+        const permissionChanged = pending !== (s.info.pendingPermission ?? null);
+        s.info.pendingPermission = pending;
         if (state === 'compacting') {
           s.info.compactionCount++;
         }
         if (state === 'idle' && prev === 'working') {
-          const output = s.scrollback.slice(s.assistantOutputStart).join('');
+          const output = s.scrollback.read(s.assistantOutputOffset).data;
           const content = stripAnsi(output).trim();
           if (content) {
             const entry: TranscriptEntry = {
@@ -73,17 +128,90 @@ export class TmuxSessionManager extends EventEmitter implements ISessionManager
           }
         }
         if (state === 'working') {
-          s.assistantOutputStart = s.scrollback.length;
+          s.assistantOutputOffset = s.scrollback.end;
         }
+        this.persist(s);
         this.emit('stateChange', sessionId, state, prev);
+        if (permissionChanged) this.emit('permission', sessionId, pending);
+        this.tasks.onStateChange(s.info, state, prev);
+        this.watchdog.onStateChange(s.info, state);
       }
+    }, (sessionId, pending) => {
+      const s = this.sessions.get(sessionId);
+      if (!s) return;
+      s.info.pendingPermission = pending;
+      this.persist(s);
+      this.emit('permission', sessionId, pending);
+    }, {
+      idleTimeout: (sessionId) => thresholds.forGroup(this.sessions.get(sessionId)?.info.group ?? '').idleTimeoutMs,
+      patterns: (sessionId) => this.patterns.forSession(this.sessions.get(sessionId)?.info.patterns),
+      size: (sessionId) => {
+        const info = this.sessions.get(sessionId)?.info;
+        return { cols: info?.cols ?? DEFAULT_COLS, rows: info?.rows ?? DEFAULT_ROWS };
+      },
     });
+    this.watchdog = new SessionWatchdog(thresholds, (alert) => this.emit(ALERT_EVENTS[alert.kind], alert.sessionId, alert));
 
     mkdirSync(PIPE_DIR, { recursive: true, mode: 0o700 });
-    mkdirSync(SESSION_META_DIR, { recursive: true, mode: 0o700 });
 
-    // Start exit polling
-    this.exitPollTimer = setInterval(() => this.pollExits(), EXIT_POLL_MS);
+    try {
+      this.pipeWatcher = watch(PIPE_DIR, (_event, filename) => {
+        if (filename) this.onPipeDirEvent(filename.toString());
+      });
+      this.pipeWatcher.on('error', (err) => {
+        console.warn(`[bb] pipe watcher failed, falling back to polling: ${err.message}`);
+        this.stopWatcher();
+      });
+    } catch {
+      this.pipeWatcher = null; // e.g. inotify limit reached
+    }
+
+    // Start pipe and exit polling
+    this.schedulePipePoll();
+    this.exitPollTimer = setInterval(() => this.pollExits(), this.pipeWatcher ? EXIT_FALLBACK_POLL_MS : EXIT_POLL_MS);
+  }
+
+  /** Read every running session's pipe after a delay that grows with their number when polling. */
+  private schedulePipePoll(): void {
+    let reading = 0;
+    for (const s of this.sessions.values()) if (s.readPipe) reading++;
+    const delay = this.pipeWatcher
+      ? PIPE_FALLBACK_POLL_MS
+      : Math.max(PIPE_POLL_MS, Math.ceil((reading * 1000) / MAX_PIPE_CHECKS_PER_SEC));
+    this.pipePollTimer = setTimeout(() => {
+      for (const s of this.sessions.values()) s.readPipe?.();
+      this.schedulePipePoll();
+    }, delay);
+  }
+
+  private onPipeDirEvent(filename: string): void {
+    const dot = filename.lastIndexOf('.');
+    if (dot <= 0) return;
+    const s = this.sessions.get(filename.slice(0, dot));
+    if (!s || s.info.status !== 'running') return;
+    const ext = filename.slice(dot);
+    if (ext === '.pipe') {
+      s.readPipe?.();
+    } else if (ext === '.exit') {
+      // Fires on create and on write — act once the status is complete
+      const code = readExitStatus(s.info.id);
+      if (code !== null) this.markExited(s, code);
+    }
+  }
+
+  /** Switch every session from watch-driven to fast polling (watcher died). */
+  private stopWatcher(): void {
+    if (!this.pipeWatcher) return;
+    try { this.pipeWatcher.close(); } catch { /* ignore */ }
+    this.pipeWatcher = null;
+    if (this.pipePollTimer) {
+      clearTimeout(this.pipePollTimer);
+      this.schedulePipePoll();
+    }
+    if (this.exitPollTimer) {
+      clearInterval(this.exitPollTimer);
+      this.exitPollTimer = setInterval(() => this.pollExits(), EXIT_POLL_MS);
+    }
   }
 
   private tmuxSessionName(id: string): string {
@@ -94,7 +222,7 @@ export class TmuxSessionManager extends EventEmitter implements ISessionManager
     let id: string;
     do {
       id = randomBytes(4).toString('hex');
-    } while (this.sessions.has(id));
+    } while (this.sessions.has(id) || this.reserved.has(id));
     return id;
   }
 
@@ -103,13 +231,11 @@ export class TmuxSessionManager extends EventEmitter implements ISessionManager
     return this.nameCounter === 1 ? 'Claude' : `Claude ${this.nameCounter}`;
   }
 
-  spawn(opts: SpawnOptions = {}): SessionInfo {
-    if (this.sessions.size >= MAX_SESSIONS) {
+  async spawn(opts: SpawnOptions = {}): Promise<SessionInfo> {
+    if (this.runningCount() + this.reserved.size >= MAX_SESSIONS) {
       throw new Error(`Session limit reached (max ${MAX_SESSIONS})`);
     }
 
-    const id = this.genId();
-    const tmuxName = this.tmuxSessionName(id);
     const group = String(opts.group ?? 'default').slice(0, 200);
     const name = String(opts.name ?? this.autoName(group)).slice(0, 200);
     const cwd = opts.cwd ?? process.cwd();
@@ -136,34 +262,25 @@ export class TmuxSessionManager extends EventEmitter implements ISessionManager
       if (idx !== -1) args.splice(idx, 1);
     }
 
-    // Build the claude command to run inside tmux
-    const claudeCmd = ['claude', ...args].map(a => `'${a.replace(/'/g, "'\\''")}'`).join(' ');
+    // Pin claude's conversation id so a restart resumes this session's own conversation
+    const { args: claudeArgs, conversationId } = withConversationId(args);
 
-    // Create tmux session (strip sensitive env vars like BB_TOKEN)
-    tmuxExec([
-      'new-session', '-d',
-      '-s', tmuxName,
-      '-x', String(cols),
-      '-y', String(rows),
-      '-c', cwd,
-      ...makeEnvArgs(),
-      claudeCmd,
-    ]);
+    // Validate everything before claude starts, so a bad option leaves nothing behind
+    const restartPolicy = normalizeRestartPolicy(opts.restartPolicy);
+    const patterns = typeof opts.patterns === 'string' && opts.patterns ? opts.patterns : null;
+    if (patterns) this.patterns.resolve(patterns); // throws for a pack that isn't loaded
 
-    // Set up pipe-pane for output streaming
+    const id = this.genId();
     const pipePath = join(PIPE_DIR, `${id}.pipe`);
-    // Create regular file for output (FIFO has blocking issues; use file + watch)
-    try { unlinkSync(pipePath); } catch { /* ignore */ }
-    closeSync(openSync(pipePath, 'w', 0o600)); // create empty file, owner-only
-
-    tmuxExec(['pipe-pane', '-t', tmuxName, '-o', `cat >> '${pipePath}'`]);
 
-    // Get the PID of the process inside tmux
-    let pid: number | null = null;
+    // Hold the id and its slot while the tmux commands are in flight
+    this.reserved.add(id);
+    let pid: number | null;
     try {
-      const pidStr = tmuxExec(['list-panes', '-t', tmuxName, '-F', '#{pane_pid}']);
-      pid = parseInt(pidStr, 10) || null;
-    } catch { /* ignore */ }
+      pid = await this.launch(id, claudeArgs, cwd, cols, rows);
+    } finally {
+      this.reserved.delete(id);
+    }
 
     const now = new Date().toISOString();
     const task = typeof opts.task === 'string' && opts.task.trim() ? opts.task.trim() : null;
@@ -186,48 +303,131 @@ export class TmuxSessionManager extends EventEmitter implements ISessionManager
       totalWorkingMs: 0,
       totalIdleMs: 0,
       totalPermissionWaitMs: 0,
+      args: claudeArgs,
+      restartPolicy,
+      restartCount: 0,
+      tasks: [],
+      patterns,
+      conversationId,
     };
 
     const managed: ManagedSession = {
       info,
-      scrollback: [],
-      scrollbackBytes: 0,
+      scrollback: new ScrollbackBuffer({ spoolPath: pipePath }),
       transcript: [],
-      assistantOutputStart: 0,
-      pipeCleanup: null,
+      assistantOutputOffset: 0,
+      readPipe: null,
       pipePath,
     };
 
     this.sessions.set(id, managed);
-    this.persistMeta(id, info);
+    this.persist(managed);
     this.startPipeReader(id, managed);
     this.emit('created', info);
 
-    // Auto-send task once Claude reaches idle (with cleanup on exit)
-    if (task) {
-      const handler = (sid: string, state: DetailedState) => {
-        if (sid === id && state === 'idle') {
-          this.write(id, task + '\r');
-          cleanup();
-        }
-      };
-      const exitHandler = (sid: string) => {
-        if (sid === id) cleanup();
-      };
-      const cleanup = () => {
-        this.removeListener('stateChange', handler);
-        this.removeListener('exit', exitHandler);
-      };
-      this.on('stateChange', handler);
-      this.on('exit', exitHandler);
-    }
+    // The task is the first queued task, sent once Claude reaches the idle prompt
+    if (task) this.tasks.enqueue(info, task);
 
     return info;
   }
 
-  /** Start reading output from the pipe file via polling */
-  private startPipeReader(id: string, managed: ManagedSession): void {
-    let filePos = 0;
+  async restart(id: string): Promise<SessionInfo | undefined> {
+    const s = this.sessions.get(id);
+    if (!s) return undefined;
+    this.restarter.cancel(id);
+    if (s.info.status === 'running' || this.reserved.has(id)) throw new Error('Session is still running');
+    if (!existsSync(s.info.cwd) || !statSync(s.info.cwd).isDirectory()) {
+      throw new Error(`Invalid working directory: ${s.info.cwd}`);
+    }
+
+    const args = resumeArgs(s.info.args ?? [], s.info.conversationId ?? null);
+    // The pipe file is recreated, so older output is only served from memory
+    s.scrollback.detachSpool();
+    this.reserved.add(id);
+    try {
+      s.info.pid = await this.launch(id, args, s.info.cwd, s.info.cols, s.info.rows);
+    } finally {
+      this.reserved.delete(id);
+    }
+
+    s.info.args = args;
+    s.info.status = 'running';
+    s.info.detailedState = 'starting';
+    s.info.exitCode = null;
+    s.info.lastActivityAt = new Date().toISOString();
+    s.assistantOutputOffset = s.scrollback.end;
+    // Keep accumulating metrics on top of the previous run's
+    this.stateDetector.restore(id, 'starting', {
+      totalWorkingMs: s.info.totalWorkingMs,
+      totalIdleMs: s.info.totalIdleMs,
+      totalPermissionWaitMs: s.info.totalPermissionWaitMs,
+    });
+    this.persist(s);
+    this.startPipeReader(id, s);
+    this.emit('restarted', s.info);
+    return s.info;
+  }
+
+  /**
+   * Create the tmux session running claude, with a fresh pipe file for its
+   * output. Returns the pane's PID (null if tmux won't say).
+   */
+  private async launch(id: string, args: string[], cwd: string, cols: number, rows: number): Promise<number | null> {
+    const tmuxName = this.tmuxSessionName(id);
+    // Build the claude command to run inside tmux, recording its exit status.
+    // Passed as separate argv so tmux runs sh directly, whatever the user's shell.
+    const claudeCmd = ['claude', ...args].map(shQuote).join(' ');
+    const exitPath = exitStatusPath(id);
+    try { unlinkSync(exitPath); } catch { /* ignore */ }
+
+    // Create tmux session (strip sensitive env vars like BB_TOKEN)
+    await this.tmux.run([
+      'new-session', '-d',
+      '-s', tmuxName,
+      '-x', String(cols),
+      '-y', String(rows),
+      '-c', cwd,
+      ...makeEnvArgs(),
+      'sh', '-c', `${claudeCmd}; echo $? > ${shQuote(exitPath)}`,
+    ]);
+
+    // Set up pipe-pane for output streaming
+    const pipePath = join(PIPE_DIR, `${id}.pipe`);
+    try {
+      // Create regular file for output (FIFO has blocking issues; use file + watch)
+      try { unlinkSync(pipePath); } catch { /* ignore */ }
+      closeSync(openSync(pipePath, 'w', 0o600)); // create empty file, owner-only
+
+      await this.tmux.run(['pipe-pane', '-t', tmuxName, '-o', `cat >> '${pipePath}'`]);
+    } catch (err) {
+      // Without its output the session is unusable: don't leave claude running unseen
+      await this.tmux.run(['kill-session', '-t', tmuxName]).catch(() => {});
+      try { unlinkSync(pipePath); } catch { /* ignore */ }
+      throw err;
+    }
+
+    // Get the PID of the process inside tmux
+    try {
+      const pidStr = await this.tmux.run(['list-panes', '-t', tmuxName, '-F', '#{pane_pid}']);
+      return parseInt(pidStr, 10) || null;
+    } catch {
+      return null;
+    }
+  }
+
+  /** Restart triggered by the session's restartPolicy. */
+  private async autoRestart(id: string): Promise<SessionInfo | undefined> {
+    const s = this.sessions.get(id);
+    if (!s || s.info.status === 'running') return undefined;
+    s.info.restartCount = (s.info.restartCount ?? 0) + 1;
+    return this.restart(id);
+  }
+
+  /** Start reading output from the pipe file, from `startPos` on */
+  private startPipeReader(id: string, managed: ManagedSession, startPos = 0): void {
+    let filePos = startPos;
+    // Hold back partial UTF-8 sequences so scrollback offsets stay equal to file positions
+    const decoder = new StringDecoder('utf-8');
 
     const readNewData = () => {
       let fd: number | null = null;
@@ -239,8 +439,8 @@ export class TmuxSessionManager extends EventEmitter implements ISessionManager
         const bytesRead = readSync(fd, buf, 0, buf.length, filePos);
         filePos += bytesRead;
         if (bytesRead > 0) {
-          const data = buf.slice(0, bytesRead).toString('utf-8');
-          this.handleOutput(id, managed, data);
+          const data = decoder.write(buf.subarray(0, bytesRead));
+          if (data) this.handleOutput(id, managed, data);
         }
       } catch {
         // File may be gone if session was killed
@@ -249,101 +449,153 @@ export class TmuxSessionManager extends EventEmitter implements ISessionManager
       }
     };
 
-    // Poll file for new data (50ms — low latency, low overhead)
-    const watchInterval = setInterval(readNewData, 50);
-    managed.pipeCleanup = () => clearInterval(watchInterval);
+    // fs.watch calls readPipe on every change; the shared pipe poll only catches missed events
+    managed.readPipe = readNewData;
   }
 
   private handleOutput(id: string, managed: ManagedSession, data: string): void {
-    managed.scrollback.push(data);
-    managed.scrollbackBytes += Buffer.byteLength(data);
+    const offset = managed.scrollback.append(data);
     managed.info.lastActivityAt = new Date().toISOString();
 
-    while (managed.scrollbackBytes > MAX_SCROLLBACK_BYTES && managed.scrollback.length > 1) {
-      const removed = managed.scrollback.shift()!;
-      managed.scrollbackBytes -= Buffer.byteLength(removed);
-      if (managed.assistantOutputStart > 0) managed.assistantOutputStart--;
-    }
-
     this.stateDetector.feed(id, data);
-    this.emit('output', id, data);
+    this.watchdog.onOutput(managed.info, data);
+    this.emit('output', id, data, offset);
   }
 
   /** Poll tmux for exited sessions */
-  private pollExits(): void {
+  private async pollExits(): Promise<void> {
+    // A slow tmux can outlast the poll interval — don't pile up list-sessions calls
+    if (this.polling) return;
+    this.polling = true;
+    // Only judge sessions that existed before asking tmux
+    const running = [...this.sessions.values()].filter((s) => s.info.status === 'running');
     let liveSessions: Set<string>;
     try {
-      const output = tmuxExec(['list-sessions', '-F', '#{session_name}']);
+      const output = await this.tmux.run(['list-sessions', '-F', '#{session_name}']);
       liveSessions = new Set(output.split('\n').filter(Boolean));
-    } catch (err: any) {
+    } catch (err) {
       // tmux exit code 1 = no sessions / server not running (normal)
-      // Other errors (timeout, ENOENT) are unexpected — log them
-      if (err?.status !== 1) {
+      // Other errors (timeout, ENOENT) are unexpected — log them and leave
+      // sessions alone until a poll gets a real answer
+      if (!(err instanceof TmuxCommandError && err.kind === 'exit' && err.exitCode === 1)) {
         console.warn(`[bb] tmux list-sessions failed: ${err instanceof Error ? err.message : err}`);
+        return;
       }
       liveSessions = new Set();
+    } finally {
+      this.polling = false;
     }
 
-    for (const [id, managed] of this.sessions) {
+    for (const managed of running) {
       if (managed.info.status !== 'running') continue;
-      const tmuxName = this.tmuxSessionName(id);
-      if (!liveSessions.has(tmuxName)) {
-        // Session exited
-        managed.info.status = 'exited';
-        managed.info.exitCode = null; // tmux doesn't report exit codes via list-sessions
-        managed.info.pid = null;
-
-        // Clean up pipe reader
-        if (managed.pipeCleanup) {
-          managed.pipeCleanup();
-          managed.pipeCleanup = null;
-        }
-        // Clean up pipe file
-        try { unlinkSync(managed.pipePath); } catch { /* ignore */ }
-
-        this.stateDetector.remove(id);
-        this.emit('exit', id, managed.info.exitCode);
+      if (!liveSessions.has(this.tmuxSessionName(managed.info.id))) {
+        this.markExited(managed, readExitStatus(managed.info.id));
       }
     }
   }
 
-  /** Recover existing tmux sessions on server restart */
+  private markExited(managed: ManagedSession, exitCode: number | null): void {
+    const id = managed.info.id;
+    // Pick up the last output, then capture final metrics before the detector forgets it
+    managed.readPipe?.();
+    this.syncMetrics(managed);
+    managed.info.status = 'exited';
+    managed.info.exitCode = exitCode;
+    managed.info.pid = null;
+    managed.info.pendingPermission = null;
+
+    // Stop reading the pipe; its file stays as the spool until the session is
+    // killed or pruned from history, so its output survives a server restart
+    managed.readPipe = null;
+    try { unlinkSync(exitStatusPath(id)); } catch { /* ignore */ }
+
+    this.stateDetector.remove(id);
+
+    this.watchdog.remove(id);
+    this.store.save(managed.info);
+    this.emit('exit', id, exitCode);
+    this.tasks.onExit(managed.info);
+    this.restarter.onExit(managed.info, exitCode);
+    this.pruneHistory();
+  }
+
+  /** Forget the exited sessions past MAX_EXITED_SESSIONS, longest idle first. */
+  private pruneHistory(): void {
+    for (const id of expiredHistory(Array.from(this.sessions.values(), (s) => s.info))) void this.kill(id);
+  }
+
+  private runningCount(): number {
+    let n = 0;
+    for (const s of this.sessions.values()) if (s.info.status === 'running') n++;
+    return n;
+  }
+
+  /**
+   * Recover existing tmux sessions on server restart. Stored sessions whose tmux
+   * session is gone are restored as exited history.
+   */
   async recover(): Promise<number> {
-    let output: string;
+    const stored = new Map(this.store.load().map((info) => [info.id, info]));
+
+    let liveNames: string[] = [];
     try {
-      output = tmuxExec(['list-sessions', '-F', '#{session_name}']);
+      liveNames = (await this.tmux.run(['list-sessions', '-F', '#{session_name}'])).split('\n');
     } catch {
-      return 0; // No tmux server or no sessions
+      // No tmux server or no sessions — everything stored is history
+    }
+    const tmuxSessions = liveNames.filter(s => s.startsWith(SESSION_PREFIX));
+    const liveIds = new Set(tmuxSessions.map((name) => name.slice(SESSION_PREFIX.length)));
+
+    for (const [id, info] of stored) {
+      if (liveIds.has(id) || this.sessions.has(id)) continue;
+      if (info.status === 'running') {
+        // Exited while the server was down — its status file is still there
+        info.status = 'exited';
+        info.exitCode = readExitStatus(id);
+        info.pid = null;
+        info.pendingPermission = null;
+        interruptRunningTask(info);
+        this.store.save(info);
+        try { unlinkSync(exitStatusPath(id)); } catch { /* ignore */ }
+      }
+      // Exited sessions keep their pipe file until they are killed or pruned
+      const pipePath = join(PIPE_DIR, `${id}.pipe`);
+      const scrollback = ScrollbackBuffer.fromSpool(pipePath, true);
+      this.sessions.set(id, {
+        info,
+        scrollback,
+        transcript: loadTranscript(id, MAX_TRANSCRIPT),
+        assistantOutputOffset: scrollback.end,
+        readPipe: null,
+        pipePath,
+      });
     }
 
-    const tmuxSessions = output.split('\n').filter(s => s.startsWith(SESSION_PREFIX));
     let recovered = 0;
 
     for (const tmuxName of tmuxSessions) {
       const id = tmuxName.slice(SESSION_PREFIX.length);
       if (this.sessions.has(id)) continue;
 
-      // Try to load persisted metadata
+      // Use persisted metadata when available
       let info: SessionInfo;
-      const metaPath = join(SESSION_META_DIR, `${id}.json`);
-      if (existsSync(metaPath)) {
-        try {
-          info = JSON.parse(readFileSync(metaPath, 'utf-8'));
-          info.status = 'running';
-          info.detailedState = 'idle'; // assume idle until state detector catches up
-        } catch {
-          continue;
-        }
+      const meta = stored.get(id);
+      if (meta) {
+        info = meta;
+        info.status = 'running';
+        info.detailedState = 'idle'; // assume idle until state detector catches up
+        info.pendingPermission = null;
+        info.exitCode = null;
       } else {
         // Minimal info for sessions without metadata
         let cwd = process.cwd();
         try {
-          cwd = tmuxExec(['display-message', '-t', tmuxName, '-p', '#{pane_current_path}']);
+          cwd = await this.tmux.run(['display-message', '-t', tmuxName, '-p', '#{pane_current_path}']);
         } catch { /* ignore */ }
 
         let pid: number | null = null;
         try {
-          pid = parseInt(tmuxExec(['list-panes', '-t', tmuxName, '-F', '#{pane_pid}']), 10) || null;
+          pid = parseInt(await this.tmux.run(['list-panes', '-t', tmuxName, '-F', '#{pane_pid}']), 10) || null;
         } catch { /* ignore */ }
 
         const now = new Date().toISOString();
@@ -366,37 +618,60 @@ export class TmuxSessionManager extends EventEmitter implements ISessionManager
           totalWorkingMs: 0,
           totalIdleMs: 0,
           totalPermissionWaitMs: 0,
+          restartCount: 0,
         };
       }
 
       const pipePath = join(PIPE_DIR, `${id}.pipe`);
-      try { unlinkSync(pipePath); } catch { /* ignore */ }
-      closeSync(openSync(pipePath, 'w', 0o600));
 
-      // Re-attach pipe-pane
+      // The `cat >> pipe` started by the previous server keeps running inside
+      // tmux, so if it's still attached the pipe file already holds the full
+      // output history. Keep both — `pipe-pane -o` would toggle it off.
+      let piped = false;
       try {
-        tmuxExec(['pipe-pane', '-t', tmuxName, '-o', `cat >> '${pipePath}'`]);
-      } catch {
-        try { unlinkSync(pipePath); } catch { /* ignore */ }
-        continue; // Skip if we can't attach
+        piped = (await this.tmux.run(['display-message', '-t', tmuxName, '-p', '#{pane_pipe}'])) === '1';
+      } catch { /* ignore */ }
+
+      if (!piped || !existsSync(pipePath)) {
+        // Start a fresh pipe file seeded with the pane's full history, so
+        // scrollback offsets still match file positions
+        let history = '';
+        try {
+          history = (await this.tmux.run(['capture-pane', '-t', tmuxName, '-p', '-e', '-S', '-'])).replace(/\r?\n/g, '\r\n');
+        } catch { /* ignore */ }
+        try {
+          if (piped) await this.tmux.run(['pipe-pane', '-t', tmuxName]); // close the pipe to the missing file
+          writeFileSync(pipePath, history, { mode: 0o600 });
+          await this.tmux.run(['pipe-pane', '-t', tmuxName, '-o', `cat >> '${pipePath}'`]);
+        } catch {
+          try { unlinkSync(pipePath); } catch { /* ignore */ }
+          continue; // Skip if we can't attach
+        }
       }
 
+      const scrollback = ScrollbackBuffer.fromSpool(pipePath, false);
       const managed: ManagedSession = {
         info,
-        scrollback: [],
-        scrollbackBytes: 0,
-        transcript: [],
-        assistantOutputStart: 0,
-        pipeCleanup: null,
+        scrollback,
+        transcript: loadTranscript(id, MAX_TRANSCRIPT),
+        assistantOutputOffset: scrollback.end,
+        readPipe: null,
         pipePath,
       };
 
       this.sessions.set(id, managed);
-      this.startPipeReader(id, managed);
+      // Carry accumulated metrics over instead of restarting them from zero
+      this.stateDetector.restore(id, info.detailedState, {
+        totalWorkingMs: info.totalWorkingMs,
+        totalIdleMs: info.totalIdleMs,
+        totalPermissionWaitMs: info.totalPermissionWaitMs,
+      });
+      this.store.save(info);
+      this.startPipeReader(id, managed, scrollback.end);
 
       // Bootstrap state detector with current pane content
       try {
-        const paneContent = tmuxExec(['capture-pane', '-t', tmuxName, '-p', '-S', '-50']);
+        const paneContent = await this.tmux.run(['capture-pane', '-t', tmuxName, '-p', '-S', '-50']);
         if (paneContent) {
           this.stateDetector.feed(id, paneContent);
         }
@@ -406,13 +681,13 @@ export class TmuxSessionManager extends EventEmitter implements ISessionManager
       console.log(`[bb] recovered session ${id} (${info.name})`);
     }
 
+    this.pruneHistory();
     return recovered;
   }
 
-  private persistMeta(id: string, info: SessionInfo): void {
-    try {
-      writeFileSync(join(SESSION_META_DIR, `${id}.json`), JSON.stringify(info), { mode: 0o600 });
-    } catch { /* ignore */ }
+  private persist(s: ManagedSession): void {
+    this.syncMetrics(s);
+    this.store.save(s.info);
   }
 
   setTask(id: string, task: string): boolean {
@@ -420,10 +695,49 @@ export class TmuxSessionManager extends EventEmitter implements ISessionManager
     if (!s) return false;
     s.info.task = task;
     s.info.taskStartedAt = new Date().toISOString();
-    this.persistMeta(id, s.info);
+    this.persist(s);
     return true;
   }
 
+  setMute(id: string, mute: SessionMute | null): boolean {
+    const s = this.sessions.get(id);
+    if (!s) return false;
+    s.info.mute = mute;
+    this.persist(s);
+    this.emit('mute', id, mute);
+    return true;
+  }
+
+  enqueueTask(id: string, text: string): SessionTask | undefined {
+    const s = this.sessions.get(id);
+    return s ? this.tasks.enqueue(s.info, text) : undefined;
+  }
+
+  listTasks(id: string): SessionTask[] | undefined {
+    const s = this.sessions.get(id);
+    return s ? s.info.tasks ?? [] : undefined;
+  }
+
+  reorderTasks(id: string, order: string[]): SessionTask[] | undefined {
+    const s = this.sessions.get(id);
+    if (!s) return undefined;
+    this.tasks.reorder(s.info, order);
+    return s.info.tasks ?? [];
+  }
+
+  cancelTask(id: string, taskId: string): SessionTask | undefined {
+    const s = this.sessions.get(id);
+    return s ? this.tasks.cancel(s.info, taskId) : undefined;
+  }
+
+  /** Persist and announce a session's task queue (ignored once the session is gone). */
+  private tasksChanged(info: SessionInfo): void {
+    const s = this.sessions.get(info.id);
+    if (s?.info !== info) return;
+    this.persist(s);
+    this.emit('tasks', info.id, info.tasks ?? []);
+  }
+
   getInfo(id: string): SessionInfo | undefined {
     const s = this.sessions.get(id);
     if (!s) return undefined;
@@ -432,6 +746,8 @@ export class TmuxSessionManager extends EventEmitter implements ISessionManager
   }
 
   private syncMetrics(s: ManagedSession): void {
+    // Exited sessions keep the final metrics captured at exit
+    if (s.info.status !== 'running') return;
     const m = this.stateDetector.getMetrics(s.info.id);
     s.info.totalWorkingMs = m.totalWorkingMs;
     s.info.totalIdleMs = m.totalIdleMs;
@@ -439,8 +755,17 @@ export class TmuxSessionManager extends EventEmitter implements ISessionManager
   }
 
   getScrollback(id: string): string[] {
-    const sb = this.sessions.get(id)?.scrollback;
-    return sb ? [...sb] : [];
+    return this.sessions.get(id)?.scrollback.toArray() ?? [];
+  }
+
+  readScrollback(id: string, from?: number, to?: number): ScrollbackSlice | undefined {
+    return this.sessions.get(id)?.scrollback.read(from, to);
+  }
+
+  getScreen(id: string): ScreenSnapshot | undefined {
+    const s = this.sessions.get(id);
+    if (!s || s.info.status !== 'running') return undefined;
+    return this.stateDetector.getScreen(id) ?? new TerminalScreen(s.info.cols, s.info.rows).snapshot();
   }
 
   getTranscript(id: string): TranscriptEntry[] {
@@ -465,17 +790,20 @@ export class TmuxSessionManager extends EventEmitter implements ISessionManager
     return map;
   }
 
-  write(id: string, data: string): boolean {
+  async write(id: string, data: string): Promise<boolean> {
     const s = this.sessions.get(id);
     if (!s || s.info.status !== 'running') return false;
 
     const tmuxName = this.tmuxSessionName(id);
-    const tmpBuf = join(PIPE_DIR, `input-${id}.tmp`);
+    // Writes can overlap while queued, so each gets its own file and buffer
+    const seq = ++this.inputSeq;
+    const tmpBuf = join(PIPE_DIR, `input-${id}-${seq}.tmp`);
+    const bufName = `bb-input-${id}-${seq}`;
     try {
       // Use load-buffer + paste-buffer for binary-safe input
       writeFileSync(tmpBuf, data, { mode: 0o600 });
-      tmuxExec(['load-buffer', '-b', `bb-input-${id}`, tmpBuf]);
-      tmuxExec(['paste-buffer', '-t', tmuxName, '-b', `bb-input-${id}`, '-d']);
+      await this.tmux.run(['load-buffer', '-b', bufName, tmpBuf]);
+      await this.tmux.run(['paste-buffer', '-t', tmuxName, '-b', bufName, '-d']);
     } catch {
       return false;
     } finally {
@@ -495,66 +823,109 @@ export class TmuxSessionManager extends EventEmitter implements ISessionManager
         s.transcript.splice(0, s.transcript.length - MAX_TRANSCRIPT);
       }
       appendTranscriptEntry(id, entry);
-      s.assistantOutputStart = s.scrollback.length;
+      s.assistantOutputOffset = s.scrollback.end;
     }
     return true;
   }
 
-  resize(id: string, cols: number, rows: number): boolean {
+  async resize(id: string, cols: number, rows: number): Promise<boolean> {
     const s = this.sessions.get(id);
     if (!s || s.info.status !== 'running') return false;
     const safeCols = sanitizeColsRows(cols, s.info.cols);
     const safeRows = sanitizeColsRows(rows, s.info.rows);
     try {
-      tmuxExec(['resize-window', '-t', this.tmuxSessionName(id), '-x', String(safeCols), '-y', String(safeRows)]);
+      await this.tmux.run(['resize-window', '-t', this.tmuxSessionName(id), '-x', String(safeCols), '-y', String(safeRows)]);
       s.info.cols = safeCols;
       s.info.rows = safeRows;
+      this.stateDetector.resize(id, safeCols, safeRows);
     } catch {
       return false;
     }
+    this.persist(s);
     return true;
   }
 
-  kill(id: string): boolean {
+  async kill(id: string): Promise<boolean> {
     const s = this.sessions.get(id);
     if (!s) return false;
+    this.restarter.cancel(id);
 
-    // If already exited (marked by pollExits), just clean up map
+    // If already exited (marked by pollExits), just clean up map and pipe file
     if (s.info.status === 'exited') {
       this.stateDetector.remove(id);
+      this.watchdog.remove(id);
       this.sessions.delete(id);
+      s.scrollback.detachSpool();
+      try { unlinkSync(s.pipePath); } catch { /* ignore */ }
+      this.store.remove(id);
       return true;
     }
 
+    // Forget the session before awaiting tmux, so exit polling and watch
+    // events can't report it exited while kill-session is in flight
+    this.sessions.delete(id);
+    this.stateDetector.remove(id);
+    this.watchdog.remove(id);
+    // Stop reading the pipe
+    s.readPipe = null;
+
     // Kill tmux session
     try {
-      tmuxExec(['kill-session', '-t', this.tmuxSessionName(id)]);
+      await this.tmux.run(['kill-session', '-t', this.tmuxSessionName(id)]);
     } catch { /* session may already be dead */ }
 
-    // Clean up pipe reader
-    if (s.pipeCleanup) {
-      s.pipeCleanup();
-      s.pipeCleanup = null;
-    }
     // Clean up pipe file and metadata
+    s.scrollback.detachSpool();
     try { unlinkSync(s.pipePath); } catch { /* ignore */ }
-    try { unlinkSync(join(SESSION_META_DIR, `${id}.json`)); } catch { /* ignore */ }
+    try { unlinkSync(exitStatusPath(id)); } catch { /* ignore */ }
+    this.store.remove(id);
 
-    this.stateDetector.remove(id);
-    this.sessions.delete(id);
     this.emit('exit', id, -1);
     return true;
   }
 
-  killAll(): void {
-    // Stop polling BEFORE killing sessions to avoid race
+  /** Stop the pipe watcher, pipe and exit polling and pending automatic restarts. */
+  private stopMonitoring(): void {
+    this.restarter.cancelAll();
+    if (this.pipePollTimer) {
+      clearTimeout(this.pipePollTimer);
+      this.pipePollTimer = null;
+    }
     if (this.exitPollTimer) {
       clearInterval(this.exitPollTimer);
       this.exitPollTimer = null;
     }
-    for (const [id] of this.sessions) {
-      this.kill(id);
+    if (this.pipeWatcher) {
+      try { this.pipeWatcher.close(); } catch { /* ignore */ }
+      this.pipeWatcher = null;
+    }
+  }
+
+  async killAll(): Promise<void> {
+    // Stop monitoring BEFORE killing sessions to avoid race
+    this.stopMonitoring();
+    await Promise.all([...this.sessions.keys()].map((id) => this.kill(id)));
+  }
+
+  async shutdown(): Promise<void> {
+    this.stopMonitoring();
+    const kills: Promise<unknown>[] = [];
+    for (const [id, s] of this.sessions) {
+      if (s.info.status !== 'running') continue;
+      kills.push(this.tmux.run(['kill-session', '-t', this.tmuxSessionName(id)])
+        .catch(() => { /* session may already be dead */ }));
+      s.readPipe = null;
+      try { unlinkSync(exitStatusPath(id)); } catch { /* ignore */ }
+      this.syncMetrics(s);
+      s.info.status = 'exited';
+      s.info.exitCode = -1;
+      s.info.pid = null;
+      s.info.pendingPermission = null;
+      this.stateDetector.remove(id);
+      this.watchdog.remove(id);
+      this.store.save(s.info);
     }
+    await Promise.all(kills);
   }
 
   count(): number {
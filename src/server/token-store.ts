@@ -0,0 +1,74 @@
+// Token store: persists named API tokens (hashes only) and the master token
+// across server restarts.
+//
+// FileTokenStore keeps them in ~/.bullybuddy/tokens.json and
+// ~/.bullybuddy/master-token (both mode 0600).
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+import type { StoredToken, TokenStore } from './types.js';
+
+export const TOKENS_FILE = join(homedir(), '.bullybuddy', 'tokens.json');
+export const MASTER_TOKEN_FILE = join(homedir(), '.bullybuddy', 'master-token');
+
+export class FileTokenStore implements TokenStore {
+  constructor(private file: string = TOKENS_FILE, private masterFile: string = MASTER_TOKEN_FILE) {
+    try { mkdirSync(dirname(file), { recursive: true, mode: 0o700 }); } catch { /* ignore */ }
+  }
+
+  load(): StoredToken[] {
+    try {
+      const tokens = JSON.parse(readFileSync(this.file, 'utf-8'));
+      return Array.isArray(tokens) ? tokens.filter((t) => t && typeof t.hash === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  save(tokens: StoredToken[]): void {
+    try {
+      writeFileSync(this.file, JSON.stringify(tokens, null, 2), { mode: 0o600 });
+    } catch (err) {
+      console.warn(`[bb] could not save tokens: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  loadMaster(): string | null {
+    try {
+      return readFileSync(this.masterFile, 'utf-8').trim() || null;
+    } catch {
+      return null;
+    }
+  }
+
+  saveMaster(token: string): void {
+    try {
+      writeFileSync(this.masterFile, `${token}\n`, { mode: 0o600 });
+    } catch (err) {
+      console.warn(`[bb] could not save master token: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+}
+
+/** Non-persistent store — for tests. */
+export class MemoryTokenStore implements TokenStore {
+  private raw = '[]';
+  private master: string | null = null;
+
+  load(): StoredToken[] {
+    return JSON.parse(this.raw) as StoredToken[];
+  }
+
+  save(tokens: StoredToken[]): void {
+    this.raw = JSON.stringify(tokens);
+  }
+
+  loadMaster(): string | null {
+    return this.master;
+  }
+
+  saveMaster(token: string): void {
+    this.master = token;
+  }
+}
@@ -1,4 +1,4 @@
-import { appendFileSync, mkdirSync } from 'fs';
+import { appendFileSync, mkdirSync, readFileSync } from 'fs';
 import type { TranscriptEntry } from './types.js';
 
 const TRANSCRIPT_DIR = process.env.BB_TRANSCRIPT_DIR ?? '';
@@ -12,3 +12,24 @@ export function appendTranscriptEntry(sessionId: string, entry: TranscriptEntry)
     // Silently ignore file write failures
   }
 }
+
+/** Load the persisted transcript for a session (newest `limit` entries), or [] if none. */
+export function loadTranscript(sessionId: string, limit: number): TranscriptEntry[] {
+  if (!TRANSCRIPT_DIR) return [];
+  let raw: string;
+  try {
+    raw = readFileSync(`${TRANSCRIPT_DIR}/${sessionId}.jsonl`, 'utf-8');
+  } catch {
+    return [];
+  }
+  const entries: TranscriptEntry[] = [];
+  for (const line of raw.split('\n')) {
+    if (!line) continue;
+    try {
+      entries.push(JSON.parse(line) as TranscriptEntry);
+    } catch {
+      // Skip a partially written last line
+    }
+  }
+  return entries.slice(-limit);
+}
@@ -0,0 +1,204 @@
+// Tunnels: expose the server publicly through an external tunnel program.
+//
+// BB_TUNNEL_PROVIDER picks the provider (default cloudflared):
+//
+//   cloudflared  cloudflared tunnel --url <origin>      → https://*.trycloudflare.com
+//   ngrok        ngrok http <origin>                     → https://*.ngrok*.app / .io
+//   ssh          ssh -R 80:127.0.0.1:<port> <target>     → localhost.run by default
+//                (BB_TUNNEL_SSH_TARGET, e.g. nokey@localhost.run)
+//   custom       BB_TUNNEL_COMMAND, with {port} and {url} placeholders
+//
+// Each provider's public URL is scraped from the program's output;
+// BB_TUNNEL_URL_REGEX overrides the pattern (and is required for custom).
+// TunnelManager restarts the program with backoff when it exits, checks the
+// public URL every minute and restarts a tunnel that stops answering, and
+// emits 'status' on every change.
+
+import { EventEmitter } from 'events';
+import { spawn, type ChildProcess } from 'child_process';
+import type { TunnelState, TunnelStatus } from './types.js';
+
+export interface TunnelProvider {
+  name: string;
+  /** Command line that exposes `origin` (the local server URL) publicly */
+  command(origin: string): string[];
+  /** Finds the public URL in the program's output: group 1 if present, else the match */
+  urlPattern: RegExp;
+}
+
+export const TUNNEL_PROVIDERS = ['cloudflared', 'ngrok', 'ssh', 'custom'] as const;
+
+const MIN_BACKOFF_MS = 1000;
+const MAX_BACKOFF_MS = 60_000;
+export const HEALTH_INTERVAL_MS = 60_000;
+const HEALTH_TIMEOUT_MS = 10_000;
+/** Consecutive failed health checks before the tunnel is restarted */
+export const MAX_HEALTH_FAILURES = 3;
+
+function portOf(origin: string): string {
+  const url = new URL(origin);
+  return url.port || (url.protocol === 'https:' ? '443' : '80');
+}
+
+/** The provider named `name`, configured from `env`. Throws on unknown names or missing settings. */
+export function createProvider(name: string, env: NodeJS.ProcessEnv = process.env): TunnelProvider {
+  const override = env.BB_TUNNEL_URL_REGEX ? new RegExp(env.BB_TUNNEL_URL_REGEX) : null;
+  switch (name) {
+    case 'cloudflared':
+      return {
+        name,
+        // Self-signed local certificates can't be verified by the tunnel
+        command: (origin) => ['cloudflared', 'tunnel', '--url', origin, ...(origin.startsWith('https:') ? ['--no-tls-verify'] : [])],
+        urlPattern: override ?? /https:\/\/[a-z0-9-]+\.trycloudflare\.com/,
+      };
+    case 'ngrok':
+      return {
+        name,
+        command: (origin) => ['ngrok', 'http', origin, '--log', 'stdout', '--log-format', 'logfmt'],
+        urlPattern: override ?? /url=(https:\/\/[^\s"]+)/,
+      };
+    case 'ssh': {
+      const target = env.BB_TUNNEL_SSH_TARGET || 'nokey@localhost.run';
+      return {
+        name,
+        command: (origin) => [
+          'ssh', '-o', 'ServerAliveInterval=30', '-o', 'ExitOnForwardFailure=yes', '-o', 'StrictHostKeyChecking=accept-new',
+          '-R', `80:127.0.0.1:${portOf(origin)}`, target,
+        ],
+        urlPattern: override ?? /https:\/\/[a-z0-9-]+\.lhr\.life/,
+      };
+    }
+    case 'custom': {
+      const template = env.BB_TUNNEL_COMMAND?.trim();
+      if (!template) throw new Error('BB_TUNNEL_COMMAND is required for the custom tunnel provider');
+      if (!override) throw new Error('BB_TUNNEL_URL_REGEX is required for the custom tunnel provider');
+      return {
+        name,
+        command: (origin) => template.split(/\s+/).map((arg) =>
+          arg.replaceAll('{port}', portOf(origin)).replaceAll('{url}', origin)),
+        urlPattern: override,
+      };
+    }
+    default:
+      throw new Error(`Unknown tunnel provider "${name}" (expected ${TUNNEL_PROVIDERS.join(', ')})`);
+  }
+}
+
+/** Whether the public URL answers at all — any HTTP status counts, even 401. */
+async function defaultHealthCheck(url: string): Promise<boolean> {
+  try {
+    await fetch(`${url}/health`, { signal: AbortSignal.timeout(HEALTH_TIMEOUT_MS) });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Runs one tunnel program for the server at `origin` and keeps it up. */
+export class TunnelManager extends EventEmitter {
+  private child: ChildProcess | null = null;
+  private status: TunnelStatus;
+  private backoffMs = MIN_BACKOFF_MS;
+  private restartTimer: ReturnType<typeof setTimeout> | null = null;
+  private healthTimer: ReturnType<typeof setInterval> | null = null;
+  private healthFailures = 0;
+
+  constructor(
+    private provider: TunnelProvider,
+    private origin: string,
+    private spawnFn: typeof spawn = spawn,
+    private healthCheck: (url: string) => Promise<boolean> = defaultHealthCheck,
+  ) {
+    super();
+    this.status = { provider: provider.name, state: 'stopped', url: null, restarts: 0, lastError: null };
+  }
+
+  getStatus(): TunnelStatus {
+    return { ...this.status };
+  }
+
+  start(): void {
+    if (this.child) return;
+    const [cmd, ...args] = this.provider.command(this.origin);
+    this.update({ state: 'starting', url: null });
+    const child = this.spawnFn(cmd, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    this.child = child;
+
+    const onData = (chunk: Buffer) => {
+      if (this.child !== child) return;
+      const match = this.provider.urlPattern.exec(chunk.toString());
+      const url = match ? (match[1] ?? match[0]) : null;
+      if (url && url !== this.status.url) {
+        this.backoffMs = MIN_BACKOFF_MS;
+        this.update({ state: 'up', url, lastError: null });
+        this.startHealthChecks();
+      }
+    };
+    child.stdout?.on('data', onData);
+    child.stderr?.on('data', onData);
+    child.on('error', (err: NodeJS.ErrnoException) => {
+      // A missing program won't appear by retrying
+      const missing = err.code === 'ENOENT';
+      this.onDown(child, missing ? `${cmd} not found` : err.message, !missing);
+    });
+    child.on('exit', (code, signal) => {
+      this.onDown(child, `${cmd} exited (${signal ?? `code ${code}`})`, true);
+    });
+  }
+
+  /** Stop the tunnel for good (until start() is called again). */
+  stop(): void {
+    this.clearTimers();
+    const child = this.child;
+    this.child = null;
+    child?.kill();
+    this.update({ state: 'stopped', url: null });
+  }
+
+  private onDown(child: ChildProcess, reason: string, retry: boolean): void {
+    if (this.child !== child) return;
+    this.child = null;
+    this.clearTimers();
+    this.update({ state: 'down', url: null, lastError: reason });
+    if (!retry) return;
+    const delay = this.backoffMs;
+    this.backoffMs = Math.min(this.backoffMs * 2, MAX_BACKOFF_MS);
+    this.restartTimer = setTimeout(() => {
+      this.restartTimer = null;
+      this.status.restarts++;
+      this.start();
+    }, delay);
+  }
+
+  private startHealthChecks(): void {
+    if (this.healthTimer) clearInterval(this.healthTimer);
+    this.healthFailures = 0;
+    this.healthTimer = setInterval(() => void this.checkHealth(), HEALTH_INTERVAL_MS);
+  }
+
+  private async checkHealth(): Promise<void> {
+    const { url } = this.status;
+    const child = this.child;
+    if (!url || !child) return;
+    const ok = await this.healthCheck(url);
+    if (this.child !== child) return;
+    this.healthFailures = ok ? 0 : this.healthFailures + 1;
+    if (this.healthFailures >= MAX_HEALTH_FAILURES) {
+      console.warn(`[bb] tunnel ${url} stopped answering — restarting ${this.provider.name}`);
+      // The exit handler takes it from here
+      child.kill();
+    }
+  }
+
+  private clearTimers(): void {
+    if (this.restartTimer) clearTimeout(this.restartTimer);
+    if (this.healthTimer) clearInterval(this.healthTimer);
+    this.restartTimer = null;
+    this.healthTimer = null;
+  }
+
+  private update(patch: Partial<TunnelStatus> & { state: TunnelState }): void {
+    this.status = { ...this.status, ...patch };
+    this.emit('status', this.getStatus());
+  }
+}
@@ -10,6 +10,92 @@ export type DetailedState =
   | 'compacting'
   | 'error';
 
+export type RestartMode = 'never' | 'on-failure' | 'always';
+
+export interface RestartPolicy {
+  mode: RestartMode;
+  /** Automatic restarts allowed over the session's lifetime */
+  maxRetries: number;
+  /** Delay before the first automatic restart; doubles with each one after */
+  backoffMs: number;
+}
+
+export type PermissionDecision = 'allow_once' | 'allow_always' | 'deny';
+
+export interface PermissionOption {
+  /** Key that selects the option (its number) */
+  key: string;
+  label: string;
+  /** What choosing it means; null for options we don't recognize */
+  decision: PermissionDecision | null;
+}
+
+/** The permission prompt a session is showing (see permission-prompt.ts) */
+export interface PendingPermission {
+  /** Prompt title, e.g. "Bash command", "Edit file" */
+  tool: string | null;
+  command: string | null;
+  filePath: string | null;
+  question: string;
+  options: PermissionOption[];
+}
+
+/** An auto-answer rule for permission prompts (see permission-policy.ts) */
+export interface PermissionRule {
+  name: string;
+  decision: PermissionDecision;
+  /** Case-insensitive substring of the prompt title, e.g. "Bash", "Read" */
+  tool?: string;
+  /** Glob for the Bash command; `*` never matches shell operators */
+  command?: string;
+  /** Glob for the file path, normalized relative to the session's cwd */
+  path?: string;
+  /** Only files inside the session's cwd */
+  underCwd?: boolean;
+  /** Limit to these groups / session ids or names */
+  groups?: string[];
+  sessions?: string[];
+  /** Audit what the rule would do without answering */
+  dryRun?: boolean;
+}
+
+export interface PermissionPolicyConfig {
+  /** Audit every decision without answering */
+  dryRun: boolean;
+  /** Checked in order; the first that matches and whose decision is offered wins */
+  rules: PermissionRule[];
+}
+
+export type TaskStatus = 'queued' | 'running' | 'done' | 'cancelled' | 'interrupted';
+
+/** A prompt in a session's task queue (see task-queue.ts) */
+export interface SessionTask {
+  id: string;
+  text: string;
+  status: TaskStatus;
+  createdAt: string;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
+/** A task in a group's work pool, handed to whichever session in the group is idle */
+export interface PoolTask extends SessionTask {
+  group: string;
+  /** Session running (or last running) the task */
+  sessionId: string | null;
+  /** The task's id in that session's queue */
+  sessionTaskId: string | null;
+  /** Times handed to a session; interrupted tasks go back to the pool */
+  attempts: number;
+}
+
+export interface GroupPoolConfig {
+  /** Pool tasks running at once in the group (null: one per idle session) */
+  concurrency: number | null;
+  /** Spawn sessions into the group while the pool backs up, up to `maxSessions` running */
+  autoSpawn: { maxSessions: number; cwd: string; args?: string[]; skipPermissions?: boolean } | null;
+}
+
 export interface SessionInfo {
   id: string;
   name: string;
@@ -29,6 +115,99 @@ export interface SessionInfo {
   totalWorkingMs: number;
   totalIdleMs: number;
   totalPermissionWaitMs: number;
+  /** claude args the session runs with (missing for sessions stored by older versions) */
+  args?: string[];
+  restartPolicy?: RestartPolicy | null;
+  /** Automatic restarts so far (see restartPolicy) */
+  restartCount: number;
+  /** Set while detailedState is permission_needed and the prompt could be read */
+  pendingPermission?: PendingPermission | null;
+  /** Task queue, oldest first, with recently finished tasks (missing for sessions stored by older versions) */
+  tasks?: SessionTask[];
+  /** Muted notifications: webhooks and browser push skip the session's events while set */
+  mute?: SessionMute | null;
+  /** Pattern pack the session's state is detected with, `name` or `name@version`; null for the default */
+  patterns?: string | null;
+  /** Claude's own conversation id, resumed with `--resume` on restart; null when unknown (e.g. spawned with --continue) */
+  conversationId?: string | null;
+}
+
+export interface SessionMute {
+  /** When the mute ends; null until unmuted */
+  until: string | null;
+  /** Event names muted, with `*` wildcards as in webhook subscriptions; null for all */
+  events: string[] | null;
+}
+
+/** Timings and limits of state and stuck-session detection; null turns a check off (see thresholds.ts) */
+export interface SessionThresholds {
+  /** A working session with no output for this long is taken to be idle */
+  idleTimeoutMs: number;
+  /** Idle this long after working: long_idle */
+  longIdleMs: number | null;
+  /** Working this long with no new output (only the spinner): stuck */
+  stuckWorkingMs: number | null;
+  /** A permission prompt unanswered this long: permission_timeout */
+  permissionPendingMs: number | null;
+  /** Compacted more than this many times: compactions */
+  maxCompactions: number | null;
+}
+
+/** The thresholds file: defaults for every group, overridden per group */
+export interface ThresholdsConfig extends SessionThresholds {
+  groups: Record<string, Partial<SessionThresholds>>;
+}
+
+/** What a session's terminal shows (see terminal-screen.ts) */
+export interface ScreenSnapshot {
+  cols: number;
+  rows: number;
+  /** 0-based */
+  cursor: { row: number; col: number; visible: boolean };
+  /** Whether a full-screen program switched to the alternate screen */
+  alternate: boolean;
+  /** One line per row, without trailing spaces */
+  text: string;
+}
+
+/** States a pattern pack recognizes; a session is 'starting' until one matches */
+export type DetectedState = Exclude<DetailedState, 'starting'>;
+
+/**
+ * How to read one CLI's terminal output (see pattern-packs.ts). Patterns are
+ * regexes, or regex sources in JSON files, written "/source/flags" for flags.
+ */
+export interface PatternPack {
+  name: string;
+  /** Bumped when a CLI release needs different patterns; sessions get the highest unless they pin one */
+  version: number;
+  description?: string;
+  /** Patterns are only matched when the newest output matches this (cheap pre-filter) */
+  trigger?: RegExp | string | null;
+  states: Partial<Record<DetectedState, (RegExp | string)[]>>;
+}
+
+export interface PatternPackInfo {
+  /** `name@version` */
+  id: string;
+  name: string;
+  version: number;
+  description: string | null;
+  /** File the pack was loaded from, or 'built-in' */
+  source: string;
+}
+
+export type SessionAlertKind = 'long_idle' | 'stuck' | 'permission_timeout' | 'compactions';
+
+/** A session crossed one of its thresholds. Each kind is its own session manager event (see ALERT_EVENTS). */
+export interface SessionAlert {
+  kind: SessionAlertKind;
+  sessionId: string;
+  /** The threshold crossed: ms, or a count for compactions */
+  threshold: number;
+  /** How long the condition has lasted in ms, or the compaction count */
+  value: number;
+  timestamp: string;
 }
 
 export interface SpawnOptions {
@@ -40,28 +219,105 @@ export interface SpawnOptions {
   rows?: number;
   task?: string;
   skipPermissions?: boolean;
+  /** Restart the session when it exits; maxRetries and backoffMs have defaults */
+  restartPolicy?: Pick<RestartPolicy, 'mode'> & Partial<RestartPolicy>;
+  /** Pattern pack to detect state with: `name` (its highest version) or `name@version` */
+  patterns?: string;
 }
 
 // ── Session Manager Interface ────────────────────────────────────────────────
 // Both SessionManager (node-pty) and TmuxSessionManager implement this.
+// Methods that drive the terminal are async: tmux commands run off the event loop.
 
 import type { EventEmitter } from 'events';
+import type { ScrollbackSlice } from './scrollback.js';
 
 export interface ISessionManager extends EventEmitter {
-  spawn(opts?: SpawnOptions): SessionInfo;
+  spawn(opts?: SpawnOptions): Promise<SessionInfo>;
+  /**
+   * Respawn an exited session under the same id, in the same cwd, with
+   * `--resume <conversationId>` (or `--continue` when the id is unknown) so
+   * claude resumes its conversation. Emits 'restarted'.
+   * Resolves undefined for an unknown id; rejects if the session is running.
+   */
+  restart(id: string): Promise<SessionInfo | undefined>;
   setTask(id: string, task: string): boolean;
+  /** Set or clear (null) a session's notification mute. Emits 'mute'. False for an unknown id. */
+  setMute(id: string, mute: SessionMute | null): boolean;
+  /** Queue a prompt, sent once the session is idle and earlier tasks are done. Undefined for an unknown id. */
+  enqueueTask(id: string, text: string): SessionTask | undefined;
+  listTasks(id: string): SessionTask[] | undefined;
+  /** Move the given queued tasks to the front, in order. Throws on ids that aren't queued. */
+  reorderTasks(id: string, order: string[]): SessionTask[] | undefined;
+  /** Cancel a queued task. Undefined if session or task is unknown; throws if it already started. */
+  cancelTask(id: string, taskId: string): SessionTask | undefined;
   getInfo(id: string): SessionInfo | undefined;
   getScrollback(id: string): string[];
+  /** Read scrollback by byte offset range (see ScrollbackBuffer.read). */
+  readScrollback(id: string, from?: number, to?: number): ScrollbackSlice | undefined;
+  /** The visible terminal screen. Undefined for an unknown or exited session. */
+  getScreen(id: string): ScreenSnapshot | undefined;
   getTranscript(id: string): TranscriptEntry[];
   list(group?: string): SessionInfo[];
   groups(): Map<string, SessionInfo[]>;
-  write(id: string, data: string): boolean;
-  resize(id: string, cols: number, rows: number): boolean;
-  kill(id: string): boolean;
-  killAll(): void;
+  write(id: string, data: string): Promise<boolean>;
+  resize(id: string, cols: number, rows: number): Promise<boolean>;
+  kill(id: string): Promise<boolean>;
+  killAll(): Promise<void>;
+  /** Stop all sessions for server shutdown, keeping them in the store as exited history. */
+  shutdown(): Promise<void>;
   count(): number;
 }
 
+// ── Session Store ────────────────────────────────────────────────────────────
+// Persistence for SessionInfo, written through by both session managers.
+
+export interface SessionStore {
+  load(): SessionInfo[];
+  save(info: SessionInfo): void;
+  remove(id: string): void;
+}
+
+// ── Auth ─────────────────────────────────────────────────────────────────────
+
+export type TokenScope = 'read' | 'input' | 'spawn' | 'kill' | 'admin';
+
+/** A named API token as listed by the API (never includes the secret) */
+export interface ApiToken {
+  id: string;
+  name: string;
+  scopes: TokenScope[];
+  /** Groups the token may touch; null for all */
+  groups: string[] | null;
+  createdAt: string;
+}
+
+/** An API token at rest: only a hash of the secret is kept */
+export interface StoredToken extends ApiToken {
+  hash: string;
+}
+
+export interface TokenStore {
+  load(): StoredToken[];
+  save(tokens: StoredToken[]): void;
+  /** The master token kept from a previous run, if any */
+  loadMaster(): string | null;
+  saveMaster(token: string): void;
+}
+
+/** Who a request or WebSocket connection authenticated as */
+export interface AuthPrincipal {
+  /** Token name, or "master" for the server token; recorded as the audit actor */
+  name: string;
+  tokenId: string | null;
+  scopes: TokenScope[];
+  groups: string[] | null;
+  /** Share links: the one session this principal may watch */
+  sessionId: string | null;
+  /** Share links: when the link stops working, in ms since the epoch */
+  expiresAt?: number;
+}
+
 // ── REST API ─────────────────────────────────────────────────────────────────
 
 export interface ApiSpawnRequest {
@@ -73,12 +329,73 @@ export interface ApiSpawnRequest {
   rows?: number;
   task?: string;
   skipPermissions?: boolean;
+  restartPolicy?: Pick<RestartPolicy, 'mode'> & Partial<RestartPolicy>;
+  patterns?: string;
 }
 
 export interface ApiSetTaskRequest {
   task: string;
 }
 
+export interface ApiEnqueueTaskRequest {
+  task: string;
+}
+
+export interface ApiReorderTasksRequest {
+  /** Ids of queued tasks to move to the front, in order */
+  order: string[];
+}
+
+export interface ApiGroupTaskRequest {
+  task: string;
+}
+
+export type ApiGroupPoolRequest = Partial<GroupPoolConfig>;
+
+export interface ApiPermissionRequest {
+  decision: PermissionDecision;
+}
+
+export interface ApiCreateTokenRequest {
+  name: string;
+  scopes: TokenScope[];
+  groups?: string[] | null;
+}
+
+/** Returned once, at creation: the only time the secret is available */
+export interface ApiCreatedToken extends ApiToken {
+  token: string;
+}
+
+export interface ApiRotateTokenRequest {
+  /** Seconds the previous master token keeps working (default 300, max 86400) */
+  grace?: number;
+}
+
+export interface ApiRotatedToken {
+  token: string;
+  /** When the previous token stops working */
+  previousExpiresAt: string;
+}
+
+export interface ApiMuteRequest {
+  /** Seconds until the mute ends; omitted mutes until unmuted */
+  for?: number;
+  /** Event names to mute (`*` wildcards); omitted or null mutes everything */
+  events?: string[] | null;
+}
+
+export interface ApiShareRequest {
+  /** Seconds until the link expires (default 3600, max 7 days) */
+  ttl?: number;
+}
+
+export interface ApiShareLink {
+  token: string;
+  sessionId: string;
+  expiresAt: string;
+}
+
 export interface ApiInputRequest {
   data: string;
 }
@@ -104,21 +421,152 @@ export interface GroupInfo {
 
 // Client → Server
 export type WsClientMessage =
-  | { type: 'subscribe'; sessionId: string; cols?: number; rows?: number }
+  | { type: 'subscribe'; sessionId: string; cols?: number; rows?: number; sinceOffset?: number }
   | { type: 'unsubscribe'; sessionId: string }
   | { type: 'input'; sessionId: string; data: string }
   | { type: 'resize'; sessionId: string; cols: number; rows: number };
 
 // Server → Client
 export type WsServerMessage =
-  | { type: 'output'; sessionId: string; data: string }
-  | { type: 'scrollback'; sessionId: string; data: string }
+  | { type: 'output'; sessionId: string; data: string; offset: number }
+  | { type: 'scrollback'; sessionId: string; data: string; from: number; offset: number }
   | { type: 'session:created'; session: SessionInfo }
   | { type: 'session:exited'; sessionId: string; exitCode: number | null }
+  | { type: 'session:restarted'; session: SessionInfo }
   | { type: 'session:stateChanged'; sessionId: string; detailedState: DetailedState }
+  | { type: 'session:tasks'; sessionId: string; tasks: SessionTask[] }
+  | { type: 'session:permission'; sessionId: string; pendingPermission: PendingPermission | null }
+  | { type: 'session:muted'; sessionId: string; mute: SessionMute | null }
+  | { type: 'session:alert'; sessionId: string; alert: SessionAlert }
+  | { type: 'group:tasks'; group: string; tasks: PoolTask[] }
+  | { type: 'tunnel'; tunnel: TunnelStatus }
   | { type: 'sessions'; sessions: SessionInfo[] }
   | { type: 'error'; message: string };
 
+// ── Tunnel ───────────────────────────────────────────────────────────────────
+
+export type TunnelState = 'starting' | 'up' | 'down' | 'stopped';
+
+export interface TunnelStatus {
+  provider: string;
+  state: TunnelState;
+  /** Public URL, while the tunnel is up */
+  url: string | null;
+  /** Automatic restarts since the server started */
+  restarts: number;
+  lastError: string | null;
+}
+
+// ── Webhooks ─────────────────────────────────────────────────────────────────
+
+/** How a webhook's body is rendered: the payload, or a Slack/Discord message */
+export type WebhookFormat = 'json' | 'slack' | 'discord';
+
+/** A webhook target and the events it receives */
+export interface WebhookSubscription {
+  id: string;
+  url: string;
+  /** Event names to send; `*` matches anything, e.g. "state:*" or "audit:session:*" */
+  events: string[];
+  /** Only events from sessions in these groups; null for all (including events without a session) */
+  groups: string[] | null;
+  format: WebhookFormat;
+  /** JSON format: body with {{path}} placeholders filled from the payload; null sends the payload itself */
+  template: unknown;
+  /** HMAC-SHA256 key for the X-BullyBuddy-Signature header; null sends unsigned requests */
+  secret: string | null;
+  createdAt: string;
+}
+
+export interface ApiWebhookRequest {
+  url?: string;
+  events?: string[];
+  groups?: string[] | null;
+  format?: WebhookFormat;
+  template?: unknown;
+  /** Signing secret; generated when a webhook is created without one */
+  secret?: string;
+}
+
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'failed';
+
+export interface WebhookAttempt {
+  at: string;
+  /** HTTP status, or null when no response came back */
+  statusCode: number | null;
+  latencyMs: number;
+  error: string | null;
+}
+
+/** One event sent to one webhook, across its attempts */
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  event: string;
+  status: WebhookDeliveryStatus;
+  attempts: WebhookAttempt[];
+  createdAt: string;
+  /** When the next retry is due, while retrying */
+  nextAttemptAt: string | null;
+}
+
+/** A delivery that ran out of attempts, kept with its body so it can be sent again */
+export interface WebhookDeadLetter extends WebhookDelivery {
+  url: string;
+  body: string;
+}
+
+export interface WebhookDeliveryQuery {
+  webhookId?: string;
+  status?: WebhookDeliveryStatus;
+  limit?: number;
+}
+
+export interface WebhookStore {
+  load(): WebhookSubscription[];
+  save(webhooks: WebhookSubscription[]): void;
+  loadDeadLetters(): WebhookDeadLetter[];
+  saveDeadLetters(letters: WebhookDeadLetter[]): void;
+}
+
+// ── Web Push ─────────────────────────────────────────────────────────────────
+
+/** A browser's push subscription and the states it is notified about */
+export interface PushSubscriptionRecord {
+  id: string;
+  /** Push service URL from PushSubscription.endpoint */
+  endpoint: string;
+  /** Receiver keys from PushSubscription.toJSON(), base64url */
+  keys: { p256dh: string; auth: string };
+  states: DetailedState[];
+  /** The subscribing token; dropped when it is revoked (null for the master token) */
+  tokenId: string | null;
+  /** For the master token: masterId() of the one it was made with; dropped when that stops working */
+  masterId: string | null;
+  /** Groups the subscribing token may read; null for all */
+  groups: string[] | null;
+  createdAt: string;
+}
+
+export interface ApiPushSubscriptionRequest {
+  endpoint?: string;
+  keys?: { p256dh?: string; auth?: string };
+  states?: string[];
+}
+
+/** VAPID application server key pair, base64url: the raw P-256 public point and private scalar */
+export interface VapidKeys {
+  publicKey: string;
+  privateKey: string;
+}
+
+export interface PushStore {
+  load(): PushSubscriptionRecord[];
+  save(subscriptions: PushSubscriptionRecord[]): void;
+  loadKeys(): VapidKeys | null;
+  saveKeys(keys: VapidKeys): void;
+}
+
 // ── Audit Log ─────────────────────────────────────────────────────────────────
 
 export interface AuditEntry {
@@ -127,6 +575,7 @@ export interface AuditEntry {
   sessionId?: string;
   source: 'rest' | 'ws' | 'cli' | 'system';
   actor?: string;
+  ip?: string;
   summary?: string;
   result: 'ok' | 'error';
   error?: string;
@@ -0,0 +1,294 @@
+// Web Push: notify subscribed browsers of session state changes while the
+// dashboard is closed or in the background.
+//
+// The dashboard's service worker subscribes with the server's VAPID public
+// key (GET /api/push/key) and registers the subscription along with the
+// states it wants (POST /api/push/subscriptions). Messages are encrypted for
+// the browser (RFC 8291, aes128gcm) and authorized with a VAPID JWT (RFC 8292),
+// so the push service sees neither the content nor a shared secret. Like
+// webhooks, messages carry metadata only, skip muted sessions, and only
+// cover sessions in the groups the subscribing token can read.
+//
+// Browsers only allow push subscriptions on secure origins, so this is
+// useful when the dashboard is served over HTTPS or through a tunnel.
+//
+// Endpoints must belong to a known browser push service (or a host added
+// with BB_PUSH_HOSTS): any read token may subscribe, and the server POSTs to
+// the endpoint on every matching state change, so an arbitrary URL would let
+// it make the server call internal services.
+
+import { createCipheriv, createECDH, createPrivateKey, generateKeyPairSync, hkdfSync, randomBytes, sign, type KeyObject } from 'crypto';
+import type { ApiPushSubscriptionRequest, AuthPrincipal, DetailedState, ISessionManager, PushStore, PushSubscriptionRecord, SessionInfo, VapidKeys } from './types.js';
+import type { AuthManager } from './auth.js';
+import { MemoryPushStore } from './push-store.js';
+import { headline } from './webhook-formatters.js';
+import { isMuted } from './webhook.js';
+
+const VAPID_SUBJECT = process.env.BB_VAPID_SUBJECT ?? 'https://github.com/ChenKuanSun/openclaw-bullybuddy';
+const TIMEOUT_MS = 5000;
+const TTL_SECONDS = 24 * 60 * 60;
+const JWT_TTL_SECONDS = 12 * 60 * 60;
+const RECORD_SIZE = 4096;
+const MAX_SUBSCRIPTIONS = 100;
+const MAX_TASK_CHARS = 200;
+
+// Browser push services (Chrome, Firefox, Safari, Edge); subdomains included
+export const PUSH_HOSTS = new Set(['fcm.googleapis.com', 'android.googleapis.com', 'push.services.mozilla.com', 'push.apple.com', 'notify.windows.com']);
+if (process.env.BB_PUSH_HOSTS) {
+  for (const h of process.env.BB_PUSH_HOSTS.split(',')) {
+    const trimmed = h.trim().toLowerCase();
+    if (trimmed) PUSH_HOSTS.add(trimmed);
+  }
+}
+
+/** Whether `endpoint` is an https URL on a known push service. */
+export function isPushEndpoint(endpoint: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:') return false;
+  const host = url.hostname.toLowerCase();
+  for (const h of PUSH_HOSTS) if (host === h || host.endsWith(`.${h}`)) return true;
+  return false;
+}
+
+const DETAILED_STATES: readonly DetailedState[] = ['starting', 'idle', 'working', 'permission_needed', 'compacting', 'error'];
+export const DEFAULT_PUSH_STATES: DetailedState[] = ['permission_needed', 'error'];
+
+/** What the service worker receives and shows */
+export interface PushMessage {
+  title: string;
+  body: string;
+  sessionId: string;
+  state: DetailedState;
+  timestamp: string;
+}
+
+export function generateVapidKeys(): VapidKeys {
+  const { privateKey } = generateKeyPairSync('ec', { namedCurve: 'prime256v1' });
+  const jwk = privateKey.export({ format: 'jwk' });
+  const point = Buffer.concat([Buffer.from([4]), Buffer.from(jwk.x!, 'base64url'), Buffer.from(jwk.y!, 'base64url')]);
+  return { publicKey: point.toString('base64url'), privateKey: jwk.d! };
+}
+
+function vapidSigningKey(keys: VapidKeys): KeyObject {
+  const point = Buffer.from(keys.publicKey, 'base64url');
+  return createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      x: point.subarray(1, 33).toString('base64url'),
+      y: point.subarray(33, 65).toString('base64url'),
+      d: keys.privateKey,
+    },
+    format: 'jwk',
+  });
+}
+
+/** The Authorization header for a push to `endpoint` (RFC 8292). */
+export function vapidAuthorization(endpoint: string, keys: VapidKeys, subject = VAPID_SUBJECT, now = Date.now()): string {
+  const encode = (v: unknown) => Buffer.from(JSON.stringify(v)).toString('base64url');
+  const claims = { aud: new URL(endpoint).origin, exp: Math.floor(now / 1000) + JWT_TTL_SECONDS, sub: subject };
+  const unsigned = `${encode({ typ: 'JWT', alg: 'ES256' })}.${encode(claims)}`;
+  const signature = sign('sha256', Buffer.from(unsigned), { key: vapidSigningKey(keys), dsaEncoding: 'ieee-p1363' });
+  return `vapid t=${unsigned}.${signature.toString('base64url')}, k=${keys.publicKey}`;
+}
+
+/** Encrypt `plaintext` for a subscription's receiver keys as a single aes128gcm record (RFC 8291). */
+export function encryptPayload(keys: PushSubscriptionRecord['keys'], plaintext: Buffer): Buffer {
+  const receiverKey = Buffer.from(keys.p256dh, 'base64url');
+  const authSecret = Buffer.from(keys.auth, 'base64url');
+  const ecdh = createECDH('prime256v1');
+  const senderKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(receiverKey);
+
+  const hkdf = (ikm: Buffer, salt: Buffer, info: Buffer, length: number) => Buffer.from(hkdfSync('sha256', ikm, salt, info, length));
+  const ikm = hkdf(sharedSecret, authSecret, Buffer.concat([Buffer.from('WebPush: info\0'), receiverKey, senderKey]), 32);
+  const salt = randomBytes(16);
+  const cek = hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  const cipher = createCipheriv('aes-128-gcm', cek, nonce);
+  // 0x02 marks the last (and only) record
+  const ciphertext = Buffer.concat([cipher.update(Buffer.concat([plaintext, Buffer.from([2])])), cipher.final(), cipher.getAuthTag()]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header[20] = senderKey.length;
+  return Buffer.concat([header, senderKey, ciphertext]);
+}
+
+function decodedLength(value: unknown): number {
+  if (typeof value !== 'string' || !/^[\w-]+={0,2}$/.test(value)) return -1;
+  return Buffer.from(value, 'base64url').length;
+}
+
+function normalize(raw: unknown): Pick<PushSubscriptionRecord, 'endpoint' | 'keys' | 'states'> {
+  const r = (raw ?? {}) as ApiPushSubscriptionRequest;
+  let endpoint: URL;
+  try {
+    endpoint = new URL(typeof r.endpoint === 'string' ? r.endpoint : '');
+  } catch {
+    throw new Error('endpoint must be a URL');
+  }
+  if (endpoint.protocol !== 'https:' || r.endpoint!.length > 2048) throw new Error('endpoint must be an https URL');
+  if (!isPushEndpoint(r.endpoint!)) throw new Error(`endpoint must be on a known push service (${endpoint.host} is not; see BB_PUSH_HOSTS)`);
+  if (decodedLength(r.keys?.p256dh) !== 65) throw new Error('keys.p256dh must be a base64url P-256 public key');
+  if (decodedLength(r.keys?.auth) !== 16) throw new Error('keys.auth must be a base64url 16-byte secret');
+
+  let states = DEFAULT_PUSH_STATES;
+  if (r.states !== undefined) {
+    if (!Array.isArray(r.states) || r.states.some((s) => !DETAILED_STATES.includes(s as DetailedState))) {
+      throw new Error(`states must be a list of ${DETAILED_STATES.join(', ')}`);
+    }
+    states = [...new Set(r.states as DetailedState[])];
+  }
+  return { endpoint: r.endpoint!, keys: { p256dh: r.keys!.p256dh!, auth: r.keys!.auth! }, states };
+}
+
+/** Push subscriptions and the VAPID key pair they are bound to. */
+export class WebPushManager {
+  private subscriptions: PushSubscriptionRecord[];
+  private keys: VapidKeys;
+
+  constructor(private store: PushStore = new MemoryPushStore(), private subject = VAPID_SUBJECT) {
+    this.subscriptions = store.load();
+    const keys = store.loadKeys();
+    if (keys) {
+      this.keys = keys;
+    } else {
+      this.keys = generateVapidKeys();
+      store.saveKeys(this.keys);
+    }
+  }
+
+  /** The application server key browsers subscribe with, base64url */
+  get publicKey(): string {
+    return this.keys.publicKey;
+  }
+
+  list(): PushSubscriptionRecord[] {
+    return [...this.subscriptions];
+  }
+
+  get(id: string): PushSubscriptionRecord | undefined {
+    return this.subscriptions.find((s) => s.id === id);
+  }
+
+  /**
+   * Add a subscription, or update the states of one with the same endpoint.
+   * `masterId` identifies the master token a master principal presented.
+   * Throws on invalid input.
+   */
+  subscribe(raw: unknown, principal: AuthPrincipal, masterId: string | null = null): PushSubscriptionRecord {
+    const fields = normalize(raw);
+    const existing = this.subscriptions.find((s) => s.endpoint === fields.endpoint);
+    const sub: PushSubscriptionRecord = {
+      id: existing?.id ?? randomBytes(8).toString('hex'),
+      ...fields,
+      tokenId: principal.tokenId,
+      masterId: principal.tokenId === null ? masterId : null,
+      groups: principal.groups,
+      createdAt: existing?.createdAt ?? new Date().toISOString(),
+    };
+    if (existing) {
+      this.subscriptions[this.subscriptions.indexOf(existing)] = sub;
+    } else {
+      if (this.subscriptions.length >= MAX_SUBSCRIPTIONS) throw new Error(`Too many push subscriptions (max ${MAX_SUBSCRIPTIONS})`);
+      this.subscriptions.push(sub);
+    }
+    this.store.save(this.subscriptions);
+    return sub;
+  }
+
+  remove(id: string): PushSubscriptionRecord | undefined {
+    const idx = this.subscriptions.findIndex((s) => s.id === id);
+    if (idx === -1) return undefined;
+    const [removed] = this.subscriptions.splice(idx, 1);
+    this.store.save(this.subscriptions);
+    return removed;
+  }
+
+  /** Drop subscriptions made with named tokens that no longer exist, or master tokens that stopped working. */
+  prune(tokenIds: Set<string>, masterIds: Set<string>): void {
+    const kept = this.subscriptions.filter((s) => (s.tokenId === null
+      ? s.masterId != null && masterIds.has(s.masterId)
+      : tokenIds.has(s.tokenId)));
+    if (kept.length === this.subscriptions.length) return;
+    this.subscriptions = kept;
+    this.store.save(this.subscriptions);
+  }
+
+  /** Push a session's new state to every subscription that wants it. */
+  notify(info: SessionInfo, state: DetailedState): void {
+    const timestamp = new Date().toISOString();
+    const task = info.task && info.task.length > MAX_TASK_CHARS ? `${info.task.slice(0, MAX_TASK_CHARS - 1)}…` : info.task;
+    const message: PushMessage = {
+      title: `${info.name} ${headline({ event: `state:${state}`, timestamp, pendingPermission: info.pendingPermission })}`,
+      body: task ?? `Group ${info.group}`,
+      sessionId: info.id,
+      state,
+      timestamp,
+    };
+    for (const sub of this.subscriptions) {
+      if (!sub.states.includes(state)) continue;
+      if (sub.groups !== null && !sub.groups.includes(info.group)) continue;
+      void this.send(sub, message);
+    }
+  }
+
+  async send(sub: PushSubscriptionRecord, message: PushMessage): Promise<void> {
+    const urgent = message.state === 'permission_needed' || message.state === 'error';
+    // Stored before the endpoint check, or its host was since removed from BB_PUSH_HOSTS
+    if (!isPushEndpoint(sub.endpoint)) return;
+    try {
+      const res = await fetch(sub.endpoint, {
+        method: 'POST',
+        headers: {
+          Authorization: vapidAuthorization(sub.endpoint, this.keys, this.subject),
+          'Content-Encoding': 'aes128gcm',
+          'Content-Type': 'application/octet-stream',
+          TTL: String(TTL_SECONDS),
+          Urgency: urgent ? 'high' : 'normal',
+        },
+        body: new Uint8Array(encryptPayload(sub.keys, Buffer.from(JSON.stringify(message)))),
+        signal: AbortSignal.timeout(TIMEOUT_MS),
+        redirect: 'error',
+      });
+      // The browser unsubscribed or the subscription expired
+      if (res.status === 404 || res.status === 410) {
+        this.remove(sub.id);
+      } else if (!res.ok) {
+        console.warn(`[bb] push failed: HTTP ${res.status} (${new URL(sub.endpoint).host})`);
+      }
+    } catch (err) {
+      console.warn(`[bb] push failed: ${err instanceof Error ? err.message : err} (${new URL(sub.endpoint).host})`);
+    }
+  }
+}
+
+/** Push state changes of unmuted sessions. Returns a function that stops listening. */
+export function setupWebPush(sessions: ISessionManager, push: WebPushManager, auth?: AuthManager): () => void {
+  const count = push.list().length;
+  if (count > 0) console.log(`[bb] web push: ${count} subscription${count === 1 ? '' : 's'}`);
+
+  const onStateChange = (sessionId: string, state: DetailedState) => {
+    const info = sessions.getInfo(sessionId);
+    if (info && !isMuted(info, `state:${state}`)) push.notify(info, state);
+  };
+  const onAuthChange = () => push.prune(new Set(auth!.list().map((t) => t.id)), new Set(auth!.masterIds()));
+
+  sessions.on('stateChange', onStateChange);
+  if (auth) {
+    auth.on('change', onAuthChange);
+    onAuthChange();
+  }
+  return () => {
+    sessions.off('stateChange', onStateChange);
+    auth?.off('change', onAuthChange);
+  };
+}
@@ -0,0 +1,140 @@
+// Webhook delivery: signed POSTs with retries and a dead-letter queue.
+//
+// Each request carries:
+//
+//   X-BullyBuddy-Event      the event name
+//   X-BullyBuddy-Delivery   delivery id, the same on every attempt
+//   X-BullyBuddy-Timestamp  unix seconds when the attempt was made
+//   X-BullyBuddy-Signature  sha256=<hex HMAC-SHA256 of "<timestamp>.<body>">
+//                           keyed by the webhook's secret (omitted without one)
+//
+// Receivers should recompute the signature over the raw body and reject
+// stale timestamps. Network errors, timeouts, 408, 429 and 5xx responses are
+// retried with exponential backoff; after the last attempt (or on another
+// 4xx) the delivery goes to the dead-letter queue, which is persisted and can
+// be sent again.
+
+import { createHmac, randomBytes } from 'crypto';
+import type { WebhookAttempt, WebhookDeadLetter, WebhookDelivery, WebhookDeliveryQuery, WebhookStore, WebhookSubscription } from './types.js';
+
+const TIMEOUT_MS = 5000;
+/** Attempts per delivery, the first included */
+export const MAX_ATTEMPTS = 6;
+/** Delay before the first retry; doubles with each one after */
+export const RETRY_BASE_MS = 2000;
+const MAX_DELIVERIES = 200;
+const MAX_DEAD_LETTERS = 500;
+
+/** The X-BullyBuddy-Signature value for a body sent at `timestamp` (unix seconds). */
+export function signWebhook(secret: string, timestamp: number, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+}
+
+function retryable(statusCode: number | null): boolean {
+  return statusCode === null || statusCode === 408 || statusCode === 429 || statusCode >= 500;
+}
+
+interface Target {
+  url: string;
+  secret: string | null;
+  body: string;
+}
+
+/** Sends webhook requests and keeps a log of recent deliveries and the dead letters. */
+export class WebhookDeliveries {
+  private recent: WebhookDelivery[] = [];
+  private deadLetters: WebhookDeadLetter[];
+
+  constructor(private store: WebhookStore) {
+    this.deadLetters = store.loadDeadLetters();
+  }
+
+  /** Send `body` to the webhook, retrying in the background. */
+  send(webhook: WebhookSubscription, event: string, body: string): WebhookDelivery {
+    const delivery: WebhookDelivery = {
+      id: randomBytes(6).toString('hex'),
+      webhookId: webhook.id,
+      event,
+      status: 'pending',
+      attempts: [],
+      createdAt: new Date().toISOString(),
+      nextAttemptAt: null,
+    };
+    this.recent.push(delivery);
+    if (this.recent.length > MAX_DELIVERIES) this.recent.splice(0, this.recent.length - MAX_DELIVERIES);
+    void this.attempt(delivery, { url: webhook.url, secret: webhook.secret, body });
+    return delivery;
+  }
+
+  /** Recent deliveries, oldest first. */
+  list(opts: WebhookDeliveryQuery = {}): WebhookDelivery[] {
+    let result = this.recent;
+    if (opts.webhookId) result = result.filter((d) => d.webhookId === opts.webhookId);
+    if (opts.status) result = result.filter((d) => d.status === opts.status);
+    return result.slice(-(opts.limit ?? 50));
+  }
+
+  listDeadLetters(): WebhookDeadLetter[] {
+    return [...this.deadLetters];
+  }
+
+  /**
+   * Take a dead letter off the queue and send its body again to `webhook`
+   * (its current URL and secret). Undefined if there is no such dead letter.
+   */
+  redeliver(id: string, webhook: WebhookSubscription): WebhookDelivery | undefined {
+    const idx = this.deadLetters.findIndex((l) => l.id === id);
+    if (idx === -1) return undefined;
+    const [letter] = this.deadLetters.splice(idx, 1);
+    this.store.saveDeadLetters(this.deadLetters);
+    return this.send(webhook, letter.event, letter.body);
+  }
+
+  findDeadLetter(id: string): WebhookDeadLetter | undefined {
+    return this.deadLetters.find((l) => l.id === id);
+  }
+
+  private async attempt(delivery: WebhookDelivery, target: Target): Promise<void> {
+    const timestamp = Math.floor(Date.now() / 1000);
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'X-BullyBuddy-Event': delivery.event,
+      'X-BullyBuddy-Delivery': delivery.id,
+      'X-BullyBuddy-Timestamp': String(timestamp),
+    };
+    if (target.secret) headers['X-BullyBuddy-Signature'] = signWebhook(target.secret, timestamp, target.body);
+
+    const started = Date.now();
+    const attempt: WebhookAttempt = { at: new Date(started).toISOString(), statusCode: null, latencyMs: 0, error: null };
+    try {
+      const res = await fetch(target.url, { method: 'POST', headers, body: target.body, signal: AbortSignal.timeout(TIMEOUT_MS) });
+      attempt.statusCode = res.status;
+      if (!res.ok) attempt.error = `HTTP ${res.status}`;
+    } catch (err) {
+      attempt.error = err instanceof Error ? err.message : String(err);
+    }
+    attempt.latencyMs = Date.now() - started;
+    delivery.attempts.push(attempt);
+
+    if (!attempt.error) {
+      delivery.status = 'delivered';
+      delivery.nextAttemptAt = null;
+      return;
+    }
+    const n = delivery.attempts.length;
+    if (retryable(attempt.statusCode) && n < MAX_ATTEMPTS) {
+      const delay = RETRY_BASE_MS * 2 ** (n - 1);
+      delivery.status = 'retrying';
+      delivery.nextAttemptAt = new Date(Date.now() + delay).toISOString();
+      console.warn(`[bb] webhook POST failed: ${attempt.error} (${delivery.event}, attempt ${n}/${MAX_ATTEMPTS}, retrying in ${delay / 1000}s)`);
+      setTimeout(() => void this.attempt(delivery, target), delay).unref();
+      return;
+    }
+    delivery.status = 'failed';
+    delivery.nextAttemptAt = null;
+    console.warn(`[bb] webhook POST failed: ${attempt.error} (${delivery.event}, giving up after ${n} attempt${n === 1 ? '' : 's'})`);
+    this.deadLetters.push({ ...delivery, attempts: [...delivery.attempts], url: target.url, body: target.body });
+    if (this.deadLetters.length > MAX_DEAD_LETTERS) this.deadLetters.splice(0, this.deadLetters.length - MAX_DEAD_LETTERS);
+    this.store.saveDeadLetters(this.deadLetters);
+  }
+}
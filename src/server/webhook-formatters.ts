@@ -0,0 +1,125 @@
+// Webhook formatters: render a WebhookPayload as a chat message.
+//
+//   json     the payload itself (or the subscription's template)
+//   slack    Slack incoming webhook: a colored attachment with Block Kit sections
+//   discord  Discord webhook: one embed
+//
+// Both chat formats show the session name, group, state, task and working
+// time. Slack and Discord webhook URLs each post to one channel, so groups
+// are routed to channels with one subscription per channel and its `groups`.
+
+import type { WebhookFormat } from './types.js';
+import type { WebhookPayload } from './webhook.js';
+
+export const WEBHOOK_FORMATS: readonly WebhookFormat[] = ['json', 'slack', 'discord'];
+
+const COLORS = {
+  danger: 0xe01e5a,
+  warning: 0xecb22e,
+  good: 0x2eb67d,
+  info: 0x1d9bd1,
+  neutral: 0x9e9e9e,
+};
+
+/** "1h 5m", "3m 20s", "45s" */
+export function formatDuration(ms: number): string {
+  const s = Math.round(ms / 1000);
+  if (s < 60) return `${s}s`;
+  const m = Math.floor(s / 60);
+  if (m < 60) return `${m}m ${s % 60}s`;
+  return `${Math.floor(m / 60)}h ${m % 60}m`;
+}
+
+function color(event: string): number {
+  if (event === 'state:error' || event === 'task:interrupted') return COLORS.danger;
+  if (event === 'session:exited') return COLORS.neutral;
+  if (event === 'state:permission_needed' || event === 'state:long_idle' || event.startsWith('alert:')) return COLORS.warning;
+  if (event === 'task:done' || event === 'session:created' || event === 'session:restarted') return COLORS.good;
+  return COLORS.info;
+}
+
+/** What happened, as a sentence fragment after the session name. */
+export function headline(p: WebhookPayload): string {
+  switch (p.event) {
+    case 'state:permission_needed': {
+      const perm = p.pendingPermission;
+      const what = perm ? [perm.tool, perm.command ?? perm.filePath].filter(Boolean).join(': ') : '';
+      return what ? `needs permission — ${what}` : 'needs permission';
+    }
+    case 'state:error': return 'hit an error';
+    case 'state:long_idle': return `has been idle for ${formatDuration(p.idleSinceMs ?? 0)}`;
+    case 'session:created': return 'was spawned';
+    case 'session:restarted': return 'was restarted';
+    case 'session:exited': return p.exitCode === null || p.exitCode === undefined ? 'exited' : `exited (code ${p.exitCode})`;
+    case 'task:started': return 'started a task';
+    case 'task:done': return 'finished a task';
+    case 'task:interrupted': return 'was interrupted mid-task';
+    case 'alert:stuck': return `looks stuck — working for ${formatDuration(p.alert?.value ?? 0)} with no new output`;
+    case 'alert:permission_timeout': return `has waited ${formatDuration(p.alert?.value ?? 0)} for a permission answer`;
+    case 'alert:compactions': return `has compacted ${p.alert?.value ?? p.compactionCount} times`;
+  }
+  if (p.event.startsWith('state:')) return `is ${p.event.slice('state:'.length)}`;
+  if (p.audit) {
+    const by = p.audit.actor ? ` by ${p.audit.actor}` : '';
+    return `${p.audit.action}${by}${p.audit.result === 'error' ? ' (failed)' : ''}${p.audit.summary ? `: ${p.audit.summary}` : ''}`;
+  }
+  return p.event;
+}
+
+function fields(p: WebhookPayload): { name: string; value: string }[] {
+  const result: { name: string; value: string }[] = [];
+  if (p.group) result.push({ name: 'Group', value: p.group });
+  if (p.state) result.push({ name: 'State', value: p.state });
+  if (p.task) result.push({ name: 'Task', value: p.task.length > 300 ? `${p.task.slice(0, 299)}…` : p.task });
+  if (p.totalWorkingMs) result.push({ name: 'Working time', value: formatDuration(p.totalWorkingMs) });
+  return result;
+}
+
+function slackEscape(s: string): string {
+  return s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/** A Slack incoming-webhook message. */
+export function formatSlack(p: WebhookPayload): unknown {
+  const subject = p.sessionName ?? (p.audit ? 'BullyBuddy' : 'A session');
+  const text = `${subject} ${headline(p)}`;
+  const footer = [p.sessionId && `session ${p.sessionId}`, p.event].filter(Boolean).join(' · ');
+  const f = fields(p);
+  return {
+    text: slackEscape(text),
+    attachments: [{
+      color: `#${color(p.event).toString(16).padStart(6, '0')}`,
+      blocks: [
+        { type: 'section', text: { type: 'mrkdwn', text: `*${slackEscape(subject)}* ${slackEscape(headline(p))}` } },
+        ...(f.length > 0 ? [{
+          type: 'section',
+          fields: f.map(({ name, value }) => ({ type: 'mrkdwn', text: `*${name}*\n${slackEscape(value)}` })),
+        }] : []),
+        { type: 'context', elements: [{ type: 'mrkdwn', text: slackEscape(footer) }] },
+      ],
+    }],
+  };
+}
+
+/** A Discord webhook message. */
+export function formatDiscord(p: WebhookPayload): unknown {
+  const subject = p.sessionName ?? (p.audit ? 'BullyBuddy' : 'A session');
+  return {
+    embeds: [{
+      title: `${subject} ${headline(p)}`.slice(0, 256),
+      color: color(p.event),
+      fields: fields(p).map((f) => ({ ...f, inline: f.name !== 'Task' })),
+      footer: { text: [p.sessionId && `session ${p.sessionId}`, p.event].filter(Boolean).join(' · ') },
+      timestamp: p.timestamp,
+    }],
+  };
+}
+
+/** The request body for `format`. */
+export function formatPayload(format: WebhookFormat, p: WebhookPayload): unknown {
+  switch (format) {
+    case 'slack': return formatSlack(p);
+    case 'discord': return formatDiscord(p);
+    default: return p;
+  }
+}
@@ -0,0 +1,76 @@
+// Webhook store: persists webhook subscriptions and the dead-letter queue
+// (deliveries that ran out of retries) across server restarts.
+//
+// FileWebhookStore keeps them in ~/.bullybuddy/webhooks.json and
+// ~/.bullybuddy/webhook-dlq.json (mode 0600 — webhook URLs often embed a
+// secret, as Slack's do, and subscriptions hold signing secrets).
+
+import { mkdirSync, readFileSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { homedir } from 'os';
+import type { WebhookDeadLetter, WebhookStore, WebhookSubscription } from './types.js';
+
+export const WEBHOOKS_FILE = join(homedir(), '.bullybuddy', 'webhooks.json');
+export const WEBHOOK_DLQ_FILE = join(homedir(), '.bullybuddy', 'webhook-dlq.json');
+
+export class FileWebhookStore implements WebhookStore {
+  constructor(private file: string = WEBHOOKS_FILE, private deadLetterFile: string = WEBHOOK_DLQ_FILE) {
+    try { mkdirSync(dirname(file), { recursive: true, mode: 0o700 }); } catch { /* ignore */ }
+  }
+
+  load(): WebhookSubscription[] {
+    try {
+      const webhooks = JSON.parse(readFileSync(this.file, 'utf-8'));
+      return Array.isArray(webhooks) ? webhooks.filter((w) => w && typeof w.url === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  save(webhooks: WebhookSubscription[]): void {
+    try {
+      writeFileSync(this.file, JSON.stringify(webhooks, null, 2), { mode: 0o600 });
+    } catch (err) {
+      console.warn(`[bb] could not save webhooks: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+
+  loadDeadLetters(): WebhookDeadLetter[] {
+    try {
+      const letters = JSON.parse(readFileSync(this.deadLetterFile, 'utf-8'));
+      return Array.isArray(letters) ? letters.filter((l) => l && typeof l.body === 'string') : [];
+    } catch {
+      return [];
+    }
+  }
+
+  saveDeadLetters(letters: WebhookDeadLetter[]): void {
+    try {
+      writeFileSync(this.deadLetterFile, JSON.stringify(letters), { mode: 0o600 });
+    } catch (err) {
+      console.warn(`[bb] could not save webhook dead letters: ${err instanceof Error ? err.message : err}`);
+    }
+  }
+}
+
+/** Non-persistent store — for tests. */
+export class MemoryWebhookStore implements WebhookStore {
+  private raw = '[]';
+  private deadLetters = '[]';
+
+  load(): WebhookSubscription[] {
+    return JSON.parse(this.raw) as WebhookSubscription[];
+  }
+
+  save(webhooks: WebhookSubscription[]): void {
+    this.raw = JSON.stringify(webhooks);
+  }
+
+  loadDeadLetters(): WebhookDeadLetter[] {
+    return JSON.parse(this.deadLetters) as WebhookDeadLetter[];
+  }
+
+  saveDeadLetters(letters: WebhookDeadLetter[]): void {
+    this.deadLetters = JSON.stringify(letters);
+  }
+}
@@ -1,148 +1,414 @@
-// Webhook notifier: sends state change events to an external URL (e.g., OpenClaw).
+// Webhooks: send session events to external URLs (e.g., OpenClaw).
 //
-// Configure via BB_OPENCLAW_WEBHOOK_URL env var.
-// Only fires for notable events: permission_needed, error, exit, long idle.
+// Subscriptions are managed through /api/webhooks and kept in
+// ~/.bullybuddy/webhooks.json. Each one picks its events, optionally limits
+// them to some groups, and shapes the body with a JSON template or as a
+// Slack or Discord message (see webhook-formatters.ts).
+// BB_OPENCLAW_WEBHOOK_URL adds a fixed subscription ("env") to the default
+// events: permission_needed, error, exit, long idle, signed with
+// BB_OPENCLAW_WEBHOOK_SECRET when set. Requests are signed, retried and
+// logged by WebhookDeliveries (see webhook-delivery.ts).
+//
+// Events:
+//
+//   state:<detailedState>   any state transition (state:working, state:error, ...)
+//   state:long_idle         idle for a while after working
+//   alert:stuck             working with no new output for a while
+//   alert:permission_timeout   a permission prompt left unanswered for a while
+//   alert:compactions       compacted more than the limit
+//   session:created         spawned
+//   session:restarted       respawned under the same id
+//   session:exited          exited or killed
+//   task:started, task:done, task:interrupted   queued tasks
+//   audit:<action>          any audit log entry, e.g. audit:session:kill
+//
+// How long "a while" is, and the compaction limit, is set per group in the
+// thresholds file (see thresholds.ts); the session managers detect them
+// (session-watchdog.ts).
+//
+// A muted session (SessionInfo.mute, set with POST /api/sessions/:id/mute)
+// sends nothing, or only leaves out some events, until it is unmuted or the
+// mute's `until` passes.
+//
+// Payloads carry metadata only — never terminal output.
 
-import type { ISessionManager, DetailedState, SessionInfo } from './types.js';
+import { randomBytes } from 'crypto';
+import type {
+  ISessionManager, DetailedState, SessionInfo, SessionTask, TaskStatus, PendingPermission,
+  AuditEntry, ApiMuteRequest, SessionAlert, SessionMute, WebhookDelivery, WebhookFormat, WebhookStore, WebhookSubscription,
+} from './types.js';
+import { auditEvents } from './audit-log.js';
+import { MemoryWebhookStore } from './webhook-store.js';
+import { WebhookDeliveries } from './webhook-delivery.js';
+import { WEBHOOK_FORMATS, formatPayload } from './webhook-formatters.js';
+import { ALERT_EVENTS } from './session-watchdog.js';
 
 const WEBHOOK_URL = process.env.BB_OPENCLAW_WEBHOOK_URL ?? '';
-const IDLE_ALERT_MS = 60_000; // Alert after 60s idle following activity
+const WEBHOOK_SECRET = process.env.BB_OPENCLAW_WEBHOOK_SECRET ?? '';
+const MAX_WEBHOOKS = 50;
+const MAX_TEMPLATE_SIZE = 10_000;
+const EVENT_RE = /^[\w:*-]{1,100}$/;
+const MAX_MUTE_SECONDS = 365 * 24 * 60 * 60;
 
-interface WebhookPayload {
+/** Events a subscription gets when it doesn't name any */
+export const DEFAULT_WEBHOOK_EVENTS = ['state:permission_needed', 'state:error', 'state:long_idle', 'session:exited'];
+/** Id of the subscription configured by BB_OPENCLAW_WEBHOOK_URL */
+export const ENV_WEBHOOK_ID = 'env';
+
+export interface WebhookPayload {
   event: string;
-  sessionId: string;
-  sessionName: string;
-  group: string;
-  state: DetailedState | 'exited';
+  sessionId?: string;
+  sessionName?: string;
+  group?: string;
+  state?: DetailedState | 'exited';
+  /** State events: the state the session left */
+  previousState?: DetailedState;
   exitCode?: number | null;
   timestamp: string;
   task?: string | null;
+  /** Task events: the queued task's id */
+  taskId?: string;
   totalWorkingMs?: number;
   compactionCount?: number;
   idleSinceMs?: number;
+  /** Alert events (and state:long_idle): the threshold crossed */
+  alert?: SessionAlert;
+  /** What a permission_needed session is asking, when the prompt could be read */
+  pendingPermission?: PendingPermission | null;
+  /** Audit events: the entry as logged */
+  audit?: AuditEntry;
+}
+
+const TASK_EVENTS: Partial<Record<TaskStatus, string>> = {
+  running: 'task:started',
+  done: 'task:done',
+  interrupted: 'task:interrupted',
+};
+
+function globMatch(pattern: string, value: string): boolean {
+  const source = pattern.split('*').map((part) => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+  return new RegExp(`^${source}$`).test(value);
 }
 
-// Sessions with muted notifications
-const mutedSessions = new Set<string>();
+/** Whether the session's mute (SessionInfo.mute) covers `event` right now. */
+export function isMuted(info: SessionInfo | undefined, event: string, now = Date.now()): boolean {
+  const mute = info?.mute;
+  if (!mute) return false;
+  if (mute.until !== null && new Date(mute.until).getTime() <= now) return false;
+  return mute.events === null || mute.events.some((p) => globMatch(p, event));
+}
+
+/** Validate a mute request into a SessionMute. Throws on invalid fields. */
+export function parseMute(raw: unknown, now = Date.now()): SessionMute {
+  const r = (raw ?? {}) as ApiMuteRequest;
+  if (r.for !== undefined && (typeof r.for !== 'number' || !(r.for > 0) || r.for > MAX_MUTE_SECONDS)) {
+    throw new Error(`for must be a number of seconds, up to ${MAX_MUTE_SECONDS}`);
+  }
+  if (r.events !== undefined && r.events !== null && (!isStringList(r.events) || !r.events.every((e) => EVENT_RE.test(e)))) {
+    throw new Error('events must be a non-empty list of event names, e.g. "state:*" or "task:done", or null for all');
+  }
+  return {
+    until: r.for === undefined ? null : new Date(now + r.for * 1000).toISOString(),
+    events: r.events ?? null,
+  };
+}
 
-// Track sessions that were recently active (to detect idle-after-work)
-const wasActive = new Set<string>();
-const idleTimers = new Map<string, ReturnType<typeof setTimeout>>();
+/** Clear mutes when their `until` passes. Returns a function that stops watching. */
+export function expireMutes(sessions: ISessionManager): () => void {
+  const timers = new Map<string, ReturnType<typeof setTimeout>>();
+  const schedule = (sessionId: string, mute: SessionMute | null | undefined) => {
+    clearTimeout(timers.get(sessionId));
+    timers.delete(sessionId);
+    const until = mute?.until;
+    if (!until) return;
+    // setTimeout fires at once past 2^31-1 ms (~24.8 days); re-check until then
+    const delay = Math.min(Math.max(0, new Date(until).getTime() - Date.now()), 2 ** 31 - 1);
+    timers.set(sessionId, setTimeout(() => {
+      timers.delete(sessionId);
+      const current = sessions.getInfo(sessionId)?.mute;
+      if (current?.until !== until) return;
+      if (new Date(until).getTime() <= Date.now()) sessions.setMute(sessionId, null);
+      else schedule(sessionId, current);
+    }, delay).unref());
+  };
+  const onMute = (sessionId: string, mute: SessionMute | null) => schedule(sessionId, mute);
 
-async function postWebhook(payload: WebhookPayload): Promise<void> {
-  if (!WEBHOOK_URL) return;
+  for (const info of sessions.list()) schedule(info.id, info.mute);
+  sessions.on('mute', onMute);
+  return () => {
+    sessions.off('mute', onMute);
+    for (const t of timers.values()) clearTimeout(t);
+    timers.clear();
+  };
+}
+
+function lookup(payload: WebhookPayload, path: string): unknown {
+  let value: unknown = payload;
+  for (const key of path.split('.')) {
+    if (!value || typeof value !== 'object') return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
 
-  try {
-    await fetch(WEBHOOK_URL, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify(payload),
-      signal: AbortSignal.timeout(5000),
+/**
+ * Fill a template's {{path}} placeholders from the payload, e.g.
+ * `{ "text": "{{sessionName}} needs you: {{pendingPermission.command}}" }`.
+ * A string that is just one placeholder takes the value as is (number,
+ * object, null); elsewhere values are inserted as text.
+ */
+export function renderTemplate(template: unknown, payload: WebhookPayload): unknown {
+  if (typeof template === 'string') {
+    const whole = /^\{\{\s*([\w.]+)\s*\}\}$/.exec(template);
+    if (whole) return lookup(payload, whole[1]) ?? null;
+    return template.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+      const value = lookup(payload, path);
+      if (value === undefined || value === null) return '';
+      return typeof value === 'object' ? JSON.stringify(value) : String(value);
     });
-  } catch (err) {
-    console.warn(`[bb] webhook POST failed: ${err instanceof Error ? err.message : err}`);
   }
+  if (Array.isArray(template)) return template.map((t) => renderTemplate(t, payload));
+  if (template && typeof template === 'object') {
+    return Object.fromEntries(Object.entries(template).map(([k, v]) => [k, renderTemplate(v, payload)]));
+  }
+  return template;
 }
 
-export function muteSession(sessionId: string): void {
-  mutedSessions.add(sessionId);
+function isStringList(v: unknown): v is string[] {
+  return Array.isArray(v) && v.length > 0 && v.every((x) => typeof x === 'string' && x.length > 0);
 }
 
-export function unmuteSession(sessionId: string): void {
-  mutedSessions.delete(sessionId);
+/** Validate a create/update request on top of `base`. Throws on invalid fields. */
+function normalize(raw: unknown, base?: WebhookSubscription): Omit<WebhookSubscription, 'id' | 'createdAt' | 'secret'> & { secret?: string } {
+  if (!raw || typeof raw !== 'object') throw new Error('Webhook request must be an object');
+  const r = raw as Record<string, unknown>;
+
+  const url = r.url ?? base?.url;
+  let parsed: URL | null = null;
+  try { parsed = new URL(String(url)); } catch { /* invalid */ }
+  if (typeof url !== 'string' || !parsed || (parsed.protocol !== 'http:' && parsed.protocol !== 'https:')) {
+    throw new Error('url must be an http(s) URL');
+  }
+
+  const events = r.events ?? base?.events ?? DEFAULT_WEBHOOK_EVENTS;
+  if (!isStringList(events) || !events.every((e) => EVENT_RE.test(e))) {
+    throw new Error('events must be a non-empty list of event names, e.g. "state:*" or "session:exited"');
+  }
+
+  const groups = r.groups === undefined ? (base?.groups ?? null) : r.groups;
+  if (groups !== null && !isStringList(groups)) {
+    throw new Error('groups must be a non-empty list of group names, or null for all groups');
+  }
+
+  const format = r.format ?? base?.format ?? 'json';
+  if (!WEBHOOK_FORMATS.includes(format as WebhookFormat)) {
+    throw new Error(`format must be one of: ${WEBHOOK_FORMATS.join(', ')}`);
+  }
+
+  const template = r.template === undefined ? (base?.template ?? null) : r.template;
+  if (template !== null && typeof template !== 'object' && typeof template !== 'string') {
+    throw new Error('template must be a JSON object, array or string, or null');
+  }
+  if (template !== null && JSON.stringify(template).length > MAX_TEMPLATE_SIZE) {
+    throw new Error(`template is too large (max ${MAX_TEMPLATE_SIZE} characters)`);
+  }
+  if (template !== null && format !== 'json') throw new Error(`template only applies to the json format, not ${format}`);
+
+  if (r.secret !== undefined && (typeof r.secret !== 'string' || r.secret.length < 16 || r.secret.length > 256)) {
+    throw new Error('secret must be 16-256 characters');
+  }
+
+  return {
+    url,
+    events: [...new Set(events)],
+    groups: groups && [...new Set(groups)],
+    format: format as WebhookFormat,
+    template,
+    ...(r.secret !== undefined && { secret: r.secret as string }),
+  };
 }
 
-export function isMuted(sessionId: string): boolean {
-  return mutedSessions.has(sessionId);
+/** Webhook subscriptions: CRUD plus lookup of the ones an event goes to. */
+export class WebhookManager {
+  readonly deliveries: WebhookDeliveries;
+  private webhooks: WebhookSubscription[];
+  private envWebhook: WebhookSubscription | null;
+
+  constructor(private store: WebhookStore = new MemoryWebhookStore(), envUrl: string = WEBHOOK_URL, envSecret: string = WEBHOOK_SECRET) {
+    this.deliveries = new WebhookDeliveries(store);
+    // Subscriptions saved before a field existed get its default
+    this.webhooks = store.load().map((w) => ({ ...w, format: w.format ?? 'json', secret: w.secret ?? null }));
+    this.envWebhook = envUrl
+      ? { id: ENV_WEBHOOK_ID, url: envUrl, events: DEFAULT_WEBHOOK_EVENTS, groups: null, format: 'json', template: null, secret: envSecret || null, createdAt: new Date().toISOString() }
+      : null;
+  }
+
+  list(): WebhookSubscription[] {
+    return this.envWebhook ? [this.envWebhook, ...this.webhooks] : [...this.webhooks];
+  }
+
+  get(id: string): WebhookSubscription | undefined {
+    return this.list().find((w) => w.id === id);
+  }
+
+  /** Subscriptions that want `event` — from a session in `group`, when given. */
+  matching(event: string, group?: string): WebhookSubscription[] {
+    return this.list().filter((w) =>
+      w.events.some((pattern) => globMatch(pattern, event))
+      && (w.groups === null || (group !== undefined && w.groups.includes(group))));
+  }
+
+  /** Add a subscription. Throws on invalid input. */
+  create(raw: unknown): WebhookSubscription {
+    const fields = normalize(raw);
+    if (this.webhooks.length >= MAX_WEBHOOKS) throw new Error(`Too many webhooks (max ${MAX_WEBHOOKS})`);
+    const webhook: WebhookSubscription = {
+      id: randomBytes(4).toString('hex'),
+      secret: `whsec_${randomBytes(24).toString('base64url')}`,
+      ...fields,
+      createdAt: new Date().toISOString(),
+    };
+    this.webhooks.push(webhook);
+    this.store.save(this.webhooks);
+    return webhook;
+  }
+
+  /** Change some fields of a subscription. Undefined if there is no such one; throws on invalid input. */
+  update(id: string, raw: unknown): WebhookSubscription | undefined {
+    this.assertEditable(id);
+    const idx = this.webhooks.findIndex((w) => w.id === id);
+    if (idx === -1) return undefined;
+    const updated = { ...this.webhooks[idx], ...normalize(raw, this.webhooks[idx]) };
+    this.webhooks[idx] = updated;
+    this.store.save(this.webhooks);
+    return updated;
+  }
+
+  /** Delete a subscription. Undefined if there is no such one. */
+  remove(id: string): WebhookSubscription | undefined {
+    this.assertEditable(id);
+    const idx = this.webhooks.findIndex((w) => w.id === id);
+    if (idx === -1) return undefined;
+    const [removed] = this.webhooks.splice(idx, 1);
+    this.store.save(this.webhooks);
+    return removed;
+  }
+
+  /**
+   * Send a dead letter again, to its webhook's current URL. Undefined if
+   * there is no such dead letter; throws if its webhook has been removed.
+   */
+  redeliver(deadLetterId: string): WebhookDelivery | undefined {
+    const letter = this.deliveries.findDeadLetter(deadLetterId);
+    if (!letter) return undefined;
+    const webhook = this.get(letter.webhookId);
+    if (!webhook) throw new Error(`Webhook ${letter.webhookId} no longer exists`);
+    return this.deliveries.redeliver(deadLetterId, webhook);
+  }
+
+  private assertEditable(id: string): void {
+    if (id === ENV_WEBHOOK_ID && this.envWebhook) {
+      throw new Error('This webhook is configured by BB_OPENCLAW_WEBHOOK_URL');
+    }
+  }
 }
 
-export function setupWebhook(sessions: ISessionManager): void {
-  if (!WEBHOOK_URL) return;
+function sessionPayload(event: string, info: SessionInfo): WebhookPayload {
+  return {
+    event,
+    sessionId: info.id,
+    sessionName: info.name,
+    group: info.group,
+    state: info.detailedState,
+    timestamp: new Date().toISOString(),
+    task: info.task,
+    totalWorkingMs: info.totalWorkingMs,
+    compactionCount: info.compactionCount,
+  };
+}
+
+/** Send session and audit events to matching webhooks. Returns a function that stops listening to the audit log. */
+export function setupWebhook(sessions: ISessionManager, webhooks = new WebhookManager()): () => void {
+  const envWebhook = webhooks.get(ENV_WEBHOOK_ID);
+  if (envWebhook) console.log(`[bb] webhook: ${envWebhook.url}`);
+  const stored = webhooks.list().length - (envWebhook ? 1 : 0);
+  if (stored > 0) console.log(`[bb] webhooks: ${stored} subscription${stored === 1 ? '' : 's'}`);
 
-  console.log(`[bb] webhook: ${WEBHOOK_URL}`);
+  // Last task statuses seen per session, to spot transitions
+  const taskStatuses = new Map<string, Map<string, TaskStatus>>();
 
-  sessions.on('stateChange', (sessionId: string, state: DetailedState, _prev: DetailedState) => {
-    if (mutedSessions.has(sessionId)) return;
+  const dispatch = (payload: WebhookPayload) => {
+    if (payload.sessionId && isMuted(sessions.getInfo(payload.sessionId), payload.event)) return;
+    for (const w of webhooks.matching(payload.event, payload.group)) {
+      const body = w.template === null ? formatPayload(w.format, payload) : renderTemplate(w.template, payload);
+      webhooks.deliveries.send(w, payload.event, JSON.stringify(body));
+    }
+  };
 
+  sessions.on('stateChange', (sessionId: string, state: DetailedState, prev: DetailedState) => {
     const info = sessions.getInfo(sessionId);
     if (!info) return;
+    dispatch({
+      ...sessionPayload(`state:${state}`, info),
+      state,
+      previousState: prev,
+      ...(state === 'permission_needed' && { pendingPermission: info.pendingPermission ?? null }),
+    });
+  });
 
-    // Clear any pending idle timer
-    const existing = idleTimers.get(sessionId);
-    if (existing) {
-      clearTimeout(existing);
-      idleTimers.delete(sessionId);
-    }
+  for (const [kind, name] of Object.entries(ALERT_EVENTS)) {
+    sessions.on(name, (sessionId: string, alert: SessionAlert) => {
+      const info = sessions.getInfo(sessionId);
+      if (!info) return;
+      if (kind === 'long_idle') {
+        dispatch({ ...sessionPayload('state:long_idle', info), idleSinceMs: alert.value, alert });
+      } else {
+        dispatch({ ...sessionPayload(`alert:${kind}`, info), alert });
+      }
+    });
+  }
 
-    if (state === 'working') {
-      wasActive.add(sessionId);
-    }
+  sessions.on('created', (info: SessionInfo) => {
+    dispatch(sessionPayload('session:created', info));
+  });
 
-    // Fire webhook for notable states (metadata only — no terminal output)
-    if (state === 'permission_needed' || state === 'error') {
-      const freshInfo = sessions.getInfo(sessionId);
-      postWebhook({
-        event: `state:${state}`,
-        sessionId,
-        sessionName: info.name,
-        group: info.group,
-        state,
-        timestamp: new Date().toISOString(),
-        task: freshInfo?.task,
-        totalWorkingMs: freshInfo?.totalWorkingMs,
-        compactionCount: freshInfo?.compactionCount,
-      });
-    }
+  sessions.on('restarted', (info: SessionInfo) => {
+    dispatch(sessionPayload('session:restarted', info));
+  });
 
-    // Set up idle-after-activity alert
-    if (state === 'idle' && wasActive.has(sessionId)) {
-      wasActive.delete(sessionId);
-      const timer = setTimeout(() => {
-        idleTimers.delete(sessionId);
-        if (mutedSessions.has(sessionId)) return;
-        const currentInfo = sessions.getInfo(sessionId);
-        if (!currentInfo || currentInfo.status !== 'running') return;
-
-        const idleSinceMs = Date.now() - new Date(currentInfo.lastActivityAt).getTime();
-        postWebhook({
-          event: 'state:long_idle',
-          sessionId,
-          sessionName: currentInfo.name,
-          group: currentInfo.group,
-          state: 'idle',
-          timestamp: new Date().toISOString(),
-          task: currentInfo.task,
-          totalWorkingMs: currentInfo.totalWorkingMs,
-          compactionCount: currentInfo.compactionCount,
-          idleSinceMs,
-        });
-      }, IDLE_ALERT_MS);
-      idleTimers.set(sessionId, timer);
+  sessions.on('tasks', (sessionId: string, tasks: SessionTask[]) => {
+    const seen = taskStatuses.get(sessionId);
+    const info = sessions.getInfo(sessionId);
+    if (info) taskStatuses.set(sessionId, new Map(tasks.map((t) => [t.id, t.status])));
+    else taskStatuses.delete(sessionId);
+    for (const t of tasks) {
+      const prev = seen?.get(t.id);
+      const event = TASK_EVENTS[t.status];
+      // A task first seen already finished was reported before (e.g. ahead of a restart)
+      if (!info || !event || prev === t.status || (prev === undefined && t.status !== 'running')) continue;
+      dispatch({ ...sessionPayload(event, info), task: t.text, taskId: t.id });
     }
   });
 
   sessions.on('exit', (sessionId: string, exitCode: number | null) => {
-    // Clean up timers
-    wasActive.delete(sessionId);
-    const t = idleTimers.get(sessionId);
-    if (t) { clearTimeout(t); idleTimers.delete(sessionId); }
-    mutedSessions.delete(sessionId);
-
     // getInfo works here because the 'exit' event fires before kill() removes the session
     const info = sessions.getInfo(sessionId);
     if (!info) return;
 
-    postWebhook({
-      event: 'session:exited',
-      sessionId,
-      sessionName: info.name,
-      group: info.group,
-      state: 'exited',
-      exitCode,
-      timestamp: new Date().toISOString(),
-      task: info.task,
-      totalWorkingMs: info.totalWorkingMs,
-      compactionCount: info.compactionCount,
-    });
+    dispatch({ ...sessionPayload('session:exited', info), state: 'exited', exitCode });
   });
+
+  const onAudit = (entry: AuditEntry) => {
+    const info = entry.sessionId ? sessions.getInfo(entry.sessionId) : undefined;
+    dispatch({
+      event: `audit:${entry.action}`,
+      sessionId: entry.sessionId,
+      sessionName: info?.name,
+      group: info?.group,
+      timestamp: entry.timestamp,
+      audit: entry,
+    });
+  };
+  auditEvents.on('entry', onAudit);
+  return () => { auditEvents.off('entry', onAudit); };
 }
@@ -1,19 +1,23 @@
 import { WebSocketServer, WebSocket } from 'ws';
 import type { IncomingMessage } from 'http';
 import type { Server } from 'http';
-import { timingSafeEqual } from 'crypto';
-import type { ISessionManager, DetailedState, WsClientMessage, WsServerMessage } from './types.js';
+import type { ISessionManager, AuthPrincipal, DetailedState, SessionTask, SessionMute, SessionAlert, PoolTask, PendingPermission, TunnelStatus, WsClientMessage, WsServerMessage } from './types.js';
 import { auditLog } from './audit-log.js';
-
-function safeTokenCompare(a: string, b: string): boolean {
-  if (a.length !== b.length) return false;
-  return timingSafeEqual(Buffer.from(a), Buffer.from(b));
-}
+import { ALERT_EVENTS } from './session-watchdog.js';
+import type { GroupPool } from './group-pool.js';
+import type { TunnelManager } from './tunnel.js';
+import { AuthManager, can } from './auth.js';
+import { MAX_SCROLLBACK_READ_BYTES } from './scrollback.js';
 
 interface ClientState {
   ws: WebSocket;
   subscriptions: Set<string>;
   ip: string;
+  principal: AuthPrincipal;
+  /** The token the client connected with, re-checked when tokens change */
+  token: string;
+  /** Closes the connection when a share link expires */
+  expiryTimer: ReturnType<typeof setTimeout> | null;
 }
 
 const MAX_CLIENTS = 50;
@@ -23,10 +27,13 @@ const MAX_WS_BUFFER_BYTES = 4 * 1024 * 1024; // 4MB — drop output if client ca
 export class WsBridge {
   private wss: WebSocketServer;
   private clients = new Set<ClientState>();
-  private outputBuffers = new Map<string, string>();
+  // Pending output per session; offset is the scrollback offset just past `data`
+  private outputBuffers = new Map<string, { data: string; offset: number }>();
   private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  /** Last known group per session, for events about sessions that are already gone */
+  private sessionGroups = new Map<string, string>();
 
-  constructor(server: Server, private sessions: ISessionManager, private authToken: string) {
+  constructor(server: Server, private sessions: ISessionManager, private auth: AuthManager, pool?: GroupPool, tunnel?: TunnelManager) {
     this.wss = new WebSocketServer({ noServer: true });
 
     server.on('upgrade', (req: IncomingMessage, socket, head) => {
@@ -36,87 +43,158 @@ export class WsBridge {
         return;
       }
 
-      // Validate auth token from query parameter
+      // Validate auth token from query parameter; watching anything needs read
       const token = url.searchParams.get('token');
-      if (!token || !safeTokenCompare(token, this.authToken)) {
-        socket.write('HTTP/1.1 401 Unauthorized\r\n\r\n');
+      const principal = this.auth.authenticate(token);
+      if (!principal || !can(principal, 'read', undefined, principal.sessionId ?? undefined)) {
+        socket.write(`HTTP/1.1 ${principal ? '403 Forbidden' : '401 Unauthorized'}\r\n\r\n`);
         socket.destroy();
         return;
       }
 
       this.wss.handleUpgrade(req, socket, head, (ws: WebSocket) => {
-        this.wss.emit('connection', ws, req);
+        this.wss.emit('connection', ws, req, principal, token);
       });
     });
 
-    this.wss.on('connection', (ws: WebSocket, req: IncomingMessage) => {
+    this.wss.on('connection', (ws: WebSocket, req: IncomingMessage, principal: AuthPrincipal, token: string) => {
       if (this.clients.size >= MAX_CLIENTS) {
         ws.close(1013, 'Too many connections');
         return;
       }
       const ip = req.socket.remoteAddress ?? 'unknown';
-      const client: ClientState = { ws, subscriptions: new Set(), ip };
+      const client: ClientState = { ws, subscriptions: new Set(), ip, principal, token, expiryTimer: null };
       this.clients.add(client);
+      if (principal.expiresAt !== undefined) {
+        client.expiryTimer = setTimeout(() => this.disconnect(client), Math.max(0, principal.expiresAt - Date.now()));
+      }
 
       // Send current session list
-      this.send(ws, { type: 'sessions', sessions: sessions.list() });
+      const visible = sessions.list().filter((s) => can(principal, 'read', s.group, s.id));
+      this.send(ws, { type: 'sessions', sessions: visible });
+      if (tunnel && principal.sessionId === null) this.send(ws, { type: 'tunnel', tunnel: tunnel.getStatus() });
 
       ws.on('message', (raw) => {
         try {
           const msg = JSON.parse(raw.toString()) as WsClientMessage;
-          this.handleMessage(client, msg);
+          this.handleMessage(client, msg).catch((err) => {
+            console.warn(`[bb] ws ${msg.type} failed: ${err instanceof Error ? err.message : err}`);
+          });
         } catch {
           this.send(ws, { type: 'error', message: 'Invalid message' });
         }
       });
 
       ws.on('close', () => {
+        if (client.expiryTimer) clearTimeout(client.expiryTimer);
         this.clients.delete(client);
       });
     });
 
+    // Rotated-out master tokens and revoked tokens lose their open connections
+    auth.on('change', this.disconnectExpired);
+
     // Batch PTY output — coalesce rapid chunks into fewer WS messages (16ms window)
-    sessions.on('output', (sessionId: string, data: string) => {
-      const cur = this.outputBuffers.get(sessionId) ?? '';
-      this.outputBuffers.set(sessionId, cur + data);
+    sessions.on('output', (sessionId: string, data: string, offset: number) => {
+      const cur = this.outputBuffers.get(sessionId);
+      this.outputBuffers.set(sessionId, { data: (cur?.data ?? '') + data, offset });
       if (!this.flushTimer) {
         this.flushTimer = setTimeout(() => this.flushOutputBuffers(), 16);
       }
     });
 
     sessions.on('created', (session) => {
-      this.broadcast({ type: 'session:created', session });
+      this.broadcast({ type: 'session:created', session }, session.group, session.id);
+    });
+
+    sessions.on('restarted', (session) => {
+      this.broadcast({ type: 'session:restarted', session }, session.group, session.id);
     });
 
     sessions.on('exit', (sessionId: string, exitCode: number | null) => {
-      this.broadcast({ type: 'session:exited', sessionId, exitCode });
+      this.broadcast({ type: 'session:exited', sessionId, exitCode }, this.groupOf(sessionId), sessionId);
+      this.sessionGroups.delete(sessionId);
     });
 
     sessions.on('stateChange', (sessionId: string, detailedState: DetailedState) => {
-      this.broadcast({ type: 'session:stateChanged', sessionId, detailedState });
+      this.broadcast({ type: 'session:stateChanged', sessionId, detailedState }, this.groupOf(sessionId), sessionId);
+    });
+
+    sessions.on('permission', (sessionId: string, pendingPermission: PendingPermission | null) => {
+      this.broadcast({ type: 'session:permission', sessionId, pendingPermission }, this.groupOf(sessionId), sessionId);
+    });
+
+    sessions.on('mute', (sessionId: string, mute: SessionMute | null) => {
+      this.broadcast({ type: 'session:muted', sessionId, mute }, this.groupOf(sessionId), sessionId);
+    });
+
+    sessions.on('tasks', (sessionId: string, tasks: SessionTask[]) => {
+      this.broadcast({ type: 'session:tasks', sessionId, tasks }, this.groupOf(sessionId), sessionId);
+    });
+
+    for (const name of Object.values(ALERT_EVENTS)) {
+      sessions.on(name, (sessionId: string, alert: SessionAlert) => {
+        this.broadcast({ type: 'session:alert', sessionId, alert }, this.groupOf(sessionId), sessionId);
+      });
+    }
+
+    pool?.on('tasks', (group: string, tasks: PoolTask[]) => {
+      this.broadcast({ type: 'group:tasks', group, tasks }, group);
+    });
+
+    // Tunnel status goes to everyone but share links
+    tunnel?.on('status', (status: TunnelStatus) => {
+      for (const c of this.clients) {
+        if (c.principal.sessionId === null) this.send(c.ws, { type: 'tunnel', tunnel: status });
+      }
     });
   }
 
-  private handleMessage(client: ClientState, msg: WsClientMessage): void {
+  private async handleMessage(client: ClientState, msg: WsClientMessage): Promise<void> {
     // Validate common fields
     if (!msg || typeof msg.type !== 'string') return;
     if ('sessionId' in msg && typeof msg.sessionId !== 'string') return;
 
+    // Watching needs read and driving needs input, in the session's group
+    const group = msg.type !== 'unsubscribe' && msg.sessionId ? this.groupOf(msg.sessionId) : undefined;
+    if (msg.type !== 'unsubscribe') {
+      const scope = msg.type === 'subscribe' ? 'read' : 'input';
+      if (!can(client.principal, scope, group, msg.sessionId)) {
+        this.send(client.ws, { type: 'error', message: `Forbidden — token lacks ${scope} access` });
+        return;
+      }
+    }
+    const actor = client.principal.name;
+
     switch (msg.type) {
       case 'subscribe': {
         if (!msg.sessionId) return;
-        // Resize PTY to client dimensions BEFORE sending scrollback.
-        if (msg.cols && msg.rows) {
-          this.sessions.resize(msg.sessionId, msg.cols, msg.rows);
+        // Resize PTY to client dimensions BEFORE sending scrollback — only for
+        // clients that may drive the session; viewers take the size as it is
+        if (msg.cols && msg.rows && can(client.principal, 'input', group, msg.sessionId)) {
+          await this.sessions.resize(msg.sessionId, msg.cols, msg.rows);
         }
+        // Output still queued for the next flush is already in the scrollback
+        // we're about to send — flush it before this client joins
+        if (this.outputBuffers.has(msg.sessionId)) this.flushOutputBuffers();
         client.subscriptions.add(msg.sessionId);
-        auditLog({ action: 'ws:subscribe', sessionId: msg.sessionId, source: 'ws', actor: client.ip, result: 'ok' });
-        const scrollback = this.sessions.getScrollback(msg.sessionId);
-        if (scrollback.length > 0) {
+        auditLog({ action: 'ws:subscribe', sessionId: msg.sessionId, source: 'ws', actor, ip: client.ip, result: 'ok' });
+        // sinceOffset resumes a previous subscription; without it, replay the in-memory window
+        const sinceOffset = typeof msg.sinceOffset === 'number' && msg.sinceOffset >= 0 ? msg.sinceOffset : undefined;
+        let slice = this.sessions.readScrollback(msg.sessionId, sinceOffset);
+        // Too far behind to replay in one read: live output would continue past
+        // the slice's end, so replay the newest output instead — its `from` no
+        // longer matches sinceOffset and the client starts over
+        if (slice && slice.to < slice.end) {
+          slice = this.sessions.readScrollback(msg.sessionId, slice.end - MAX_SCROLLBACK_READ_BYTES);
+        }
+        if (slice && (slice.data || sinceOffset !== undefined)) {
           this.send(client.ws, {
             type: 'scrollback',
             sessionId: msg.sessionId,
-            data: scrollback.join(''),
+            data: slice.data,
+            from: slice.from,
+            offset: slice.to,
           });
         }
         break;
@@ -128,17 +206,30 @@ export class WsBridge {
       case 'input':
         if (!msg.sessionId || typeof msg.data !== 'string') return;
         if (msg.data.length > MAX_INPUT_BYTES) return;
-        this.sessions.write(msg.sessionId, msg.data);
-        auditLog({ action: 'ws:input', sessionId: msg.sessionId, source: 'ws', actor: client.ip, summary: `${msg.data.length} bytes`, result: 'ok' });
+        await this.sessions.write(msg.sessionId, msg.data);
+        auditLog({ action: 'ws:input', sessionId: msg.sessionId, source: 'ws', actor, ip: client.ip, summary: `${msg.data.length} bytes`, result: 'ok' });
         break;
       case 'resize':
         if (!msg.sessionId || typeof msg.cols !== 'number' || typeof msg.rows !== 'number') return;
-        this.sessions.resize(msg.sessionId, msg.cols, msg.rows);
-        auditLog({ action: 'ws:resize', sessionId: msg.sessionId, source: 'ws', actor: client.ip, summary: `${msg.cols}x${msg.rows}`, result: 'ok' });
+        await this.sessions.resize(msg.sessionId, msg.cols, msg.rows);
+        auditLog({ action: 'ws:resize', sessionId: msg.sessionId, source: 'ws', actor, ip: client.ip, summary: `${msg.cols}x${msg.rows}`, result: 'ok' });
         break;
     }
   }
 
+  /** Close connections whose token no longer authenticates */
+  private disconnectExpired = (): void => {
+    for (const c of this.clients) {
+      if (!this.auth.authenticate(c.token)) this.disconnect(c);
+    }
+  };
+
+  private disconnect(client: ClientState): void {
+    if (client.expiryTimer) clearTimeout(client.expiryTimer);
+    this.clients.delete(client);
+    client.ws.close(1008, 'Token expired or revoked');
+  }
+
   private send(ws: WebSocket, msg: WsServerMessage): boolean {
     if (ws.readyState !== WebSocket.OPEN) return false;
     // Backpressure: drop output/scrollback frames if client can't keep up
@@ -152,18 +243,32 @@ export class WsBridge {
     return true;
   }
 
-  private broadcast(msg: WsServerMessage): void {
+  /**
+   * Send to every client allowed to see `sessionId` in `group` (unknown group:
+   * unrestricted clients only). Without a session, share links are left out.
+   */
+  private broadcast(msg: WsServerMessage, group: string | undefined, sessionId?: string): void {
     for (const c of this.clients) {
-      this.send(c.ws, msg);
+      const allowed = group === undefined
+        ? can(c.principal, 'read', undefined, sessionId) && (c.principal.groups === null || c.principal.scopes.includes('admin'))
+        : can(c.principal, 'read', group, sessionId);
+      if (allowed) this.send(c.ws, msg);
     }
   }
 
+  private groupOf(sessionId: string): string | undefined {
+    const group = this.sessions.getInfo(sessionId)?.group;
+    if (group !== undefined) this.sessionGroups.set(sessionId, group);
+    return group ?? this.sessionGroups.get(sessionId);
+  }
+
   private flushOutputBuffers(): void {
+    if (this.flushTimer) clearTimeout(this.flushTimer);
     this.flushTimer = null;
-    for (const [sessionId, data] of this.outputBuffers) {
+    for (const [sessionId, { data, offset }] of this.outputBuffers) {
       for (const c of this.clients) {
         if (c.subscriptions.has(sessionId)) {
-          this.send(c.ws, { type: 'output', sessionId, data });
+          this.send(c.ws, { type: 'output', sessionId, data, offset });
         }
       }
     }
@@ -172,6 +277,7 @@ export class WsBridge {
 
   close(): void {
     if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.auth.off('change', this.disconnectExpired);
     this.wss.close();
   }
 }
@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeAll, afterAll, afterEach, vi } from 'vitest';
 import { createServer, type Server } from 'http';
+import { mkdtempSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
 
 vi.mock('node-pty', async () => {
   const { ptyMockFactory } = await import('./pty-mock.js');
@@ -8,13 +11,16 @@ vi.mock('node-pty', async () => {
 
 import { SessionManager } from '../src/server/session-manager.js';
 import { createApiHandler } from '../src/server/api.js';
+import { AuthManager } from '../src/server/auth.js';
+import { getAuditEntries } from '../src/server/audit-log.js';
+import { MAX_QUEUED_TASKS } from '../src/server/task-queue.js';
 import { spawnedPtys } from './pty-mock.js';
 
 const TEST_TOKEN = 'test-token-123';
 
 function startServer(sm: SessionManager): Promise<{ server: Server; port: number }> {
   return new Promise((resolve) => {
-    const handler = createApiHandler(sm, TEST_TOKEN);
+    const handler = createApiHandler(sm, new AuthManager(TEST_TOKEN));
     const server = createServer(handler);
     server.listen(0, '127.0.0.1', () => {
       const addr = server.address() as { port: number };
@@ -45,13 +51,13 @@ describe('REST API', () => {
     port = s.port;
   });
 
-  afterAll(() => {
-    sm.killAll();
+  afterAll(async () => {
+    await sm.killAll();
     server.close();
   });
 
-  afterEach(() => {
-    sm.killAll();
+  afterEach(async () => {
+    await sm.killAll();
     spawnedPtys.length = 0;
   });
 
@@ -85,6 +91,7 @@ describe('REST API', () => {
     expect(json.ok).toBe(true);
     expect(json.data.uptime).toBeGreaterThan(0);
     expect(json.data.sessions).toBe(0);
+    expect(json.data.tunnel).toBeNull();
   });
 
   // ── Sessions CRUD ──
@@ -104,24 +111,24 @@ describe('REST API', () => {
   });
 
   it('GET /api/sessions lists sessions', async () => {
-    sm.spawn({ name: 'a', group: 'g1' });
-    sm.spawn({ name: 'b', group: 'g2' });
+    await sm.spawn({ name: 'a', group: 'g1' });
+    await sm.spawn({ name: 'b', group: 'g2' });
     const res = await api(port, '/api/sessions');
     const json = await res.json();
     expect(json.data).toHaveLength(2);
   });
 
   it('GET /api/sessions?group= filters by group', async () => {
-    sm.spawn({ group: 'x' });
-    sm.spawn({ group: 'y' });
-    sm.spawn({ group: 'x' });
+    await sm.spawn({ group: 'x' });
+    await sm.spawn({ group: 'y' });
+    await sm.spawn({ group: 'x' });
     const res = await api(port, '/api/sessions?group=x');
     const json = await res.json();
     expect(json.data).toHaveLength(2);
   });
 
   it('GET /api/sessions/:id returns session detail', async () => {
-    const info = sm.spawn({ name: 'detail-test' });
+    const info = await sm.spawn({ name: 'detail-test' });
     const res = await api(port, `/api/sessions/${info.id}`);
     const json = await res.json();
     expect(json.ok).toBe(true);
@@ -134,14 +141,48 @@ describe('REST API', () => {
   });
 
   it('DELETE /api/sessions/:id kills a session', async () => {
-    const info = sm.spawn({ name: 'to-kill' });
+    const info = await sm.spawn({ name: 'to-kill' });
     const res = await api(port, `/api/sessions/${info.id}`, { method: 'DELETE' });
     expect(res.status).toBe(200);
     expect(sm.getInfo(info.id)).toBeUndefined();
   });
 
+  it('POST /api/sessions/:id/restart respawns an exited session', async () => {
+    const info = await sm.spawn({ name: 'crashy' });
+    const running = await api(port, `/api/sessions/${info.id}/restart`, { method: 'POST' });
+    expect(running.status).toBe(409);
+
+    spawnedPtys[0].emitExit(1);
+    const res = await api(port, `/api/sessions/${info.id}/restart`, { method: 'POST' });
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.data.id).toBe(info.id);
+    expect(json.data.status).toBe('running');
+    expect(spawnedPtys[1].spawnArgs.slice(0, 2)).toEqual(['--resume', info.conversationId]);
+  });
+
+  it('POST /api/sessions/:id/restart returns 404 for unknown session', async () => {
+    const res = await api(port, '/api/sessions/nonexistent/restart', { method: 'POST' });
+    expect(res.status).toBe(404);
+  });
+
+  it('POST /api/sessions/:id/restart reports restart failures as client errors', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'bb-restart-'));
+    const info = await sm.spawn({ cwd: dir });
+    spawnedPtys[0].emitExit(1);
+    rmSync(dir, { recursive: true, force: true });
+    const gone = await api(port, `/api/sessions/${info.id}/restart`, { method: 'POST' });
+    expect(gone.status).toBe(400);
+    expect((await gone.json()).error).toContain('Invalid working directory');
+
+    // An automatic restart got there first
+    const restart = vi.spyOn(sm, 'restart').mockRejectedValueOnce(new Error('Session is still running'));
+    expect((await api(port, `/api/sessions/${info.id}/restart`, { method: 'POST' })).status).toBe(409);
+    restart.mockRestore();
+  });
+
   it('POST /api/sessions/:id/input sends input', async () => {
-    const info = sm.spawn();
+    const info = await sm.spawn();
     const res = await api(port, `/api/sessions/${info.id}/input`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TEST_TOKEN}` },
@@ -152,7 +193,7 @@ describe('REST API', () => {
   });
 
   it('POST /api/sessions/:id/resize resizes PTY', async () => {
-    const info = sm.spawn();
+    const info = await sm.spawn();
     const res = await api(port, `/api/sessions/${info.id}/resize`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TEST_TOKEN}` },
@@ -166,9 +207,9 @@ describe('REST API', () => {
   // ── Groups ──
 
   it('GET /api/groups returns group info', async () => {
-    sm.spawn({ group: 'g1' });
-    sm.spawn({ group: 'g1' });
-    sm.spawn({ group: 'g2' });
+    await sm.spawn({ group: 'g1' });
+    await sm.spawn({ group: 'g1' });
+    await sm.spawn({ group: 'g2' });
     const res = await api(port, '/api/groups');
     const json = await res.json();
     expect(json.ok).toBe(true);
@@ -176,6 +217,54 @@ describe('REST API', () => {
     expect(g1.sessionCount).toBe(2);
   });
 
+  it('group pool endpoints queue tasks to idle sessions and configure the pool', async () => {
+    const post = (path: string, body: unknown) => api(port, path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TEST_TOKEN}` },
+      body: JSON.stringify(body),
+    });
+    const info = await sm.spawn({ group: 'pool g' });
+    spawnedPtys[0].emitData('❯ ');
+
+    const configured = await post('/api/groups/pool%20g/pool', { concurrency: 1 });
+    expect((await configured.json()).data).toEqual({ concurrency: 1, autoSpawn: null });
+    expect((await post('/api/groups/pool%20g/pool', { concurrency: -1 })).status).toBe(400);
+
+    const res = await post('/api/groups/pool%20g/tasks', { task: 'triage issues' });
+    expect(res.status).toBe(201);
+    const task = (await res.json()).data;
+    expect(task.status).toBe('running');
+    expect(task.sessionId).toBe(info.id);
+    expect(spawnedPtys[0].written).toEqual(['triage issues\r']);
+
+    const queued = (await (await post('/api/groups/pool%20g/tasks', { task: 'then this' })).json()).data;
+    const list = await (await api(port, '/api/groups/pool%20g/tasks')).json();
+    expect(list.data.map((t: { status: string }) => t.status)).toEqual(['running', 'queued']);
+
+    expect((await api(port, `/api/groups/pool%20g/tasks/${queued.id}`, { method: 'DELETE' })).status).toBe(200);
+    expect((await api(port, `/api/groups/pool%20g/tasks/${task.id}`, { method: 'DELETE' })).status).toBe(409);
+    expect((await api(port, '/api/groups/pool%20g/tasks/nope', { method: 'DELETE' })).status).toBe(404);
+  });
+
+  it('POST /api/groups/:name/tasks returns 429 when the pool is full', async () => {
+    const post = () => api(port, '/api/groups/full/tasks', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TEST_TOKEN}` },
+      body: JSON.stringify({ task: 'work' }),
+    });
+    for (let i = 0; i < MAX_QUEUED_TASKS; i++) expect((await post()).status).toBe(201);
+    const res = await post();
+    expect(res.status).toBe(429);
+    expect((await res.json()).error).toContain('Task pool is full');
+  });
+
+  it('rejects a malformed group name with 400', async () => {
+    const res = await api(port, '/api/groups/%E0%A4%A/tasks');
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe('Malformed group name in URL');
+    expect((await api(port, '/health')).status).toBe(200);
+  });
+
   // ── Browse (security) ──
 
   it('GET /api/browse returns 403 when disabled (default)', async () => {
@@ -189,8 +278,8 @@ describe('REST API', () => {
   // ── Summary ──
 
   it('GET /api/summary returns aggregate state counts', async () => {
-    sm.spawn({ group: 'a' });
-    sm.spawn({ group: 'b' });
+    await sm.spawn({ group: 'a' });
+    await sm.spawn({ group: 'b' });
     const res = await api(port, '/api/summary');
     const json = await res.json();
     expect(json.ok).toBe(true);
@@ -199,10 +288,19 @@ describe('REST API', () => {
     expect(Array.isArray(json.data.sessionsNeedingAttention)).toBe(true);
   });
 
+  // ── Pattern packs ──
+
+  it('GET /api/patterns lists the pattern packs', async () => {
+    const res = await api(port, '/api/patterns');
+    const json = await res.json();
+    expect(json.ok).toBe(true);
+    expect(json.data).toContainEqual(expect.objectContaining({ id: 'claude-code@1', source: 'built-in' }));
+  });
+
   // ── Set Task ──
 
   it('POST /api/sessions/:id/task sets task metadata', async () => {
-    const info = sm.spawn();
+    const info = await sm.spawn();
     const res = await api(port, `/api/sessions/${info.id}/task`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TEST_TOKEN}` },
@@ -223,6 +321,75 @@ describe('REST API', () => {
     expect(res.status).toBe(404);
   });
 
+  // ── Task queue ──
+
+  it('queues, lists, reorders and cancels tasks', async () => {
+    const info = await sm.spawn();
+    const post = (path: string, body: unknown) => api(port, `/api/sessions/${info.id}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TEST_TOKEN}` },
+      body: JSON.stringify(body),
+    });
+
+    const created = await post('/tasks', { task: 'write tests' });
+    expect(created.status).toBe(201);
+    const a = (await created.json()).data;
+    expect(a.status).toBe('queued');
+    const b = (await (await post('/tasks', { task: 'fix lint' })).json()).data;
+
+    const reordered = await post('/tasks/reorder', { order: [b.id] });
+    expect((await reordered.json()).data.map((t: { text: string }) => t.text)).toEqual(['fix lint', 'write tests']);
+    expect((await post('/tasks/reorder', { order: ['nope'] })).status).toBe(400);
+    expect((await post('/tasks', { task: '  ' })).status).toBe(400);
+
+    const cancelled = await api(port, `/api/sessions/${info.id}/tasks/${a.id}`, { method: 'DELETE' });
+    expect((await cancelled.json()).data.status).toBe('cancelled');
+    expect((await api(port, `/api/sessions/${info.id}/tasks/${a.id}`, { method: 'DELETE' })).status).toBe(409);
+
+    const list = await (await api(port, `/api/sessions/${info.id}/tasks`)).json();
+    expect(list.data.map((t: { status: string }) => t.status)).toEqual(['queued', 'cancelled']);
+  });
+
+  it('POST /api/sessions/:id/tasks returns 429 when the queue is full', async () => {
+    const info = await sm.spawn();
+    for (let i = 0; i < MAX_QUEUED_TASKS; i++) sm.enqueueTask(info.id, `task ${i}`);
+    const res = await api(port, `/api/sessions/${info.id}/tasks`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TEST_TOKEN}` },
+      body: JSON.stringify({ task: 'one too many' }),
+    });
+    expect(res.status).toBe(429);
+    expect((await res.json()).error).toContain('Task queue is full');
+  });
+
+  it('task queue endpoints return 404 for unknown sessions', async () => {
+    expect((await api(port, '/api/sessions/nonexistent/tasks')).status).toBe(404);
+    expect((await api(port, '/api/sessions/nonexistent/tasks/abc', { method: 'DELETE' })).status).toBe(404);
+  });
+
+  // ── Permission prompts ──
+
+  it('answers a pending permission prompt with the option key', async () => {
+    const info = await sm.spawn();
+    const answer = (decision: string, id = info.id) => api(port, `/api/sessions/${id}/permission`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TEST_TOKEN}` },
+      body: JSON.stringify({ decision }),
+    });
+
+    expect((await answer('allow_once')).status).toBe(409); // nothing pending yet
+    spawnedPtys[0].emitData('Bash command\n  npm test\nDo you want to proceed?\n❯ 1. Yes\n  2. No, and tell Claude what to do differently\n');
+
+    expect((await answer('maybe')).status).toBe(400);
+    expect((await answer('allow_always')).status).toBe(409); // not offered
+    expect((await answer('deny', 'nonexistent')).status).toBe(404);
+
+    const res = await answer('deny');
+    expect(res.status).toBe(200);
+    expect((await res.json()).data.option.label).toBe('No, and tell Claude what to do differently');
+    expect(spawnedPtys[0].written).toEqual(['2']);
+  });
+
   // ── Spawn with task ──
 
   it('POST /api/sessions with task stores task metadata', async () => {
@@ -239,7 +406,7 @@ describe('REST API', () => {
   // ── Mute/unmute (L10) ──
 
   it('POST /api/sessions/:id/mute mutes a session', async () => {
-    const info = sm.spawn();
+    const info = await sm.spawn();
     const res = await api(port, `/api/sessions/${info.id}/mute`, {
       method: 'POST',
       headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TEST_TOKEN}` },
@@ -251,7 +418,7 @@ describe('REST API', () => {
   });
 
   it('POST /api/sessions/:id/unmute unmutes a session', async () => {
-    const info = sm.spawn();
+    const info = await sm.spawn();
     // Mute first
     await api(port, `/api/sessions/${info.id}/mute`, {
       method: 'POST',
@@ -276,10 +443,34 @@ describe('REST API', () => {
     expect(res.status).toBe(404);
   });
 
+  it('POST /api/sessions/:id/mute takes a duration and events', async () => {
+    const info = await sm.spawn();
+    const res = await api(port, `/api/sessions/${info.id}/mute`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TEST_TOKEN}` },
+      body: JSON.stringify({ for: 3600, events: ['state:*'] }),
+    });
+    const json = await res.json();
+    expect(json.data.mute.events).toEqual(['state:*']);
+    expect(Date.parse(json.data.mute.until) - Date.now()).toBeGreaterThan(3500_000);
+
+    const getRes = await api(port, `/api/sessions/${info.id}`, {
+      headers: { Authorization: `Bearer ${TEST_TOKEN}` },
+    });
+    expect((await getRes.json()).data.mute).toEqual(json.data.mute);
+
+    const bad = await api(port, `/api/sessions/${info.id}/mute`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TEST_TOKEN}` },
+      body: JSON.stringify({ for: -1 }),
+    });
+    expect(bad.status).toBe(400);
+  });
+
   // ── Content-Type check (M8) ──
 
   it('returns 415 for non-JSON Content-Type on POST', async () => {
-    const info = sm.spawn();
+    const info = await sm.spawn();
     const res = await api(port, `/api/sessions/${info.id}/input`, {
       method: 'POST',
       headers: { 'Content-Type': 'text/plain', Authorization: `Bearer ${TEST_TOKEN}` },
@@ -309,8 +500,8 @@ describe('REST API', () => {
   // ── Transcript endpoint ──
 
   it('GET /api/sessions/:id/transcript returns transcript', async () => {
-    const info = sm.spawn();
-    sm.write(info.id, 'hello\r');
+    const info = await sm.spawn();
+    await sm.write(info.id, 'hello\r');
     const res = await api(port, `/api/sessions/${info.id}/transcript`);
     expect(res.status).toBe(200);
     const json = await res.json();
@@ -320,6 +511,250 @@ describe('REST API', () => {
     expect(json.data[0].role).toBe('user');
   });
 
+  // ── Screen endpoint ──
+
+  it('GET /api/sessions/:id/screen returns the visible screen', async () => {
+    const info = await sm.spawn({ cols: 40, rows: 5 });
+    spawnedPtys[0].emitData('✻ Thinking...\r\x1b[2KDone\r\n❯ ');
+    const res = await api(port, `/api/sessions/${info.id}/screen`);
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.data).toEqual({
+      cols: 40, rows: 5, cursor: { row: 1, col: 2, visible: true }, alternate: false, text: 'Done\n❯\n\n\n',
+    });
+
+    expect((await api(port, '/api/sessions/nope/screen')).status).toBe(404);
+    spawnedPtys[0].emitExit(0);
+    const exited = await api(port, `/api/sessions/${info.id}/screen`);
+    expect(exited.status).toBe(409);
+    expect((await exited.json()).error).toBe('Session is not running');
+  });
+
+  // ── Scrollback endpoint ──
+
+  it('GET /api/sessions/:id/scrollback returns a byte-offset range', async () => {
+    const info = await sm.spawn();
+    spawnedPtys[0].emitData('hello ');
+    spawnedPtys[0].emitData('world');
+    const res = await api(port, `/api/sessions/${info.id}/scrollback?from=6`);
+    expect(res.status).toBe(200);
+    const json = await res.json();
+    expect(json.data).toEqual({ data: 'world', from: 6, to: 11, start: 0, end: 11 });
+
+    const ranged = await (await api(port, `/api/sessions/${info.id}/scrollback?from=0&to=5`)).json();
+    expect(ranged.data.data).toBe('hello');
+  });
+
+  it('GET /api/sessions/:id/scrollback rejects invalid offsets', async () => {
+    const info = await sm.spawn();
+    const res = await api(port, `/api/sessions/${info.id}/scrollback?from=-1`);
+    expect(res.status).toBe(400);
+  });
+
+  it('GET /api/sessions/:id/scrollback returns 404 for unknown session', async () => {
+    const res = await api(port, '/api/sessions/nonexistent/scrollback');
+    expect(res.status).toBe(404);
+  });
+
+  // ── Named tokens ──
+
+  async function createToken(body: unknown): Promise<{ id: string; token: string }> {
+    const res = await api(port, '/api/tokens', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    expect(res.status).toBe(201);
+    return (await res.json()).data;
+  }
+
+  function as(token: string, path: string, opts?: RequestInit) {
+    return api(port, path, { ...opts, headers: { ...(opts?.headers as Record<string, string>), Authorization: `Bearer ${token}` } });
+  }
+
+  it('creates, lists and revokes tokens without exposing their secrets', async () => {
+    const created = await createToken({ name: 'lister', scopes: ['read'] });
+    const list = await (await api(port, '/api/tokens')).json();
+    expect(list.data.find((t: { id: string }) => t.id === created.id)).toMatchObject({ name: 'lister', scopes: ['read'], groups: null });
+    expect(JSON.stringify(list.data)).not.toContain(created.token);
+
+    const bad = await api(port, '/api/tokens', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name: 'lister', scopes: ['read'] }),
+    });
+    expect(bad.status).toBe(400);
+
+    expect((await as(created.token, '/api/sessions')).status).toBe(200);
+    expect((await api(port, '/api/tokens/lister', { method: 'DELETE' })).status).toBe(200);
+    expect((await as(created.token, '/api/sessions')).status).toBe(401);
+    expect((await api(port, '/api/tokens/lister', { method: 'DELETE' })).status).toBe(404);
+  });
+
+  it('limits a token to its scopes and groups', async () => {
+    const web = await sm.spawn({ group: 'web' });
+    const other = await sm.spawn({ group: 'other' });
+    const { token } = await createToken({ name: 'web-reader', scopes: ['read'], groups: ['web'] });
+
+    const list = await (await as(token, '/api/sessions')).json();
+    expect(list.data.map((s: { id: string }) => s.id)).toEqual([web.id]);
+    expect((await as(token, `/api/sessions/${web.id}`)).status).toBe(200);
+    expect((await as(token, `/api/sessions/${other.id}`)).status).toBe(403);
+    expect((await as(token, '/api/groups/other/tasks')).status).toBe(403);
+
+    const input = await as(token, `/api/sessions/${web.id}/input`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ data: 'hi' }),
+    });
+    expect(input.status).toBe(403);
+    expect((await as(token, '/api/tokens')).status).toBe(403);
+    expect((await as(token, '/api/audit')).status).toBe(403);
+  });
+
+  it('records the token name as the audit actor', async () => {
+    const info = await sm.spawn({ group: 'web' });
+    const { token } = await createToken({ name: 'typist', scopes: ['input'], groups: ['web'] });
+    const res = await as(token, `/api/sessions/${info.id}/input`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ data: 'hi' }),
+    });
+    expect(res.status).toBe(200);
+    const [entry] = getAuditEntries({ sessionId: info.id, action: 'session:input' });
+    expect(entry).toMatchObject({ actor: 'typist', result: 'ok' });
+  });
+
+  // ── Webhooks ──
+
+  it('creates, updates, lists and deletes webhooks (admin only)', async () => {
+    const post = (path: string, body: unknown) => api(port, path, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const res = await post('/api/webhooks', { url: 'https://hooks.example.com/bb', events: ['state:*'], groups: ['web'] });
+    expect(res.status).toBe(201);
+    const created = (await res.json()).data;
+    expect(created).toMatchObject({ url: 'https://hooks.example.com/bb', events: ['state:*'], groups: ['web'], template: null });
+
+    expect((await post('/api/webhooks', { url: 'not a url' })).status).toBe(400);
+    const updated = await post(`/api/webhooks/${created.id}`, { template: { text: '{{sessionName}}' } });
+    expect((await updated.json()).data).toMatchObject({ events: ['state:*'], template: { text: '{{sessionName}}' } });
+    expect((await (await api(port, `/api/webhooks/${created.id}`)).json()).data.template).toEqual({ text: '{{sessionName}}' });
+    expect((await (await api(port, '/api/webhooks')).json()).data).toHaveLength(1);
+
+    const { token } = await createToken({ name: 'hook-reader', scopes: ['read', 'input', 'spawn', 'kill'] });
+    expect((await as(token, '/api/webhooks')).status).toBe(403);
+
+    expect((await api(port, `/api/webhooks/${created.id}`, { method: 'DELETE' })).status).toBe(200);
+    expect((await api(port, `/api/webhooks/${created.id}`, { method: 'DELETE' })).status).toBe(404);
+    expect(getAuditEntries({ action: 'webhook:create' })[0].summary).toContain('hooks.example.com');
+  });
+
+  it('GET /api/webhooks/deliveries and dead letters', async () => {
+    const deliveries = await api(port, '/api/webhooks/deliveries?status=failed');
+    expect(deliveries.status).toBe(200);
+    expect((await deliveries.json()).data).toEqual([]);
+    expect((await api(port, '/api/webhooks/deliveries?status=lost')).status).toBe(400);
+    expect((await (await api(port, '/api/webhooks/dead-letters')).json()).data).toEqual([]);
+    expect((await api(port, '/api/webhooks/dead-letters/nope/retry', { method: 'POST' })).status).toBe(404);
+  });
+
+  // ── Web Push ──
+
+  it('registers push subscriptions for read tokens', async () => {
+    const { token } = await createToken({ name: 'phone', scopes: ['read'] });
+    const key = await as(token, '/api/push/key');
+    expect(key.status).toBe(200);
+    expect(Buffer.from((await key.json()).data.publicKey, 'base64url')).toHaveLength(65);
+
+    const subscribe = (body: unknown) => as(token, '/api/push/subscriptions', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+    });
+    const keys = { p256dh: Buffer.concat([Buffer.from([4]), Buffer.alloc(64, 1)]).toString('base64url'), auth: Buffer.alloc(16, 2).toString('base64url') };
+    expect((await subscribe({ endpoint: 'https://fcm.googleapis.com/x', keys: { p256dh: 'nope', auth: 'nope' } })).status).toBe(400);
+    const res = await subscribe({ endpoint: 'https://fcm.googleapis.com/x', keys, states: ['permission_needed'] });
+    expect(res.status).toBe(201);
+    const { id, states } = (await res.json()).data;
+    expect(states).toEqual(['permission_needed']);
+    expect(getAuditEntries({ action: 'push:subscribe' })[0]).toMatchObject({ actor: 'phone', summary: expect.stringContaining('fcm.googleapis.com') });
+
+    // Another reader can't remove it
+    const { token: other } = await createToken({ name: 'tablet', scopes: ['read'] });
+    expect((await as(other, `/api/push/subscriptions/${id}`, { method: 'DELETE' })).status).toBe(403);
+    expect((await as(token, `/api/push/subscriptions/${id}`, { method: 'DELETE' })).status).toBe(200);
+    expect((await as(token, `/api/push/subscriptions/${id}`, { method: 'DELETE' })).status).toBe(404);
+  });
+
+  it('POST /api/admin/rotate-token swaps the master token with a grace period', async () => {
+    const auth = new AuthManager('rotate-master-token');
+    const other = createServer(createApiHandler(sm, auth));
+    await new Promise<void>((resolve) => other.listen(0, '127.0.0.1', resolve));
+    const base = `http://127.0.0.1:${(other.address() as { port: number }).port}`;
+    const call = (token: string, path: string, init?: RequestInit) =>
+      fetch(`${base}${path}`, { ...init, headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` } });
+
+    try {
+      const { token: reader } = auth.create({ name: 'reader', scopes: ['read'] });
+      expect((await call(reader, '/api/admin/rotate-token', { method: 'POST', body: '{}' })).status).toBe(403);
+
+      const res = await call('rotate-master-token', '/api/admin/rotate-token', { method: 'POST', body: JSON.stringify({ grace: 60 }) });
+      expect(res.status).toBe(200);
+      const { token } = (await res.json()).data;
+      expect((await call(token, '/api/sessions')).status).toBe(200);
+      expect((await call('rotate-master-token', '/api/sessions')).status).toBe(200);
+
+      await call(token, '/api/admin/rotate-token', { method: 'POST', body: JSON.stringify({ grace: 0 }) });
+      expect((await call(token, '/api/sessions')).status).toBe(401);
+      expect((await call('rotate-master-token', '/api/sessions')).status).toBe(401);
+    } finally {
+      other.close();
+    }
+  });
+
+  it('share links read one session and nothing else', async () => {
+    const info = await sm.spawn({ group: 'web' });
+    const other = await sm.spawn({ group: 'web' });
+    const res = await api(port, `/api/sessions/${info.id}/share`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ttl: 60 }),
+    });
+    expect(res.status).toBe(201);
+    const { token } = (await res.json()).data;
+
+    expect((await as(token, `/api/sessions/${info.id}`)).status).toBe(200);
+    expect((await as(token, `/api/sessions/${info.id}/transcript`)).status).toBe(200);
+    expect((await as(token, `/api/sessions/${info.id}/screen`)).status).toBe(200);
+    expect((await as(token, `/api/sessions/${info.id}/scrollback`)).status).toBe(403);
+    expect((await as(token, `/api/sessions/${other.id}`)).status).toBe(403);
+    expect((await as(token, '/api/sessions')).status).toBe(403);
+    const input = await as(token, `/api/sessions/${info.id}/input`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ data: 'hi' }),
+    });
+    expect(input.status).toBe(403);
+    expect((await fetch(`http://127.0.0.1:${port}/api/sessions/${info.id}/share`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${token}` },
+      body: '{}',
+    })).status).toBe(403);
+  });
+
+  it('POST /api/sessions/:id/share validates the ttl', async () => {
+    const info = await sm.spawn();
+    const res = await api(port, `/api/sessions/${info.id}/share`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ttl: 30 * 86400 }),
+    });
+    expect(res.status).toBe(400);
+  });
+
   // ── Dashboard auth (C3) ──
 
   it('dashboard returns 401 without token', async () => {
@@ -0,0 +1,181 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, statSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { AuthManager, can, MAX_SHARE_TTL_MS } from '../src/server/auth.js';
+import { FileTokenStore, MemoryTokenStore } from '../src/server/token-store.js';
+import type { AuthPrincipal } from '../src/server/types.js';
+
+const MASTER = 'master-token';
+
+describe('AuthManager', () => {
+  it('authenticates the master token as admin', () => {
+    const auth = new AuthManager(MASTER);
+    expect(auth.authenticate(MASTER)).toEqual({ name: 'master', tokenId: null, scopes: ['admin'], groups: null, sessionId: null });
+    expect(auth.authenticate('nope')).toBeNull();
+    expect(auth.authenticate(null)).toBeNull();
+  });
+
+  it('creates, authenticates and revokes named tokens', () => {
+    const auth = new AuthManager(MASTER);
+    const created = auth.create({ name: 'ci', scopes: ['read', 'input'], groups: ['web'] });
+    expect(created.token).toMatch(/^bb_/);
+    expect(auth.authenticate(created.token)).toEqual({ name: 'ci', tokenId: created.id, scopes: ['read', 'input'], groups: ['web'], sessionId: null });
+    expect(auth.list()).toEqual([{ id: created.id, name: 'ci', scopes: ['read', 'input'], groups: ['web'], createdAt: created.createdAt }]);
+
+    expect(auth.revoke('ci')?.id).toBe(created.id);
+    expect(auth.authenticate(created.token)).toBeNull();
+    expect(auth.revoke(created.id)).toBeUndefined();
+  });
+
+  it('rejects invalid token requests', () => {
+    const auth = new AuthManager(MASTER);
+    auth.create({ name: 'ci', scopes: ['read'] });
+    expect(() => auth.create({ name: 'ci', scopes: ['read'] })).toThrow('already exists');
+    expect(() => auth.create({ name: 'master', scopes: ['read'] })).toThrow('name');
+    expect(() => auth.create({ name: 'has space', scopes: ['read'] })).toThrow('name');
+    expect(() => auth.create({ name: 'x', scopes: [] })).toThrow('scopes');
+    expect(() => auth.create({ name: 'x', scopes: ['root'] })).toThrow('scopes');
+    expect(() => auth.create({ name: 'x', scopes: ['read'], groups: [] })).toThrow('groups');
+    expect(() => auth.create({ name: 'x', scopes: ['admin'], groups: ['web'] })).toThrow('admin');
+  });
+
+  describe('master token rotation', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('keeps the previous token working for the grace period', () => {
+      vi.useFakeTimers();
+      const store = new MemoryTokenStore();
+      const auth = new AuthManager(MASTER, store);
+      const rotated = vi.fn();
+      const changed = vi.fn();
+      auth.on('rotated', rotated);
+      auth.on('change', changed);
+
+      const { token } = auth.rotate(60_000);
+      expect(auth.master).toBe(token);
+      expect(store.loadMaster()).toBe(token);
+      expect(rotated).toHaveBeenCalledWith(token);
+      expect(auth.authenticate(token)?.name).toBe('master');
+      expect(auth.authenticate(MASTER)?.name).toBe('master');
+
+      changed.mockClear();
+      vi.advanceTimersByTime(60_000);
+      expect(auth.authenticate(MASTER)).toBeNull();
+      expect(changed).toHaveBeenCalledTimes(1);
+    });
+
+    it('drops the previous token at once without a grace period', () => {
+      const auth = new AuthManager(MASTER);
+      const link = auth.share('abc');
+      auth.rotate(0);
+      expect(auth.authenticate(MASTER)).toBeNull();
+      expect(auth.authenticate(link.token)).toBeNull();
+      expect(() => auth.rotate(-1)).toThrow('grace');
+    });
+
+    it('honours share links signed before the rotation during the grace period', () => {
+      const auth = new AuthManager(MASTER);
+      const link = auth.share('abc');
+      auth.rotate(60_000);
+      expect(auth.authenticate(link.token)?.sessionId).toBe('abc');
+    });
+  });
+
+  describe('share links', () => {
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('authenticates as read-only on one session until they expire', () => {
+      vi.useFakeTimers();
+      const auth = new AuthManager(MASTER);
+      const link = auth.share('abc', 60_000);
+      expect(link.token).toMatch(/^bbs_/);
+      expect(auth.authenticate(link.token)).toEqual({ name: 'share:abc', tokenId: null, scopes: ['read'], groups: null, sessionId: 'abc', expiresAt: Date.parse(link.expiresAt) });
+      vi.advanceTimersByTime(60_000);
+      expect(auth.authenticate(link.token)).toBeNull();
+    });
+
+    it('stop working once the token that issued them is revoked', () => {
+      const auth = new AuthManager(MASTER);
+      const issuer = auth.create({ name: 'viewer', scopes: ['read'] });
+      const link = auth.share('abc', 60_000, issuer.id);
+      expect(auth.authenticate(link.token)?.sessionId).toBe('abc');
+      auth.revoke('viewer');
+      expect(auth.authenticate(link.token)).toBeNull();
+    });
+
+    it('rejects tampered links and links signed with another master token', () => {
+      const link = new AuthManager(MASTER).share('abc');
+      const [payload, sig] = link.token.slice(4).split('.');
+      const forged = Buffer.from(JSON.stringify({ s: 'xyz', e: Date.now() + 60_000 })).toString('base64url');
+      expect(new AuthManager(MASTER).authenticate(`bbs_${forged}.${sig}`)).toBeNull();
+      expect(new AuthManager(MASTER).authenticate(`bbs_${payload}`)).toBeNull();
+      expect(new AuthManager('other-master').authenticate(link.token)).toBeNull();
+    });
+
+    it('limits the ttl', () => {
+      const auth = new AuthManager(MASTER);
+      expect(() => auth.share('abc', 0)).toThrow('ttl');
+      expect(() => auth.share('abc', MAX_SHARE_TTL_MS + 1)).toThrow('ttl');
+    });
+  });
+});
+
+describe('can', () => {
+  const token = (scopes: AuthPrincipal['scopes'], groups: string[] | null = null): AuthPrincipal =>
+    ({ name: 't', tokenId: 'x', scopes, groups, sessionId: null });
+
+  it('requires the scope, and the group when the token is limited to groups', () => {
+    expect(can(token(['read']), 'read', 'web')).toBe(true);
+    expect(can(token(['read']), 'input', 'web')).toBe(false);
+    expect(can(token(['read'], ['web']), 'read', 'web')).toBe(true);
+    expect(can(token(['read'], ['web']), 'read', 'api')).toBe(false);
+    expect(can(token(['read'], ['web']), 'read')).toBe(true);
+  });
+
+  it('limits share principals to their session', () => {
+    const share: AuthPrincipal = { name: 'share:abc', tokenId: null, scopes: ['read'], groups: null, sessionId: 'abc' };
+    expect(can(share, 'read', 'web', 'abc')).toBe(true);
+    expect(can(share, 'read', 'web', 'xyz')).toBe(false);
+    expect(can(share, 'read', 'web')).toBe(false);
+    expect(can(share, 'input', 'web', 'abc')).toBe(false);
+  });
+
+  it('lets admin do everything', () => {
+    expect(can(token(['admin']), 'kill', 'anything')).toBe(true);
+  });
+});
+
+describe('FileTokenStore', () => {
+  let dir: string;
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('persists only token hashes, readable by the owner alone', () => {
+    dir = mkdtempSync(join(tmpdir(), 'bb-tokens-'));
+    const file = join(dir, 'tokens.json');
+    const created = new AuthManager(MASTER, new FileTokenStore(file)).create({ name: 'ci', scopes: ['read'] });
+
+    const raw = readFileSync(file, 'utf-8');
+    expect(raw).not.toContain(created.token);
+    expect(statSync(file).mode & 0o777).toBe(0o600);
+    expect(new AuthManager(MASTER, new FileTokenStore(file)).authenticate(created.token)?.name).toBe('ci');
+  });
+
+  it('keeps the master token across restarts', () => {
+    dir = mkdtempSync(join(tmpdir(), 'bb-tokens-'));
+    const masterFile = join(dir, 'master-token');
+    expect(new FileTokenStore(join(dir, 'tokens.json'), masterFile).loadMaster()).toBeNull();
+    new AuthManager(MASTER, new FileTokenStore(join(dir, 'tokens.json'), masterFile)).rotate(0);
+
+    const reloaded = new FileTokenStore(join(dir, 'tokens.json'), masterFile).loadMaster();
+    expect(reloaded).toMatch(/^[0-9a-f]{32}$/);
+    expect(statSync(masterFile).mode & 0o777).toBe(0o600);
+  });
+});
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { parseCapture, replayCapture } from '../src/server/detect-replay.js';
+import { compilePatternPack, CLAUDE_CODE_PATTERNS } from '../src/server/pattern-packs.js';
+
+const pack = compilePatternPack(CLAUDE_CODE_PATTERNS);
+
+const EVENTS: [number, string, string][] = [
+  [0.1, 'o', 'Welcome\r\n❯ '],
+  [1, 'i', 'fix the tests\r'],
+  [1, 'o', '\r\n\x1b[36m✻\x1b[0m Thinking...'],
+  [5.5, 'o', '\r\nDo you want to proceed?\r\n❯ 1. Yes\r\n  2. No\r\n'],
+  [9, 'o', '\r\n✻ Working...\r\n'],
+];
+
+function asciicast(version: number, events: [number, string, string][]): string {
+  return [JSON.stringify({ version, term: { cols: 120, rows: 40 } }), ...events.map((e) => JSON.stringify(e))].join('\n') + '\n';
+}
+
+describe('parseCapture', () => {
+  it('reads asciicast v2 output events with their times', () => {
+    const capture = parseCapture(asciicast(2, EVENTS));
+    expect(capture).toMatchObject({ format: 'asciicast', cols: null, rows: null });
+    expect(capture.chunks.map((c) => c.time)).toEqual([100, 1000, 5500, 9000]);
+  });
+
+  it('reads asciicast v3 intervals', () => {
+    const capture = parseCapture(asciicast(3, [[0.5, 'o', 'a'], [0.25, 'm', 'marker'], [1, 'o', 'b']]));
+    expect(capture).toMatchObject({ cols: 120, rows: 40 });
+    expect(capture.chunks).toEqual([{ time: 500, data: 'a' }, { time: 1750, data: 'b' }]);
+  });
+
+  it('splits raw output into lines', () => {
+    expect(parseCapture('one\r\ntwo\n❯ ')).toEqual({
+      format: 'raw',
+      cols: null,
+      rows: null,
+      chunks: [{ time: null, data: 'one\r\n' }, { time: null, data: 'two\n' }, { time: null, data: '❯ ' }],
+    });
+  });
+
+  it('rejects malformed asciicasts', () => {
+    expect(() => parseCapture('{"version": 1}\n')).toThrow('Unsupported asciicast version: 1');
+    expect(() => parseCapture('{"version": 2}\n[1, "o"\n')).toThrow('Line 2: not a JSON event');
+    expect(() => parseCapture('{"version": 2}\n{"t": 1}\n')).toThrow('Line 2: expected [time, code, data]');
+  });
+});
+
+describe('replayCapture', () => {
+  it('times state changes on the recording clock, ending with idle silence', () => {
+    const timeline = replayCapture(parseCapture(asciicast(2, EVENTS)), pack, { idleTimeoutMs: 2000 });
+    expect(timeline.map((e) => [e.at, e.prev, e.state])).toEqual([
+      [100, 'starting', 'idle'],
+      [1000, 'idle', 'working'],
+      // Idle timeout while nothing was printed
+      [3000, 'working', 'idle'],
+      [5500, 'idle', 'permission_needed'],
+      [9000, 'permission_needed', 'working'],
+      [11000, 'working', 'idle'],
+    ]);
+    expect(timeline[0].offset).toBe(Buffer.byteLength('Welcome\r\n❯ '));
+  });
+
+  it('replays raw output without time passing', () => {
+    const timeline = replayCapture(parseCapture('❯ \n✻ Thinking...\nDo you want to proceed?\n'), pack, { idleTimeoutMs: 2000 });
+    expect(timeline.map((e) => [e.at, e.state])).toEqual([[0, 'idle'], [0, 'working'], [0, 'permission_needed']]);
+  });
+
+  it('draws on a screen of the recorded size', () => {
+    // The prompt wraps onto its own line on a 10-column terminal
+    const events: [number, string, string][] = [[0, 'o', '✻ Thinking...'], [1, 'o', '\r\n1234567890❯ ']];
+    const header = JSON.stringify({ version: 2, width: 10, height: 5 });
+    const capture = parseCapture([header, ...events.map((e) => JSON.stringify(e))].join('\n'));
+    expect(capture).toMatchObject({ cols: 10, rows: 5 });
+    expect(replayCapture(capture, pack).map((e) => e.state)).toEqual(['working', 'idle']);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+
+vi.mock('node-pty', async () => {
+  const { ptyMockFactory } = await import('./pty-mock.js');
+  return ptyMockFactory();
+});
+
+import { SessionManager } from '../src/server/session-manager.js';
+import { GroupPool, normalizePoolConfig, MAX_ATTEMPTS } from '../src/server/group-pool.js';
+import { spawnedPtys } from './pty-mock.js';
+
+const NO_CONFIG = { concurrency: null, autoSpawn: null };
+
+describe('GroupPool', () => {
+  let sm: SessionManager;
+  let pool: GroupPool;
+
+  beforeEach(() => {
+    spawnedPtys.length = 0;
+    sm = new SessionManager();
+    pool = new GroupPool(sm);
+  });
+
+  afterEach(async () => {
+    await sm.killAll();
+  });
+
+  /** Spawn a session in `group` and bring it to the idle prompt. */
+  async function idleSession(group = 'g') {
+    const info = await sm.spawn({ group });
+    const pty = spawnedPtys.at(-1)!;
+    pty.emitData('❯ ');
+    return { info, pty };
+  }
+
+  it('hands queued tasks to idle sessions in the group', async () => {
+    const a = await idleSession();
+    await sm.spawn({ group: 'other' }); // other groups are never used
+    spawnedPtys[1].emitData('❯ ');
+
+    const first = pool.submit('g', 'task one');
+    const second = pool.submit('g', 'task two');
+    expect(first.status).toBe('running');
+    expect(first.sessionId).toBe(a.info.id);
+    expect(a.pty.written).toEqual(['task one\r']);
+    expect(second.status).toBe('queued');
+    expect(spawnedPtys[1].written).toEqual([]);
+
+    // Finishing the task frees the session for the next one
+    a.pty.emitData('✻ Thinking...');
+    a.pty.emitData('\n❯ ');
+    expect(first.status).toBe('done');
+    expect(first.finishedAt).toBeTruthy();
+    expect(second.status).toBe('running');
+    expect(a.pty.written).toEqual(['task one\r', 'task two\r']);
+  });
+
+  it('waits for a session to go idle', async () => {
+    await sm.spawn({ group: 'g' });
+    const task = pool.submit('g', 'later');
+    expect(task.status).toBe('queued');
+    spawnedPtys[0].emitData('❯ ');
+    expect(task.status).toBe('running');
+  });
+
+  it('respects the concurrency limit', async () => {
+    await idleSession();
+    await idleSession();
+    pool.configure('g', { concurrency: 1 });
+    const [a, b] = [pool.submit('g', 'a'), pool.submit('g', 'b')];
+    expect(a.status).toBe('running');
+    expect(b.status).toBe('queued');
+
+    pool.configure('g', { concurrency: null });
+    expect(b.status).toBe('running');
+    expect(b.sessionId).not.toBe(a.sessionId);
+  });
+
+  it('returns tasks from a session that dies to the pool', async () => {
+    const a = await idleSession();
+    const task = pool.submit('g', 'fragile');
+    a.pty.emitExit(1);
+    expect(task.status).toBe('queued');
+    expect(task.sessionId).toBeNull();
+    expect(task.attempts).toBe(1);
+
+    const b = await idleSession();
+    expect(task.status).toBe('running');
+    expect(task.sessionId).toBe(b.info.id);
+
+    // Killed sessions give their task back too
+    await sm.kill(b.info.id);
+    expect(task.status).toBe('queued');
+    expect(task.attempts).toBe(2);
+  });
+
+  it(`gives up on a task after ${MAX_ATTEMPTS} interrupted attempts`, async () => {
+    const task = pool.submit('g', 'doomed');
+    for (let i = 0; i < MAX_ATTEMPTS; i++) {
+      const s = await idleSession();
+      s.pty.emitExit(1);
+    }
+    expect(task.status).toBe('interrupted');
+    expect(task.attempts).toBe(MAX_ATTEMPTS);
+  });
+
+  it('auto-spawns sessions while the pool backs up, up to maxSessions', async () => {
+    pool.configure('g', { autoSpawn: { maxSessions: 2, cwd: '/tmp' } });
+    pool.submit('g', 'a');
+    pool.submit('g', 'b');
+    pool.submit('g', 'c');
+    await vi.waitFor(() => expect(sm.list('g')).toHaveLength(2));
+    expect(sm.list('g').every((s) => s.cwd === '/tmp')).toBe(true);
+
+    // Starting sessions count as capacity: no more spawns while they boot
+    pool.submit('g', 'd');
+    await Promise.resolve();
+    expect(sm.list('g')).toHaveLength(2);
+
+    for (const pty of spawnedPtys) pty.emitData('❯ ');
+    expect(pool.list('g').map((t) => t.status)).toEqual(['running', 'running', 'queued', 'queued']);
+  });
+
+  it('emits the pool on every change and cancels queued tasks', async () => {
+    const handler = vi.fn();
+    pool.on('tasks', handler);
+    const task = pool.submit('g', 'maybe');
+    expect(handler).toHaveBeenLastCalledWith('g', [task]);
+    expect(pool.cancel('g', task.id)!.status).toBe('cancelled');
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(() => pool.cancel('g', task.id)).toThrow('Task is already cancelled');
+    expect(pool.cancel('g', 'nope')).toBeUndefined();
+  });
+});
+
+describe('normalizePoolConfig', () => {
+  it('merges updates and clears with null', () => {
+    const config = normalizePoolConfig({ concurrency: 2, autoSpawn: { maxSessions: 4, cwd: '/tmp' } }, NO_CONFIG);
+    expect(config).toEqual({ concurrency: 2, autoSpawn: { maxSessions: 4, cwd: '/tmp' } });
+    expect(normalizePoolConfig({ autoSpawn: null }, config)).toEqual({ concurrency: 2, autoSpawn: null });
+  });
+
+  it('rejects invalid limits', () => {
+    expect(() => normalizePoolConfig({ concurrency: 0 }, NO_CONFIG)).toThrow('concurrency');
+    expect(() => normalizePoolConfig({ autoSpawn: { maxSessions: 1.5 } }, NO_CONFIG)).toThrow('maxSessions');
+    expect(() => normalizePoolConfig({ autoSpawn: { maxSessions: 2, cwd: '/tmp', args: 'x' } }, NO_CONFIG)).toThrow('args');
+    // Without a cwd, auto-spawned sessions would start wherever the server runs
+    expect(() => normalizePoolConfig({ autoSpawn: { maxSessions: 2 } }, NO_CONFIG)).toThrow('autoSpawn.cwd is required');
+    expect(() => normalizePoolConfig('fast', NO_CONFIG)).toThrow('must be an object');
+  });
+});
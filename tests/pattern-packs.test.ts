@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { PatternPacks, compilePatternPack, CLAUDE_CODE_PATTERNS } from '../src/server/pattern-packs.js';
+
+describe('compilePatternPack', () => {
+  it('compiles regex sources, with flags in /source/flags form', () => {
+    const pack = compilePatternPack({
+      name: 'shell',
+      version: 2,
+      trigger: '\\$',
+      states: { idle: ['/\\$ $/'], working: ['/^Building/im'] },
+    });
+    expect(pack).toMatchObject({ id: 'shell@2', description: null });
+    expect(pack.trigger!.flags).toBe('');
+    expect(pack.patterns.map((p) => [p.state, p.regexes.map(String)])).toEqual([
+      ['idle', ['/\\$ $/g']],
+      ['working', ['/^Building/gim']],
+    ]);
+  });
+
+  it('compiles the built-in pack', () => {
+    const pack = compilePatternPack(CLAUDE_CODE_PATTERNS);
+    expect(pack.id).toBe('claude-code@1');
+    expect(pack.patterns.map((p) => p.state)).toEqual(['idle', 'working', 'compacting', 'permission_needed', 'error']);
+  });
+
+  it('rejects invalid packs', () => {
+    expect(() => compilePatternPack([])).toThrow('Pattern pack must be an object');
+    expect(() => compilePatternPack({ name: 'a b', version: 1, states: {} })).toThrow('name must be');
+    expect(() => compilePatternPack({ name: 'a', version: '1', states: {} })).toThrow('version must be an integer');
+    expect(() => compilePatternPack({ name: 'a', version: 1, states: { busy: ['x'] } })).toThrow('states.busy is not a state');
+    expect(() => compilePatternPack({ name: 'a', version: 1, states: { idle: 'x' } })).toThrow('states.idle must be an array');
+    expect(() => compilePatternPack({ name: 'a', version: 1, states: { idle: ['x', '(('] } })).toThrow('states.idle[1]:');
+    expect(() => compilePatternPack({ name: 'a', version: 1, states: { idle: ['/x/g'] } })).toThrow('unsupported flags "g"');
+    expect(() => compilePatternPack({ name: 'a', version: 1, states: { idle: [] } })).toThrow('at least one pattern');
+  });
+});
+
+describe('PatternPacks', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    dir = mkdtempSync(join(tmpdir(), 'bb-patterns-'));
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('has the built-in pack before loading', () => {
+    const packs = new PatternPacks(join(dir, 'missing'));
+    expect(packs.resolve().id).toBe('claude-code@1');
+    expect(packs.list()).toEqual([
+      { id: 'claude-code@1', name: 'claude-code', version: 1, description: 'Claude Code terminal UI', source: 'built-in' },
+    ]);
+  });
+
+  it('loads JSON files and modules, resolving names to their highest version', async () => {
+    writeFileSync(join(dir, 'claude-code.json'), JSON.stringify([
+      { name: 'claude-code', version: 2, states: { idle: ['/❯\\s*$/'] } },
+      { name: 'claude-code', version: 3, states: { idle: ['/>\\s*$/'] } },
+    ]));
+    writeFileSync(join(dir, 'aider.mjs'), "export default { name: 'aider', version: 1, states: { idle: [/^> $/m] } };\n");
+    writeFileSync(join(dir, 'notes.txt'), 'not a pack');
+    const packs = new PatternPacks(dir);
+    expect((await packs.load()).map((p) => p.id)).toEqual(['aider@1', 'claude-code@2', 'claude-code@3']);
+
+    expect(packs.resolve().id).toBe('claude-code@3');
+    expect(packs.resolve('claude-code@1').id).toBe('claude-code@1');
+    expect(packs.resolve('aider').patterns[0].regexes[0].flags).toBe('gm');
+    expect(packs.list().find((p) => p.id === 'aider@1')!.source).toBe(join(dir, 'aider.mjs'));
+    expect(() => packs.resolve('aider@2')).toThrow('Unknown pattern pack: aider@2');
+    // Sessions whose pack is gone get the default
+    expect(packs.forSession('gone').id).toBe('claude-code@3');
+    expect(packs.forSession(null).id).toBe('claude-code@3');
+  });
+
+  it('replaces a built-in pack of the same version and skips invalid files', async () => {
+    writeFileSync(join(dir, 'override.json'), JSON.stringify({ name: 'claude-code', version: 1, description: 'patched', states: { idle: ['\\$ $'] } }));
+    writeFileSync(join(dir, 'broken.json'), '{ not json');
+    writeFileSync(join(dir, 'half.json'), JSON.stringify([{ name: 'half', version: 1, states: { idle: ['x'] } }, { name: 'half', version: 2, states: {} }]));
+    const packs = new PatternPacks(dir);
+    expect((await packs.load()).map((p) => p.id)).toEqual(['claude-code@1']);
+    expect(packs.list()).toEqual([expect.objectContaining({ id: 'claude-code@1', description: 'patched', source: join(dir, 'override.json') })]);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining(`ignoring pattern pack ${join(dir, 'broken.json')}`));
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('[1]: states must have at least one pattern'));
+  });
+});
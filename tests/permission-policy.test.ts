@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+
+vi.mock('node-pty', async () => {
+  const { ptyMockFactory } = await import('./pty-mock.js');
+  return ptyMockFactory();
+});
+
+import { SessionManager } from '../src/server/session-manager.js';
+import { PermissionPolicy, normalizePolicy, matchRule, SETTLE_MS } from '../src/server/permission-policy.js';
+import { parsePermissionPrompt } from '../src/server/permission-prompt.js';
+import { getAuditEntries } from '../src/server/audit-log.js';
+import type { PendingPermission, PermissionRule, SessionInfo } from '../src/server/types.js';
+import { spawnedPtys } from './pty-mock.js';
+
+const BASH_PROMPT = 'Bash command\n  npm test\nDo you want to proceed?\n❯ 1. Yes\n  2. No\n';
+
+function pending(overrides: Partial<PendingPermission>): PendingPermission {
+  return { tool: 'Bash command', command: null, filePath: null, question: 'Do you want to proceed?', options: [], ...overrides };
+}
+
+const info = { id: 'abc', name: 'worker', group: 'web', cwd: '/repo' } as SessionInfo;
+
+describe('matchRule', () => {
+  const rule = (r: Partial<PermissionRule>): PermissionRule => ({ name: 'r', decision: 'allow_once', ...r });
+
+  it('matches tools case-insensitively and commands by glob', () => {
+    const p = pending({ command: 'npm test -- --run' });
+    expect(matchRule(rule({ tool: 'bash' }), p, info)).toBe(true);
+    expect(matchRule(rule({ tool: 'Read' }), p, info)).toBe(false);
+    expect(matchRule(rule({ command: 'npm test*' }), p, info)).toBe(true);
+    expect(matchRule(rule({ command: 'npm test' }), p, info)).toBe(false);
+  });
+
+  it('never lets a command wildcard match shell operators', () => {
+    for (const command of ['npm test && rm -rf /', 'npm test; curl x', 'npm test | sh', 'npm test $(id)', 'npm test > /etc/x', 'npm test\nrm -rf ~']) {
+      expect(matchRule(rule({ command: 'npm test*' }), pending({ command }), info)).toBe(false);
+    }
+  });
+
+  it('matches paths relative to the session cwd', () => {
+    const read = (filePath: string) => pending({ tool: 'Read file', filePath });
+    expect(matchRule(rule({ underCwd: true }), read('src/index.ts'), info)).toBe(true);
+    expect(matchRule(rule({ underCwd: true }), read('/repo/src/index.ts'), info)).toBe(true);
+    expect(matchRule(rule({ underCwd: true }), read('../other/secret'), info)).toBe(false);
+    expect(matchRule(rule({ underCwd: true }), read('/etc/passwd'), info)).toBe(false);
+    expect(matchRule(rule({ path: 'src/*' }), read('src/../../etc/passwd'), info)).toBe(false);
+    expect(matchRule(rule({ path: 'src/*.ts' }), read('/repo/src/a.ts'), info)).toBe(true);
+  });
+
+  it('never approves an edit outside the cwd from its basename', () => {
+    const edit = (path: string) => parsePermissionPrompt(`Edit file\n ${path}\n 1 -  a\n 1 +  b\nDo you want to make this edit to hosts?\n❯ 1. Yes\n  2. No`)!;
+    expect(matchRule(rule({ underCwd: true }), edit('/etc/hosts'), info)).toBe(false);
+    expect(matchRule(rule({ path: 'hosts' }), edit('/etc/hosts'), info)).toBe(false);
+    // No path line: the basename alone can't place the file under cwd
+    expect(matchRule(rule({ underCwd: true }), edit('1 -  x'), info)).toBe(false);
+    expect(matchRule(rule({ underCwd: true }), edit('config/hosts'), info)).toBe(true);
+  });
+
+  it('limits rules to groups and sessions', () => {
+    const p = pending({ command: 'ls' });
+    expect(matchRule(rule({ tool: 'Bash', groups: ['api'] }), p, info)).toBe(false);
+    expect(matchRule(rule({ tool: 'Bash', groups: ['web'] }), p, info)).toBe(true);
+    expect(matchRule(rule({ tool: 'Bash', sessions: ['worker'] }), p, info)).toBe(true);
+    expect(matchRule(rule({ tool: 'Bash', sessions: ['xyz'] }), p, info)).toBe(false);
+  });
+});
+
+describe('normalizePolicy', () => {
+  it('accepts a valid policy', () => {
+    const policy = normalizePolicy({ dryRun: true, rules: [{ name: 'tests', tool: 'Bash', command: 'npm test', decision: 'allow_once' }] });
+    expect(policy.dryRun).toBe(true);
+    expect(policy.rules[0]).toMatchObject({ name: 'tests', decision: 'allow_once' });
+  });
+
+  it('rejects invalid rules', () => {
+    expect(() => normalizePolicy({ rules: [{ tool: 'Bash', decision: 'yes' }] })).toThrow('decision');
+    expect(() => normalizePolicy({ rules: [{ decision: 'allow_once' }] })).toThrow('at least one of');
+    expect(() => normalizePolicy({ rules: [{ tool: 'Bash', decision: 'deny', groups: 'web' }] })).toThrow('groups');
+    expect(() => normalizePolicy({ rules: {} })).toThrow('rules must be an array');
+  });
+});
+
+describe('PermissionPolicy', () => {
+  let dir: string;
+  let file: string;
+  let sm: SessionManager;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    spawnedPtys.length = 0;
+    dir = mkdtempSync(join(tmpdir(), 'bb-policy-'));
+    file = join(dir, 'policy.json');
+    sm = new SessionManager();
+    new PermissionPolicy(sm, file);
+  });
+
+  afterEach(async () => {
+    await sm.killAll();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  function writePolicy(policy: unknown) {
+    writeFileSync(file, JSON.stringify(policy));
+  }
+
+  it('answers a matching prompt once it settles and audits it', async () => {
+    writePolicy({ rules: [{ name: 'tests', tool: 'Bash', command: 'npm test', decision: 'allow_once' }] });
+    const s = await sm.spawn({});
+    spawnedPtys[0].emitData(BASH_PROMPT);
+    await vi.advanceTimersByTimeAsync(SETTLE_MS - 1);
+    expect(spawnedPtys[0].written).toEqual([]);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(spawnedPtys[0].written).toEqual(['1']);
+
+    const [entry] = getAuditEntries({ sessionId: s.id, action: 'session:autoPermission' });
+    expect(entry).toMatchObject({ source: 'system', result: 'ok', summary: 'tests: allow_once npm test' });
+
+    // The same prompt still on screen is not answered twice
+    spawnedPtys[0].emitData('\n');
+    await vi.advanceTimersByTimeAsync(SETTLE_MS);
+    expect(spawnedPtys[0].written).toEqual(['1']);
+  });
+
+  it('only audits in dry-run mode', async () => {
+    writePolicy({ dryRun: true, rules: [{ name: 'no-tests', tool: 'Bash', decision: 'deny' }] });
+    const s = await sm.spawn({});
+    spawnedPtys[0].emitData(BASH_PROMPT);
+    await vi.advanceTimersByTimeAsync(SETTLE_MS);
+    expect(spawnedPtys[0].written).toEqual([]);
+    const [entry] = getAuditEntries({ sessionId: s.id, action: 'session:autoPermission' });
+    expect(entry.summary).toBe('[dry run] no-tests: deny npm test');
+  });
+
+  it('leaves unmatched prompts alone and ignores a missing or invalid file', async () => {
+    const s = await sm.spawn({});
+    spawnedPtys[0].emitData(BASH_PROMPT);
+    await vi.advanceTimersByTimeAsync(SETTLE_MS);
+
+    writeFileSync(file, '{ not json');
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    spawnedPtys[0].emitData('✻ Running...');
+    spawnedPtys[0].emitData(BASH_PROMPT);
+    await vi.advanceTimersByTimeAsync(SETTLE_MS);
+
+    writePolicy({ rules: [{ name: 'reads', tool: 'Read', decision: 'allow_once' }] });
+    spawnedPtys[0].emitData('✻ Running...');
+    spawnedPtys[0].emitData(BASH_PROMPT);
+    await vi.advanceTimersByTimeAsync(SETTLE_MS);
+
+    expect(spawnedPtys[0].written).toEqual([]);
+    expect(getAuditEntries({ sessionId: s.id, action: 'session:autoPermission' })).toEqual([]);
+  });
+});
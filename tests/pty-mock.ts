@@ -40,7 +40,7 @@ export class MockPty {
 
   // Test helpers
   emitData(data: string) { for (const cb of this.dataListeners) cb(data); }
-  emitExit(exitCode = 0) { for (const cb of this.exitListeners) cb({ exitCode }); }
+  emitExit(exitCode = 0, signal?: number) { for (const cb of this.exitListeners) cb({ exitCode, signal }); }
 }
 
 /** Shared array that collects all spawned MockPty instances across test files. */
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  normalizeRestartPolicy, shouldRestart, restartDelay, AutoRestarter,
+  DEFAULT_MAX_RETRIES, DEFAULT_BACKOFF_MS,
+} from '../src/server/restart-policy.js';
+import { getAuditEntries } from '../src/server/audit-log.js';
+import type { RestartPolicy, SessionInfo } from '../src/server/types.js';
+
+const policy = (mode: RestartPolicy['mode'], maxRetries = 3, backoffMs = 1000): RestartPolicy => ({ mode, maxRetries, backoffMs });
+
+describe('normalizeRestartPolicy', () => {
+  it('returns null when no policy is given', () => {
+    expect(normalizeRestartPolicy(undefined)).toBeNull();
+    expect(normalizeRestartPolicy(null)).toBeNull();
+  });
+
+  it('fills in defaults', () => {
+    expect(normalizeRestartPolicy({ mode: 'on-failure' })).toEqual({
+      mode: 'on-failure', maxRetries: DEFAULT_MAX_RETRIES, backoffMs: DEFAULT_BACKOFF_MS,
+    });
+  });
+
+  it('rejects invalid modes and limits', () => {
+    expect(() => normalizeRestartPolicy({ mode: 'sometimes' })).toThrow('Invalid restartPolicy.mode');
+    expect(() => normalizeRestartPolicy('always')).toThrow('must be an object');
+    expect(() => normalizeRestartPolicy({ mode: 'always', maxRetries: -1 })).toThrow('maxRetries');
+    expect(() => normalizeRestartPolicy({ mode: 'always', maxRetries: 1.5 })).toThrow('maxRetries');
+    expect(() => normalizeRestartPolicy({ mode: 'always', backoffMs: 'soon' })).toThrow('backoffMs');
+  });
+});
+
+describe('shouldRestart', () => {
+  it('on-failure restarts only non-zero exit statuses', () => {
+    expect(shouldRestart(policy('on-failure'), 1, 0)).toBe(true);
+    expect(shouldRestart(policy('on-failure'), 137, 0)).toBe(true);
+    expect(shouldRestart(policy('on-failure'), 0, 0)).toBe(false);
+    expect(shouldRestart(policy('on-failure'), null, 0)).toBe(false);
+  });
+
+  it('always restarts clean and unknown exits too', () => {
+    expect(shouldRestart(policy('always'), 0, 0)).toBe(true);
+    expect(shouldRestart(policy('always'), null, 0)).toBe(true);
+  });
+
+  it('never restarts kills, never mode, or past maxRetries', () => {
+    expect(shouldRestart(policy('always'), -1, 0)).toBe(false);
+    expect(shouldRestart(policy('never'), 1, 0)).toBe(false);
+    expect(shouldRestart(policy('always', 2), 1, 2)).toBe(false);
+  });
+});
+
+describe('restartDelay', () => {
+  it('doubles per restart and caps at five minutes', () => {
+    expect(restartDelay(policy('always', 3, 1000), 0)).toBe(1000);
+    expect(restartDelay(policy('always', 3, 1000), 2)).toBe(4000);
+    expect(restartDelay(policy('always', 50, 1000), 20)).toBe(300_000);
+  });
+});
+
+describe('AutoRestarter', () => {
+  const info = (overrides: Partial<SessionInfo> = {}) => ({
+    id: 'abc', restartCount: 0, restartPolicy: policy('on-failure'), ...overrides,
+  }) as SessionInfo;
+
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('restarts after the backoff and logs an audit entry', async () => {
+    const restart = vi.fn(async () => info({ restartCount: 1 }));
+    const r = new AutoRestarter(restart);
+    r.onExit(info(), 1);
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(restart).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    expect(restart).toHaveBeenCalledWith('abc');
+    const entry = getAuditEntries({ action: 'session:autoRestart' }).at(-1)!;
+    expect(entry.sessionId).toBe('abc');
+    expect(entry.result).toBe('ok');
+    expect(entry.summary).toBe('exit 1, restart 1/3');
+  });
+
+  it('logs failed restarts', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const r = new AutoRestarter(async () => { throw new Error('Invalid working directory: /gone'); });
+    r.onExit(info(), 1);
+    await vi.advanceTimersByTimeAsync(1000);
+    const entry = getAuditEntries({ action: 'session:autoRestart' }).at(-1)!;
+    expect(entry.result).toBe('error');
+    expect(entry.error).toContain('/gone');
+    warn.mockRestore();
+  });
+
+  it('does nothing without a policy and can be cancelled', async () => {
+    const restart = vi.fn(async () => undefined);
+    const r = new AutoRestarter(restart);
+    r.onExit(info({ restartPolicy: null }), 1);
+    r.onExit(info(), 1);
+    r.cancel('abc');
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(restart).not.toHaveBeenCalled();
+  });
+});
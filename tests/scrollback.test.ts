@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, appendFileSync, existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { ScrollbackBuffer } from '../src/server/scrollback.js';
+
+describe('ScrollbackBuffer', () => {
+  it('assigns monotonically increasing byte offsets', () => {
+    const sb = new ScrollbackBuffer();
+    expect(sb.end).toBe(0);
+    expect(sb.append('hello')).toBe(5);
+    expect(sb.append(' world')).toBe(11);
+    expect(sb.append('é')).toBe(13); // 2 bytes in UTF-8
+    expect(sb.end).toBe(13);
+  });
+
+  it('reads everything in memory by default', () => {
+    const sb = new ScrollbackBuffer();
+    sb.append('abc');
+    sb.append('def');
+    expect(sb.read()).toEqual({ data: 'abcdef', from: 0, to: 6, start: 0, end: 6 });
+  });
+
+  it('reads from an offset inside a chunk', () => {
+    const sb = new ScrollbackBuffer();
+    sb.append('abc');
+    sb.append('def');
+    sb.append('ghi');
+    expect(sb.read(4).data).toBe('efghi');
+    expect(sb.read(3, 6).data).toBe('def');
+    expect(sb.read(2, 7).data).toBe('cdefg');
+  });
+
+  it('never splits a UTF-8 character at either end of a memory read', () => {
+    const sb = new ScrollbackBuffer();
+    sb.append('aé漢b'); // a=0, é=1-2, 漢=3-5, b=6
+    expect(sb.read(2)).toMatchObject({ data: '漢b', from: 3, to: 7 });
+    expect(sb.read(0, 5)).toMatchObject({ data: 'aé', from: 0, to: 3 });
+    expect(sb.read(4, 5).data).toBe('');
+    expect(sb.read(2).data).not.toContain('\ufffd');
+  });
+
+  it('returns an empty slice when caught up', () => {
+    const sb = new ScrollbackBuffer();
+    sb.append('abc');
+    const slice = sb.read(3);
+    expect(slice.data).toBe('');
+    expect(slice.from).toBe(3);
+    expect(slice.to).toBe(3);
+  });
+
+  it('clamps offsets beyond the end', () => {
+    const sb = new ScrollbackBuffer();
+    sb.append('abc');
+    const slice = sb.read(100);
+    expect(slice.from).toBe(3);
+    expect(slice.data).toBe('');
+  });
+
+  it('evicts oldest chunks past maxBytes and clamps reads to what is left', () => {
+    const sb = new ScrollbackBuffer({ maxBytes: 10 });
+    sb.append('aaaa');
+    sb.append('bbbb');
+    sb.append('cccc');
+    expect(sb.toArray()).toEqual(['bbbb', 'cccc']);
+    expect(sb.start).toBe(4);
+    const slice = sb.read(0);
+    expect(slice.from).toBe(4); // gap: caller asked for 0
+    expect(slice.data).toBe('bbbbcccc');
+  });
+
+  it('always keeps the newest chunk even if it exceeds maxBytes', () => {
+    const sb = new ScrollbackBuffer({ maxBytes: 4 });
+    sb.append('aa');
+    sb.append('0123456789');
+    expect(sb.toArray()).toEqual(['0123456789']);
+    expect(sb.read().from).toBe(2);
+  });
+
+  it('keeps offsets correct across compaction', () => {
+    const sb = new ScrollbackBuffer({ maxBytes: 10 });
+    for (let i = 0; i < 3000; i++) sb.append(String(i % 10));
+    expect(sb.end).toBe(3000);
+    expect(sb.read(2995).data).toBe('56789');
+    expect(sb.start).toBe(2990);
+  });
+
+  it('starts from initialOffset', () => {
+    const sb = new ScrollbackBuffer({ initialOffset: 100 });
+    expect(sb.append('xy')).toBe(102);
+    expect(sb.read(101).data).toBe('y');
+  });
+
+  describe('spool', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'bb-scrollback-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('owned spool records every chunk and serves evicted output from disk', () => {
+      const path = join(dir, 's1.log');
+      writeFileSync(path, '');
+      const small = new ScrollbackBuffer({ maxBytes: 4, spoolPath: path, ownsSpool: true });
+      small.append('aaaa');
+      small.append('bbbb');
+      small.append('cccc');
+      expect(readFileSync(path, 'utf-8')).toBe('aaaabbbbcccc');
+      expect(small.start).toBe(0);
+      expect(small.memoryStart).toBe(8);
+      expect(small.read(0).data).toBe('aaaabbbbcccc');
+      expect(small.read(2, 6).data).toBe('aabb');
+    });
+
+    it('narrows spool reads to whole UTF-8 characters', () => {
+      const path = join(dir, 's1b.log');
+      writeFileSync(path, '');
+      const small = new ScrollbackBuffer({ maxBytes: 2, spoolPath: path, ownsSpool: true });
+      small.append('aé');
+      small.append('éb');
+      small.append('cc');
+      expect(small.memoryStart).toBe(6);
+      // Starts inside the first 'é', ends inside the second
+      expect(small.read(2, 4)).toMatchObject({ data: '', from: 3, to: 3 });
+      expect(small.read(2, 5)).toMatchObject({ data: 'é', from: 3, to: 5 });
+      expect(small.read(0, 4)).toMatchObject({ data: 'aé', from: 0, to: 3 });
+    });
+
+    it('withSpool truncates a stale file and creates the directory', () => {
+      const path = join(dir, 'nested', 's2.log');
+      const sb = ScrollbackBuffer.withSpool(path);
+      sb.append('new');
+      expect(readFileSync(path, 'utf-8')).toBe('new');
+
+      const again = ScrollbackBuffer.withSpool(path);
+      expect(again.end).toBe(0);
+      expect(readFileSync(path, 'utf-8')).toBe('');
+    });
+
+    it('withSpool(null) returns a memory-only buffer', () => {
+      const sb = ScrollbackBuffer.withSpool(null);
+      sb.append('abc');
+      expect(sb.read().data).toBe('abc');
+    });
+
+    it('fromSpool continues offsets from the file size', () => {
+      const path = join(dir, 's3.log');
+      writeFileSync(path, 'previous run\r\n');
+      const sb = ScrollbackBuffer.fromSpool(path, true);
+      expect(sb.end).toBe(14);
+      expect(sb.read(0).data).toBe('previous run\r\n');
+      expect(sb.append('more')).toBe(18);
+      expect(sb.read(9).data).toBe('run\r\nmore');
+    });
+
+    it('fromSpool loads only the tail and never splits a UTF-8 character', () => {
+      const path = join(dir, 's6.log');
+      const e = Buffer.from('é');
+      // 'aé' + first half of another 'é' still being written
+      writeFileSync(path, Buffer.concat([Buffer.from('xxxxa'), e, e.subarray(0, 1)]));
+      const sb = ScrollbackBuffer.fromSpool(path, false, 4);
+      // The trailing partial byte is left for whoever tails the file
+      expect(sb.end).toBe(7);
+      expect(sb.memoryStart).toBe(4);
+      expect(sb.read().data).toBe('aé');
+      expect(sb.read(0).data).toBe('xxxxaé');
+    });
+
+    it('fromSpool skips a leading continuation byte in the tail window', () => {
+      const path = join(dir, 's7.log');
+      writeFileSync(path, 'xéab');
+      const sb = ScrollbackBuffer.fromSpool(path, false, 3);
+      expect(sb.memoryStart).toBe(3);
+      expect(sb.read().data).toBe('ab');
+    });
+
+    it('fromSpool on a missing file returns an empty buffer', () => {
+      const sb = ScrollbackBuffer.fromSpool(join(dir, 'missing.log'), true);
+      expect(sb.end).toBe(0);
+      expect(sb.read().data).toBe('');
+    });
+
+    it('reads an external spool without writing to it', () => {
+      const path = join(dir, 'pipe');
+      writeFileSync(path, '');
+      const sb = new ScrollbackBuffer({ maxBytes: 3, spoolPath: path });
+      // Another process writes the file; the buffer sees the same bytes
+      appendFileSync(path, 'abc');
+      sb.append('abc');
+      appendFileSync(path, 'def');
+      sb.append('def');
+      expect(readFileSync(path, 'utf-8')).toBe('abcdef');
+      expect(sb.read(1).data).toBe('bcdef');
+
+      sb.dispose();
+      expect(existsSync(path)).toBe(true);
+    });
+
+    it('detachSpool limits reads to memory', () => {
+      const path = join(dir, 's4.log');
+      const sb = new ScrollbackBuffer({ maxBytes: 3, spoolPath: path, ownsSpool: true });
+      sb.append('abc');
+      sb.append('def');
+      sb.detachSpool();
+      expect(sb.start).toBe(3);
+      expect(sb.read(0).data).toBe('def');
+    });
+
+    it('dispose deletes an owned spool', () => {
+      const path = join(dir, 's5.log');
+      const sb = ScrollbackBuffer.withSpool(path);
+      sb.append('abc');
+      sb.dispose();
+      expect(existsSync(path)).toBe(false);
+    });
+  });
+});
@@ -1,4 +1,7 @@
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
 
 // vi.mock is hoisted — the factory must not reference local variables.
 // We import from pty-mock inside the factory via dynamic import workaround.
@@ -9,6 +12,9 @@ vi.mock('node-pty', async () => {
 
 // Import after mock is installed
 import { SessionManager } from '../src/server/session-manager.js';
+import { MemorySessionStore } from '../src/server/session-store.js';
+import { Thresholds } from '../src/server/thresholds.js';
+import { PatternPacks } from '../src/server/pattern-packs.js';
 import { spawnedPtys } from './pty-mock.js';
 
 describe('SessionManager', () => {
@@ -19,12 +25,12 @@ describe('SessionManager', () => {
     sm = new SessionManager();
   });
 
-  afterEach(() => {
-    sm.killAll();
+  afterEach(async () => {
+    await sm.killAll();
   });
 
-  it('spawns a session with auto-generated name and id', () => {
-    const info = sm.spawn();
+  it('spawns a session with auto-generated name and id', async () => {
+    const info = await sm.spawn();
     expect(info.id).toMatch(/^[0-9a-f]{8}$/);
     expect(info.name).toBe('Claude');
     expect(info.group).toBe('default');
@@ -33,79 +39,94 @@ describe('SessionManager', () => {
     expect(spawnedPtys).toHaveLength(1);
   });
 
-  it('auto-names sessions sequentially', () => {
-    const a = sm.spawn();
-    const b = sm.spawn();
-    const c = sm.spawn();
+  it('auto-names sessions sequentially', async () => {
+    const a = await sm.spawn();
+    const b = await sm.spawn();
+    const c = await sm.spawn();
     expect(a.name).toBe('Claude');
     expect(b.name).toBe('Claude 2');
     expect(c.name).toBe('Claude 3');
   });
 
-  it('respects custom name and group', () => {
-    const info = sm.spawn({ name: 'test-worker', group: 'mygroup', cwd: '/tmp' });
+  it('respects custom name and group', async () => {
+    const info = await sm.spawn({ name: 'test-worker', group: 'mygroup', cwd: '/tmp' });
     expect(info.name).toBe('test-worker');
     expect(info.group).toBe('mygroup');
     expect(info.cwd).toBe('/tmp');
   });
 
-  it('lists sessions, optionally filtered by group', () => {
-    sm.spawn({ group: 'a' });
-    sm.spawn({ group: 'b' });
-    sm.spawn({ group: 'a' });
+  it('lists sessions, optionally filtered by group', async () => {
+    await sm.spawn({ group: 'a' });
+    await sm.spawn({ group: 'b' });
+    await sm.spawn({ group: 'a' });
     expect(sm.list()).toHaveLength(3);
     expect(sm.list('a')).toHaveLength(2);
     expect(sm.list('b')).toHaveLength(1);
     expect(sm.list('nonexistent')).toHaveLength(0);
   });
 
-  it('returns groups map', () => {
-    sm.spawn({ group: 'x' });
-    sm.spawn({ group: 'y' });
-    sm.spawn({ group: 'x' });
+  it('returns groups map', async () => {
+    await sm.spawn({ group: 'x' });
+    await sm.spawn({ group: 'y' });
+    await sm.spawn({ group: 'x' });
     const groups = sm.groups();
     expect(groups.get('x')).toHaveLength(2);
     expect(groups.get('y')).toHaveLength(1);
   });
 
-  it('writes input to session PTY', () => {
-    const info = sm.spawn();
-    expect(sm.write(info.id, 'hello')).toBe(true);
+  it('writes input to session PTY', async () => {
+    const info = await sm.spawn();
+    expect(await sm.write(info.id, 'hello')).toBe(true);
     expect(spawnedPtys[0].written).toContain('hello');
   });
 
-  it('write returns false for nonexistent session', () => {
-    expect(sm.write('nonexistent', 'data')).toBe(false);
+  it('write returns false for nonexistent session', async () => {
+    expect(await sm.write('nonexistent', 'data')).toBe(false);
   });
 
-  it('resizes PTY', () => {
-    const info = sm.spawn({ cols: 80, rows: 24 });
-    expect(sm.resize(info.id, 200, 50)).toBe(true);
+  it('resizes PTY', async () => {
+    const info = await sm.spawn({ cols: 80, rows: 24 });
+    expect(await sm.resize(info.id, 200, 50)).toBe(true);
     expect(spawnedPtys[0].cols).toBe(200);
     expect(spawnedPtys[0].rows).toBe(50);
     expect(sm.getInfo(info.id)!.cols).toBe(200);
     expect(sm.getInfo(info.id)!.rows).toBe(50);
   });
 
-  it('buffers scrollback from PTY output', () => {
-    const info = sm.spawn();
+  it('keeps a screen of the session\'s size, blank until its first output', async () => {
+    const info = await sm.spawn({ cols: 20, rows: 3 });
+    expect(sm.getScreen(info.id)).toEqual({
+      cols: 20, rows: 3, cursor: { row: 0, col: 0, visible: true }, alternate: false, text: '\n\n',
+    });
+    spawnedPtys[0].emitData('one\r\ntwo\r\nthree\r\n❯ ');
+    expect(sm.getScreen(info.id)!.text).toBe('two\nthree\n❯');
+    await sm.resize(info.id, 30, 2);
+    expect(sm.getScreen(info.id)).toMatchObject({ cols: 30, rows: 2, text: 'three\n❯' });
+
+    spawnedPtys[0].emitExit(0);
+    expect(sm.getScreen(info.id)).toBeUndefined();
+    expect(sm.getScreen('nope')).toBeUndefined();
+  });
+
+  it('buffers scrollback from PTY output', async () => {
+    const info = await sm.spawn();
     spawnedPtys[0].emitData('line 1\n');
     spawnedPtys[0].emitData('line 2\n');
     const sb = sm.getScrollback(info.id);
     expect(sb).toEqual(['line 1\n', 'line 2\n']);
   });
 
-  it('emits output events', () => {
-    const info = sm.spawn();
+  it('emits output events', async () => {
+    const info = await sm.spawn();
     const handler = vi.fn();
     sm.on('output', handler);
     spawnedPtys[0].emitData('test data');
-    expect(handler).toHaveBeenCalledWith(info.id, 'test data');
+    expect(handler).toHaveBeenCalledWith(info.id, 'test data', 9);
     sm.off('output', handler);
   });
 
-  it('handles PTY exit', () => {
-    const info = sm.spawn();
+  it('handles PTY exit', async () => {
+    const info = await sm.spawn();
     const handler = vi.fn();
     sm.on('exit', handler);
     spawnedPtys[0].emitExit(0);
@@ -116,58 +137,64 @@ describe('SessionManager', () => {
     sm.off('exit', handler);
   });
 
-  it('kills a session and disposes listeners', () => {
-    const info = sm.spawn();
-    expect(sm.kill(info.id)).toBe(true);
+  it('reports death by signal as 128+n', async () => {
+    const info = await sm.spawn();
+    spawnedPtys[0].emitExit(0, 9);
+    expect(sm.getInfo(info.id)!.exitCode).toBe(137);
+  });
+
+  it('kills a session and disposes listeners', async () => {
+    const info = await sm.spawn();
+    expect(await sm.kill(info.id)).toBe(true);
     expect(spawnedPtys[0].killed).toBe(true);
     expect(sm.getInfo(info.id)).toBeUndefined();
     // After kill, emitting data should not throw (listeners disposed)
     expect(() => spawnedPtys[0].emitData('after kill')).not.toThrow();
   });
 
-  it('kill returns false for nonexistent session', () => {
-    expect(sm.kill('nonexistent')).toBe(false);
+  it('kill returns false for nonexistent session', async () => {
+    expect(await sm.kill('nonexistent')).toBe(false);
   });
 
-  it('killAll removes all sessions', () => {
-    sm.spawn();
-    sm.spawn();
-    sm.spawn();
+  it('killAll removes all sessions', async () => {
+    await sm.spawn();
+    await sm.spawn();
+    await sm.spawn();
     expect(sm.count()).toBe(3);
-    sm.killAll();
+    await sm.killAll();
     expect(sm.count()).toBe(0);
   });
 
-  it('emits created event on spawn', () => {
+  it('emits created event on spawn', async () => {
     const handler = vi.fn();
     sm.on('created', handler);
-    const info = sm.spawn({ name: 'test' });
+    const info = await sm.spawn({ name: 'test' });
     expect(handler).toHaveBeenCalledWith(info);
     sm.off('created', handler);
   });
 
-  it('does not write to exited session', () => {
-    const info = sm.spawn();
+  it('does not write to exited session', async () => {
+    const info = await sm.spawn();
     spawnedPtys[0].emitExit(1);
-    expect(sm.write(info.id, 'data')).toBe(false);
+    expect(await sm.write(info.id, 'data')).toBe(false);
   });
 
   // ── Task tracking ─────────────────────────────────────────────────────────
 
-  it('stores task on spawn', () => {
-    const info = sm.spawn({ task: 'fix the login bug' });
+  it('stores task on spawn', async () => {
+    const info = await sm.spawn({ task: 'fix the login bug' });
     expect(info.task).toBe('fix the login bug');
     expect(info.taskStartedAt).toBeTruthy();
   });
 
-  it('defaults task to null when not provided', () => {
-    const info = sm.spawn();
+  it('defaults task to null when not provided', async () => {
+    const info = await sm.spawn();
     expect(info.task).toBeNull();
     expect(info.taskStartedAt).toBeNull();
   });
 
-  it('setTask updates task and taskStartedAt', () => {
-    const info = sm.spawn();
+  it('setTask updates task and taskStartedAt', async () => {
+    const info = await sm.spawn();
     expect(info.task).toBeNull();
     const ok = sm.setTask(info.id, 'new task');
     expect(ok).toBe(true);
@@ -180,13 +207,28 @@ describe('SessionManager', () => {
     expect(sm.setTask('nonexistent', 'task')).toBe(false);
   });
 
-  it('initializes compactionCount to 0', () => {
-    const info = sm.spawn();
+  it('setMute stores the mute, emits it and survives a restart', async () => {
+    const store = new MemorySessionStore();
+    const sm2 = new SessionManager(store);
+    const info = await sm2.spawn();
+    const events: unknown[] = [];
+    sm2.on('mute', (id, mute) => events.push([id, mute]));
+
+    const mute = { until: null, events: ['state:*'] };
+    expect(sm2.setMute(info.id, mute)).toBe(true);
+    expect(sm2.setMute('nonexistent', null)).toBe(false);
+    expect(events).toEqual([[info.id, mute]]);
+    expect(new SessionManager(store).getInfo(info.id)!.mute).toEqual(mute);
+    await sm2.killAll();
+  });
+
+  it('initializes compactionCount to 0', async () => {
+    const info = await sm.spawn();
     expect(info.compactionCount).toBe(0);
   });
 
-  it('initializes time metrics to 0', () => {
-    const info = sm.spawn();
+  it('initializes time metrics to 0', async () => {
+    const info = await sm.spawn();
     expect(info.totalWorkingMs).toBe(0);
     expect(info.totalIdleMs).toBe(0);
     expect(info.totalPermissionWaitMs).toBe(0);
@@ -194,40 +236,130 @@ describe('SessionManager', () => {
 
   // ── skipPermissions ──────────────────────────────────────────────────────
 
-  it('does not add --dangerously-skip-permissions by default', () => {
-    sm.spawn();
+  it('does not add --dangerously-skip-permissions by default', async () => {
+    await sm.spawn();
     expect(spawnedPtys[0].spawnArgs).not.toContain('--dangerously-skip-permissions');
   });
 
-  it('adds --dangerously-skip-permissions when skipPermissions is true', () => {
-    sm.spawn({ skipPermissions: true });
+  it('adds --dangerously-skip-permissions when skipPermissions is true', async () => {
+    await sm.spawn({ skipPermissions: true });
     expect(spawnedPtys[0].spawnArgs).toContain('--dangerously-skip-permissions');
   });
 
-  it('omits --dangerously-skip-permissions when skipPermissions is false', () => {
-    sm.spawn({ skipPermissions: false });
+  it('omits --dangerously-skip-permissions when skipPermissions is false', async () => {
+    await sm.spawn({ skipPermissions: false });
     expect(spawnedPtys[0].spawnArgs).not.toContain('--dangerously-skip-permissions');
   });
 
-  it('strips --dangerously-skip-permissions from args when skipPermissions is false', () => {
-    sm.spawn({ args: ['--dangerously-skip-permissions', '--verbose'], skipPermissions: false });
+  it('strips --dangerously-skip-permissions from args when skipPermissions is false', async () => {
+    await sm.spawn({ args: ['--dangerously-skip-permissions', '--verbose'], skipPermissions: false });
     expect(spawnedPtys[0].spawnArgs).not.toContain('--dangerously-skip-permissions');
     expect(spawnedPtys[0].spawnArgs).toContain('--verbose');
   });
 
-  it('skipPermissions true overrides env default', () => {
-    sm.spawn({ skipPermissions: true });
+  it('skipPermissions true overrides env default', async () => {
+    await sm.spawn({ skipPermissions: true });
     expect(spawnedPtys[0].spawnArgs).toContain('--dangerously-skip-permissions');
   });
 
-  it('auto-sends task when session reaches idle state', () => {
-    const info = sm.spawn({ task: 'do the thing' });
+  it('auto-sends task when session reaches idle state', async () => {
+    const info = await sm.spawn({ task: 'do the thing' });
     // Simulate Claude reaching idle prompt
     spawnedPtys[0].emitData('❯ ');
     // Should have auto-written the task
     expect(spawnedPtys[0].written).toContain('do the thing\r');
   });
 
+  it('dispatches queued tasks one per working → idle cycle and emits the queue', async () => {
+    const info = await sm.spawn({ task: 'first' });
+    const second = sm.enqueueTask(info.id, 'second')!;
+    const updates: string[][] = [];
+    sm.on('tasks', (_id: string, tasks: { status: string }[]) => updates.push(tasks.map((t) => t.status)));
+
+    spawnedPtys[0].emitData('❯ ');
+    expect(spawnedPtys[0].written).toEqual(['first\r']);
+    expect(updates.at(-1)).toEqual(['running', 'queued']);
+
+    spawnedPtys[0].emitData('✻ Thinking...');
+    spawnedPtys[0].emitData('\n❯ ');
+    expect(spawnedPtys[0].written).toEqual(['first\r', 'second\r']);
+    expect(updates.at(-1)).toEqual(['done', 'running']);
+    expect(sm.getInfo(info.id)!.task).toBe('second');
+    expect(sm.listTasks(info.id)!.find((t) => t.id === second.id)!.startedAt).toBeTruthy();
+
+    spawnedPtys[0].emitExit(1);
+    expect(sm.listTasks(info.id)!.map((t) => t.status)).toEqual(['done', 'interrupted']);
+  });
+
+  it('emits alerts past its group thresholds', async () => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    const dir = mkdtempSync(join(tmpdir(), 'bb-sm-thresholds-'));
+    const file = join(dir, 'thresholds.json');
+    writeFileSync(file, JSON.stringify({ groups: { ci: { idleTimeoutMs: 2000, longIdleMs: 5000 } } }));
+    const sm2 = new SessionManager(new MemorySessionStore(), new Thresholds(file));
+    try {
+      const info = await sm2.spawn({ group: 'ci' });
+      const alerts: unknown[] = [];
+      sm2.on('longIdle', (id, alert) => alerts.push([id, alert.kind]));
+
+      spawnedPtys[0].emitData('✻ Thinking...');
+      vi.advanceTimersByTime(2000);
+      expect(sm2.getInfo(info.id)!.detailedState).toBe('idle');
+      vi.advanceTimersByTime(5000);
+      expect(alerts).toEqual([[info.id, 'long_idle']]);
+    } finally {
+      await sm2.killAll();
+      vi.useRealTimers();
+      vi.restoreAllMocks();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('detects state with the pattern pack the session was spawned with', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'bb-sm-patterns-'));
+    writeFileSync(join(dir, 'shell.json'), JSON.stringify({ name: 'shell', version: 1, states: { idle: ['/\\$\\s*$/'], working: ['^building'] } }));
+    const patterns = new PatternPacks(dir);
+    await patterns.load();
+    const sm2 = new SessionManager(new MemorySessionStore(), new Thresholds('/nonexistent/thresholds.json'), patterns);
+    try {
+      await expect(sm2.spawn({ patterns: 'shell@2' })).rejects.toThrow('Unknown pattern pack: shell@2');
+      const shell = await sm2.spawn({ patterns: 'shell' });
+      const claude = await sm2.spawn();
+      expect(shell.patterns).toBe('shell');
+      expect(claude.patterns).toBeNull();
+
+      spawnedPtys[0].emitData('building\n$ ');
+      spawnedPtys[1].emitData('building\n$ ');
+      expect(sm2.getInfo(shell.id)!.detailedState).toBe('idle');
+      expect(sm2.getInfo(claude.id)!.detailedState).toBe('starting');
+    } finally {
+      await sm2.killAll();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('exposes the pending permission prompt and emits its changes', async () => {
+    const info = await sm.spawn({});
+    const events: unknown[] = [];
+    sm.on('permission', (_id: string, pending: unknown) => events.push(pending));
+
+    spawnedPtys[0].emitData('Bash command\n  git push\nDo you want to proceed?\n❯ 1. Yes\n  2. No\n');
+    expect(sm.getInfo(info.id)!.pendingPermission).toMatchObject({ command: 'git push' });
+    expect(events).toHaveLength(1);
+
+    spawnedPtys[0].emitData('✻ Running...');
+    expect(sm.getInfo(info.id)!.pendingPermission).toBeNull();
+    expect(events).toEqual([expect.objectContaining({ command: 'git push' }), null]);
+  });
+
+  it('task queue methods return undefined for unknown sessions', () => {
+    expect(sm.enqueueTask('nonexistent', 'x')).toBeUndefined();
+    expect(sm.listTasks('nonexistent')).toBeUndefined();
+    expect(sm.reorderTasks('nonexistent', [])).toBeUndefined();
+    expect(sm.cancelTask('nonexistent', 'x')).toBeUndefined();
+  });
+
   // ── BB_SKIP_PERMISSIONS env var ─────────────────────────────────────────
 
   it('omits --dangerously-skip-permissions when BB_SKIP_PERMISSIONS=false', async () => {
@@ -246,18 +378,18 @@ describe('SessionManager', () => {
     const prevLen = ptys2.length;
 
     const sm2 = new SM2();
-    sm2.spawn();
+    await sm2.spawn();
     expect(ptys2[prevLen].spawnArgs).not.toContain('--dangerously-skip-permissions');
-    sm2.killAll();
+    await sm2.killAll();
 
     delete process.env.BB_SKIP_PERMISSIONS;
   });
 
   // ── Transcript ──────────────────────────────────────────────────────────
 
-  it('records user input as transcript entry', () => {
-    const info = sm.spawn();
-    sm.write(info.id, 'hello world\r');
+  it('records user input as transcript entry', async () => {
+    const info = await sm.spawn();
+    await sm.write(info.id, 'hello world\r');
     const transcript = sm.getTranscript(info.id);
     expect(transcript).toHaveLength(1);
     expect(transcript[0].role).toBe('user');
@@ -265,10 +397,10 @@ describe('SessionManager', () => {
     expect(transcript[0].timestamp).toBeTruthy();
   });
 
-  it('captures assistant response on working→idle transition', () => {
-    const info = sm.spawn();
+  it('captures assistant response on working→idle transition', async () => {
+    const info = await sm.spawn();
     // User sends input
-    sm.write(info.id, 'do something\r');
+    await sm.write(info.id, 'do something\r');
     // Simulate Claude working
     spawnedPtys[0].emitData('✻ Thinking...');
     // Simulate Claude's response
@@ -284,9 +416,9 @@ describe('SessionManager', () => {
     expect(assistant!.content).toContain('response');
   });
 
-  it('getTranscript returns entries for session', () => {
-    const info = sm.spawn();
-    sm.write(info.id, 'test\r');
+  it('getTranscript returns entries for session', async () => {
+    const info = await sm.spawn();
+    await sm.write(info.id, 'test\r');
     expect(sm.getTranscript(info.id)).toHaveLength(1);
   });
 
@@ -296,8 +428,8 @@ describe('SessionManager', () => {
 
   // ── Scrollback returns copy ─────────────────────────────────────────────
 
-  it('getScrollback returns a copy (not reference)', () => {
-    const info = sm.spawn();
+  it('getScrollback returns a copy (not reference)', async () => {
+    const info = await sm.spawn();
     spawnedPtys[0].emitData('data');
     const sb1 = sm.getScrollback(info.id);
     const sb2 = sm.getScrollback(info.id);
@@ -306,4 +438,237 @@ describe('SessionManager', () => {
     sb1.push('extra');
     expect(sm.getScrollback(info.id)).not.toContain('extra');
   });
+
+  it('readScrollback reads by byte offset', async () => {
+    const info = await sm.spawn();
+    spawnedPtys[0].emitData('line 1\n');
+    spawnedPtys[0].emitData('line 2\n');
+    const slice = sm.readScrollback(info.id, 7)!;
+    expect(slice.data).toBe('line 2\n');
+    expect(slice.from).toBe(7);
+    expect(slice.end).toBe(14);
+    expect(sm.readScrollback('nonexistent')).toBeUndefined();
+  });
+
+  // ── Session store ───────────────────────────────────────────────────────
+
+  it('writes through to the store on spawn, task and exit', async () => {
+    const store = new MemorySessionStore();
+    const sm2 = new SessionManager(store);
+    const info = await sm2.spawn({ name: 'persisted' });
+    expect(store.load()[0].name).toBe('persisted');
+
+    sm2.setTask(info.id, 'write docs');
+    expect(store.load()[0].task).toBe('write docs');
+
+    spawnedPtys[0].emitExit(3);
+    const saved = store.load()[0];
+    expect(saved.status).toBe('exited');
+    expect(saved.exitCode).toBe(3);
+    await sm2.killAll();
+  });
+
+  it('kill removes the session from the store', async () => {
+    const store = new MemorySessionStore();
+    const sm2 = new SessionManager(store);
+    const info = await sm2.spawn();
+    await sm2.kill(info.id);
+    expect(store.load()).toEqual([]);
+  });
+
+  it('keeps final metrics after natural exit', async () => {
+    vi.useFakeTimers();
+    const info = await sm.spawn();
+    spawnedPtys[0].emitData('✻ Thinking...');
+    vi.advanceTimersByTime(5000);
+    spawnedPtys[0].emitExit(0);
+    vi.advanceTimersByTime(5000);
+    expect(sm.getInfo(info.id)!.totalWorkingMs).toBe(5000);
+    vi.useRealTimers();
+  });
+
+  it('restores stored sessions as exited history after restart', async () => {
+    const store = new MemorySessionStore();
+    const first = new SessionManager(store);
+    const info = await first.spawn({ name: 'before-restart', task: 'refactor' });
+
+    // Simulate a crash: the PTY is gone but the store still says running
+    const second = new SessionManager(store);
+    const restored = second.getInfo(info.id)!;
+    expect(restored.name).toBe('before-restart');
+    expect(restored.task).toBe('refactor');
+    expect(restored.status).toBe('exited');
+    expect(restored.pid).toBeNull();
+    expect(second.list()).toHaveLength(1);
+    expect(await second.write(info.id, 'hi')).toBe(false);
+    expect(await second.kill(info.id)).toBe(true);
+    expect(store.load()).toEqual([]);
+    await first.killAll();
+  });
+
+  it('keeps a bounded exited history that does not count toward the session limit', async () => {
+    const store = new MemorySessionStore();
+    const first = new SessionManager(store);
+    const template = await first.spawn();
+    await first.killAll();
+    for (let i = 0; i < 102; i++) {
+      const at = new Date(Date.UTC(2026, 0, 1, 0, i)).toISOString();
+      store.save({ ...template, id: `old${i}`, status: 'exited', pid: null, lastActivityAt: at });
+    }
+
+    const sm2 = new SessionManager(store);
+    try {
+      // The two least recently active are forgotten
+      expect(sm2.list()).toHaveLength(100);
+      expect(sm2.getInfo('old0')).toBeUndefined();
+      expect(sm2.getInfo('old1')).toBeUndefined();
+      expect(store.load()).toHaveLength(100);
+
+      const info = await sm2.spawn();
+      expect(sm2.list()).toHaveLength(101);
+      spawnedPtys[spawnedPtys.length - 1].emitExit(0);
+      expect(sm2.getInfo(info.id)).toBeDefined();
+      expect(sm2.getInfo('old2')).toBeUndefined();
+      expect(sm2.list()).toHaveLength(100);
+    } finally {
+      await sm2.killAll();
+    }
+  });
+
+  it('restarts an exited session under the same id, resuming its conversation', async () => {
+    const store = new MemorySessionStore();
+    const sm2 = new SessionManager(store);
+    const info = await sm2.spawn({ name: 'worker', group: 'g', cwd: '/tmp', args: ['--model', 'sonnet'], task: 'refactor' });
+    spawnedPtys[0].emitData('before');
+    spawnedPtys[0].emitExit(1);
+
+    const handler = vi.fn();
+    sm2.on('restarted', handler);
+    const restarted = await sm2.restart(info.id);
+
+    expect(restarted!.id).toBe(info.id);
+    expect(restarted!.status).toBe('running');
+    expect(restarted!.exitCode).toBeNull();
+    expect(restarted!.name).toBe('worker');
+    expect(restarted!.group).toBe('g');
+    expect(restarted!.task).toBe('refactor');
+    expect(spawnedPtys).toHaveLength(2);
+    expect(spawnedPtys[0].spawnArgs).toEqual(['--session-id', info.conversationId, '--model', 'sonnet']);
+    expect(spawnedPtys[1].spawnArgs).toEqual(['--resume', info.conversationId, '--model', 'sonnet']);
+    expect(handler).toHaveBeenCalledWith(restarted);
+    expect(store.load()[0].status).toBe('running');
+
+    // Output continues from the previous run's offsets
+    const outputs: number[] = [];
+    sm2.on('output', (_id: string, _data: string, offset: number) => outputs.push(offset));
+    spawnedPtys[1].emitData('after');
+    expect(outputs).toEqual([11]);
+    expect(sm2.readScrollback(info.id)!.data).toBe('beforeafter');
+
+    // A second exit is reported normally
+    const exitHandler = vi.fn();
+    sm2.on('exit', exitHandler);
+    spawnedPtys[1].emitExit(0);
+    expect(exitHandler).toHaveBeenCalledWith(info.id, 0);
+    await sm2.killAll();
+  });
+
+  it('resumes each session\'s own conversation when sessions share a cwd', async () => {
+    const a = await sm.spawn({ cwd: '/tmp' });
+    const b = await sm.spawn({ cwd: '/tmp' });
+    expect(a.conversationId).toBeTruthy();
+    expect(b.conversationId).not.toBe(a.conversationId);
+    spawnedPtys[0].emitExit(0);
+    spawnedPtys[1].emitExit(0);
+
+    await sm.restart(b.id);
+    await sm.restart(a.id);
+    expect(spawnedPtys[2].spawnArgs.slice(0, 2)).toEqual(['--resume', b.conversationId]);
+    expect(spawnedPtys[3].spawnArgs.slice(0, 2)).toEqual(['--resume', a.conversationId]);
+  });
+
+  it('falls back to --continue when the conversation id is unknown', async () => {
+    const info = await sm.spawn({ args: ['--continue'] });
+    expect(info.conversationId).toBeNull();
+    spawnedPtys[0].emitExit(0);
+    await sm.restart(info.id);
+    expect(spawnedPtys[1].spawnArgs).toEqual(['--continue']);
+  });
+
+  it('restart rejects running sessions and ignores unknown ids', async () => {
+    const info = await sm.spawn();
+    await expect(sm.restart(info.id)).rejects.toThrow('still running');
+    expect(await sm.restart('nonexistent')).toBeUndefined();
+  });
+
+  it('restarts sessions restored from the store after a server restart', async () => {
+    const store = new MemorySessionStore();
+    const first = new SessionManager(store);
+    const info = await first.spawn({ args: ['--verbose'] });
+
+    const second = new SessionManager(store);
+    const restarted = await second.restart(info.id);
+    expect(restarted!.status).toBe('running');
+    expect(spawnedPtys.at(-1)!.spawnArgs).toEqual(['--resume', info.conversationId, '--verbose']);
+    await first.killAll();
+    await second.killAll();
+  });
+
+  it('auto-restarts a crashed session per its restartPolicy', async () => {
+    vi.useFakeTimers();
+    const info = await sm.spawn({ restartPolicy: { mode: 'on-failure', maxRetries: 2, backoffMs: 500 } });
+    expect(info.restartCount).toBe(0);
+    expect(info.restartPolicy).toEqual({ mode: 'on-failure', maxRetries: 2, backoffMs: 500 });
+
+    spawnedPtys[0].emitExit(1);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(spawnedPtys).toHaveLength(2);
+    expect(spawnedPtys[1].spawnArgs).toContain('--resume');
+    expect(sm.getInfo(info.id)!.status).toBe('running');
+    expect(sm.getInfo(info.id)!.restartCount).toBe(1);
+
+    // Backoff doubles, then maxRetries stops further restarts
+    spawnedPtys[1].emitExit(1);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(spawnedPtys).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(spawnedPtys).toHaveLength(3);
+    spawnedPtys[2].emitExit(1);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(spawnedPtys).toHaveLength(3);
+    expect(sm.getInfo(info.id)!.status).toBe('exited');
+    expect(sm.getInfo(info.id)!.restartCount).toBe(2);
+    vi.useRealTimers();
+  });
+
+  it('does not auto-restart a clean exit under on-failure, or a killed session', async () => {
+    vi.useFakeTimers();
+    const a = await sm.spawn({ restartPolicy: { mode: 'on-failure' } });
+    spawnedPtys[0].emitExit(0);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(sm.getInfo(a.id)!.status).toBe('exited');
+
+    const b = await sm.spawn({ restartPolicy: { mode: 'always' } });
+    spawnedPtys[1].emitExit(1);
+    await sm.kill(b.id);
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(spawnedPtys).toHaveLength(2);
+    vi.useRealTimers();
+  });
+
+  it('rejects an invalid restartPolicy', async () => {
+    await expect(sm.spawn({ restartPolicy: { mode: 'sometimes' as any } })).rejects.toThrow('Invalid restartPolicy.mode');
+  });
+
+  it('shutdown records running sessions as exited instead of removing them', async () => {
+    const store = new MemorySessionStore();
+    const sm2 = new SessionManager(store);
+    const info = await sm2.spawn();
+    await sm2.shutdown();
+    expect(spawnedPtys[0].killed).toBe(true);
+    const saved = store.load()[0];
+    expect(saved.id).toBe(info.id);
+    expect(saved.status).toBe('exited');
+    expect(saved.exitCode).toBe(-1);
+  });
 });
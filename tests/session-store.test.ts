@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync, statSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { FileSessionStore, MemorySessionStore } from '../src/server/session-store.js';
+import type { SessionInfo } from '../src/server/types.js';
+
+function makeSessionInfo(overrides: Partial<SessionInfo> & { id: string }): SessionInfo {
+  return {
+    name: 'test',
+    group: 'default',
+    cwd: '/tmp',
+    status: 'running',
+    detailedState: 'idle',
+    exitCode: null,
+    pid: 12345,
+    createdAt: new Date().toISOString(),
+    cols: 120,
+    rows: 40,
+    lastActivityAt: new Date().toISOString(),
+    task: null,
+    taskStartedAt: null,
+    compactionCount: 0,
+    totalWorkingMs: 0,
+    totalIdleMs: 0,
+    totalPermissionWaitMs: 0,
+    ...overrides,
+  };
+}
+
+describe('FileSessionStore', () => {
+  let dir: string;
+  let store: FileSessionStore;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'bb-store-'));
+    store = new FileSessionStore(dir);
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('saves and loads sessions', () => {
+    store.save(makeSessionInfo({ id: 'a1', task: 'fix it' }));
+    store.save(makeSessionInfo({ id: 'b2', status: 'exited', exitCode: 0 }));
+    const loaded = store.load().sort((x, y) => x.id.localeCompare(y.id));
+    expect(loaded).toHaveLength(2);
+    expect(loaded[0].task).toBe('fix it');
+    expect(loaded[1].status).toBe('exited');
+  });
+
+  it('overwrites on repeated save', () => {
+    store.save(makeSessionInfo({ id: 'a1', totalWorkingMs: 1 }));
+    store.save(makeSessionInfo({ id: 'a1', totalWorkingMs: 500 }));
+    const loaded = store.load();
+    expect(loaded).toHaveLength(1);
+    expect(loaded[0].totalWorkingMs).toBe(500);
+  });
+
+  it('writes owner-only files', () => {
+    store.save(makeSessionInfo({ id: 'a1' }));
+    expect(statSync(join(dir, 'a1.json')).mode & 0o777).toBe(0o600);
+  });
+
+  it('removes sessions', () => {
+    store.save(makeSessionInfo({ id: 'a1' }));
+    store.remove('a1');
+    expect(store.load()).toEqual([]);
+  });
+
+  it('skips corrupt entries', () => {
+    store.save(makeSessionInfo({ id: 'a1' }));
+    writeFileSync(join(dir, 'broken.json'), '{not json');
+    expect(store.load().map((s) => s.id)).toEqual(['a1']);
+  });
+
+  it('returns empty list for a missing directory', () => {
+    rmSync(dir, { recursive: true, force: true });
+    expect(store.load()).toEqual([]);
+  });
+});
+
+describe('MemorySessionStore', () => {
+  it('stores copies, not references', () => {
+    const store = new MemorySessionStore();
+    const info = makeSessionInfo({ id: 'm1' });
+    store.save(info);
+    info.name = 'mutated';
+    expect(store.load()[0].name).toBe('test');
+  });
+
+  it('removes sessions', () => {
+    const store = new MemorySessionStore();
+    store.save(makeSessionInfo({ id: 'm1' }));
+    store.remove('m1');
+    expect(store.load()).toEqual([]);
+  });
+});
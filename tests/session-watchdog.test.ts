@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { SessionWatchdog } from '../src/server/session-watchdog.js';
+import { Thresholds } from '../src/server/thresholds.js';
+import { getAuditEntries } from '../src/server/audit-log.js';
+import type { SessionAlert, SessionInfo } from '../src/server/types.js';
+
+const SPINNER = ['\r\x1b[2K✻ Pondering… (12s · ↑ 1.2k tokens · esc to interrupt)', '\r\x1b[2K✶ Pondering… (13s · ↑ 1.3k tokens · esc to interrupt)'];
+
+describe('SessionWatchdog', () => {
+  let dir: string;
+  let alerts: SessionAlert[];
+  let watchdog: SessionWatchdog;
+  const info = { id: 'w1', group: 'web', compactionCount: 0 } as SessionInfo;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    dir = mkdtempSync(join(tmpdir(), 'bb-watchdog-'));
+    const file = join(dir, 'thresholds.json');
+    writeFileSync(file, JSON.stringify({
+      longIdleMs: 60_000,
+      stuckWorkingMs: 5 * 60_000,
+      permissionPendingMs: 2 * 60_000,
+      maxCompactions: 2,
+      groups: { quiet: { stuckWorkingMs: null, permissionPendingMs: null } },
+    }));
+    alerts = [];
+    watchdog = new SessionWatchdog(new Thresholds(file), (alert) => alerts.push(alert));
+    info.compactionCount = 0;
+  });
+
+  afterEach(() => {
+    watchdog.remove(info.id);
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('flags a session working with only the spinner redrawing', () => {
+    watchdog.onStateChange(info, 'working');
+    watchdog.onOutput(info, `Reading src/app.ts\n${SPINNER[0]}`);
+    for (let i = 0; i < 5 * 60; i++) {
+      vi.advanceTimersByTime(1000);
+      watchdog.onOutput(info, SPINNER[i % 2]);
+    }
+    expect(alerts).toEqual([expect.objectContaining({ kind: 'stuck', sessionId: 'w1', threshold: 300_000 })]);
+    expect(getAuditEntries({ action: 'session:alert', sessionId: 'w1' }).at(-1)?.summary).toMatch(/^stuck: working for 5m/);
+
+    // New output starts the watch over
+    watchdog.onOutput(info, 'Editing src/app.ts\n');
+    vi.advanceTimersByTime(4 * 60_000);
+    expect(alerts).toHaveLength(1);
+    vi.advanceTimersByTime(60_000);
+    expect(alerts).toHaveLength(2);
+  });
+
+  it('does not flag a session whose output keeps changing', () => {
+    watchdog.onStateChange(info, 'working');
+    for (let i = 0; i < 10; i++) {
+      vi.advanceTimersByTime(60_000);
+      watchdog.onOutput(info, `Writing file-${String.fromCharCode(97 + i)}.ts\n`);
+    }
+    expect(alerts).toEqual([]);
+  });
+
+  it('flags unanswered permission prompts and long idle after work', () => {
+    watchdog.onStateChange(info, 'permission_needed');
+    vi.advanceTimersByTime(2 * 60_000);
+    expect(alerts.map((a) => a.kind)).toEqual(['permission_timeout']);
+
+    // Idle without having worked is not worth an alert
+    watchdog.onStateChange(info, 'idle');
+    vi.advanceTimersByTime(60_000);
+    watchdog.onStateChange(info, 'working');
+    watchdog.onStateChange(info, 'idle');
+    vi.advanceTimersByTime(60_000);
+    expect(alerts.map((a) => a.kind)).toEqual(['permission_timeout', 'long_idle']);
+    expect(alerts[1]).toMatchObject({ threshold: 60_000, value: 60_000 });
+  });
+
+  it('cancels pending alerts on a state change or removal', () => {
+    watchdog.onStateChange(info, 'permission_needed');
+    vi.advanceTimersByTime(60_000);
+    watchdog.onStateChange(info, 'working');
+    watchdog.onStateChange(info, 'idle');
+    watchdog.remove(info.id);
+    vi.advanceTimersByTime(10 * 60_000);
+    expect(alerts).toEqual([]);
+  });
+
+  it('flags too many compactions once', () => {
+    for (let i = 1; i <= 4; i++) {
+      info.compactionCount = i;
+      watchdog.onStateChange(info, 'compacting');
+    }
+    expect(alerts).toEqual([expect.objectContaining({ kind: 'compactions', threshold: 2, value: 3 })]);
+  });
+
+  it('uses the session group thresholds', () => {
+    const quiet = { id: 'w2', group: 'quiet', compactionCount: 0 } as SessionInfo;
+    watchdog.onStateChange(quiet, 'permission_needed');
+    vi.advanceTimersByTime(60 * 60_000);
+    watchdog.onStateChange(quiet, 'working');
+    vi.advanceTimersByTime(60 * 60_000);
+    watchdog.remove(quiet.id);
+    expect(alerts).toEqual([]);
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
-import { isAllowedArg, sanitizeColsRows, SENSITIVE_ENV_KEYS, MAX_SESSIONS, MAX_SCROLLBACK_BYTES } from '../src/server/shared.js';
+import { isAllowedArg, sanitizeColsRows, resumeArgs, withConversationId, expiredHistory, SENSITIVE_ENV_KEYS, MAX_SESSIONS, MAX_SCROLLBACK_BYTES } from '../src/server/shared.js';
+import type { SessionInfo } from '../src/server/types.js';
 
 describe('isAllowedArg', () => {
   it('allows exact flag matches', () => {
@@ -78,3 +79,46 @@ describe('shared constants', () => {
     expect(MAX_SCROLLBACK_BYTES).toBe(2 * 1024 * 1024);
   });
 });
+
+describe('expiredHistory', () => {
+  it('picks the exited sessions past the limit, least recently active first', () => {
+    const info = (id: string, status: string, minute: number) =>
+      ({ id, status, lastActivityAt: new Date(Date.UTC(2026, 0, 1, 0, minute)).toISOString() }) as SessionInfo;
+    const infos = [info('c', 'exited', 3), info('a', 'exited', 1), info('r', 'running', 0), info('b', 'exited', 2)];
+    expect(expiredHistory(infos, 1)).toEqual(['a', 'b']);
+    expect(expiredHistory(infos, 3)).toEqual([]);
+  });
+});
+
+describe('resumeArgs', () => {
+  it('resumes the known conversation id, falling back to --continue', () => {
+    expect(resumeArgs(['--model', 'sonnet'], 'conv-1')).toEqual(['--resume', 'conv-1', '--model', 'sonnet']);
+    expect(resumeArgs(['--model', 'sonnet'])).toEqual(['--continue', '--model', 'sonnet']);
+  });
+
+  it('replaces earlier resume flags, including a --resume session id', () => {
+    expect(resumeArgs(['--continue', '--verbose'])).toEqual(['--continue', '--verbose']);
+    expect(resumeArgs(['-r', 'abc123', '--verbose'])).toEqual(['--continue', '--verbose']);
+    expect(resumeArgs(['--resume=abc123'])).toEqual(['--continue']);
+    expect(resumeArgs(['--resume', '--verbose'])).toEqual(['--continue', '--verbose']);
+    expect(resumeArgs(['--session-id', 'conv-1', '--verbose'], 'conv-1')).toEqual(['--resume', 'conv-1', '--verbose']);
+  });
+});
+
+describe('withConversationId', () => {
+  it('pins a fresh conversation id with --session-id', () => {
+    const { args, conversationId } = withConversationId(['--verbose']);
+    expect(conversationId).toMatch(/^[0-9a-f-]{36}$/);
+    expect(args).toEqual(['--session-id', conversationId, '--verbose']);
+  });
+
+  it('keeps an explicit conversation id', () => {
+    expect(withConversationId(['-r', 'abc123'])).toEqual({ args: ['-r', 'abc123'], conversationId: 'abc123' });
+    expect(withConversationId(['--session-id=abc123'])).toEqual({ args: ['--session-id=abc123'], conversationId: 'abc123' });
+  });
+
+  it('leaves the id unknown when claude picks the conversation to resume', () => {
+    expect(withConversationId(['--continue'])).toEqual({ args: ['--continue'], conversationId: null });
+    expect(withConversationId(['--resume', '--verbose'])).toEqual({ args: ['--resume', '--verbose'], conversationId: null });
+  });
+});
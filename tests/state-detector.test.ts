@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { StateDetector } from '../src/server/state-detector.js';
+import { StateDetector, detectState } from '../src/server/state-detector.js';
+import { compilePatternPack } from '../src/server/pattern-packs.js';
 import type { DetailedState } from '../src/server/state-detector.js';
 
 describe('StateDetector', () => {
@@ -98,6 +99,17 @@ describe('StateDetector', () => {
     expect(changes.at(-1)).toEqual({ sessionId: 's1', state: 'idle', prev: 'working' });
   });
 
+  it('takes the idle timeout per session', () => {
+    const slow = new StateDetector(() => {}, undefined, { idleTimeout: (id) => (id === 'slow' ? 120_000 : 5000) });
+    slow.feed('slow', '✻ Working...');
+    slow.feed('fast', '✻ Working...');
+    vi.advanceTimersByTime(5000);
+    expect(slow.getState('fast')).toBe('idle');
+    expect(slow.getState('slow')).toBe('working');
+    vi.advanceTimersByTime(115_000);
+    expect(slow.getState('slow')).toBe('idle');
+  });
+
   it('resets idle timer on new output', () => {
     detector.feed('s1', '✻ Thinking...');
     vi.advanceTimersByTime(20_000);
@@ -144,6 +156,41 @@ describe('StateDetector', () => {
     expect(detector.getState('s1')).toBe('working');
   });
 
+  // ── Screen model ──────────────────────────────────────────────────────────
+
+  it('ignores redraws that leave the screen unchanged', () => {
+    detector.feed('s1', '✻ Thinking...');
+    vi.advanceTimersByTime(20_000);
+    // The spinner line is redrawn as it was: no new output, so the timer runs on
+    detector.feed('s1', '\r\x1b[2K\x1b[36m✻\x1b[0m Thinking...');
+    vi.advanceTimersByTime(10_000);
+    expect(detector.getState('s1')).toBe('idle');
+
+    // Repainting the prompt line doesn't flap idle to working
+    detector.feed('s1', '\r\n❯ ');
+    detector.feed('s1', '\x1b7\r\x1b[2K\x1b[1m❯\x1b[0m \x1b8');
+    expect(changes.map((c) => c.state)).toEqual(['working', 'idle']);
+  });
+
+  it('forgets prompts erased from the screen', () => {
+    detector.feed('s1', 'Edit src/app.ts\r\nDo you want to proceed?\r\n❯ 1. Yes\r\n  2. No');
+    expect(detector.getState('s1')).toBe('permission_needed');
+    // The prompt is cleared and replaced by plain output
+    detector.feed('s1', '\x1b[2A\r\x1b[JApplied 1 edit to src/app.ts');
+    expect(detector.getState('s1')).toBe('working');
+    expect(detector.getScreen('s1')!.text).toMatch(/^Edit src\/app\.ts\nApplied 1 edit to src\/app\.ts\n/);
+  });
+
+  it('draws on a screen of the session\'s size and follows resizes', () => {
+    detector = new StateDetector(() => {}, undefined, { size: () => ({ cols: 20, rows: 5 }) });
+    expect(detector.getScreen('s1')).toBeNull();
+    detector.feed('s1', 'x'.repeat(25));
+    expect(detector.getScreen('s1')).toMatchObject({ cols: 20, rows: 5, cursor: { row: 1, col: 5 } });
+    detector.resize('s1', 30, 5);
+    expect(detector.getScreen('s1')!.text.split('\n')[0]).toBe('x'.repeat(20));
+    expect(detector.getScreen('s1')!.cols).toBe(30);
+  });
+
   // ── Time metrics ──────────────────────────────────────────────────────────
 
   it('tracks working time', () => {
@@ -182,4 +229,65 @@ describe('StateDetector', () => {
     expect(m.totalIdleMs).toBe(0);
     expect(m.totalPermissionWaitMs).toBe(0);
   });
+
+  it('restore seeds state and metrics without firing onChange', () => {
+    detector.restore('s1', 'idle', { totalWorkingMs: 5000, totalIdleMs: 1000, totalPermissionWaitMs: 200 });
+    expect(changes).toHaveLength(0);
+    expect(detector.getState('s1')).toBe('idle');
+
+    vi.advanceTimersByTime(2000);
+    detector.feed('s1', '✻ Thinking...');
+    vi.advanceTimersByTime(3000);
+    const m = detector.getMetrics('s1');
+    expect(m.totalIdleMs).toBe(3000);
+    expect(m.totalWorkingMs).toBe(8000);
+    expect(m.totalPermissionWaitMs).toBe(200);
+  });
+
+  it('reads each session with its own pattern pack', () => {
+    const shell = compilePatternPack({ name: 'shell', version: 1, trigger: '\\$|build', states: { idle: ['/\\$\\s*$/'], working: ['/^build/m'] } });
+    detector = new StateDetector(
+      (sessionId, state, prev) => changes.push({ sessionId, state, prev }),
+      undefined,
+      { patterns: (id) => (id === 'sh' ? shell : compilePatternPack({ name: 'none', version: 1, states: { error: ['^$'] } })) },
+    );
+    detector.feed('sh', 'building\n');
+    detector.feed('other', 'building\n');
+    expect(detector.getState('sh')).toBe('working');
+    expect(detector.getState('other')).toBe('starting');
+    detector.feed('sh', 'done\n$ ');
+    expect(detector.getState('sh')).toBe('idle');
+    // Output after the prompt: the build line is the latest match again
+    detector.feed('sh', 'ok\n');
+    expect(detector.getState('sh')).toBe('working');
+  });
+
+  it('detectState picks the latest match, ties going to the earlier state', () => {
+    const pack = compilePatternPack({ name: 't', version: 1, states: { idle: ['end'], working: ['end', 'start'] } });
+    expect(detectState('start ... end', pack)).toBe('idle');
+    expect(detectState('end ... start', pack)).toBe('working');
+    expect(detectState('nothing', pack)).toBeNull();
+  });
+
+  it('parses the pending permission prompt and reports updates to it', () => {
+    const updates: unknown[] = [];
+    detector = new StateDetector(
+      (sessionId, state, prev) => changes.push({ sessionId, state, prev }),
+      (_id, pending) => updates.push(pending),
+    );
+    detector.feed('s1', 'Bash command\n  npm test\nDo you want to proceed?\n');
+    expect(detector.getState('s1')).toBe('permission_needed');
+    expect(detector.getPendingPermission('s1')).toMatchObject({ tool: 'Bash command', command: 'npm test', options: [] });
+    expect(updates).toHaveLength(0); // delivered with the state change
+
+    // The options render in a later chunk
+    detector.feed('s1', '❯ 1. Yes\n  2. No\n');
+    expect(updates).toHaveLength(1);
+    expect(detector.getPendingPermission('s1')!.options.map((o) => o.key)).toEqual(['1', '2']);
+    detector.feed('s1', '\n');
+    expect(updates).toHaveLength(1); // unchanged
+
+    detector.feed('s1', '✻ Running...');
+    expect(detector.getPendingPermission('s1')).toBeNull();
+  });
 });
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from 'vitest';
+import { TaskQueue, interruptRunningTask, MAX_FINISHED_TASKS } from '../src/server/task-queue.js';
+import type { SessionInfo } from '../src/server/types.js';
+
+function makeQueue() {
+  const write = vi.fn(async (_id: string, _data: string) => true);
+  const changed = vi.fn();
+  return { queue: new TaskQueue(write, changed), write, changed };
+}
+
+const session = (overrides: Partial<SessionInfo> = {}) => ({
+  id: 'abc', status: 'running', detailedState: 'starting', task: null, taskStartedAt: null, tasks: [], ...overrides,
+}) as SessionInfo;
+
+describe('TaskQueue', () => {
+  it('holds tasks until the session goes idle, then sends the first', () => {
+    const { queue, write, changed } = makeQueue();
+    const info = session();
+    const a = queue.enqueue(info, 'first');
+    queue.enqueue(info, 'second');
+    expect(a.status).toBe('queued');
+    expect(write).not.toHaveBeenCalled();
+    expect(changed).toHaveBeenCalledTimes(2);
+
+    info.detailedState = 'idle';
+    queue.onStateChange(info, 'idle', 'starting');
+    expect(write).toHaveBeenCalledWith('abc', 'first\r');
+    expect(a.status).toBe('running');
+    expect(a.startedAt).toBeTruthy();
+    expect(info.task).toBe('first');
+    expect(info.taskStartedAt).toBe(a.startedAt);
+  });
+
+  it('finishes the running task on working → idle and sends the next', () => {
+    const { queue, write } = makeQueue();
+    const info = session({ detailedState: 'idle' });
+    const a = queue.enqueue(info, 'first');
+    const b = queue.enqueue(info, 'second');
+    expect(write).toHaveBeenCalledTimes(1);
+
+    // Idle again without working in between (e.g. the prompt redrawn) is not completion
+    queue.onStateChange(info, 'idle', 'permission_needed');
+    expect(a.status).toBe('running');
+
+    queue.onStateChange(info, 'idle', 'working');
+    expect(a.status).toBe('done');
+    expect(a.finishedAt).toBeTruthy();
+    expect(b.status).toBe('running');
+    expect(write).toHaveBeenLastCalledWith('abc', 'second\r');
+  });
+
+  it('sends right away when enqueued on an idle session', () => {
+    const { queue, write } = makeQueue();
+    const info = session({ detailedState: 'idle' });
+    queue.enqueue(info, 'now');
+    expect(write).toHaveBeenCalledWith('abc', 'now\r');
+  });
+
+  it('reorders queued tasks, keeping unlisted ones behind in order', () => {
+    const { queue } = makeQueue();
+    const info = session();
+    const [a, b, c] = ['a', 'b', 'c'].map((t) => queue.enqueue(info, t));
+    queue.reorder(info, [c.id, a.id]);
+    expect(info.tasks!.map((t) => t.text)).toEqual(['c', 'a', 'b']);
+    expect(() => queue.reorder(info, ['nope'])).toThrow('Not a queued task: nope');
+    expect(b.status).toBe('queued');
+  });
+
+  it('cancels queued tasks only', () => {
+    const { queue } = makeQueue();
+    const info = session({ detailedState: 'idle' });
+    const a = queue.enqueue(info, 'running');
+    const b = queue.enqueue(info, 'queued');
+    expect(queue.cancel(info, b.id)!.status).toBe('cancelled');
+    expect(() => queue.cancel(info, a.id)).toThrow('Task is already running');
+    expect(queue.cancel(info, 'unknown')).toBeUndefined();
+  });
+
+  it('interrupts the running task on exit and leaves the queue for a restart', () => {
+    const { queue } = makeQueue();
+    const info = session({ detailedState: 'idle' });
+    const a = queue.enqueue(info, 'first');
+    const b = queue.enqueue(info, 'second');
+    info.status = 'exited';
+    queue.onExit(info);
+    expect(a.status).toBe('interrupted');
+    expect(b.status).toBe('queued');
+    expect(interruptRunningTask(info)).toBe(false);
+  });
+
+  it('interrupts a task whose write fails', async () => {
+    const changed = vi.fn();
+    const queue = new TaskQueue(async () => false, changed);
+    const info = session({ detailedState: 'idle' });
+    const a = queue.enqueue(info, 'lost');
+    await Promise.resolve();
+    expect(a.status).toBe('interrupted');
+  });
+
+  it(`keeps at most ${MAX_FINISHED_TASKS} finished tasks`, () => {
+    const { queue } = makeQueue();
+    const info = session();
+    for (let i = 0; i < MAX_FINISHED_TASKS + 5; i++) {
+      queue.cancel(info, queue.enqueue(info, `t${i}`).id);
+    }
+    expect(info.tasks).toHaveLength(MAX_FINISHED_TASKS);
+    expect(info.tasks![0].text).toBe('t5');
+  });
+});
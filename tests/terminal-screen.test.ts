@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { TerminalScreen, charWidth } from '../src/server/terminal-screen.js';
+
+function screen(data: string, cols = 10, rows = 4): TerminalScreen {
+  const s = new TerminalScreen(cols, rows);
+  s.write(data);
+  return s;
+}
+
+describe('TerminalScreen', () => {
+  it('prints lines, treating LF as CRLF', () => {
+    const s = screen('one\r\ntwo\nthree');
+    expect(s.text()).toBe('one\ntwo\nthree');
+    expect(s.snapshot()).toEqual({
+      cols: 10,
+      rows: 4,
+      cursor: { row: 2, col: 5, visible: true },
+      alternate: false,
+      text: 'one\ntwo\nthree\n',
+    });
+  });
+
+  it('wraps at the last column and scrolls off the top', () => {
+    expect(screen('0123456789abc').text()).toBe('0123456789\nabc');
+    // Filling the last column doesn't wrap until the next character
+    expect(screen('0123456789').snapshot().cursor).toMatchObject({ row: 0, col: 9 });
+    expect(screen('a\nb\nc\nd\ne').text()).toBe('b\nc\nd\ne');
+  });
+
+  it('moves the cursor and overwrites', () => {
+    expect(screen('hello\rJ').text()).toBe('Jello');
+    expect(screen('abc\x1b[2;4Hx\x1b[Ay').text()).toBe('abc y\n   x');
+    expect(screen('abcdef\x1b[3G\x1b[2C!').text()).toBe('abcd!f');
+    expect(screen('ab\bX').text()).toBe('aX');
+    expect(screen('a\tb').text()).toBe('a       b');
+  });
+
+  it('erases lines and the display', () => {
+    expect(screen('✻ Think\r\x1b[2KDone').text()).toBe('Done');
+    expect(screen('abcdef\x1b[3D\x1b[K').text()).toBe('abc');
+    expect(screen('abcdef\x1b[3D\x1b[1K').text()).toBe('    ef');
+    expect(screen('one\ntwo\nthree\x1b[2;1H\x1b[J').text()).toBe('one');
+    expect(screen('one\ntwo\x1b[2J').text()).toBe('');
+  });
+
+  it('inserts and deletes characters and lines', () => {
+    expect(screen('abcdef\x1b[1;3H\x1b[2P').text()).toBe('abef');
+    expect(screen('abcdef\x1b[1;3H\x1b[2@').text()).toBe('ab  cdef');
+    expect(screen('one\ntwo\nthree\x1b[2;1H\x1b[M').text()).toBe('one\nthree');
+    expect(screen('one\ntwo\x1b[1;1H\x1b[L').text()).toBe('\none\ntwo');
+  });
+
+  it('scrolls within a scroll region', () => {
+    // Rows 1-3 scroll; the status line on row 4 stays put
+    const s = screen('\x1b[4;1Hstatus\x1b[1;3r\x1b[1;1Ha\nb\nc\nd');
+    expect(s.lineTexts()).toEqual(['b', 'c', 'd', 'status']);
+  });
+
+  it('keeps wide characters and combining marks in their cells', () => {
+    expect(charWidth('漢'.codePointAt(0)!)).toBe(2);
+    expect(charWidth(0x301)).toBe(0);
+    expect(screen('漢字x').snapshot().cursor.col).toBe(5);
+    expect(screen('éx').text()).toBe('éx');
+    // A wide character that doesn't fit wraps whole
+    expect(screen('123456789漢').text()).toBe('123456789\n漢');
+  });
+
+  it('switches to the alternate screen and back', () => {
+    const s = screen('shell $ ');
+    s.write('\x1b[?1049h\x1b[Hvim');
+    expect(s.text()).toBe('vim');
+    expect(s.snapshot().alternate).toBe(true);
+    s.write('\x1b[?1049l');
+    expect(s.text()).toBe('shell $');
+    expect(s.snapshot()).toMatchObject({ alternate: false, cursor: { row: 0, col: 8 } });
+  });
+
+  it('saves and restores the cursor, and tracks its visibility', () => {
+    const s = screen('abc\x1b7\x1b[3;1Hstatus\x1b8d\x1b[?25l');
+    expect(s.lineTexts()).toEqual(['abcd', '', 'status', '']);
+    expect(s.snapshot().cursor).toEqual({ row: 0, col: 4, visible: false });
+  });
+
+  it('skips colors, titles and other sequences, even split across writes', () => {
+    const s = new TerminalScreen(20, 2);
+    for (const part of ['\x1b[1', ';36m✻\x1b', '[0m \x1b]0;ti', 'tle\x07Thinking\x1bP1$r\x1b\\', '...']) s.write(part);
+    expect(s.text()).toBe('✻ Thinking...');
+  });
+
+  it('resizes, keeping the lines around the cursor', () => {
+    const s = screen('one\ntwo\nthree\nfour');
+    s.resize(3, 2);
+    expect(s.lineTexts()).toEqual(['thr', 'fou']);
+    expect(s.snapshot().cursor).toMatchObject({ row: 1, col: 2 });
+    s.resize(6, 3);
+    expect(s.lineTexts()).toEqual(['thr', 'fou', '']);
+    s.write('\x1b[3;1Hsix ch');
+    expect(s.text()).toBe('thr\nfou\nsix ch');
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { mkdtempSync, writeFileSync, rmSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { Thresholds, normalizeThresholds, DEFAULT_THRESHOLDS } from '../src/server/thresholds.js';
+
+describe('normalizeThresholds', () => {
+  it('fills in defaults and keeps group overrides', () => {
+    expect(normalizeThresholds({})).toEqual({ ...DEFAULT_THRESHOLDS, groups: {} });
+    expect(normalizeThresholds({ stuckWorkingMs: null, groups: { ci: { maxCompactions: 0 } } })).toEqual({
+      ...DEFAULT_THRESHOLDS,
+      stuckWorkingMs: null,
+      groups: { ci: { maxCompactions: 0 } },
+    });
+  });
+
+  it('rejects invalid values', () => {
+    expect(() => normalizeThresholds([])).toThrow('Thresholds must be an object');
+    expect(() => normalizeThresholds({ idleTimeoutMs: null })).toThrow('idleTimeoutMs must be an integer');
+    expect(() => normalizeThresholds({ longIdleMs: 10 })).toThrow('longIdleMs must be null or an integer between 1000');
+    expect(() => normalizeThresholds({ maxCompactions: 1.5 })).toThrow('maxCompactions');
+    expect(() => normalizeThresholds({ groups: { ci: { permissionPendingMs: '5m' } } })).toThrow('groups.ci.permissionPendingMs');
+    expect(() => normalizeThresholds({ groups: { ci: 5 } })).toThrow('groups.ci must be an object');
+  });
+});
+
+describe('Thresholds', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    dir = mkdtempSync(join(tmpdir(), 'bb-thresholds-'));
+    file = join(dir, 'thresholds.json');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('merges group overrides over the file defaults', () => {
+    writeFileSync(file, JSON.stringify({ longIdleMs: 120_000, groups: { ci: { longIdleMs: null, idleTimeoutMs: 5000 } } }));
+    const thresholds = new Thresholds(file);
+    expect(thresholds.forGroup('web')).toEqual({ ...DEFAULT_THRESHOLDS, longIdleMs: 120_000 });
+    expect(thresholds.forGroup('ci')).toEqual({ ...DEFAULT_THRESHOLDS, longIdleMs: null, idleTimeoutMs: 5000 });
+  });
+
+  it('re-reads the file when it changes and falls back to defaults', () => {
+    const thresholds = new Thresholds(file);
+    expect(thresholds.forGroup('web')).toEqual(DEFAULT_THRESHOLDS);
+
+    writeFileSync(file, JSON.stringify({ maxCompactions: 2 }));
+    vi.advanceTimersByTime(1000);
+    expect(thresholds.forGroup('web').maxCompactions).toBe(2);
+
+    writeFileSync(file, '{ not json');
+    vi.advanceTimersByTime(1000);
+    expect(thresholds.forGroup('web')).toEqual(DEFAULT_THRESHOLDS);
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('ignoring thresholds'));
+  });
+});
@@ -0,0 +1,60 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { execFileSync } from 'child_process';
+import { mkdtempSync, rmSync, readFileSync } from 'fs';
+import { createServer, type Server } from 'https';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { loadTls, generateSelfSigned, connectPinned } from '../src/server/tls.js';
+
+function hasOpenssl(): boolean {
+  try {
+    execFileSync('openssl', ['version'], { stdio: 'ignore' });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+describe('loadTls', () => {
+  it('is off unless both files are configured', () => {
+    expect(loadTls({})).toBeNull();
+    expect(() => loadTls({ BB_TLS_CERT: '/tmp/cert.pem' })).toThrow('set together');
+    expect(() => loadTls({ BB_TLS_CERT: '/nonexistent/cert.pem', BB_TLS_KEY: '/nonexistent/key.pem' })).toThrow();
+  });
+});
+
+describe.skipIf(!hasOpenssl())('self-signed certificates', () => {
+  let dir: string;
+  let server: Server;
+  let port: number;
+  let fingerprint: string;
+
+  beforeAll(async () => {
+    dir = mkdtempSync(join(tmpdir(), 'bb-tls-'));
+    const generated = await generateSelfSigned({ dir, hosts: ['bb.local'], days: 1 });
+    fingerprint = generated.fingerprint;
+    const tls = loadTls({ BB_TLS_CERT: generated.certFile, BB_TLS_KEY: generated.keyFile })!;
+    expect(tls.fingerprint).toBe(fingerprint);
+    expect(readFileSync(generated.certFile, 'utf-8')).toContain('BEGIN CERTIFICATE');
+
+    server = createServer({ cert: tls.cert, key: tls.key }, (_req, res) => res.end('ok'));
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    port = (server.address() as { port: number }).port;
+  }, 30_000);
+
+  afterAll(() => {
+    server?.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('connects when the fingerprint matches, in any case or separator style', async () => {
+    const socket = await connectPinned('127.0.0.1', port, fingerprint.replace(/:/g, '').toLowerCase());
+    expect(socket.authorized).toBe(false); // self-signed: trusted by pin, not by CA
+    socket.destroy();
+  });
+
+  it('refuses a server presenting another certificate', async () => {
+    const wrong = fingerprint.replace(/^../, fingerprint.startsWith('00') ? '11' : '00');
+    await expect(connectPinned('127.0.0.1', port, wrong)).rejects.toThrow('fingerprint mismatch');
+  });
+});
@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { TmuxDriver, TmuxCommandError } from '../src/server/tmux-driver.js';
+
+// Drive `sh` instead of tmux: same execFile path, scriptable output and timing.
+describe('TmuxDriver', () => {
+  it('resolves with trimmed stdout', async () => {
+    const driver = new TmuxDriver('sh');
+    await expect(driver.run(['-c', 'echo "  hello  "'])).resolves.toBe('hello');
+  });
+
+  it('runs queued commands one at a time, in order', async () => {
+    const driver = new TmuxDriver('sh');
+    const order: string[] = [];
+    const slow = driver.run(['-c', 'sleep 0.2; echo slow']).then((out) => order.push(out));
+    const fast = driver.run(['-c', 'echo fast']).then((out) => order.push(out));
+    expect(driver.pending).toBe(2);
+    await Promise.all([slow, fast]);
+    expect(order).toEqual(['slow', 'fast']);
+    expect(driver.pending).toBe(0);
+  });
+
+  it('rejects a non-zero exit with kind "exit" and the status code', async () => {
+    const driver = new TmuxDriver('sh');
+    const err = await driver.run(['-c', 'echo "no server running" >&2; exit 1']).catch((e) => e);
+    expect(err).toBeInstanceOf(TmuxCommandError);
+    expect(err.kind).toBe('exit');
+    expect(err.exitCode).toBe(1);
+    expect(err.message).toContain('no server running');
+  });
+
+  it('rejects a command that outlives its timeout with kind "timeout"', async () => {
+    const driver = new TmuxDriver('sh');
+    const err = await driver.run(['-c', 'sleep 5'], { timeoutMs: 100 }).catch((e) => e);
+    expect(err).toBeInstanceOf(TmuxCommandError);
+    expect(err.kind).toBe('timeout');
+  });
+
+  it('rejects with kind "not_found" when the binary is missing', async () => {
+    const driver = new TmuxDriver('/nonexistent/tmux');
+    const err = await driver.run(['-V']).catch((e) => e);
+    expect(err).toBeInstanceOf(TmuxCommandError);
+    expect(err.kind).toBe('not_found');
+  });
+
+  it('keeps the queue moving after a failure', async () => {
+    const driver = new TmuxDriver('sh');
+    const failed = driver.run(['-c', 'exit 2']);
+    const next = driver.run(['-c', 'echo ok']);
+    await expect(failed).rejects.toThrow(TmuxCommandError);
+    await expect(next).resolves.toBe('ok');
+  });
+});
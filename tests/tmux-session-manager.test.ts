@@ -1,15 +1,30 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 
 // Mock child_process before any imports
-vi.mock('child_process', () => ({
-  execFileSync: vi.fn(() => ''),
-}));
+// The async tmux driver's execFile routes through the execFileSync mock, so
+// tests can script tmux output (and failures, via `status`) in one place.
+vi.mock('child_process', () => {
+  const execFileSync = vi.fn((..._args: any[]): any => '');
+  const execFile = vi.fn((cmd: string, args: string[], _opts: unknown, cb: (err: any, stdout: string, stderr: string) => void) => {
+    let stdout: string;
+    try {
+      stdout = String(execFileSync(cmd, args) ?? '');
+    } catch (err: any) {
+      if (typeof err?.status === 'number') err.code = err.status;
+      cb(err, '', '');
+      return;
+    }
+    cb(null, stdout, '');
+  });
+  return { execFileSync, execFile };
+});
 
 // Mock fs to avoid real file I/O
 vi.mock('fs', () => ({
   mkdirSync: vi.fn(),
   writeFileSync: vi.fn(),
   readFileSync: vi.fn(() => '{}'),
+  readdirSync: vi.fn(() => []),
   unlinkSync: vi.fn(),
   openSync: vi.fn(() => 42),
   closeSync: vi.fn(),
@@ -17,10 +32,11 @@ vi.mock('fs', () => ({
   existsSync: vi.fn(() => true),
   statSync: vi.fn(() => ({ isDirectory: () => true, size: 0 })),
   appendFileSync: vi.fn(),
+  watch: vi.fn(() => ({ on: vi.fn(), close: vi.fn() })),
 }));
 
 import { execFileSync } from 'child_process';
-import { existsSync, statSync, unlinkSync, writeFileSync } from 'fs';
+import { existsSync, statSync, unlinkSync, writeFileSync, readdirSync, readSync, watch } from 'fs';
 import { TmuxSessionManager, isTmuxAvailable } from '../src/server/tmux-session-manager.js';
 
 const mockExec = vi.mocked(execFileSync);
@@ -28,6 +44,15 @@ const mockExistsSync = vi.mocked(existsSync);
 const mockStatSync = vi.mocked(statSync);
 const mockUnlinkSync = vi.mocked(unlinkSync);
 const mockWriteFileSync = vi.mocked(writeFileSync);
+const mockReaddirSync = vi.mocked(readdirSync);
+const mockReadSync = vi.mocked(readSync);
+const mockWatch = vi.mocked(watch);
+
+/** Simulate an fs.watch event in the pipe directory of the latest manager. */
+function emitPipeDirEvent(filename: string) {
+  const listener = mockWatch.mock.calls.at(-1)![1] as unknown as (event: string, filename: string) => void;
+  listener('change', filename);
+}
 
 function setupTmuxMock(overrides: Record<string, string | (() => string)> = {}) {
   mockExec.mockImplementation((_cmd: any, args: any) => {
@@ -67,15 +92,15 @@ describe('TmuxSessionManager', () => {
     sm = new TmuxSessionManager();
   });
 
-  afterEach(() => {
-    sm.killAll();
+  afterEach(async () => {
+    await sm.killAll();
     vi.useRealTimers();
   });
 
   // ── Spawn ─────────────────────────────────────────────────────────────────
 
-  it('spawns a session with auto-generated name and id', () => {
-    const info = sm.spawn();
+  it('spawns a session with auto-generated name and id', async () => {
+    const info = await sm.spawn();
     expect(info.id).toMatch(/^[0-9a-f]{8}$/);
     expect(info.name).toBe('Claude');
     expect(info.group).toBe('default');
@@ -84,24 +109,24 @@ describe('TmuxSessionManager', () => {
     expect(info.pid).toBe(12345);
   });
 
-  it('auto-names sessions sequentially', () => {
-    const a = sm.spawn();
-    const b = sm.spawn();
-    const c = sm.spawn();
+  it('auto-names sessions sequentially', async () => {
+    const a = await sm.spawn();
+    const b = await sm.spawn();
+    const c = await sm.spawn();
     expect(a.name).toBe('Claude');
     expect(b.name).toBe('Claude 2');
     expect(c.name).toBe('Claude 3');
   });
 
-  it('respects custom name, group, and cwd', () => {
-    const info = sm.spawn({ name: 'worker', group: 'mygroup', cwd: '/tmp' });
+  it('respects custom name, group, and cwd', async () => {
+    const info = await sm.spawn({ name: 'worker', group: 'mygroup', cwd: '/tmp' });
     expect(info.name).toBe('worker');
     expect(info.group).toBe('mygroup');
     expect(info.cwd).toBe('/tmp');
   });
 
-  it('calls tmux new-session with correct args', () => {
-    sm.spawn({ cwd: '/tmp' });
+  it('calls tmux new-session with correct args', async () => {
+    await sm.spawn({ cwd: '/tmp' });
     const newSessionCall = mockExec.mock.calls.find(
       (c) => (c[1] as string[])?.[0] === 'new-session',
     );
@@ -116,37 +141,52 @@ describe('TmuxSessionManager', () => {
     expect(args[eIdx + 1]).toContain('BB_TOKEN=');
   });
 
-  it('calls pipe-pane to set up output streaming', () => {
-    sm.spawn();
+  it('calls pipe-pane to set up output streaming', async () => {
+    await sm.spawn();
     const pipePaneCall = mockExec.mock.calls.find(
       (c) => (c[1] as string[])?.[0] === 'pipe-pane',
     );
     expect(pipePaneCall).toBeTruthy();
   });
 
-  it('emits created event on spawn', () => {
+  it('validates the restart policy and pattern pack before starting claude', async () => {
+    await expect(sm.spawn({ restartPolicy: { mode: 'sometimes' } as any })).rejects.toThrow('Invalid restartPolicy.mode');
+    await expect(sm.spawn({ patterns: 'missing' })).rejects.toThrow('Unknown pattern pack: missing');
+    expect(mockExec.mock.calls.some((c) => (c[1] as string[])?.[0] === 'new-session')).toBe(false);
+    expect(sm.count()).toBe(0);
+  });
+
+  it('kills the tmux session when pipe-pane fails', async () => {
+    setupTmuxMock({ 'pipe-pane': () => { throw new Error('pipe-pane failed'); } });
+    await expect(sm.spawn()).rejects.toThrow('pipe-pane failed');
+    const kill = mockExec.mock.calls.find((c) => (c[1] as string[])?.[0] === 'kill-session');
+    expect(kill![1]).toEqual(['kill-session', '-t', expect.stringMatching(/^bb-/)]);
+    expect(sm.count()).toBe(0);
+  });
+
+  it('emits created event on spawn', async () => {
     const handler = vi.fn();
     sm.on('created', handler);
-    const info = sm.spawn();
+    const info = await sm.spawn();
     expect(handler).toHaveBeenCalledWith(info);
     sm.off('created', handler);
   });
 
-  it('throws on invalid cwd', () => {
+  it('throws on invalid cwd', async () => {
     mockExistsSync.mockReturnValueOnce(false);
-    expect(() => sm.spawn({ cwd: '/nonexistent' })).toThrow('Invalid working directory');
+    await expect(sm.spawn({ cwd: '/nonexistent' })).rejects.toThrow('Invalid working directory');
   });
 
-  it('throws on unknown CLI args', () => {
-    expect(() => sm.spawn({ args: ['--unknown-flag'] })).toThrow('Unknown argument');
+  it('throws on unknown CLI args', async () => {
+    await expect(sm.spawn({ args: ['--unknown-flag'] })).rejects.toThrow('Unknown argument');
   });
 
-  it('allows known CLI args', () => {
-    expect(() => sm.spawn({ args: ['--verbose', '--model', 'sonnet'] })).not.toThrow();
+  it('allows known CLI args', async () => {
+    await expect(sm.spawn({ args: ['--verbose', '--model', 'sonnet'] })).resolves.toBeDefined();
   });
 
-  it('adds --dangerously-skip-permissions when skipPermissions is true', () => {
-    sm.spawn({ skipPermissions: true });
+  it('adds --dangerously-skip-permissions when skipPermissions is true', async () => {
+    await sm.spawn({ skipPermissions: true });
     const newSessionCall = mockExec.mock.calls.find(
       (c) => (c[1] as string[])?.[0] === 'new-session',
     );
@@ -154,8 +194,8 @@ describe('TmuxSessionManager', () => {
     expect(cmdArg).toContain('--dangerously-skip-permissions');
   });
 
-  it('omits --dangerously-skip-permissions by default', () => {
-    sm.spawn();
+  it('omits --dangerously-skip-permissions by default', async () => {
+    await sm.spawn();
     const newSessionCall = mockExec.mock.calls.find(
       (c) => (c[1] as string[])?.[0] === 'new-session',
     );
@@ -163,14 +203,14 @@ describe('TmuxSessionManager', () => {
     expect(cmdArg).not.toContain('--dangerously-skip-permissions');
   });
 
-  it('stores task on spawn', () => {
-    const info = sm.spawn({ task: 'fix the login bug' });
+  it('stores task on spawn', async () => {
+    const info = await sm.spawn({ task: 'fix the login bug' });
     expect(info.task).toBe('fix the login bug');
     expect(info.taskStartedAt).toBeTruthy();
   });
 
-  it('persists session metadata on spawn', () => {
-    sm.spawn();
+  it('persists session metadata on spawn', async () => {
+    await sm.spawn();
     const metaWriteCalls = mockWriteFileSync.mock.calls.filter(
       (c) => (c[0] as string).includes('sessions/'),
     );
@@ -182,39 +222,39 @@ describe('TmuxSessionManager', () => {
 
   // ── List / Groups / Count ─────────────────────────────────────────────────
 
-  it('lists sessions, optionally filtered by group', () => {
-    sm.spawn({ group: 'a' });
-    sm.spawn({ group: 'b' });
-    sm.spawn({ group: 'a' });
+  it('lists sessions, optionally filtered by group', async () => {
+    await sm.spawn({ group: 'a' });
+    await sm.spawn({ group: 'b' });
+    await sm.spawn({ group: 'a' });
     expect(sm.list()).toHaveLength(3);
     expect(sm.list('a')).toHaveLength(2);
     expect(sm.list('b')).toHaveLength(1);
   });
 
-  it('returns groups map', () => {
-    sm.spawn({ group: 'x' });
-    sm.spawn({ group: 'y' });
-    sm.spawn({ group: 'x' });
+  it('returns groups map', async () => {
+    await sm.spawn({ group: 'x' });
+    await sm.spawn({ group: 'y' });
+    await sm.spawn({ group: 'x' });
     const groups = sm.groups();
     expect(groups.get('x')).toHaveLength(2);
     expect(groups.get('y')).toHaveLength(1);
   });
 
-  it('returns session count', () => {
+  it('returns session count', async () => {
     expect(sm.count()).toBe(0);
-    sm.spawn();
-    sm.spawn();
+    await sm.spawn();
+    await sm.spawn();
     expect(sm.count()).toBe(2);
   });
 
   // ── Write ─────────────────────────────────────────────────────────────────
 
-  it('sends input via tmux load-buffer and paste-buffer', () => {
-    const info = sm.spawn();
+  it('sends input via tmux load-buffer and paste-buffer', async () => {
+    const info = await sm.spawn();
     vi.clearAllMocks();
     setupTmuxMock();
 
-    expect(sm.write(info.id, 'hello\r')).toBe(true);
+    expect(await sm.write(info.id, 'hello\r')).toBe(true);
 
     const loadCall = mockExec.mock.calls.find(
       (c) => (c[1] as string[])?.[0] === 'load-buffer',
@@ -226,12 +266,27 @@ describe('TmuxSessionManager', () => {
     expect(pasteCall).toBeTruthy();
   });
 
-  it('cleans up tmp buffer file after write', () => {
-    const info = sm.spawn();
+  it('gives overlapping writes their own tmux buffer and tmp file', async () => {
+    const info = await sm.spawn();
+    vi.clearAllMocks();
+    setupTmuxMock();
+
+    await Promise.all([sm.write(info.id, 'a'), sm.write(info.id, 'b')]);
+
+    const loads = mockExec.mock.calls
+      .filter((c) => (c[1] as string[])?.[0] === 'load-buffer')
+      .map((c) => c[1] as string[]);
+    expect(loads).toHaveLength(2);
+    expect(loads[0][2]).not.toBe(loads[1][2]); // buffer name
+    expect(loads[0][3]).not.toBe(loads[1][3]); // tmp file
+  });
+
+  it('cleans up tmp buffer file after write', async () => {
+    const info = await sm.spawn();
     vi.clearAllMocks();
     setupTmuxMock();
 
-    sm.write(info.id, 'data\r');
+    await sm.write(info.id, 'data\r');
 
     // unlinkSync should have been called for the tmp file
     const unlinkCalls = mockUnlinkSync.mock.calls.filter(
@@ -240,8 +295,8 @@ describe('TmuxSessionManager', () => {
     expect(unlinkCalls.length).toBeGreaterThanOrEqual(1);
   });
 
-  it('cleans up tmp buffer file even on tmux error', () => {
-    const info = sm.spawn();
+  it('cleans up tmp buffer file even on tmux error', async () => {
+    const info = await sm.spawn();
     vi.clearAllMocks();
     mockExec.mockImplementation((_cmd: any, args: any) => {
       const subCmd = (args as string[])?.[0];
@@ -249,7 +304,7 @@ describe('TmuxSessionManager', () => {
       return '' as any;
     });
 
-    expect(sm.write(info.id, 'data\r')).toBe(false);
+    expect(await sm.write(info.id, 'data\r')).toBe(false);
 
     // unlinkSync should still be called (finally block)
     const unlinkCalls = mockUnlinkSync.mock.calls.filter(
@@ -258,26 +313,26 @@ describe('TmuxSessionManager', () => {
     expect(unlinkCalls.length).toBeGreaterThanOrEqual(1);
   });
 
-  it('write returns false for nonexistent session', () => {
-    expect(sm.write('nonexistent', 'data')).toBe(false);
+  it('write returns false for nonexistent session', async () => {
+    expect(await sm.write('nonexistent', 'data')).toBe(false);
   });
 
-  it('write returns false for exited session', () => {
-    const info = sm.spawn();
+  it('write returns false for exited session', async () => {
+    const info = await sm.spawn();
     // Force session to exited state via pollExits
     setupTmuxMock({ 'list-sessions': '' }); // no sessions in tmux
-    vi.advanceTimersByTime(2000); // trigger pollExits
-    expect(sm.write(info.id, 'data')).toBe(false);
+    await vi.advanceTimersByTimeAsync(10_000); // trigger pollExits
+    expect(await sm.write(info.id, 'data')).toBe(false);
   });
 
   // ── Resize ────────────────────────────────────────────────────────────────
 
-  it('resizes tmux window', () => {
-    const info = sm.spawn();
+  it('resizes tmux window', async () => {
+    const info = await sm.spawn();
     vi.clearAllMocks();
     setupTmuxMock();
 
-    expect(sm.resize(info.id, 200, 50)).toBe(true);
+    expect(await sm.resize(info.id, 200, 50)).toBe(true);
 
     const resizeCall = mockExec.mock.calls.find(
       (c) => (c[1] as string[])?.[0] === 'resize-window',
@@ -292,25 +347,25 @@ describe('TmuxSessionManager', () => {
     expect(updated.rows).toBe(50);
   });
 
-  it('resize returns false on tmux error', () => {
-    const info = sm.spawn();
+  it('resize returns false on tmux error', async () => {
+    const info = await sm.spawn();
     vi.clearAllMocks();
     mockExec.mockImplementation(() => { throw new Error('resize failed'); });
-    expect(sm.resize(info.id, 200, 50)).toBe(false);
+    expect(await sm.resize(info.id, 200, 50)).toBe(false);
   });
 
-  it('resize returns false for nonexistent session', () => {
-    expect(sm.resize('nonexistent', 80, 24)).toBe(false);
+  it('resize returns false for nonexistent session', async () => {
+    expect(await sm.resize('nonexistent', 80, 24)).toBe(false);
   });
 
   // ── Kill ──────────────────────────────────────────────────────────────────
 
-  it('kills a tmux session and emits exit event', () => {
-    const info = sm.spawn();
+  it('kills a tmux session and emits exit event', async () => {
+    const info = await sm.spawn();
     const handler = vi.fn();
     sm.on('exit', handler);
 
-    expect(sm.kill(info.id)).toBe(true);
+    expect(await sm.kill(info.id)).toBe(true);
 
     // Verify tmux kill-session was called
     const killCall = mockExec.mock.calls.find(
@@ -323,37 +378,37 @@ describe('TmuxSessionManager', () => {
     sm.off('exit', handler);
   });
 
-  it('kill handles already-exited sessions', () => {
-    const info = sm.spawn();
+  it('kill handles already-exited sessions', async () => {
+    const info = await sm.spawn();
 
     // Force session to exited via pollExits
     setupTmuxMock({ 'list-sessions': '' });
-    vi.advanceTimersByTime(2000);
+    await vi.advanceTimersByTimeAsync(10_000);
 
     // Session is now exited, kill should still succeed (cleanup)
-    expect(sm.kill(info.id)).toBe(true);
+    expect(await sm.kill(info.id)).toBe(true);
     expect(sm.getInfo(info.id)).toBeUndefined();
   });
 
-  it('kill returns false for nonexistent session', () => {
-    expect(sm.kill('nonexistent')).toBe(false);
+  it('kill returns false for nonexistent session', async () => {
+    expect(await sm.kill('nonexistent')).toBe(false);
   });
 
-  it('killAll removes all sessions', () => {
-    sm.spawn();
-    sm.spawn();
-    sm.spawn();
+  it('killAll removes all sessions', async () => {
+    await sm.spawn();
+    await sm.spawn();
+    await sm.spawn();
     expect(sm.count()).toBe(3);
-    sm.killAll();
+    await sm.killAll();
     expect(sm.count()).toBe(0);
   });
 
-  it('kill cleans up pipe file and metadata', () => {
-    const info = sm.spawn();
+  it('kill cleans up pipe file and metadata', async () => {
+    const info = await sm.spawn();
     vi.clearAllMocks();
     setupTmuxMock();
 
-    sm.kill(info.id);
+    await sm.kill(info.id);
 
     // Should unlink pipe file and metadata
     const unlinkCalls = mockUnlinkSync.mock.calls.map((c) => c[0] as string);
@@ -363,8 +418,8 @@ describe('TmuxSessionManager', () => {
 
   // ── setTask ───────────────────────────────────────────────────────────────
 
-  it('setTask updates task and persists metadata', () => {
-    const info = sm.spawn();
+  it('setTask updates task and persists metadata', async () => {
+    const info = await sm.spawn();
     vi.clearAllMocks();
 
     expect(sm.setTask(info.id, 'new task')).toBe(true);
@@ -389,38 +444,234 @@ describe('TmuxSessionManager', () => {
     expect(sm.getScrollback('nonexistent')).toEqual([]);
   });
 
+  it('streams pipe file output with byte offsets matching file positions', async () => {
+    const info = await sm.spawn();
+    let file = Buffer.alloc(0);
+    mockStatSync.mockImplementation(() => ({ isDirectory: () => true, size: file.length }) as any);
+    mockReadSync.mockImplementation(((_fd: number, buf: Buffer, off: number, len: number, pos: number) =>
+      file.copy(buf, off, pos, pos + len)) as any);
+
+    const handler = vi.fn();
+    sm.on('output', handler);
+    // 'é' split across two reads: the first half must be held back
+    const e = Buffer.from('é');
+    file = Buffer.concat([Buffer.from('ab'), e.subarray(0, 1)]);
+    emitPipeDirEvent(`${info.id}.pipe`);
+    expect(handler).toHaveBeenLastCalledWith(info.id, 'ab', 2);
+
+    file = Buffer.concat([file, e.subarray(1), Buffer.from('cd')]);
+    emitPipeDirEvent(`${info.id}.pipe`);
+    expect(handler).toHaveBeenLastCalledWith(info.id, 'écd', 6);
+
+    expect(sm.readScrollback(info.id, 2)!.data).toBe('écd');
+  });
+
+  it('sends the spawn task through the queue once the pane shows the prompt', async () => {
+    const info = await sm.spawn({ task: 'ship it' });
+    expect(sm.listTasks(info.id)!.map((t) => t.status)).toEqual(['queued']);
+    let file = Buffer.alloc(0);
+    mockStatSync.mockImplementation(() => ({ isDirectory: () => true, size: file.length }) as any);
+    mockReadSync.mockImplementation(((_fd: number, buf: Buffer, off: number, len: number, pos: number) =>
+      file.copy(buf, off, pos, pos + len)) as any);
+
+    file = Buffer.from('❯ ');
+    emitPipeDirEvent(`${info.id}.pipe`);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(mockWriteFileSync).toHaveBeenCalledWith(expect.stringContaining(`input-${info.id}-`), 'ship it\r', { mode: 0o600 });
+    expect(mockExec.mock.calls.some((c) => (c[1] as string[])?.[0] === 'paste-buffer')).toBe(true);
+    expect(sm.listTasks(info.id)![0].status).toBe('running');
+  });
+
   it('getTranscript returns empty for nonexistent session', () => {
     expect(sm.getTranscript('nonexistent')).toEqual([]);
   });
 
   // ── pollExits ─────────────────────────────────────────────────────────────
 
-  it('detects exited sessions via poll', () => {
-    const info = sm.spawn();
+  it('detects exited sessions via poll', async () => {
+    const info = await sm.spawn();
     const handler = vi.fn();
     sm.on('exit', handler);
 
     // Session disappears from tmux
     setupTmuxMock({ 'list-sessions': '' });
-    vi.advanceTimersByTime(2000);
+    await vi.advanceTimersByTimeAsync(10_000);
 
     expect(handler).toHaveBeenCalledWith(info.id, null);
     expect(sm.getInfo(info.id)!.status).toBe('exited');
     sm.off('exit', handler);
   });
 
-  it('does not mark sessions as exited if tmux reports them running', () => {
-    const info = sm.spawn();
+  it('restarts an exited session under the same id, resuming its conversation', async () => {
+    const info = await sm.spawn({ args: ['--verbose'] });
+    setupTmuxMock({ 'list-sessions': '' });
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(sm.getInfo(info.id)!.status).toBe('exited');
+
+    vi.clearAllMocks();
+    setupTmuxMock();
+    const handler = vi.fn();
+    sm.on('restarted', handler);
+    const restarted = await sm.restart(info.id);
+
+    expect(restarted!.id).toBe(info.id);
+    expect(restarted!.status).toBe('running');
+    expect(restarted!.pid).toBe(12345);
+    expect(handler).toHaveBeenCalledWith(restarted);
+    const newSession = mockExec.mock.calls.find((c) => (c[1] as string[])?.[0] === 'new-session');
+    const args = newSession![1] as string[];
+    expect(args).toContain(`bb-${info.id}`);
+    expect(args.at(-1)).toContain(`'claude' '--resume' '${info.conversationId}' '--verbose'`);
+    expect(mockExec.mock.calls.some((c) => (c[1] as string[])?.[0] === 'pipe-pane')).toBe(true);
+    sm.off('restarted', handler);
+  });
+
+  it('auto-restarts a session whose exit status is a failure', async () => {
+    const info = await sm.spawn({ restartPolicy: { mode: 'on-failure', backoffMs: 100 } });
+    const { readFileSync } = await import('fs');
+    vi.mocked(readFileSync).mockImplementation(((p: string) =>
+      p.endsWith(`${info.id}.exit`) ? '1\n' : '{}') as any);
+    emitPipeDirEvent(`${info.id}.exit`);
+    expect(sm.getInfo(info.id)!.status).toBe('exited');
+
+    vi.mocked(readFileSync).mockReturnValue('{}');
+    vi.clearAllMocks();
+    setupTmuxMock();
+    await vi.advanceTimersByTimeAsync(100);
+    expect(sm.getInfo(info.id)!.status).toBe('running');
+    expect(sm.getInfo(info.id)!.restartCount).toBe(1);
+    expect(mockExec.mock.calls.some((c) => (c[1] as string[])?.[0] === 'new-session')).toBe(true);
+  });
+
+  it('restart rejects running sessions', async () => {
+    const info = await sm.spawn();
+    await expect(sm.restart(info.id)).rejects.toThrow('still running');
+    expect(await sm.restart('nonexistent')).toBeUndefined();
+  });
+
+  it('reports the exit status written by the session wrapper', async () => {
+    const info = await sm.spawn();
+    const handler = vi.fn();
+    sm.on('exit', handler);
+    const { readFileSync } = await import('fs');
+    let status = '';
+    vi.mocked(readFileSync).mockImplementation(((p: string) =>
+      p.endsWith(`${info.id}.exit`) ? status : '{}') as any);
+
+    // Created but not yet written — not an exit
+    emitPipeDirEvent(`${info.id}.exit`);
+    expect(handler).not.toHaveBeenCalled();
+
+    status = '137\n';
+    emitPipeDirEvent(`${info.id}.exit`);
+
+    expect(handler).toHaveBeenCalledWith(info.id, 137);
+    expect(sm.getInfo(info.id)!.exitCode).toBe(137);
+    const unlinked = mockUnlinkSync.mock.calls.map((c) => c[0] as string);
+    expect(unlinked.some((p) => p.endsWith(`${info.id}.exit`))).toBe(true);
+    vi.mocked(readFileSync).mockReturnValue('{}');
+    sm.off('exit', handler);
+  });
+
+  it('keeps an exited session\'s pipe file until the session is killed', async () => {
+    const info = await sm.spawn();
+    mockUnlinkSync.mockClear(); // spawn replaces any stale pipe file
+    setupTmuxMock({ 'list-sessions': '' });
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(sm.getInfo(info.id)!.status).toBe('exited');
+    const pipeUnlinked = () => mockUnlinkSync.mock.calls.some((c) => (c[0] as string).endsWith(`${info.id}.pipe`));
+    // Still replayable, here and by recover() after a server restart
+    expect(sm.readScrollback(info.id, 0)!.start).toBe(0);
+    expect(pipeUnlinked()).toBe(false);
+
+    await sm.kill(info.id);
+    expect(pipeUnlinked()).toBe(true);
+  });
+
+  it('falls back to fast polling when fs.watch is unavailable', async () => {
+    await sm.killAll();
+    mockWatch.mockImplementationOnce(() => { throw new Error('ENOSPC'); });
+    sm = new TmuxSessionManager();
+    const info = await sm.spawn();
+    const handler = vi.fn();
+    sm.on('output', handler);
+
+    mockStatSync.mockReturnValue({ isDirectory: () => true, size: 2 } as any);
+    mockReadSync.mockImplementationOnce(((_fd: number, buf: Buffer) => buf.write('hi')) as any);
+    await vi.advanceTimersByTimeAsync(50);
+    expect(handler).toHaveBeenCalledWith(info.id, 'hi', 2);
+
+    setupTmuxMock({ 'list-sessions': '' });
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(sm.getInfo(info.id)!.status).toBe('exited');
+  });
+
+  it('re-checks 50 watched sessions once a second for output the watcher missed', async () => {
+    const timers = vi.getTimerCount();
+    const infos = [];
+    for (let i = 0; i < 50; i++) infos.push(await sm.spawn());
+    expect(vi.getTimerCount()).toBe(timers);
+    const last = infos[49];
+    const handler = vi.fn();
+    sm.on('output', handler);
+
+    // Output lands without a watcher event
+    mockStatSync.mockImplementation(((p: string) =>
+      ({ isDirectory: () => true, size: p.endsWith(`${last.id}.pipe`) ? 2 : 0 })) as any);
+    mockReadSync.mockImplementationOnce(((_fd: number, buf: Buffer) => buf.write('hi')) as any);
+    await vi.advanceTimersByTimeAsync(500);
+    expect(handler).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(500);
+    expect(handler).toHaveBeenCalledWith(last.id, 'hi', 2);
+    sm.off('output', handler);
+  });
+
+  it('spaces out fallback pipe polling as sessions are added', async () => {
+    await sm.killAll();
+    mockWatch.mockImplementationOnce(() => { throw new Error('ENOSPC'); });
+    sm = new TmuxSessionManager();
+    const infos = [];
+    for (let i = 0; i < 50; i++) infos.push(await sm.spawn());
+    // The poll due 50ms after start sees 50 sessions and waits 250ms for the next
+    await vi.advanceTimersByTimeAsync(300);
+    const last = infos[49];
+    const handler = vi.fn();
+    sm.on('output', handler);
+
+    mockStatSync.mockImplementation(((p: string) =>
+      ({ isDirectory: () => true, size: p.endsWith(`${last.id}.pipe`) ? 2 : 0 })) as any);
+    mockReadSync.mockImplementationOnce(((_fd: number, buf: Buffer) => buf.write('hi')) as any);
+    // 50 sessions at 200 pipe checks a second: every 250ms, not every 50ms
+    await vi.advanceTimersByTimeAsync(100);
+    expect(handler).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(150);
+    expect(handler).toHaveBeenCalledWith(last.id, 'hi', 2);
+    sm.off('output', handler);
+  });
+
+  it('runs claude under sh so its exit status is recorded', async () => {
+    const info = await sm.spawn({ args: ['--verbose'] });
+    const newSessionCall = mockExec.mock.calls.find(
+      (c) => (c[1] as string[])?.[0] === 'new-session',
+    );
+    const args = newSessionCall![1] as string[];
+    expect(args.slice(-3, -1)).toEqual(['sh', '-c']);
+    expect(args.at(-1)).toMatch(new RegExp(`^'claude' '--session-id' '${info.conversationId}' '--verbose'; echo \\$\\? > '.*${info.id}\\.exit'$`));
+  });
+
+  it('does not mark sessions as exited if tmux reports them running', async () => {
+    const info = await sm.spawn();
     const tmuxName = `bb-${info.id}`;
 
     setupTmuxMock({ 'list-sessions': tmuxName });
-    vi.advanceTimersByTime(2000);
+    await vi.advanceTimersByTimeAsync(10_000);
 
     expect(sm.getInfo(info.id)!.status).toBe('running');
   });
 
-  it('logs warning on unexpected tmux poll error', () => {
-    sm.spawn();
+  it('logs warning on unexpected tmux poll error', async () => {
+    await sm.spawn();
     const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
 
     // Simulate an unexpected error (not exit code 1)
@@ -434,11 +685,33 @@ describe('TmuxSessionManager', () => {
       return '' as any;
     });
 
-    vi.advanceTimersByTime(2000);
+    await vi.advanceTimersByTimeAsync(10_000);
     expect(warnSpy).toHaveBeenCalledWith(expect.stringContaining('tmux list-sessions failed'));
     warnSpy.mockRestore();
   });
 
+  it('keeps sessions running when list-sessions fails unexpectedly', async () => {
+    const info = await sm.spawn();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    setupTmuxMock({
+      'list-sessions': () => {
+        throw Object.assign(new Error('timed out'), { status: 124 });
+      },
+    });
+
+    await vi.advanceTimersByTimeAsync(10_000);
+    expect(sm.getInfo(info.id)!.status).toBe('running');
+    vi.mocked(console.warn).mockRestore();
+  });
+
+  it('counts spawns still waiting on tmux toward the session limit', async () => {
+    for (let i = 0; i < 99; i++) await sm.spawn();
+    const pending = [sm.spawn(), sm.spawn()];
+    await expect(pending[0]).resolves.toBeDefined();
+    await expect(pending[1]).rejects.toThrow('Session limit reached');
+    expect(sm.count()).toBe(100);
+  });
+
   // ── recover ───────────────────────────────────────────────────────────────
 
   it('recovers existing tmux sessions', async () => {
@@ -489,6 +762,7 @@ describe('TmuxSessionManager', () => {
       if (typeof p === 'string' && p.includes('def67890.json')) return true;
       return true;
     });
+    mockReaddirSync.mockReturnValue(['def67890.json'] as any);
     const { readFileSync } = await import('fs');
     vi.mocked(readFileSync).mockReturnValue(JSON.stringify(meta));
 
@@ -500,6 +774,120 @@ describe('TmuxSessionManager', () => {
     expect(sessions[0].group).toBe('project');
     expect(sessions[0].status).toBe('running');
     expect(sessions[0].detailedState).toBe('idle');
+    // Accumulated metrics carry over instead of restarting from zero
+    expect(sessions[0].totalWorkingMs).toBe(10000);
+    expect(sessions[0].totalPermissionWaitMs).toBe(2000);
+    expect(sessions[0].totalIdleMs).toBeGreaterThanOrEqual(5000);
+    mockReaddirSync.mockReturnValue([]);
+  });
+
+  it('keeps a still-attached pipe file and replays it as scrollback', async () => {
+    mockExec.mockImplementation((_cmd: any, args: any) => {
+      const a = args as string[];
+      if (a[0] === 'list-sessions') return 'bb-abc12345' as any;
+      if (a[0] === 'display-message') return (a.includes('#{pane_pipe}') ? '1' : '/tmp') as any;
+      if (a[0] === 'list-panes') return '12345' as any;
+      return '' as any;
+    });
+    const file = Buffer.from('previous output\r\n\u276f ');
+    mockStatSync.mockImplementation(() => ({ isDirectory: () => true, size: file.length }) as any);
+    mockReadSync.mockImplementation(((_fd: number, buf: Buffer, off: number, len: number, pos: number) =>
+      file.copy(buf, off, pos, pos + len)) as any);
+
+    expect(await sm.recover()).toBe(1);
+
+    const subCmds = mockExec.mock.calls.map((c) => (c[1] as string[])[0]);
+    expect(subCmds).not.toContain('pipe-pane');
+    const unlinked = mockUnlinkSync.mock.calls.map((c) => c[0] as string);
+    expect(unlinked.some((p) => p.endsWith('abc12345.pipe'))).toBe(false);
+    const slice = sm.readScrollback('abc12345')!;
+    expect(slice.data).toBe('previous output\r\n\u276f ');
+    expect(slice.end).toBe(file.length);
+  });
+
+  it('seeds a fresh pipe file from full pane history when no pipe is attached', async () => {
+    setupTmuxMock({
+      'list-sessions': 'bb-abc12345',
+      'capture-pane': 'line 1\nline 2',
+    });
+
+    expect(await sm.recover()).toBe(1);
+
+    const captureArgs = mockExec.mock.calls.map((c) => c[1] as string[]).find((a) => a[0] === 'capture-pane')!;
+    expect(captureArgs).toEqual(expect.arrayContaining(['-e', '-S', '-']));
+    const pipeWrite = mockWriteFileSync.mock.calls.find((c) => (c[0] as string).endsWith('abc12345.pipe'))!;
+    expect(pipeWrite[1]).toBe('line 1\r\nline 2');
+    const subCmds = mockExec.mock.calls.map((c) => (c[1] as string[])[0]);
+    expect(subCmds).toContain('pipe-pane');
+  });
+
+  it('restores stored sessions without a live tmux session as exited history', async () => {
+    const meta: SessionInfo = {
+      id: 'aaa11111',
+      name: 'finished',
+      group: 'project',
+      cwd: '/home/user/app',
+      status: 'exited',
+      detailedState: 'idle',
+      exitCode: 0,
+      pid: null,
+      createdAt: '2024-01-01T00:00:00Z',
+      cols: 120,
+      rows: 40,
+      lastActivityAt: '2024-01-01T00:00:00Z',
+      task: 'ship it',
+      taskStartedAt: '2024-01-01T00:00:00Z',
+      compactionCount: 1,
+      totalWorkingMs: 42000,
+      totalIdleMs: 1000,
+      totalPermissionWaitMs: 0,
+    };
+
+    setupTmuxMock({ 'list-sessions': '' });
+    mockReaddirSync.mockReturnValue(['aaa11111.json'] as any);
+    const { readFileSync } = await import('fs');
+    vi.mocked(readFileSync).mockReturnValue(JSON.stringify(meta));
+
+    const count = await sm.recover();
+
+    expect(count).toBe(0);
+    const info = sm.getInfo('aaa11111')!;
+    expect(info.status).toBe('exited');
+    expect(info.exitCode).toBe(0);
+    expect(info.task).toBe('ship it');
+    expect(info.totalWorkingMs).toBe(42000);
+    mockReaddirSync.mockReturnValue([]);
+  });
+
+  it('persists final state on natural exit', async () => {
+    const info = await sm.spawn({ task: 'long job' });
+    vi.clearAllMocks();
+
+    setupTmuxMock({ 'list-sessions': '' });
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    const metaWrites = mockWriteFileSync.mock.calls.filter(
+      (c) => (c[0] as string).includes(`sessions/${info.id}.json`),
+    );
+    expect(metaWrites.length).toBe(1);
+    const saved = JSON.parse(metaWrites[0][1] as string);
+    expect(saved.status).toBe('exited');
+    expect(saved.task).toBe('long job');
+  });
+
+  it('shutdown keeps sessions in the store as exited', async () => {
+    const info = await sm.spawn();
+    vi.clearAllMocks();
+    setupTmuxMock();
+
+    await sm.shutdown();
+
+    const unlinkCalls = mockUnlinkSync.mock.calls.map((c) => c[0] as string);
+    expect(unlinkCalls.some((p) => p.endsWith(`${info.id}.json`))).toBe(false);
+    const metaWrites = mockWriteFileSync.mock.calls.filter(
+      (c) => (c[0] as string).includes(`sessions/${info.id}.json`),
+    );
+    expect(JSON.parse(metaWrites.at(-1)![1] as string).exitCode).toBe(-1);
   });
 
   it('recover returns 0 when no tmux server', async () => {
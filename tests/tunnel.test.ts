@@ -0,0 +1,116 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import type { spawn } from 'child_process';
+import { TunnelManager, createProvider, HEALTH_INTERVAL_MS, MAX_HEALTH_FAILURES } from '../src/server/tunnel.js';
+import type { TunnelStatus } from '../src/server/types.js';
+
+class FakeChild extends EventEmitter {
+  stdout = new PassThrough();
+  stderr = new PassThrough();
+  killed = false;
+  constructor(public cmd: string, public args: string[]) { super(); }
+  kill() {
+    this.killed = true;
+    this.emit('exit', null, 'SIGTERM');
+    return true;
+  }
+}
+
+describe('createProvider', () => {
+  it('builds provider command lines for the local origin', () => {
+    expect(createProvider('cloudflared').command('https://127.0.0.1:18900'))
+      .toEqual(['cloudflared', 'tunnel', '--url', 'https://127.0.0.1:18900', '--no-tls-verify']);
+    expect(createProvider('ssh', { BB_TUNNEL_SSH_TARGET: 'me@example.com' }).command('http://127.0.0.1:18900'))
+      .toContain('80:127.0.0.1:18900');
+    const custom = createProvider('custom', { BB_TUNNEL_COMMAND: 'bore local {port} --to bore.pub', BB_TUNNEL_URL_REGEX: 'listening at (\\S+)' });
+    expect(custom.command('http://127.0.0.1:18900')).toEqual(['bore', 'local', '18900', '--to', 'bore.pub']);
+  });
+
+  it('rejects unknown providers and incomplete custom settings', () => {
+    expect(() => createProvider('carrier-pigeon')).toThrow('Unknown tunnel provider');
+    expect(() => createProvider('custom', { BB_TUNNEL_COMMAND: 'bore local {port}' })).toThrow('BB_TUNNEL_URL_REGEX');
+  });
+});
+
+describe('TunnelManager', () => {
+  let children: FakeChild[];
+  let healthy: boolean;
+  let statuses: TunnelStatus[];
+  let tunnel: TunnelManager;
+
+  const fakeSpawn = ((cmd: string, args: string[]) => {
+    const child = new FakeChild(cmd, args);
+    children.push(child);
+    return child;
+  }) as unknown as typeof spawn;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    children = [];
+    healthy = true;
+    statuses = [];
+    tunnel = new TunnelManager(createProvider('cloudflared'), 'http://127.0.0.1:18900', fakeSpawn, async () => healthy);
+    tunnel.on('status', (s: TunnelStatus) => statuses.push(s));
+  });
+
+  afterEach(() => {
+    tunnel.stop();
+    vi.useRealTimers();
+  });
+
+  it('scrapes the public URL from the program output', () => {
+    tunnel.start();
+    expect(tunnel.getStatus()).toMatchObject({ provider: 'cloudflared', state: 'starting', url: null });
+    children[0].stderr.emit('data', Buffer.from('INF |  https://fancy-words-here.trycloudflare.com  |'));
+    expect(tunnel.getStatus()).toMatchObject({ state: 'up', url: 'https://fancy-words-here.trycloudflare.com' });
+    expect(statuses.map((s) => s.state)).toEqual(['starting', 'up']);
+  });
+
+  it('restarts the program with backoff when it exits', async () => {
+    tunnel.start();
+    children[0].emit('exit', 1, null);
+    expect(tunnel.getStatus()).toMatchObject({ state: 'down', lastError: 'cloudflared exited (code 1)' });
+
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(children).toHaveLength(2);
+    expect(tunnel.getStatus()).toMatchObject({ state: 'starting', restarts: 1 });
+
+    children[1].emit('exit', 1, null);
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(children).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(children).toHaveLength(3);
+  });
+
+  it('gives up when the program is not installed', async () => {
+    tunnel.start();
+    children[0].emit('error', Object.assign(new Error('spawn cloudflared ENOENT'), { code: 'ENOENT' }));
+    await vi.advanceTimersByTimeAsync(120_000);
+    expect(children).toHaveLength(1);
+    expect(tunnel.getStatus()).toMatchObject({ state: 'down', lastError: 'cloudflared not found' });
+  });
+
+  it('restarts a tunnel that stops answering', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    tunnel.start();
+    children[0].stdout.emit('data', Buffer.from('https://abc.trycloudflare.com'));
+    healthy = false;
+    await vi.advanceTimersByTimeAsync(HEALTH_INTERVAL_MS * (MAX_HEALTH_FAILURES - 1));
+    expect(children[0].killed).toBe(false);
+    await vi.advanceTimersByTimeAsync(HEALTH_INTERVAL_MS);
+    expect(children[0].killed).toBe(true);
+    expect(tunnel.getStatus().state).toBe('down');
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(children).toHaveLength(2);
+  });
+
+  it('stays stopped after stop()', async () => {
+    tunnel.start();
+    tunnel.stop();
+    expect(children[0].killed).toBe(true);
+    await vi.advanceTimersByTimeAsync(120_000);
+    expect(children).toHaveLength(1);
+    expect(tunnel.getStatus().state).toBe('stopped');
+  });
+});
@@ -0,0 +1,216 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { createDecipheriv, createECDH, createPublicKey, hkdfSync, randomBytes, verify } from 'crypto';
+import { WebPushManager, setupWebPush, encryptPayload, vapidAuthorization, generateVapidKeys, isPushEndpoint } from '../src/server/web-push.js';
+import { MemoryPushStore } from '../src/server/push-store.js';
+import { AuthManager, masterId } from '../src/server/auth.js';
+import type { AuthPrincipal, SessionInfo } from '../src/server/types.js';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const master: AuthPrincipal = { name: 'master', tokenId: null, scopes: ['admin'], groups: null, sessionId: null };
+
+/** A browser's side of a push subscription: its key pair and auth secret. */
+function receiver() {
+  const ecdh = createECDH('prime256v1');
+  const publicKey = ecdh.generateKeys();
+  const auth = randomBytes(16);
+  return {
+    ecdh,
+    keys: { p256dh: publicKey.toString('base64url'), auth: auth.toString('base64url') },
+  };
+}
+
+/** Decrypt an aes128gcm push message the way the browser does (RFC 8291). */
+function decrypt(body: Buffer, r: ReturnType<typeof receiver>): string {
+  const salt = body.subarray(0, 16);
+  const idLength = body[20];
+  const senderKey = body.subarray(21, 21 + idLength);
+  const ciphertext = body.subarray(21 + idLength);
+  const receiverKey = Buffer.from(r.keys.p256dh, 'base64url');
+  const hkdf = (ikm: Buffer, s: Buffer, info: string | Buffer, n: number) => Buffer.from(hkdfSync('sha256', ikm, s, info, n));
+  const ikm = hkdf(r.ecdh.computeSecret(senderKey), Buffer.from(r.keys.auth, 'base64url'),
+    Buffer.concat([Buffer.from('WebPush: info\0'), receiverKey, senderKey]), 32);
+  const decipher = createDecipheriv('aes-128-gcm', hkdf(ikm, salt, 'Content-Encoding: aes128gcm\0', 16), hkdf(ikm, salt, 'Content-Encoding: nonce\0', 12));
+  decipher.setAuthTag(ciphertext.subarray(-16));
+  const padded = Buffer.concat([decipher.update(ciphertext.subarray(0, -16)), decipher.final()]);
+  expect(padded[padded.length - 1]).toBe(2);
+  return padded.subarray(0, -1).toString();
+}
+
+describe('encryptPayload', () => {
+  it('produces a message only the subscription can decrypt', () => {
+    const r = receiver();
+    const body = encryptPayload(r.keys, Buffer.from('{"title":"hello"}'));
+    expect(body.readUInt32BE(16)).toBe(4096);
+    expect(decrypt(body, r)).toBe('{"title":"hello"}');
+    expect(() => decrypt(body, receiver())).toThrow();
+  });
+});
+
+describe('vapidAuthorization', () => {
+  it('signs a JWT for the push service origin', () => {
+    const keys = generateVapidKeys();
+    const header = vapidAuthorization('https://fcm.googleapis.com/send/abc', keys, 'mailto:ops@example.com', 1_700_000_000_000);
+    const [, jwt, k] = header.match(/^vapid t=([^,]+), k=(.+)$/)!;
+    expect(k).toBe(keys.publicKey);
+
+    const [h, claims, signature] = jwt.split('.');
+    expect(JSON.parse(Buffer.from(h, 'base64url').toString())).toEqual({ typ: 'JWT', alg: 'ES256' });
+    expect(JSON.parse(Buffer.from(claims, 'base64url').toString())).toEqual({
+      aud: 'https://fcm.googleapis.com',
+      exp: 1_700_000_000 + 12 * 60 * 60,
+      sub: 'mailto:ops@example.com',
+    });
+
+    const point = Buffer.from(keys.publicKey, 'base64url');
+    const publicKey = createPublicKey({
+      key: { kty: 'EC', crv: 'P-256', x: point.subarray(1, 33).toString('base64url'), y: point.subarray(33).toString('base64url') },
+      format: 'jwk',
+    });
+    expect(verify('sha256', Buffer.from(`${h}.${claims}`), { key: publicKey, dsaEncoding: 'ieee-p1363' }, Buffer.from(signature, 'base64url'))).toBe(true);
+  });
+});
+
+describe('WebPushManager', () => {
+  it('keeps its key pair in the store', () => {
+    const store = new MemoryPushStore();
+    const push = new WebPushManager(store);
+    expect(Buffer.from(push.publicKey, 'base64url')).toHaveLength(65);
+    expect(new WebPushManager(store).publicKey).toBe(push.publicKey);
+  });
+
+  it('validates subscriptions and updates one per endpoint', () => {
+    const push = new WebPushManager();
+    const { keys } = receiver();
+    expect(() => push.subscribe({ endpoint: 'http://fcm.googleapis.com/x', keys }, master)).toThrow('https');
+    expect(() => push.subscribe({ endpoint: 'https://fcm.googleapis.com/x', keys: { ...keys, auth: 'short' } }, master)).toThrow('keys.auth');
+    expect(() => push.subscribe({ endpoint: 'https://fcm.googleapis.com/x', keys, states: ['exited'] }, master)).toThrow('states');
+
+    const sub = push.subscribe({ endpoint: 'https://fcm.googleapis.com/x', keys }, master);
+    expect(sub.states).toEqual(['permission_needed', 'error']);
+    const updated = push.subscribe({ endpoint: 'https://fcm.googleapis.com/x', keys, states: ['idle'] }, master);
+    expect(updated).toMatchObject({ id: sub.id, states: ['idle'] });
+    expect(push.list()).toHaveLength(1);
+  });
+
+  it('only accepts endpoints on known push services', () => {
+    const push = new WebPushManager();
+    const { keys } = receiver();
+    for (const endpoint of ['https://127.0.0.1/x', 'https://localhost:8443/x', 'https://10.0.0.5/admin', 'https://fcm.googleapis.com.evil.example/x', 'https://metadata.google.internal/x']) {
+      expect(() => push.subscribe({ endpoint, keys }, master)).toThrow('known push service');
+    }
+    expect(isPushEndpoint('https://updates.push.services.mozilla.com/wpush/v2/abc')).toBe(true);
+    expect(isPushEndpoint('https://web.push.apple.com/abc')).toBe(true);
+    expect(isPushEndpoint('https://wns2-by3p.notify.windows.com/w/?token=abc')).toBe(true);
+  });
+
+  it('never sends to a stored endpoint off the push services', async () => {
+    const push = new WebPushManager();
+    const sub = push.subscribe({ endpoint: 'https://fcm.googleapis.com/x', keys: receiver().keys }, master);
+    mockFetch.mockClear();
+    await push.send({ ...sub, endpoint: 'https://169.254.169.254/latest' }, { title: 't', body: 'b', sessionId: 's', state: 'error', timestamp: '' });
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('setupWebPush', () => {
+  const infos: Record<string, SessionInfo> = {
+    s1: { id: 's1', name: 'web-worker', group: 'web', task: 'Fix login', pendingPermission: null } as SessionInfo,
+    s2: { id: 's2', name: 'api-worker', group: 'api', task: null, pendingPermission: null } as SessionInfo,
+  };
+  let sessions: EventEmitter & { getInfo(id: string): SessionInfo | undefined };
+  let stop: () => void;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({ ok: true, status: 201 });
+    sessions = Object.assign(new EventEmitter(), { getInfo: (id: string) => infos[id] });
+  });
+
+  afterEach(() => {
+    stop();
+    vi.restoreAllMocks();
+  });
+
+  it('pushes subscribed states of sessions the subscriber can read', async () => {
+    const push = new WebPushManager();
+    const r = receiver();
+    push.subscribe({ endpoint: 'https://fcm.googleapis.com/web', keys: r.keys }, { ...master, scopes: ['read'], groups: ['web'] });
+    stop = setupWebPush(sessions as any, push);
+
+    sessions.emit('stateChange', 's1', 'working', 'idle');
+    sessions.emit('stateChange', 's2', 'error', 'working');
+    sessions.emit('stateChange', 's1', 'error', 'working');
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+
+    const [url, opts] = mockFetch.mock.calls[0];
+    expect(url).toBe('https://fcm.googleapis.com/web');
+    expect(opts.headers).toMatchObject({ 'Content-Encoding': 'aes128gcm', TTL: '86400', Urgency: 'high' });
+    expect(opts.headers.Authorization).toMatch(/^vapid t=.+, k=/);
+    expect(JSON.parse(decrypt(Buffer.from(opts.body), r))).toMatchObject({
+      title: 'web-worker hit an error',
+      body: 'Fix login',
+      sessionId: 's1',
+      state: 'error',
+    });
+  });
+
+  it('skips muted sessions', async () => {
+    const push = new WebPushManager();
+    push.subscribe({ endpoint: 'https://fcm.googleapis.com/all', keys: receiver().keys }, master);
+    stop = setupWebPush(sessions as any, push);
+
+    infos.s2.mute = { until: null, events: ['state:error'] };
+    sessions.emit('stateChange', 's2', 'error', 'working');
+    sessions.emit('stateChange', 's2', 'permission_needed', 'working');
+    infos.s2.mute = null;
+    await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('drops subscriptions the push service no longer knows', async () => {
+    mockFetch.mockResolvedValue({ ok: false, status: 410 });
+    const push = new WebPushManager();
+    push.subscribe({ endpoint: 'https://fcm.googleapis.com/gone', keys: receiver().keys }, master);
+    stop = setupWebPush(sessions as any, push);
+
+    sessions.emit('stateChange', 's1', 'error', 'working');
+    await vi.waitFor(() => expect(push.list()).toEqual([]));
+  });
+
+  it('drops subscriptions of revoked tokens', () => {
+    const auth = new AuthManager('master-token');
+    const { token } = auth.create({ name: 'phone', scopes: ['read'] });
+    const push = new WebPushManager();
+    push.subscribe({ endpoint: 'https://fcm.googleapis.com/phone', keys: receiver().keys }, auth.authenticate(token)!);
+    push.subscribe({ endpoint: 'https://fcm.googleapis.com/desk', keys: receiver().keys }, master, masterId('master-token'));
+    stop = setupWebPush(sessions as any, push, auth);
+
+    auth.revoke('phone');
+    expect(push.list().map((s) => s.endpoint)).toEqual(['https://fcm.googleapis.com/desk']);
+  });
+
+  it('drops master token subscriptions once a rotation\'s grace period ends', () => {
+    vi.useFakeTimers();
+    try {
+      const auth = new AuthManager('master-token');
+      const push = new WebPushManager();
+      push.subscribe({ endpoint: 'https://fcm.googleapis.com/desk', keys: receiver().keys }, master, masterId('master-token'));
+      // Stored before subscriptions recorded their master token
+      push.subscribe({ endpoint: 'https://fcm.googleapis.com/old', keys: receiver().keys }, master);
+      stop = setupWebPush(sessions as any, push, auth);
+      expect(push.list().map((s) => s.endpoint)).toEqual(['https://fcm.googleapis.com/desk']);
+
+      const { token } = auth.rotate(60_000);
+      push.subscribe({ endpoint: 'https://fcm.googleapis.com/laptop', keys: receiver().keys }, master, masterId(token));
+      expect(push.list()).toHaveLength(2);
+      vi.advanceTimersByTime(60_000);
+      expect(push.list().map((s) => s.endpoint)).toEqual(['https://fcm.googleapis.com/laptop']);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WebhookDeliveries, signWebhook, MAX_ATTEMPTS, RETRY_BASE_MS } from '../src/server/webhook-delivery.js';
+import { MemoryWebhookStore } from '../src/server/webhook-store.js';
+import type { WebhookSubscription } from '../src/server/types.js';
+
+const mockFetch = vi.fn();
+vi.stubGlobal('fetch', mockFetch);
+
+const webhook: WebhookSubscription = {
+  id: 'w1',
+  url: 'http://receiver.local/hook',
+  events: ['*'],
+  groups: null,
+  template: null,
+  secret: 'whsec_test-secret-123',
+  createdAt: new Date().toISOString(),
+};
+
+const respond = (status: number) => ({ ok: status >= 200 && status < 300, status });
+
+describe('WebhookDeliveries', () => {
+  let store: MemoryWebhookStore;
+  let deliveries: WebhookDeliveries;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockFetch.mockReset();
+    store = new MemoryWebhookStore();
+    deliveries = new WebhookDeliveries(store);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('signs the body with the timestamp', async () => {
+    mockFetch.mockResolvedValue(respond(200));
+    const delivery = deliveries.send(webhook, 'state:error', '{"event":"state:error"}');
+    await vi.advanceTimersByTimeAsync(0);
+
+    const [url, opts] = mockFetch.mock.calls[0];
+    expect(url).toBe('http://receiver.local/hook');
+    const headers = opts.headers as Record<string, string>;
+    expect(headers['X-BullyBuddy-Event']).toBe('state:error');
+    expect(headers['X-BullyBuddy-Delivery']).toBe(delivery.id);
+    const timestamp = Number(headers['X-BullyBuddy-Timestamp']);
+    expect(Math.abs(timestamp - Date.now() / 1000)).toBeLessThan(2);
+    expect(headers['X-BullyBuddy-Signature']).toBe(signWebhook(webhook.secret!, timestamp, '{"event":"state:error"}'));
+    expect(headers['X-BullyBuddy-Signature']).toMatch(/^sha256=[0-9a-f]{64}$/);
+
+    expect(deliveries.list()).toMatchObject([{ id: delivery.id, status: 'delivered', attempts: [{ statusCode: 200, error: null }] }]);
+  });
+
+  it('sends unsigned requests without a secret', async () => {
+    mockFetch.mockResolvedValue(respond(204));
+    deliveries.send({ ...webhook, secret: null }, 'state:error', '{}');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockFetch.mock.calls[0][1].headers).not.toHaveProperty('X-BullyBuddy-Signature');
+  });
+
+  it('retries server errors and network failures with backoff', async () => {
+    mockFetch
+      .mockResolvedValueOnce(respond(503))
+      .mockRejectedValueOnce(new Error('ECONNREFUSED'))
+      .mockResolvedValueOnce(respond(200));
+    const delivery = deliveries.send(webhook, 'session:exited', '{}');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(delivery).toMatchObject({ status: 'retrying' });
+    expect(delivery.nextAttemptAt).not.toBeNull();
+
+    await vi.advanceTimersByTimeAsync(RETRY_BASE_MS);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(RETRY_BASE_MS * 2 - 1);
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(mockFetch).toHaveBeenCalledTimes(3);
+
+    expect(delivery.status).toBe('delivered');
+    expect(delivery.attempts.map((a) => [a.statusCode, a.error])).toEqual([[503, 'HTTP 503'], [null, 'ECONNREFUSED'], [200, null]]);
+    // The delivery id stays the same across attempts
+    expect(new Set(mockFetch.mock.calls.map(([, opts]) => opts.headers['X-BullyBuddy-Delivery'])).size).toBe(1);
+    expect(store.loadDeadLetters()).toEqual([]);
+  });
+
+  it('dead-letters a delivery after the last attempt', async () => {
+    mockFetch.mockResolvedValue(respond(500));
+    const delivery = deliveries.send(webhook, 'state:error', '{"a":1}');
+    await vi.advanceTimersByTimeAsync(RETRY_BASE_MS * 2 ** MAX_ATTEMPTS);
+
+    expect(mockFetch).toHaveBeenCalledTimes(MAX_ATTEMPTS);
+    expect(delivery.status).toBe('failed');
+    expect(deliveries.list({ status: 'failed' })).toHaveLength(1);
+    expect(new WebhookDeliveries(store).listDeadLetters()).toMatchObject([
+      { id: delivery.id, webhookId: 'w1', url: webhook.url, body: '{"a":1}', status: 'failed' },
+    ]);
+  });
+
+  it('does not retry other client errors', async () => {
+    mockFetch.mockResolvedValue(respond(404));
+    const delivery = deliveries.send(webhook, 'state:error', '{}');
+    await vi.advanceTimersByTimeAsync(60_000);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(delivery.status).toBe('failed');
+    expect(deliveries.listDeadLetters()).toHaveLength(1);
+  });
+
+  it('redelivers a dead letter to the webhook', async () => {
+    mockFetch.mockResolvedValueOnce(respond(400)).mockResolvedValue(respond(200));
+    const failed = deliveries.send(webhook, 'task:done', '{"b":2}');
+    await vi.advanceTimersByTimeAsync(0);
+
+    const moved = { ...webhook, url: 'http://receiver.local/new' };
+    const retried = deliveries.redeliver(failed.id, moved);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(retried).toMatchObject({ event: 'task:done', status: 'delivered' });
+    expect(mockFetch.mock.calls[1][0]).toBe('http://receiver.local/new');
+    expect(mockFetch.mock.calls[1][1].body).toBe('{"b":2}');
+    expect(deliveries.listDeadLetters()).toEqual([]);
+    expect(store.loadDeadLetters()).toEqual([]);
+    expect(deliveries.redeliver(failed.id, moved)).toBeUndefined();
+  });
+
+  it('filters the delivery log', async () => {
+    mockFetch.mockResolvedValue(respond(200));
+    deliveries.send(webhook, 'a', '{}');
+    deliveries.send({ ...webhook, id: 'w2' }, 'b', '{}');
+    deliveries.send(webhook, 'c', '{}');
+    await vi.advanceTimersByTimeAsync(0);
+    expect(deliveries.list({ webhookId: 'w1' }).map((d) => d.event)).toEqual(['a', 'c']);
+    expect(deliveries.list({ limit: 1 }).map((d) => d.event)).toEqual(['c']);
+  });
+});
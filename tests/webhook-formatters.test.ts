@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import { createServer, type IncomingHttpHeaders, type Server } from 'http';
+import { formatSlack, formatDiscord, formatDuration } from '../src/server/webhook-formatters.js';
+import { setupWebhook, WebhookManager, type WebhookPayload } from '../src/server/webhook.js';
+import { MemoryWebhookStore } from '../src/server/webhook-store.js';
+import { signWebhook } from '../src/server/webhook-delivery.js';
+import type { SessionInfo } from '../src/server/types.js';
+
+const payload: WebhookPayload = {
+  event: 'state:permission_needed',
+  sessionId: 'abc123',
+  sessionName: 'worker-1',
+  group: 'web',
+  state: 'permission_needed',
+  timestamp: '2026-01-01T00:00:00.000Z',
+  task: 'Fix <the> login & signup bug',
+  totalWorkingMs: 125_000,
+  compactionCount: 0,
+  pendingPermission: { tool: 'Bash command', command: 'npm test', filePath: null, question: 'Do you want to proceed?', options: [] },
+};
+
+describe('formatDuration', () => {
+  it('picks the two largest units', () => {
+    expect(formatDuration(45_000)).toBe('45s');
+    expect(formatDuration(125_000)).toBe('2m 5s');
+    expect(formatDuration(3_900_000)).toBe('1h 5m');
+  });
+});
+
+describe('formatSlack', () => {
+  it('renders session name, group, state, task and working time', () => {
+    const msg = formatSlack(payload) as { text: string; attachments: { color: string; blocks: any[] }[] };
+    expect(msg.text).toBe('worker-1 needs permission — Bash command: npm test');
+    const [attachment] = msg.attachments;
+    expect(attachment.color).toBe('#ecb22e');
+    expect(attachment.blocks[0].text.text).toBe('*worker-1* needs permission — Bash command: npm test');
+    expect(attachment.blocks[1].fields.map((f: { text: string }) => f.text)).toEqual([
+      '*Group*\nweb',
+      '*State*\npermission_needed',
+      '*Task*\nFix &lt;the&gt; login &amp; signup bug',
+      '*Working time*\n2m 5s',
+    ]);
+    expect(attachment.blocks[2].elements[0].text).toBe('session abc123 · state:permission_needed');
+  });
+
+  it('describes alerts as warnings', () => {
+    const msg = formatSlack({
+      ...payload,
+      event: 'alert:stuck',
+      state: 'working',
+      alert: { kind: 'stuck', sessionId: 'abc123', threshold: 600_000, value: 630_000, timestamp: payload.timestamp },
+    }) as { text: string; attachments: { color: string }[] };
+    expect(msg.text).toBe('worker-1 looks stuck — working for 10m 30s with no new output');
+    expect(msg.attachments[0].color).toBe('#ecb22e');
+  });
+
+  it('describes audit events without a session', () => {
+    const msg = formatSlack({
+      event: 'audit:token:create',
+      timestamp: payload.timestamp,
+      audit: { timestamp: payload.timestamp, action: 'token:create', source: 'rest', actor: 'master', summary: 'ci (read)', result: 'ok' },
+    }) as { text: string; attachments: { blocks: unknown[] }[] };
+    expect(msg.text).toBe('BullyBuddy token:create by master: ci (read)');
+    expect(msg.attachments[0].blocks).toHaveLength(2);
+  });
+});
+
+describe('formatDiscord', () => {
+  it('renders one embed', () => {
+    expect(formatDiscord({ ...payload, event: 'task:done', state: 'idle' })).toEqual({
+      embeds: [{
+        title: 'worker-1 finished a task',
+        color: 0x2eb67d,
+        fields: [
+          { name: 'Group', value: 'web', inline: true },
+          { name: 'State', value: 'idle', inline: true },
+          { name: 'Task', value: 'Fix <the> login & signup bug', inline: false },
+          { name: 'Working time', value: '2m 5s', inline: true },
+        ],
+        footer: { text: 'session abc123 · task:done' },
+        timestamp: '2026-01-01T00:00:00.000Z',
+      }],
+    });
+  });
+});
+
+describe('webhook formats', () => {
+  it('rejects unknown formats and templates on chat formats', () => {
+    const webhooks = new WebhookManager(new MemoryWebhookStore(), '');
+    expect(webhooks.create({ url: 'https://hooks.slack.com/services/x', format: 'slack' }).format).toBe('slack');
+    expect(() => webhooks.create({ url: 'https://example.com/x', format: 'teams' })).toThrow('format');
+    expect(() => webhooks.create({ url: 'https://example.com/x', format: 'slack', template: { text: '{{event}}' } })).toThrow('template');
+  });
+});
+
+describe('chat webhooks against a stub server', () => {
+  const received: { path: string; headers: IncomingHttpHeaders; body: string }[] = [];
+  let server: Server;
+  let base: string;
+  let sessions: EventEmitter & { getInfo(id: string): SessionInfo | undefined };
+  let stop: () => void;
+
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      let body = '';
+      req.on('data', (c) => { body += c; });
+      req.on('end', () => {
+        received.push({ path: req.url ?? '', headers: req.headers, body });
+        res.writeHead(200).end('ok');
+      });
+    });
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as { port: number }).port}`;
+  });
+
+  afterAll(() => {
+    server.close();
+  });
+
+  afterEach(() => {
+    received.length = 0;
+    sessions.removeAllListeners();
+    stop();
+  });
+
+  async function waitFor(n: number): Promise<void> {
+    const deadline = Date.now() + 2000;
+    while (received.length < n && Date.now() < deadline) await new Promise((r) => setTimeout(r, 10));
+  }
+
+  it('routes each group to its own channel in its format', async () => {
+    const infos: Record<string, SessionInfo> = {
+      s1: { id: 's1', name: 'web-worker', group: 'web', detailedState: 'error', task: null, totalWorkingMs: 0, compactionCount: 0 } as SessionInfo,
+      s2: { id: 's2', name: 'api-worker', group: 'api', detailedState: 'error', task: null, totalWorkingMs: 0, compactionCount: 0 } as SessionInfo,
+    };
+    sessions = Object.assign(new EventEmitter(), { getInfo: (id: string) => infos[id] });
+    const webhooks = new WebhookManager(new MemoryWebhookStore(), '');
+    const slack = webhooks.create({ url: `${base}/slack/web`, events: ['state:error'], groups: ['web'], format: 'slack' });
+    webhooks.create({ url: `${base}/discord/api`, events: ['state:error'], groups: ['api'], format: 'discord' });
+    stop = setupWebhook(sessions as any, webhooks);
+
+    sessions.emit('stateChange', 's1', 'error', 'working');
+    sessions.emit('stateChange', 's2', 'error', 'working');
+    await waitFor(2);
+
+    const byPath = Object.fromEntries(received.map((r) => [r.path, r]));
+    expect(Object.keys(byPath).sort()).toEqual(['/discord/api', '/slack/web']);
+    expect(JSON.parse(byPath['/slack/web'].body).text).toBe('web-worker hit an error');
+    expect(JSON.parse(byPath['/discord/api'].body).embeds[0].title).toBe('api-worker hit an error');
+
+    const { headers, body } = byPath['/slack/web'];
+    expect(headers['x-bullybuddy-signature']).toBe(signWebhook(slack.secret!, Number(headers['x-bullybuddy-timestamp']), body));
+  });
+});
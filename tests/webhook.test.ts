@@ -1,6 +1,6 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { EventEmitter } from 'events';
-import type { SessionInfo } from '../src/server/types.js';
+import type { DetailedState, SessionInfo, SessionMute } from '../src/server/types.js';
 
 // Must set env BEFORE importing webhook module (WEBHOOK_URL is evaluated at import time)
 vi.hoisted(() => {
@@ -8,10 +8,14 @@ vi.hoisted(() => {
 });
 
 // Mock global fetch
-const mockFetch = vi.fn().mockResolvedValue({ ok: true });
+const mockFetch = vi.fn().mockResolvedValue({ ok: true, status: 200 });
 vi.stubGlobal('fetch', mockFetch);
 
-import { setupWebhook, muteSession, unmuteSession, isMuted } from '../src/server/webhook.js';
+import { setupWebhook, isMuted, parseMute, expireMutes, WebhookManager, renderTemplate, ENV_WEBHOOK_ID } from '../src/server/webhook.js';
+import { MemoryWebhookStore } from '../src/server/webhook-store.js';
+import { auditLog } from '../src/server/audit-log.js';
+import { SessionWatchdog, ALERT_EVENTS } from '../src/server/session-watchdog.js';
+import { Thresholds } from '../src/server/thresholds.js';
 
 function makeSessionInfo(overrides: Partial<SessionInfo> & { id: string }): SessionInfo {
   return {
@@ -36,8 +40,21 @@ function makeSessionInfo(overrides: Partial<SessionInfo> & { id: string }): Sess
   };
 }
 
+/** Session manager stand-in: state changes emitted on it drive a watchdog with the default thresholds, like the real ones. */
 class MockSessions extends EventEmitter {
   private infos = new Map<string, SessionInfo>();
+  private watchdog = new SessionWatchdog(new Thresholds('/nonexistent/thresholds.json'), (alert) => {
+    this.emit(ALERT_EVENTS[alert.kind], alert.sessionId, alert);
+  });
+
+  constructor() {
+    super();
+    this.on('stateChange', (id: string, state: DetailedState) => {
+      const info = this.infos.get(id);
+      if (info) this.watchdog.onStateChange(info, state);
+    });
+    this.on('exit', (id: string) => this.watchdog.remove(id));
+  }
 
   addSession(info: SessionInfo): void {
     this.infos.set(info.id, info);
@@ -46,25 +63,40 @@ class MockSessions extends EventEmitter {
   getInfo(id: string): SessionInfo | undefined {
     return this.infos.get(id);
   }
+
+  list(): SessionInfo[] {
+    return [...this.infos.values()];
+  }
+
+  setMute(id: string, mute: SessionMute | null): boolean {
+    const info = this.infos.get(id);
+    if (!info) return false;
+    info.mute = mute;
+    this.emit('mute', id, mute);
+    return true;
+  }
 }
 
 describe('Webhook', () => {
   let sessions: MockSessions;
+  let stop: () => void;
 
   beforeEach(() => {
     vi.useFakeTimers();
     mockFetch.mockClear();
     sessions = new MockSessions();
-    setupWebhook(sessions as any);
+    stop = setupWebhook(sessions as any);
   });
 
   afterEach(() => {
     vi.useRealTimers();
     sessions.removeAllListeners();
+    stop();
   });
 
   it('fires webhook on permission_needed state', async () => {
-    const info = makeSessionInfo({ id: 's1', name: 'worker-1' });
+    const pendingPermission = { tool: 'Bash command', command: 'npm test', filePath: null, question: 'Do you want to proceed?', options: [] };
+    const info = makeSessionInfo({ id: 's1', name: 'worker-1', pendingPermission });
     sessions.addSession(info);
 
     sessions.emit('stateChange', 's1', 'permission_needed', 'working');
@@ -77,6 +109,7 @@ describe('Webhook', () => {
     expect(body.event).toBe('state:permission_needed');
     expect(body.sessionId).toBe('s1');
     expect(body.sessionName).toBe('worker-1');
+    expect(body.pendingPermission).toEqual(pendingPermission);
   });
 
   it('fires webhook on error state', async () => {
@@ -89,6 +122,7 @@ describe('Webhook', () => {
     expect(mockFetch).toHaveBeenCalledTimes(1);
     const body = JSON.parse(mockFetch.mock.calls[0][1].body);
     expect(body.event).toBe('state:error');
+    expect(body).not.toHaveProperty('pendingPermission');
   });
 
   it('does not fire webhook on working or idle state', () => {
@@ -121,6 +155,23 @@ describe('Webhook', () => {
     expect(mockFetch).toHaveBeenCalledTimes(1);
     const body = JSON.parse(mockFetch.mock.calls[0][1].body);
     expect(body.event).toBe('state:long_idle');
+    expect(body.idleSinceMs).toBe(60_000);
+  });
+
+  it('fires alert events with the threshold crossed', async () => {
+    const webhooks = new WebhookManager(new MemoryWebhookStore(), '');
+    webhooks.create({ url: 'http://test-webhook.local/alerts', events: ['alert:*'] });
+    const stopAlerts = setupWebhook(sessions as any, webhooks);
+    sessions.addSession(makeSessionInfo({ id: 's13' }));
+    sessions.emit('stateChange', 's13', 'permission_needed', 'working');
+
+    await vi.advanceTimersByTimeAsync(10 * 60_000);
+    stopAlerts();
+    expect(mockFetch).toHaveBeenCalledTimes(2);
+    expect(mockFetch.mock.calls[1][0]).toBe('http://test-webhook.local/alerts');
+    const body = JSON.parse(mockFetch.mock.calls[1][1].body);
+    expect(body.event).toBe('alert:permission_timeout');
+    expect(body.alert).toMatchObject({ kind: 'permission_timeout', sessionId: 's13', threshold: 600_000, value: 600_000 });
   });
 
   it('cancels long_idle timer on new activity', async () => {
@@ -153,10 +204,9 @@ describe('Webhook', () => {
   });
 
   it('does not fire webhook for muted sessions', () => {
-    const info = makeSessionInfo({ id: 's7' });
+    const info = makeSessionInfo({ id: 's7', mute: { until: null, events: null } });
     sessions.addSession(info);
 
-    muteSession('s7');
     sessions.emit('stateChange', 's7', 'permission_needed', 'working');
 
     expect(mockFetch).not.toHaveBeenCalled();
@@ -166,11 +216,11 @@ describe('Webhook', () => {
     const info = makeSessionInfo({ id: 's8' });
     sessions.addSession(info);
 
-    muteSession('s8');
+    sessions.setMute('s8', { until: null, events: null });
     sessions.emit('stateChange', 's8', 'permission_needed', 'working');
     expect(mockFetch).not.toHaveBeenCalled();
 
-    unmuteSession('s8');
+    sessions.setMute('s8', null);
     sessions.emit('stateChange', 's8', 'error', 'permission_needed');
 
     await vi.advanceTimersByTimeAsync(0);
@@ -226,14 +276,244 @@ describe('Webhook', () => {
     await vi.advanceTimersByTimeAsync(120_000);
     expect(mockFetch).not.toHaveBeenCalled();
   });
+
+  it('only leaves out the muted events', async () => {
+    sessions.addSession(makeSessionInfo({ id: 's12', mute: { until: null, events: ['state:error'] } }));
+
+    sessions.emit('stateChange', 's12', 'error', 'working');
+    sessions.emit('exit', 's12', 1);
+
+    await vi.advanceTimersByTimeAsync(0);
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+    expect(JSON.parse(mockFetch.mock.calls[0][1].body).event).toBe('session:exited');
+  });
+});
+
+describe('isMuted', () => {
+  const now = Date.parse('2026-01-01T12:00:00Z');
+  const muted = (mute: SessionMute | null, event: string) => isMuted(makeSessionInfo({ id: 'x', mute }), event, now);
+
+  it('covers every event or the matching ones', () => {
+    expect(isMuted(undefined, 'state:error')).toBe(false);
+    expect(muted(null, 'state:error')).toBe(false);
+    expect(muted({ until: null, events: null }, 'task:done')).toBe(true);
+    expect(muted({ until: null, events: ['state:*'] }, 'state:error')).toBe(true);
+    expect(muted({ until: null, events: ['state:*'] }, 'session:exited')).toBe(false);
+  });
+
+  it('ends when until passes', () => {
+    expect(muted({ until: '2026-01-01T12:30:00.000Z', events: null }, 'state:error')).toBe(true);
+    expect(muted({ until: '2026-01-01T11:30:00.000Z', events: null }, 'state:error')).toBe(false);
+  });
+});
+
+describe('parseMute', () => {
+  const now = Date.parse('2026-01-01T12:00:00Z');
+
+  it('turns a duration into until', () => {
+    expect(parseMute(undefined, now)).toEqual({ until: null, events: null });
+    expect(parseMute({ for: 3600, events: ['state:*'] }, now)).toEqual({ until: '2026-01-01T13:00:00.000Z', events: ['state:*'] });
+  });
+
+  it('rejects invalid fields', () => {
+    expect(() => parseMute({ for: 0 })).toThrow('for must be');
+    expect(() => parseMute({ for: '1h' })).toThrow('for must be');
+    expect(() => parseMute({ for: 400 * 24 * 60 * 60 })).toThrow('for must be');
+    expect(() => parseMute({ events: [] })).toThrow('events must be');
+    expect(() => parseMute({ events: ['not an event'] })).toThrow('events must be');
+  });
+});
+
+describe('expireMutes', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('unmutes sessions when until passes', () => {
+    const sessions = new MockSessions();
+    const until = (ms: number) => new Date(Date.now() + ms).toISOString();
+    sessions.addSession(makeSessionInfo({ id: 'a', mute: { until: until(60_000), events: null } }));
+    sessions.addSession(makeSessionInfo({ id: 'b', mute: { until: null, events: null } }));
+    const stop = expireMutes(sessions as any);
+
+    sessions.setMute('b', { until: until(120_000), events: null });
+    vi.advanceTimersByTime(60_000);
+    expect(sessions.getInfo('a')!.mute).toBeNull();
+    expect(sessions.getInfo('b')!.mute).not.toBeNull();
+
+    // A newer mute replaces the pending expiry
+    sessions.setMute('b', { until: null, events: null });
+    vi.advanceTimersByTime(120_000);
+    expect(sessions.getInfo('b')!.mute).toEqual({ until: null, events: null });
+    stop();
+  });
+});
+
+describe('WebhookManager', () => {
+  it('creates subscriptions with the default events and persists them', () => {
+    const store = new MemoryWebhookStore();
+    const webhooks = new WebhookManager(store, '');
+    const created = webhooks.create({ url: 'https://example.com/hook' });
+    expect(created).toMatchObject({
+      url: 'https://example.com/hook',
+      events: ['state:permission_needed', 'state:error', 'state:long_idle', 'session:exited'],
+      groups: null,
+      template: null,
+    });
+    expect(new WebhookManager(store, '').get(created.id)).toEqual(created);
+  });
+
+  it('updates and removes subscriptions', () => {
+    const webhooks = new WebhookManager(new MemoryWebhookStore(), '');
+    const { id } = webhooks.create({ url: 'https://example.com/hook', groups: ['web'] });
+    expect(webhooks.update(id, { events: ['state:*'] })).toMatchObject({ url: 'https://example.com/hook', events: ['state:*'], groups: ['web'] });
+    expect(webhooks.update(id, { groups: null })?.groups).toBeNull();
+    expect(webhooks.update('nope', { events: ['*'] })).toBeUndefined();
+    expect(webhooks.remove(id)?.id).toBe(id);
+    expect(webhooks.list()).toEqual([]);
+  });
+
+  it('rejects invalid requests', () => {
+    const webhooks = new WebhookManager(new MemoryWebhookStore(), '');
+    expect(() => webhooks.create({})).toThrow('url');
+    expect(() => webhooks.create({ url: 'ftp://example.com' })).toThrow('url');
+    expect(() => webhooks.create({ url: 'https://example.com', events: [] })).toThrow('events');
+    expect(() => webhooks.create({ url: 'https://example.com', events: ['state error'] })).toThrow('events');
+    expect(() => webhooks.create({ url: 'https://example.com', groups: [] })).toThrow('groups');
+    expect(() => webhooks.create({ url: 'https://example.com', template: 42 })).toThrow('template');
+  });
+
+  it('generates a signing secret unless one is given', () => {
+    const webhooks = new WebhookManager(new MemoryWebhookStore(), '');
+    expect(webhooks.create({ url: 'https://example.com/a' }).secret).toMatch(/^whsec_/);
+    expect(webhooks.create({ url: 'https://example.com/b', secret: 'my-own-secret-value' }).secret).toBe('my-own-secret-value');
+    expect(() => webhooks.create({ url: 'https://example.com/c', secret: 'short' })).toThrow('secret');
+  });
+
+  it('refuses to redeliver to a removed webhook', async () => {
+    vi.useFakeTimers();
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    mockFetch.mockResolvedValueOnce({ ok: false, status: 410 });
+    const webhooks = new WebhookManager(new MemoryWebhookStore(), '');
+    const webhook = webhooks.create({ url: 'https://example.com/gone' });
+    const delivery = webhooks.deliveries.send(webhook, 'state:error', '{}');
+    await vi.advanceTimersByTimeAsync(0);
+    webhooks.remove(webhook.id);
+    expect(() => webhooks.redeliver(delivery.id)).toThrow('no longer exists');
+    expect(webhooks.redeliver('nope')).toBeUndefined();
+    warn.mockRestore();
+    vi.useRealTimers();
+  });
+
+  it('lists BB_OPENCLAW_WEBHOOK_URL as a fixed subscription', () => {
+    const webhooks = new WebhookManager(new MemoryWebhookStore(), 'http://openclaw.local/hook');
+    expect(webhooks.list()).toMatchObject([{ id: ENV_WEBHOOK_ID, url: 'http://openclaw.local/hook' }]);
+    expect(() => webhooks.remove(ENV_WEBHOOK_ID)).toThrow('BB_OPENCLAW_WEBHOOK_URL');
+    expect(() => webhooks.update(ENV_WEBHOOK_ID, { events: ['*'] })).toThrow('BB_OPENCLAW_WEBHOOK_URL');
+  });
+
+  it('matches events by pattern and group', () => {
+    const webhooks = new WebhookManager(new MemoryWebhookStore(), '');
+    const all = webhooks.create({ url: 'https://example.com/a', events: ['state:*', 'audit:session:*'] });
+    const web = webhooks.create({ url: 'https://example.com/b', events: ['*'], groups: ['web'] });
+    expect(webhooks.matching('state:working', 'api').map((w) => w.id)).toEqual([all.id]);
+    expect(webhooks.matching('state:working', 'web').map((w) => w.id)).toEqual([all.id, web.id]);
+    expect(webhooks.matching('audit:session:kill', 'web').map((w) => w.id)).toEqual([all.id, web.id]);
+    expect(webhooks.matching('audit:token:create').map((w) => w.id)).toEqual([]);
+    expect(webhooks.matching('session:exited', 'web').map((w) => w.id)).toEqual([web.id]);
+  });
 });
 
-describe('muteSession / unmuteSession / isMuted', () => {
-  it('tracks mute state', () => {
-    expect(isMuted('x')).toBe(false);
-    muteSession('x');
-    expect(isMuted('x')).toBe(true);
-    unmuteSession('x');
-    expect(isMuted('x')).toBe(false);
+describe('renderTemplate', () => {
+  it('fills placeholders, keeping values that make up a whole string', () => {
+    const payload = { event: 'state:error', timestamp: 't', sessionName: 'worker', totalWorkingMs: 1500, task: null, audit: undefined };
+    expect(renderTemplate({
+      text: '{{sessionName}} hit {{event}} after {{ totalWorkingMs }}ms{{task}}',
+      ms: '{{totalWorkingMs}}',
+      missing: '{{pendingPermission.tool}}',
+      list: ['{{sessionName}}', 1, true],
+    }, payload)).toEqual({
+      text: 'worker hit state:error after 1500ms',
+      ms: 1500,
+      missing: null,
+      list: ['worker', 1, true],
+    });
+  });
+});
+
+describe('Webhook subscriptions', () => {
+  let sessions: MockSessions;
+  let webhooks: WebhookManager;
+  let stop: () => void;
+
+  const sent = () => mockFetch.mock.calls.map(([url, opts]) => ({ url, body: JSON.parse(opts.body) }));
+
+  beforeEach(() => {
+    mockFetch.mockClear();
+    sessions = new MockSessions();
+    webhooks = new WebhookManager(new MemoryWebhookStore(), '');
+    stop = setupWebhook(sessions as any, webhooks);
+  });
+
+  afterEach(() => {
+    sessions.removeAllListeners();
+    stop();
+  });
+
+  it('sends each subscription the events and groups it asked for', () => {
+    webhooks.create({ url: 'http://a.local/', events: ['state:*'] });
+    webhooks.create({ url: 'http://b.local/', events: ['state:working'], groups: ['web'] });
+    sessions.addSession(makeSessionInfo({ id: 's1', group: 'web' }));
+    sessions.addSession(makeSessionInfo({ id: 's2', group: 'api' }));
+
+    sessions.emit('stateChange', 's1', 'working', 'idle');
+    sessions.emit('stateChange', 's2', 'working', 'idle');
+
+    expect(sent().map((c) => [c.url, c.body.sessionId])).toEqual([
+      ['http://a.local/', 's1'],
+      ['http://b.local/', 's1'],
+      ['http://a.local/', 's2'],
+    ]);
+    expect(sent()[0].body).toMatchObject({ event: 'state:working', state: 'working', previousState: 'idle' });
+  });
+
+  it('renders templated bodies', () => {
+    webhooks.create({ url: 'http://a.local/', events: ['state:error'], template: { text: '{{sessionName}} ({{group}}) failed' } });
+    sessions.addSession(makeSessionInfo({ id: 's1', name: 'worker', group: 'web' }));
+
+    sessions.emit('stateChange', 's1', 'error', 'working');
+
+    expect(sent()[0].body).toEqual({ text: 'worker (web) failed' });
+  });
+
+  it('sends spawn and task events', () => {
+    webhooks.create({ url: 'http://a.local/', events: ['session:created', 'task:*'] });
+    const info = makeSessionInfo({ id: 's1' });
+    sessions.addSession(info);
+    const task = { id: 't1', text: 'write tests', status: 'queued' as const, createdAt: 'x', startedAt: null, finishedAt: null };
+
+    sessions.emit('created', info);
+    sessions.emit('tasks', 's1', [task]);
+    sessions.emit('tasks', 's1', [{ ...task, status: 'running' }]);
+    sessions.emit('tasks', 's1', [{ ...task, status: 'done' }]);
+    sessions.emit('tasks', 's1', [{ ...task, status: 'done' }]);
+
+    expect(sent().map((c) => c.body.event)).toEqual(['session:created', 'task:started', 'task:done']);
+    expect(sent()[2].body).toMatchObject({ sessionId: 's1', task: 'write tests', taskId: 't1' });
+  });
+
+  it('sends audit log entries', () => {
+    webhooks.create({ url: 'http://a.local/', events: ['audit:session:*'], groups: ['web'] });
+    sessions.addSession(makeSessionInfo({ id: 's1', name: 'worker', group: 'web' }));
+
+    auditLog({ action: 'session:kill', sessionId: 's1', source: 'rest', actor: 'ci', result: 'ok' });
+    auditLog({ action: 'token:create', source: 'rest', result: 'ok' });
+
+    expect(sent()).toHaveLength(1);
+    expect(sent()[0].body).toMatchObject({
+      event: 'audit:session:kill',
+      sessionName: 'worker',
+      group: 'web',
+      audit: { action: 'session:kill', actor: 'ci' },
+    });
   });
 });
@@ -9,6 +9,8 @@ vi.mock('node-pty', async () => {
 
 import { SessionManager } from '../src/server/session-manager.js';
 import { WsBridge } from '../src/server/ws-bridge.js';
+import { AuthManager } from '../src/server/auth.js';
+import { MAX_SCROLLBACK_READ_BYTES } from '../src/server/scrollback.js';
 import { spawnedPtys } from './pty-mock.js';
 
 const TEST_TOKEN = 'ws-test-token';
@@ -70,12 +72,14 @@ describe('WsBridge', () => {
   let sm: SessionManager;
   let server: Server;
   let bridge: WsBridge;
+  let auth: AuthManager;
   let port: number;
 
   beforeAll(async () => {
     sm = new SessionManager();
     server = createServer();
-    bridge = new WsBridge(server, sm, TEST_TOKEN);
+    auth = new AuthManager(TEST_TOKEN);
+    bridge = new WsBridge(server, sm, auth);
     await new Promise<void>((resolve) => {
       server.listen(0, '127.0.0.1', () => {
         port = (server.address() as { port: number }).port;
@@ -84,14 +88,14 @@ describe('WsBridge', () => {
     });
   });
 
-  afterAll(() => {
-    sm.killAll();
+  afterAll(async () => {
+    await sm.killAll();
     bridge.close();
     server.close();
   });
 
-  afterEach(() => {
-    sm.killAll();
+  afterEach(async () => {
+    await sm.killAll();
     spawnedPtys.length = 0;
   });
 
@@ -100,7 +104,7 @@ describe('WsBridge', () => {
   });
 
   it('sends session list on connect', async () => {
-    sm.spawn({ name: 'ws-test' });
+    await sm.spawn({ name: 'ws-test' });
     const client = await connectWs(port);
     const msg = await client.nextMessage();
     expect(msg.type).toBe('sessions');
@@ -110,7 +114,7 @@ describe('WsBridge', () => {
   });
 
   it('streams output to subscribed clients', async () => {
-    const info = sm.spawn();
+    const info = await sm.spawn();
     const client = await connectWs(port);
 
     // Consume initial sessions message
@@ -133,8 +137,82 @@ describe('WsBridge', () => {
     client.close();
   });
 
+  it('includes the scrollback offset in output messages', async () => {
+    const info = await sm.spawn();
+    const client = await connectWs(port);
+    await client.nextMessage(); // consume sessions list
+
+    client.send({ type: 'subscribe', sessionId: info.id });
+    await new Promise((r) => setTimeout(r, 50));
+
+    spawnedPtys[0].emitData('abc');
+    spawnedPtys[0].emitData('def');
+    const msg = await client.nextMessage();
+    expect(msg.data).toBe('abcdef');
+    expect(msg.offset).toBe(6);
+    client.close();
+  });
+
+  it('replays scrollback on subscribe', async () => {
+    const info = await sm.spawn();
+    spawnedPtys[0].emitData('earlier output');
+    const client = await connectWs(port);
+    await client.nextMessage(); // consume sessions list
+
+    client.send({ type: 'subscribe', sessionId: info.id, cols: 100, rows: 30 });
+    const msg = await client.nextMessage();
+    expect(msg.type).toBe('scrollback');
+    expect(msg.data).toBe('earlier output');
+    // The master token may drive the session, so its size applies
+    expect(sm.getInfo(info.id)).toMatchObject({ cols: 100, rows: 30 });
+    expect(msg.from).toBe(0);
+    expect(msg.offset).toBe(14);
+    client.close();
+  });
+
+  it('resumes from sinceOffset on resubscribe', async () => {
+    const info = await sm.spawn();
+    spawnedPtys[0].emitData('seen ');
+    spawnedPtys[0].emitData('missed');
+    const client = await connectWs(port);
+    await client.nextMessage(); // consume sessions list
+
+    client.send({ type: 'subscribe', sessionId: info.id, sinceOffset: 5 });
+    const msg = await client.nextMessage();
+    expect(msg.type).toBe('scrollback');
+    expect(msg.data).toBe('missed');
+    expect(msg.from).toBe(5);
+    expect(msg.offset).toBe(11);
+
+    // Caught up: still answers so the client knows it resumed gap-free
+    client.send({ type: 'subscribe', sessionId: info.id, sinceOffset: 11 });
+    const caughtUp = await client.nextMessage();
+    expect(caughtUp).toMatchObject({ type: 'scrollback', data: '', from: 11, offset: 11 });
+    client.close();
+  });
+
+  it('replays the newest output when a resume is too far behind for one read', async () => {
+    const info = await sm.spawn();
+    const end = MAX_SCROLLBACK_READ_BYTES + 6;
+    // Pretend offset 0 is more than one read behind the end
+    const read = vi.spyOn(sm, 'readScrollback').mockImplementation((_id, from = 0) =>
+      from === 0
+        ? { data: 'old', from: 0, to: MAX_SCROLLBACK_READ_BYTES, start: 0, end }
+        : { data: 'recent', from, to: end, start: 0, end });
+    const client = await connectWs(port);
+    await client.nextMessage(); // consume sessions list
+
+    client.send({ type: 'subscribe', sessionId: info.id, sinceOffset: 0 });
+    const msg = await client.nextMessage();
+    expect(read.mock.calls.map((c) => c[1])).toEqual([0, 6]);
+    // `from` no longer matches sinceOffset, so the client starts over
+    expect(msg).toMatchObject({ type: 'scrollback', data: 'recent', from: 6, offset: end });
+    read.mockRestore();
+    client.close();
+  });
+
   it('forwards input from client to PTY', async () => {
-    const info = sm.spawn();
+    const info = await sm.spawn();
     const client = await connectWs(port);
     await client.nextMessage(); // consume sessions list
 
@@ -150,7 +228,7 @@ describe('WsBridge', () => {
     await client.nextMessage(); // consume initial sessions list
 
     // Spawn a new session after client is connected — triggers broadcast
-    sm.spawn({ name: 'broadcast-test' });
+    await sm.spawn({ name: 'broadcast-test' });
 
     const msg = await client.nextMessage();
     expect(msg.type).toBe('session:created');
@@ -159,7 +237,7 @@ describe('WsBridge', () => {
   });
 
   it('broadcasts session:exited when PTY exits', async () => {
-    const info = sm.spawn();
+    const info = await sm.spawn();
     const client = await connectWs(port);
     await client.nextMessage(); // consume sessions list
 
@@ -173,7 +251,7 @@ describe('WsBridge', () => {
   });
 
   it('stops streaming after unsubscribe', async () => {
-    const info = sm.spawn();
+    const info = await sm.spawn();
     const client = await connectWs(port);
     await client.nextMessage(); // consume sessions list
 
@@ -195,4 +273,99 @@ describe('WsBridge', () => {
     expect(gotMessage).toBe(false);
     client.close();
   });
+
+  it('limits named tokens to their groups and scopes', async () => {
+    const web = await sm.spawn({ name: 'web-1', group: 'web' });
+    await sm.spawn({ name: 'other-1', group: 'other' });
+    const { token } = auth.create({ name: 'ws-web-reader', scopes: ['read'], groups: ['web'] });
+    const client = await connectWs(port, token);
+
+    const list = await client.nextMessage();
+    expect(list.sessions.map((s: { name: string }) => s.name)).toEqual(['web-1']);
+
+    client.send({ type: 'input', sessionId: web.id, data: 'nope' });
+    const err = await client.nextMessage();
+    expect(err).toMatchObject({ type: 'error' });
+    expect(err.message).toContain('input');
+    expect(spawnedPtys[0].written).not.toContain('nope');
+
+    // Sessions in other groups are not broadcast to the restricted client
+    await sm.spawn({ name: 'other-2', group: 'other' });
+    await sm.spawn({ name: 'web-2', group: 'web' });
+    const created = await client.nextMessage();
+    expect(created).toMatchObject({ type: 'session:created', session: { name: 'web-2' } });
+    client.close();
+    auth.revoke('ws-web-reader');
+  });
+
+  it('lets a share link watch its session but not drive it', async () => {
+    const shared = await sm.spawn({ name: 'shared' });
+    const other = await sm.spawn({ name: 'private' });
+    const client = await connectWs(port, auth.share(shared.id).token);
+
+    const list = await client.nextMessage();
+    expect(list.sessions.map((s: { name: string }) => s.name)).toEqual(['shared']);
+
+    client.send({ type: 'subscribe', sessionId: other.id });
+    expect(await client.nextMessage()).toMatchObject({ type: 'error' });
+
+    client.send({ type: 'resize', sessionId: shared.id, cols: 10, rows: 5 });
+    expect(await client.nextMessage()).toMatchObject({ type: 'error' });
+
+    client.send({ type: 'subscribe', sessionId: shared.id, cols: 10, rows: 5 });
+    await new Promise((r) => setTimeout(r, 50));
+    expect(sm.getInfo(shared.id)).toMatchObject({ cols: 120, rows: 40 });
+    spawnedPtys[0].emitData('visible');
+    spawnedPtys[1].emitData('hidden');
+    const output = await client.nextMessage();
+    expect(output).toMatchObject({ type: 'output', sessionId: shared.id, data: 'visible' });
+    client.close();
+  });
+
+  it('disconnects clients whose token is revoked', async () => {
+    const { token } = auth.create({ name: 'ws-revoked', scopes: ['read'] });
+    const client = await connectWs(port, token);
+    await client.nextMessage(); // consume sessions list
+
+    const closed = new Promise<number>((resolve) => client.ws.on('close', (code) => resolve(code)));
+    auth.revoke('ws-revoked');
+    expect(await closed).toBe(1008);
+  });
+
+  it('disconnects share links when they expire', async () => {
+    const info = await sm.spawn();
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout', 'Date'] });
+    try {
+      const client = await connectWs(port, auth.share(info.id, 60_000).token);
+      await client.nextMessage(); // consume sessions list
+
+      const closed = new Promise<number>((resolve) => client.ws.on('close', (code) => resolve(code)));
+      vi.advanceTimersByTime(60_001);
+      expect(await closed).toBe(1008);
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+
+  it('forgets the group of a session once it is gone', async () => {
+    const info = await sm.spawn({ group: 'gone' });
+    const groups = (bridge as unknown as { sessionGroups: Map<string, string> }).sessionGroups;
+    sm.setMute(info.id, null);
+    expect(groups.get(info.id)).toBe('gone');
+    await sm.kill(info.id);
+    expect(groups.has(info.id)).toBe(false);
+  });
+
+  it('mirrors session mutes to clients', async () => {
+    const info = await sm.spawn();
+    const client = await connectWs(port);
+    await client.nextMessage(); // consume sessions list
+
+    sm.setMute(info.id, { until: null, events: ['state:*'] });
+    expect(await client.nextMessage()).toEqual({ type: 'session:muted', sessionId: info.id, mute: { until: null, events: ['state:*'] } });
+
+    sm.setMute(info.id, null);
+    expect(await client.nextMessage()).toEqual({ type: 'session:muted', sessionId: info.id, mute: null });
+    client.close();
+  });
 });